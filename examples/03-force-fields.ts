@@ -29,10 +29,10 @@ const particles: PhysicsObject[] = [];
 const particleCount = 50;
 
 for (let i = 0; i < particleCount; i++) {
-  // Random position in sphere
-  const theta = Math.random() * Math.PI * 2;
-  const phi = Math.acos(2 * Math.random() - 1);
-  const r = 5 + Math.random() * 3;
+  // Random position in sphere, from the engine's seeded generator so every run matches
+  const theta = engine.random.next() * Math.PI * 2;
+  const phi = Math.acos(2 * engine.random.next() - 1);
+  const r = 5 + engine.random.next() * 3;
   
   const particle = new PhysicsObject({
     id: `particle_${i}`,
@@ -42,7 +42,7 @@ for (let i = 0; i < particleCount; i++) {
       y: r * Math.sin(phi) * Math.sin(theta),
       z: r * Math.cos(phi)
     },
-    mass: 0.1 + Math.random() * 0.2,
+    mass: 0.1 + engine.random.next() * 0.2,
     material: { friction: 0, restitution: 1 }
   });
   
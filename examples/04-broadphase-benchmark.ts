@@ -0,0 +1,191 @@
+/**
+ * Example: Broad-Phase Benchmark
+ *
+ * Compares sweep-and-prune, the spatial hash grid and the dynamic AABB tree
+ * on the same scene: a few large static bodies and thousands of small moving ones.
+ *
+ * Usage: node 04-broadphase-benchmark.js [dynamicBodies] [frames]
+ */
+
+import {
+  SweepAndPrune,
+  SpatialHashGrid,
+  DynamicAABBTree,
+  ColliderFactory,
+  ColliderUtils,
+  Vec3,
+  Quat,
+  Mat3
+} from 'asimulate-sdk';
+import type { BroadPhase, BroadPhasePair, CollisionBody, ObjectConfig, Vector3 } from 'asimulate-sdk';
+
+const DYNAMIC_BODIES = Number(process.argv[2] ?? 2000);
+const FRAMES = Number(process.argv[3] ?? 120);
+const QUERIES = 1000;
+const WORLD_SIZE = 200;
+const DT = 1 / 60;
+
+// Deterministic scene so every broad phase sees identical input
+let seed = 12345;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) >>> 0;
+  return seed / 4294967296;
+};
+const range = (min: number, max: number) => min + random() * (max - min);
+
+function createBody(id: string, config: ObjectConfig, position: Vector3, isStatic: boolean): CollisionBody {
+  const collider = ColliderFactory.fromObjectConfig(config)!;
+  const rotation = Quat.identity();
+  return {
+    id,
+    position,
+    rotation,
+    velocity: isStatic
+      ? Vec3.create()
+      : { x: range(-5, 5), y: range(-5, 5), z: range(-5, 5) },
+    angularVelocity: Vec3.create(),
+    collider,
+    aabb: ColliderUtils.computeAABB(collider, position, rotation),
+    isStatic,
+    isKinematic: false,
+    isSleeping: false,
+    collisionGroup: 1,
+    collisionMask: 0xFFFFFFFF,
+    mass: isStatic ? 0 : 1,
+    invMass: isStatic ? 0 : 1,
+    inertia: Mat3.identity(),
+    invInertia: Mat3.identity(),
+    friction: 0.5,
+    restitution: 0.3
+  };
+}
+
+function createScene(): CollisionBody[] {
+  const bodies: CollisionBody[] = [];
+
+  // Large static geometry: a ground slab and four boundary walls
+  // (boxes rather than a plane, whose infinite bounds the spatial hash cannot index)
+  const half = WORLD_SIZE / 2;
+  bodies.push(createBody('ground', { type: 'box', width: WORLD_SIZE, height: 1, depth: WORLD_SIZE }, { x: 0, y: -0.5, z: 0 }, true));
+  bodies.push(createBody('wall_n', { type: 'box', width: WORLD_SIZE, height: 20, depth: 1 }, { x: 0, y: 10, z: -half }, true));
+  bodies.push(createBody('wall_s', { type: 'box', width: WORLD_SIZE, height: 20, depth: 1 }, { x: 0, y: 10, z: half }, true));
+  bodies.push(createBody('wall_e', { type: 'box', width: 1, height: 20, depth: WORLD_SIZE }, { x: half, y: 10, z: 0 }, true));
+  bodies.push(createBody('wall_w', { type: 'box', width: 1, height: 20, depth: WORLD_SIZE }, { x: -half, y: 10, z: 0 }, true));
+
+  for (let i = 0; i < DYNAMIC_BODIES; i++) {
+    const config: ObjectConfig = random() < 0.5
+      ? { type: 'sphere', radius: range(0.25, 1) }
+      : { type: 'box', width: range(0.5, 2), height: range(0.5, 2), depth: range(0.5, 2) };
+    const position = { x: range(-half, half), y: range(0, 20), z: range(-half, half) };
+    bodies.push(createBody(`body_${i}`, config, position, false));
+  }
+
+  return bodies;
+}
+
+/**
+ * Advance the moving bodies, bouncing them off the world bounds
+ */
+function moveBodies(bodies: CollisionBody[]): void {
+  const half = WORLD_SIZE / 2;
+  for (const body of bodies) {
+    if (body.isStatic) continue;
+    body.position = Vec3.add(body.position, Vec3.scale(body.velocity, DT));
+    if (Math.abs(body.position.x) > half) body.velocity.x = -body.velocity.x;
+    if (body.position.y < 0 || body.position.y > 20) body.velocity.y = -body.velocity.y;
+    if (Math.abs(body.position.z) > half) body.velocity.z = -body.velocity.z;
+    body.aabb = ColliderUtils.computeAABB(body.collider, body.position, body.rotation);
+  }
+}
+
+function time(fn: () => void): number {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+interface BenchmarkResult {
+  broadPhase: string;
+  'insert (ms)': string;
+  'update (ms/frame)': string;
+  'pairs (ms/frame)': string;
+  'pairs/frame': number;
+  'ray (µs)': string;
+  'aabb (µs)': string;
+  'sphere (µs)': string;
+}
+
+function benchmark(name: string, broadPhase: BroadPhase): BenchmarkResult {
+  seed = 12345;
+  const bodies = createScene();
+  const isStatic = new Map(bodies.map(b => [b.id, b.isStatic]));
+
+  const insert = time(() => {
+    for (const body of bodies) broadPhase.insert(body);
+  });
+
+  let update = 0;
+  let pairs = 0;
+  let pairCount = 0;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    moveBodies(bodies);
+    update += time(() => {
+      for (const body of bodies) {
+        if (!body.isStatic) broadPhase.update(body);
+      }
+    });
+    let found: BroadPhasePair[] = [];
+    pairs += time(() => {
+      found = broadPhase.queryPairs();
+    });
+    // The dynamic tree never reports static-static pairs, which the collision step skips anyway
+    pairCount = found.filter(p => !(isStatic.get(p.bodyA) && isStatic.get(p.bodyB))).length;
+  }
+
+  const half = WORLD_SIZE / 2;
+  const points = Array.from({ length: QUERIES }, () => ({
+    x: range(-half, half), y: range(0, 20), z: range(-half, half)
+  }));
+  const directions = Array.from({ length: QUERIES }, () => Vec3.normalize({
+    x: range(-1, 1), y: range(-1, 1), z: range(-1, 1)
+  }));
+
+  const ray = time(() => {
+    for (let i = 0; i < QUERIES; i++) broadPhase.queryRay(points[i], directions[i], 50);
+  });
+  const aabb = time(() => {
+    for (const p of points) {
+      broadPhase.queryAABB({ min: Vec3.sub(p, { x: 5, y: 5, z: 5 }), max: Vec3.add(p, { x: 5, y: 5, z: 5 }) });
+    }
+  });
+  const sphere = time(() => {
+    for (const p of points) broadPhase.querySphere(p, 5);
+  });
+
+  return {
+    broadPhase: name,
+    'insert (ms)': insert.toFixed(2),
+    'update (ms/frame)': (update / FRAMES).toFixed(3),
+    'pairs (ms/frame)': (pairs / FRAMES).toFixed(3),
+    'pairs/frame': pairCount,
+    'ray (µs)': (ray * 1000 / QUERIES).toFixed(1),
+    'aabb (µs)': (aabb * 1000 / QUERIES).toFixed(1),
+    'sphere (µs)': (sphere * 1000 / QUERIES).toFixed(1)
+  };
+}
+
+console.log(`Broad-phase benchmark: ${DYNAMIC_BODIES} dynamic bodies, 5 static, ${FRAMES} frames, ${QUERIES} queries each\n`);
+
+const results = [
+  benchmark('sap', new SweepAndPrune()),
+  benchmark('spatial-hash', new SpatialHashGrid(4)),
+  benchmark('dynamic-tree', new DynamicAABBTree())
+];
+
+console.table(results);
+
+// All three must agree on the final overlap count, otherwise the timings are meaningless
+const counts = new Set(results.map(r => r['pairs/frame']));
+if (counts.size > 1) {
+  console.warn('Broad phases disagree on the number of overlapping pairs!');
+}
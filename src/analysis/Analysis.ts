@@ -1,6 +1,6 @@
 /**
  * ASIMULATE SDK - Analysis Module
- * Time series analysis, FFT, statistics, and peak finding
+ * Time series analysis, FFT, statistics, peak finding and fluid statistics
  */
 
 import { 
@@ -31,6 +31,13 @@ export interface TrendResult {
   trend: 'increasing' | 'decreasing' | 'stable';
 }
 
+export interface FluidStatistics {
+  density: Statistics; // kg/m³
+  pressure: Statistics; // Pa
+  speed: Statistics; // m/s
+  meanVelocity: Vector3;
+}
+
 export class Analysis {
   
   // ==================== Statistics ====================
@@ -848,6 +855,40 @@ export class Analysis {
       curvature
     };
   }
+
+  // ==================== Fluids ====================
+
+  /**
+   * Density, pressure and speed statistics over the particles of a fluid
+   * (see Fluid), with velocities as flat x, y, z triples
+   */
+  static fluidStatistics(fluid: {
+    densities: ArrayLike<number>;
+    pressures: ArrayLike<number>;
+    velocities: ArrayLike<number>;
+  }): FluidStatistics {
+    const { velocities } = fluid;
+    const count = Math.floor(velocities.length / 3);
+    const speeds: number[] = [];
+    const meanVelocity = { x: 0, y: 0, z: 0 };
+
+    for (let i = 0; i < count; i++) {
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      speeds.push(Math.sqrt(vx * vx + vy * vy + vz * vz));
+      meanVelocity.x += vx / count;
+      meanVelocity.y += vy / count;
+      meanVelocity.z += vz / count;
+    }
+
+    return {
+      density: this.statistics(Array.from(fluid.densities)),
+      pressure: this.statistics(Array.from(fluid.pressures)),
+      speed: this.statistics(speeds),
+      meanVelocity
+    };
+  }
 }
 
 export default Analysis;
@@ -0,0 +1,517 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Engine } from '../core/Engine';
+import { ObjectConfig, Vector3 } from '../types';
+import { GJK, ConvexSupport, Collider, CollisionBody, BroadPhase, BroadPhasePair, DynamicAABBTree, SweepAndPrune, AABBUtils, CollisionFilter } from './CollisionSystem';
+
+const IDENTITY = { x: 0, y: 0, z: 0, w: 1 };
+
+function groundedEngine(): Engine {
+  const engine = new Engine({ timeStep: 1 / 60 });
+  engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+  engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+  return engine;
+}
+
+function run(engine: Engine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.step();
+}
+
+const staticBase: ObjectConfig = { id: 'base', type: 'box', width: 2, height: 1, depth: 2, isStatic: true, position: { x: 0, y: 0.5, z: 0 } };
+
+// ============================================================================
+// GJK / EPA NARROW PHASE
+// ============================================================================
+
+describe('GJK/EPA', () => {
+  const sphere = (position: Vector3, radius: number) => ConvexSupport.bind(
+    { type: 'sphere', radius, offset: { x: 0, y: 0, z: 0 }, rotation: IDENTITY } as Collider, position, IDENTITY
+  );
+
+  it('reports the penetration of overlapping spheres', () => {
+    const a = sphere({ x: 0, y: 0, z: 0 }, 1);
+    const b = sphere({ x: 1.5, y: 0, z: 0 }, 1);
+    const simplex = GJK.intersect(a, b, { x: 1, y: 0, z: 0 });
+    expect(simplex).toBeTruthy();
+
+    const hit = GJK.penetration(simplex!, a, b)!;
+    expect(hit.depth).toBeCloseTo(0.5, 2);
+    expect(hit.normal.x).toBeCloseTo(1, 2);
+  });
+
+  it('finds no intersection between separated shapes', () => {
+    expect(GJK.intersect(sphere({ x: 0, y: 0, z: 0 }, 1), sphere({ x: 2.1, y: 0, z: 0 }, 1), { x: 1, y: 0, z: 0 })).toBeFalsy();
+  });
+
+  it('stands a cylinder upright on a box with a multi-point manifold', () => {
+    const engine = groundedEngine();
+    engine.addObject(staticBase);
+    const cylinder = engine.addObject({ id: 'cyl', type: 'cylinder', radius: 0.3, height: 1, mass: 1, position: { x: 0.35, y: 1.5, z: 0 } });
+
+    let contacts = 0;
+    engine.onCollisionStay((info) => {
+      if (info.objectA === 'cyl' || info.objectB === 'cyl') contacts = Math.max(contacts, info.contactPoints.length);
+    });
+    run(engine, 300);
+
+    expect(contacts).toBeGreaterThanOrEqual(3);
+    expect(cylinder.position.y).toBeCloseTo(1.5, 1);
+    expect(cylinder.position.x).toBeCloseTo(0.35, 1);
+    expect(Math.abs(cylinder.rotation.w)).toBeGreaterThan(0.999);
+  });
+
+  it('rests a cone and a convex hull on their flat faces', () => {
+    const engine = groundedEngine();
+    const vertices: Vector3[] = [];
+    for (const x of [-0.5, 0.5]) for (const y of [-0.5, 0.5]) for (const z of [-0.5, 0.5]) vertices.push({ x, y, z });
+    const cone = engine.addObject({ id: 'cone', type: 'cone', radius: 0.4, height: 0.8, mass: 1, position: { x: -2, y: 1, z: 0 } });
+    const hull = engine.addObject({ id: 'hull', type: 'convex-hull', vertices, mass: 1, position: { x: 2, y: 1, z: 0 } });
+    run(engine, 300);
+
+    expect(cone.position.y).toBeCloseTo(0.2, 1);
+    expect(hull.position.y).toBeCloseTo(0.5, 1);
+    expect(Math.abs(cone.rotation.w)).toBeGreaterThan(0.999);
+    expect(Math.abs(hull.rotation.w)).toBeGreaterThan(0.999);
+  });
+});
+
+// ============================================================================
+// STATIC TERRAIN
+// ============================================================================
+
+describe('heightmap and mesh colliders', () => {
+  // 21x21 samples over 20x20 m, rippling along x
+  const ripple = (x: number) => 0.5 * Math.sin(0.3 * (x + 10));
+  const heights = Array.from({ length: 21 }, () => Array.from({ length: 21 }, (_, j) => ripple(j - 10)));
+
+  function terrain(): Engine {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    engine.addObject({ id: 'terrain', type: 'heightmap', heightmapData: heights, width: 20, depth: 20, isStatic: true });
+    return engine;
+  }
+
+  it('raycasts onto the heightmap surface', () => {
+    const [hit] = terrain().raycast({ x: 1, y: 5, z: -2.7 }, { x: 0, y: -1, z: 0 }, { maxDistance: 20 });
+
+    expect(hit.objectId).toBe('terrain');
+    expect(hit.point.y).toBeCloseTo(ripple(1), 6);
+    expect(hit.triangleIndex).toBeGreaterThanOrEqual(0);
+    expect(hit.normal.y).toBeGreaterThan(0.9);
+  });
+
+  it('rests an upright cylinder on the heightmap', () => {
+    const engine = terrain();
+    const cylinder = engine.addObject({ id: 'cyl', type: 'cylinder', radius: 0.4, height: 1, mass: 2, position: { x: -4, y: 3, z: -3 } });
+    run(engine, 240);
+
+    expect(cylinder.position.y).toBeCloseTo(ripple(-4) + 0.5, 1);
+    expect(cylinder.position.x).toBeCloseTo(-4, 1);
+  });
+
+  it('rests a box on a triangle-mesh floor', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    const vertices = [
+      { x: -5, y: 0, z: -5 }, { x: 5, y: 0, z: 5 }, { x: 5, y: 0, z: -5 },
+      { x: -5, y: 0, z: -5 }, { x: -5, y: 0, z: 5 }, { x: 5, y: 0, z: 5 },
+    ];
+    engine.addObject({ id: 'floor', type: 'mesh', vertices, isStatic: true });
+    const crate = engine.addObject({ id: 'box', type: 'box', width: 1, height: 1, depth: 1, mass: 1, position: { x: 1, y: 2, z: 1 } });
+    run(engine, 180);
+
+    expect(crate.position.y).toBeCloseTo(0.5, 1);
+    expect(Math.abs(crate.rotation.w)).toBeGreaterThan(0.999);
+
+    const [hit] = engine.raycast({ x: 2, y: 3, z: -1 }, { x: 0, y: -1, z: 0 }, { maxDistance: 20 });
+    expect(hit.objectId).toBe('floor');
+    expect(hit.distance).toBeCloseTo(3, 6);
+    expect(hit.triangleIndex).toBe(0);
+  });
+});
+
+// ============================================================================
+// COMPOUND BODIES
+// ============================================================================
+
+describe('compound bodies', () => {
+  const dumbbell: ObjectConfig = {
+    id: 'dumbbell',
+    type: 'compound',
+    position: { x: 0, y: 3, z: 0 },
+    children: [
+      { type: 'sphere', radius: 0.3, position: { x: -1, y: 0, z: 0 }, mass: 1 },
+      { type: 'sphere', radius: 0.3, position: { x: 1, y: 0, z: 0 }, mass: 3 },
+      { type: 'box', width: 2, height: 0.1, depth: 0.1, mass: 0 },
+    ],
+  };
+
+  it('sums child mass properties about the combined centre of mass', () => {
+    const engine = new Engine();
+    const body = engine.addObject(dumbbell);
+
+    expect(body.mass).toBe(4);
+    expect(body.position.x).toBeCloseTo(0.5, 9);
+    // Sphere inertia 2/5 m r^2 plus the parallel-axis terms 1 * 1.5^2 + 3 * 0.5^2
+    expect(body.inertiaTensor.elements[4]).toBeCloseTo(0.036 + 0.108 + 3, 6);
+    expect(body.inertiaTensor.elements[0]).toBeCloseTo(0.144, 6);
+  });
+
+  it('collides through each child and reports which one touched', () => {
+    const engine = groundedEngine();
+    const body = engine.addObject(dumbbell);
+    const children = new Set<number>();
+    engine.onCollisionStart((info) => info.contactPoints.forEach(contact => {
+      const child = info.objectA === 'dumbbell' ? contact.childA : contact.childB;
+      if (child !== undefined) children.add(child);
+    }));
+    run(engine, 180);
+
+    expect([...children].sort()).toEqual([0, 1]);
+    expect(body.position.y).toBeCloseTo(0.3, 1);
+    expect(Math.abs(body.rotation.w)).toBeGreaterThan(0.999);
+  });
+});
+
+// ============================================================================
+// CONTINUOUS COLLISION DETECTION
+// ============================================================================
+
+describe('continuous collision detection', () => {
+  function fire(mode: 'discrete' | 'continuous'): { x: number; hits: number } {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: 0, z: 0 } });
+    engine.addObject({ id: 'wall', type: 'box', width: 0.02, height: 4, depth: 4, isStatic: true, position: { x: 5, y: 0, z: 0 } });
+    const bullet = engine.addObject({
+      id: 'bullet', type: 'sphere', radius: 0.1, mass: 1, collisionDetection: mode,
+      position: { x: 0.3, y: 0, z: 0 }, velocity: { x: 280, y: 0, z: 0 },
+    });
+
+    let hits = 0;
+    engine.onCollisionStart(() => hits++);
+    run(engine, 30);
+    return { x: bullet.position.x, hits };
+  }
+
+  it('tunnels through a 2 cm wall without it', () => {
+    const discrete = fire('discrete');
+    expect(discrete.x).toBeGreaterThan(5);
+    expect(discrete.hits).toBe(0);
+  });
+
+  it('stops a 280 m/s sphere at a 2 cm wall', () => {
+    const continuous = fire('continuous');
+    expect(continuous.x).toBeLessThan(5 - 0.01);
+    expect(continuous.hits).toBeGreaterThanOrEqual(1);
+  });
+
+  it('lands a fast falling box on the ground plane', () => {
+    const engine = groundedEngine();
+    const crate = engine.addObject({
+      id: 'crate', type: 'box', width: 0.2, height: 0.2, depth: 0.2, mass: 1, collisionDetection: 'continuous',
+      position: { x: 0, y: 5, z: 0 }, velocity: { x: 0, y: -200, z: 0 }, angularVelocity: { x: 3, y: 0, z: 5 },
+    });
+    run(engine, 600);
+
+    expect(crate.position.y).toBeCloseTo(0.1, 1);
+  });
+});
+
+// ============================================================================
+// SHAPE CASTS
+// ============================================================================
+
+describe('sphereCast and boxCast', () => {
+  function castWorld(): Engine {
+    const engine = new Engine();
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+    engine.addObject({ id: 'wall', type: 'box', width: 0.2, height: 2, depth: 4, isStatic: true, position: { x: 5, y: 1, z: 0 } });
+    engine.addObject({ id: 'ball', type: 'sphere', radius: 0.5, isStatic: true, position: { x: 3, y: 3, z: 0 } });
+    engine.addObject({ id: 'trigger', type: 'sphere', radius: 0.5, isStatic: true, isTrigger: true, position: { x: 2, y: 1, z: 0 } });
+    return engine;
+  }
+
+  it('reports first contact of a swept sphere, nearest first', () => {
+    const hits = castWorld().sphereCast({ x: 0, y: 1, z: 0 }, 0.25, { x: 2, y: 0, z: 0 });
+
+    expect(hits.map(h => h.objectId)).toEqual(['trigger', 'wall']);
+    expect(hits[1].distance).toBeCloseTo(4.65, 6);
+    expect(hits[1].point.x).toBeCloseTo(4.9, 6);
+    expect(hits[1].normal.x).toBeCloseTo(-1, 6);
+    // direction is a velocity here, so the hit time is distance / speed
+    expect(hits[1].timeOfImpact).toBeCloseTo(4.65 / 2, 6);
+  });
+
+  it('honours maxDistance and ignoreTriggers', () => {
+    const engine = castWorld();
+    expect(engine.sphereCast({ x: 0, y: 1, z: 0 }, 0.25, { x: 1, y: 0, z: 0 }, { ignoreTriggers: true }).map(h => h.objectId)).toEqual(['wall']);
+    expect(engine.sphereCast({ x: 0, y: 1, z: 0 }, 0.25, { x: 1, y: 0, z: 0 }, 3).map(h => h.objectId)).toEqual(['trigger']);
+  });
+
+  it('hits a sphere off-centre with the surface normal at the contact', () => {
+    const [hit] = castWorld().sphereCast({ x: 3.6, y: 6, z: 0 }, 0.25, { x: 0, y: -1, z: 0 }, 20);
+
+    expect(hit.objectId).toBe('ball');
+    expect(hit.normal.x).toBeCloseTo(0.8, 3);
+    expect(hit.normal.y).toBeCloseTo(0.6, 3);
+  });
+
+  it('sweeps axis-aligned and rotated boxes', () => {
+    const engine = castWorld();
+    const [flat] = engine.boxCast({ x: 0, y: 6, z: 0 }, { x: 0.5, y: 0.5, z: 0.5 }, { x: 0, y: -1, z: 0 });
+    const quarter = Math.PI / 8;
+    const [tilted] = engine.boxCast(
+      { x: 0, y: 6, z: 0 }, { x: 0.5, y: 0.5, z: 0.5 }, { x: 0, y: -1, z: 0 }, {},
+      { x: 0, y: 0, z: Math.sin(quarter), w: Math.cos(quarter) }
+    );
+
+    expect(flat.objectId).toBe('ground');
+    expect(flat.distance).toBeCloseTo(5.5, 6);
+    // Rotated 45 degrees the box reaches down by half its diagonal
+    expect(tilted.distance).toBeCloseTo(6 - Math.SQRT1_2, 6);
+  });
+
+  it('reports zero distance when the cast starts inside a collider', () => {
+    const [hit] = castWorld().sphereCast({ x: 3, y: 3, z: 0 }, 0.25, { x: 0, y: 1, z: 0 }, 1);
+    expect(hit.objectId).toBe('ball');
+    expect(hit.distance).toBe(0);
+  });
+
+  it('only tests the bodies the broad phase finds along the sweep', () => {
+    for (const broadPhase of ['sap', 'dynamic-tree', 'spatial-hash'] as const) {
+      const engine = new Engine({ broadPhase });
+      engine.addObject({ id: 'wall', type: 'box', width: 0.2, height: 2, depth: 2, isStatic: true, position: { x: 5, y: 0, z: 0 } });
+      for (let i = 0; i < 200; i++) {
+        engine.addObject({ type: 'sphere', radius: 0.2, isStatic: true, position: { x: (i % 20) - 10, y: 10 + Math.floor(i / 20), z: 0 } });
+      }
+      engine.step();
+
+      const tested = vi.spyOn(CollisionFilter, 'inLayerMask');
+      const hits = engine.sphereCast({ x: 0, y: 0, z: 0 }, 0.25, { x: 1, y: 0, z: 0 });
+      expect(tested.mock.calls.length).toBeLessThan(5);
+      tested.mockRestore();
+
+      expect(hits.map(h => h.objectId)).toEqual(['wall']);
+      expect(hits[0].distance).toBeCloseTo(4.65, 6);
+    }
+  });
+});
+
+// ============================================================================
+// DISTANCE QUERIES
+// ============================================================================
+
+describe('distanceBetween and closestPairs', () => {
+  function distanceWorld(): Engine {
+    const engine = new Engine();
+    const add = (config: ObjectConfig) => engine.addObject({ isStatic: true, ...config });
+    add({ id: 'ground', type: 'plane' });
+    add({ id: 's1', type: 'sphere', radius: 0.5, position: { x: 0, y: 2, z: 0 } });
+    add({ id: 's2', type: 'sphere', radius: 0.25, position: { x: 3, y: 2, z: 0 } });
+    add({ id: 'b1', type: 'box', width: 1, height: 1, depth: 1, position: { x: 0, y: 5, z: 0 } });
+    // Lying along x, reaching from x = 1.3 to 2.7
+    add({ id: 'c1', type: 'capsule', radius: 0.2, height: 1, position: { x: 2, y: 5, z: 0 }, rotation: { x: 0, y: 0, z: Math.SQRT1_2, w: Math.SQRT1_2 } });
+    add({ id: 'c2', type: 'capsule', radius: 0.3, height: 2, position: { x: 5, y: 5, z: 1 } });
+    return engine;
+  }
+
+  it('measures the gap between closest features with witness points', () => {
+    const engine = distanceWorld();
+    const spheres = engine.distanceBetween('s1', 's2');
+
+    expect(spheres.distance).toBeCloseTo(2.25, 9);
+    expect(spheres.pointA.x).toBeCloseTo(0.5, 9);
+    expect(spheres.pointB.x).toBeCloseTo(2.75, 9);
+    expect(engine.distanceBetween('s1', 'ground').distance).toBeCloseTo(1.5, 9);
+    expect(engine.distanceBetween('b1', 'c1').distance).toBeCloseTo(0.8, 6);
+    expect(engine.distanceBetween('c1', 'c2').distance).toBeCloseTo(Math.hypot(2.5, 1) - 0.5, 5);
+  });
+
+  it('is negative by the penetration depth for overlapping shapes', () => {
+    const engine = distanceWorld();
+    engine.addObject({ id: 's4', type: 'sphere', radius: 0.5, isStatic: true, position: { x: 0.5, y: 2.3, z: 0 } });
+
+    expect(engine.distanceBetween('s1', 's4').distance).toBeCloseTo(Math.hypot(0.5, 0.3) - 1, 6);
+  });
+
+  it('is infinite for missing objects and unmeasurable pairs', () => {
+    const engine = distanceWorld();
+    engine.addObject({ id: 'plane2', type: 'plane', isStatic: true, position: { x: 0, y: 10, z: 0 } });
+
+    expect(engine.distanceBetween('s1', 'missing').distance).toBe(Infinity);
+    expect(engine.distanceBetween('ground', 'plane2').distance).toBe(Infinity);
+  });
+
+  it('lists pairs nearest first, skipping static-static pairs unless named', () => {
+    const engine = distanceWorld();
+    const named = engine.closestPairs(['s1', 's2', 'b1']).map(p => [p.objectA, p.objectB].sort().join('-'));
+    expect(named).toEqual(['b1-s1', 's1-s2', 'b1-s2']);
+    expect(engine.closestPairs(undefined, { maxDistance: 2.1 })).toEqual([]);
+
+    engine.addObject({ id: 'probe', type: 'sphere', radius: 0.5, mass: 1, position: { x: 1.5, y: 2, z: 0 } });
+    const pairs = engine.closestPairs(undefined, { maxDistance: 1 });
+    expect(pairs.every(p => p.objectA === 'probe' || p.objectB === 'probe')).toBe(true);
+    expect(pairs.map(p => p.distance)).toEqual([...pairs.map(p => p.distance)].sort((a, b) => a - b));
+    expect(pairs[0].distance).toBeCloseTo(0.5, 9);
+  });
+});
+
+// ============================================================================
+// COLLISION FILTERING
+// ============================================================================
+
+describe('collision filtering', () => {
+  function dropSphere(engine: Engine, id: string, x: number, extra: Partial<ObjectConfig> = {}) {
+    return engine.addObject({ id, type: 'sphere', radius: 0.5, mass: 1, position: { x, y: 2, z: 0 }, ...extra });
+  }
+
+  function layeredEngine(): Engine {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true, collisionLayer: 'ground' });
+    return engine;
+  }
+
+  it('collides named layers by default and not once the layer pair is disabled', () => {
+    const engine = layeredEngine();
+    const kept = dropSphere(engine, 'kept', 0, { collisionLayer: 'debris' });
+    run(engine, 120);
+    expect(kept.position.y).toBeCloseTo(0.5, 1);
+
+    const other = layeredEngine();
+    other.defineCollisionLayer('debris');
+    other.setLayerCollision('debris', 'ground', false);
+    const dropped = dropSphere(other, 'dropped', 0, { collisionLayer: 'debris' });
+    run(other, 120);
+    expect(dropped.position.y).toBeLessThan(-1);
+  });
+
+  it('builds layer masks and rejects unknown layers', () => {
+    const engine = new Engine();
+    engine.defineCollisionLayer('sensors');
+    engine.addObject({ id: 'probe', type: 'sphere', isStatic: true, collisionLayer: 'sensors', position: { x: 5, y: 0, z: 0 } });
+
+    expect(engine.getCollisionLayerMask('default', 'sensors')).toBe(0b11);
+    expect(() => engine.getCollisionLayerMask('missing')).toThrow('Unknown collision layer "missing"');
+    expect(engine.raycast({ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { layerMask: engine.getCollisionLayerMask('sensors') })).toHaveLength(1);
+    expect(engine.raycast({ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { layerMask: engine.getCollisionLayerMask('default') })).toHaveLength(0);
+  });
+
+  it('ignores specific pairs until released', () => {
+    const engine = layeredEngine();
+    const ball = dropSphere(engine, 'ball', 0);
+    engine.ignoreCollision('ball', 'ground');
+    run(engine, 60);
+    expect(ball.position.y).toBeLessThan(0);
+
+    engine.ignoreCollision('ball', 'ground', false);
+    ball.position = { x: 0, y: 2, z: 0 };
+    ball.velocity = { x: 0, y: 0, z: 0 };
+    run(engine, 120);
+    expect(ball.position.y).toBeCloseTo(0.5, 1);
+  });
+
+  it('lets a shouldCollide hook veto pairs', () => {
+    const engine = layeredEngine();
+    engine.setShouldCollide((a, b) => a.id !== 'ghost' && b.id !== 'ghost');
+    const solid = dropSphere(engine, 'solid', 0);
+    const ghost = dropSphere(engine, 'ghost', 3);
+    run(engine, 120);
+
+    expect(solid.position.y).toBeCloseTo(0.5, 1);
+    expect(ghost.position.y).toBeLessThan(-1);
+  });
+
+  it('does not push apart bodies joined by a constraint', () => {
+    const engine = layeredEngine();
+    const a = dropSphere(engine, 'a', 0);
+    const b = dropSphere(engine, 'b', 0.6);
+    engine.addConstraint({ type: 'distance', bodyA: 'a', bodyB: 'b' });
+    run(engine, 120);
+
+    expect(Math.hypot(b.position.x - a.position.x, b.position.y - a.position.y)).toBeCloseTo(0.6, 2);
+  });
+});
+
+// ============================================================================
+// DYNAMIC AABB TREE BROAD PHASE
+// ============================================================================
+
+describe('DynamicAABBTree', () => {
+  // Park-Miller, so the scene is the same on every run
+  function generator(seed: number): () => number {
+    let state = seed;
+    return () => (state = (state * 16807) % 2147483647) / 2147483647;
+  }
+
+  function pairKeys(pairs: BroadPhasePair[], bodies: Map<string, CollisionBody>): string[] {
+    return pairs
+      .filter(p => !(bodies.get(p.bodyA)!.isStatic && bodies.get(p.bodyB)!.isStatic))
+      .map(p => [p.bodyA, p.bodyB].sort().join('|'))
+      .sort();
+  }
+
+  it('finds the same pairs and query hits as sweep and prune while bodies move', () => {
+    const random = generator(1);
+    const tree = new DynamicAABBTree();
+    const sap = new SweepAndPrune();
+    const phases: BroadPhase[] = [tree, sap];
+    const live = new Map<string, CollisionBody>();
+    const all: CollisionBody[] = [];
+
+    for (let i = 0; i < 400; i++) {
+      const center = { x: random() * 50, y: random() * 10, z: random() * 50 };
+      const half = 0.2 + random();
+      const body = {
+        id: `b${i}`, isStatic: i < 60, collisionGroup: 1, collisionMask: 0xffffffff,
+        velocity: { x: random() - 0.5, y: 0, z: 0 },
+        aabb: AABBUtils.fromCenterExtents(center, { x: half, y: half, z: half }),
+      } as CollisionBody;
+      all.push(body);
+      live.set(body.id, body);
+      phases.forEach(phase => phase.insert(body));
+    }
+
+    for (let iteration = 0; iteration < 10; iteration++) {
+      for (const body of live.values()) {
+        if (body.isStatic) continue;
+        const d = { x: (random() - 0.5) * 2, y: random() - 0.5, z: (random() - 0.5) * 2 };
+        body.aabb = { min: { x: body.aabb.min.x + d.x, y: body.aabb.min.y + d.y, z: body.aabb.min.z + d.z }, max: { x: body.aabb.max.x + d.x, y: body.aabb.max.y + d.y, z: body.aabb.max.z + d.z } };
+        phases.forEach(phase => phase.update(body));
+      }
+      // Churn some dynamic bodies in and out
+      for (let k = 0; k < 20; k++) {
+        const body = all[60 + Math.floor(random() * 340)];
+        if (live.delete(body.id)) {
+          phases.forEach(phase => phase.remove(body.id));
+        } else {
+          live.set(body.id, body);
+          phases.forEach(phase => phase.insert(body));
+        }
+      }
+
+      expect(pairKeys(tree.queryPairs(), live)).toEqual(pairKeys(sap.queryPairs(), live));
+    }
+
+    const box = { min: { x: 10, y: 0, z: 10 }, max: { x: 30, y: 10, z: 30 } };
+    expect(tree.queryAABB(box).sort()).toEqual(sap.queryAABB(box).sort());
+    expect(tree.queryRay({ x: 0, y: 5, z: 0 }, { x: Math.SQRT1_2, y: 0, z: Math.SQRT1_2 }, 60).sort())
+      .toEqual(sap.queryRay({ x: 0, y: 5, z: 0 }, { x: Math.SQRT1_2, y: 0, z: Math.SQRT1_2 }, 60).sort());
+    expect(tree.querySphere({ x: 25, y: 5, z: 25 }, 8).sort()).toEqual(sap.querySphere({ x: 25, y: 5, z: 25 }, 8).sort());
+    // Rotations keep the tree balanced
+    expect(tree.height).toBeLessThan(4 * Math.log2(live.size));
+  });
+
+  it('simulates the same world as sweep and prune', () => {
+    const hashes = (['sap', 'dynamic-tree'] as const).map(broadPhase => {
+      const engine = new Engine({ timeStep: 1 / 60, broadPhase, deterministicMode: true });
+      engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+      for (let i = 0; i < 8; i++) {
+        engine.addObject({ id: `b${i}`, type: i % 2 ? 'box' : 'sphere', radius: 0.5, mass: 1, position: { x: (i % 3) * 0.4, y: 1 + i * 1.1, z: (i % 2) * 0.3 } });
+      }
+      run(engine, 200);
+      return engine.stateHash();
+    });
+
+    expect(hashes[1]).toBe(hashes[0]);
+  });
+});
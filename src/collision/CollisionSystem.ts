@@ -10,10 +10,19 @@ import {
   CollisionInfo,
   ContactPoint,
   RaycastHit,
+  DistanceResult,
+  ClosestPair,
+  BroadPhaseType,
+  ContactManifoldState,
+  IgnoredPairState,
   BoundingBox,
-  ObjectType
+  ObjectType,
+  ObjectConfig,
+  PhysicsMaterial
 } from '../types';
 import { Vec3, Quat, Mat3 } from '../math';
+import { ConvexDecomposition, ConvexHull } from '../import/ConvexDecomposition';
+import type { Worker, MessagePort } from 'worker_threads';
 
 // ============================================================================
 // AABB (Axis-Aligned Bounding Box)
@@ -206,6 +215,16 @@ export interface CylinderCollider extends ColliderBase {
   halfHeight: number;
 }
 
+/**
+ * Cone whose local origin is its centre of mass: the base disc sits at
+ * y = -halfHeight / 2 and the apex at y = 3 * halfHeight / 2
+ */
+export interface ConeCollider extends ColliderBase {
+  type: 'cone';
+  radius: number;
+  halfHeight: number;
+}
+
 export interface CapsuleCollider extends ColliderBase {
   type: 'capsule';
   radius: number;
@@ -218,418 +237,2243 @@ export interface PlaneCollider extends ColliderBase {
   distance: number;
 }
 
+/**
+ * Convex hull (isConvex) or static triangle mesh; triangle meshes carry a BVH
+ */
 export interface MeshCollider extends ColliderBase {
   type: 'mesh';
   vertices: Vector3[];
   indices: number[];
   isConvex: boolean;
+  bvh?: TriangleBVH;
 }
 
-export type Collider = SphereCollider | BoxCollider | CylinderCollider | CapsuleCollider | PlaneCollider | MeshCollider;
+/**
+ * Static terrain grid centered on the local origin. Rows run along z and
+ * columns along x; the grid is triangulated into vertices/indices for the BVH.
+ */
+export interface HeightmapCollider extends ColliderBase {
+  type: 'heightmap';
+  heights: number[][];
+  width: number;
+  depth: number;
+  vertices: Vector3[];
+  indices: number[];
+  bvh: TriangleBVH;
+}
 
-// ============================================================================
-// Collision Body (wrapper for physics objects in collision system)
-// ============================================================================
+/**
+ * Child shape of a compound body; its collider offset/rotation are relative to the body
+ */
+export interface CompoundChild {
+  index: number; // Position in ObjectConfig.children, or the hull of a concave decomposition
+  collider: Exclude<Collider, CompoundCollider>;
+  material?: PhysicsMaterial;
+}
 
-export interface CollisionBody {
-  id: string;
-  position: Vector3;
-  rotation: Quaternion;
-  velocity: Vector3;
-  angularVelocity: Vector3;
-  collider: Collider;
-  aabb: AABB;
-  isStatic: boolean;
-  isKinematic: boolean;
-  isSleeping: boolean;
-  collisionGroup: number;
-  collisionMask: number;
-  mass: number;
-  invMass: number;
-  inertia: Matrix3;
-  invInertia: Matrix3;
-  friction: number;
-  restitution: number;
+/**
+ * Rigid compound body; nested compounds are flattened into one child list
+ */
+export interface CompoundCollider extends ColliderBase {
+  type: 'compound';
+  children: CompoundChild[];
 }
 
-// ============================================================================
-// Broad Phase - Spatial Partitioning
-// ============================================================================
+export type Collider =
+  | SphereCollider
+  | BoxCollider
+  | CylinderCollider
+  | ConeCollider
+  | CapsuleCollider
+  | PlaneCollider
+  | MeshCollider
+  | HeightmapCollider
+  | CompoundCollider;
 
-export interface BroadPhasePair {
-  bodyA: string;
-  bodyB: string;
-}
+/**
+ * Half extent used for the bounds of infinite planes
+ */
+const PLANE_HALF_EXTENT = 1e6;
 
-export interface BroadPhase {
-  insert(body: CollisionBody): void;
-  remove(id: string): void;
-  update(body: CollisionBody): void;
-  queryPairs(): BroadPhasePair[];
-  queryAABB(aabb: AABB): string[];
-  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[];
-  querySphere(center: Vector3, radius: number): string[];
-  clear(): void;
-}
+/**
+ * Convex pieces of each decomposed mesh, keyed by its vertex array: colliders are
+ * rebuilt on every snapshot restore, and decomposing costs far more than that
+ */
+const decompositions = new WeakMap<Vector3[], { indices?: number[]; scale: Vector3; hulls: ConvexHull[] }>();
 
 /**
- * Simple Sweep and Prune (SAP) broad phase
+ * Creates colliders from object configuration
  */
-export class SweepAndPrune implements BroadPhase {
-  private bodies: Map<string, CollisionBody> = new Map();
-  private xAxis: Array<{ id: string; value: number; isMin: boolean }> = [];
-  private dirty: boolean = true;
+export class ColliderFactory {
+  /**
+   * Build a collider matching the object's shape, or null if the type has no rigid collider.
+   * Compound children and hull vertices are offset so that centerOfMass (from the authored origin)
+   * is the body origin.
+   */
+  static fromObjectConfig(
+    config: ObjectConfig,
+    scale: Vector3 = { x: 1, y: 1, z: 1 },
+    centerOfMass: Vector3 = { x: 0, y: 0, z: 0 }
+  ): Collider | null {
+    const radius = config.radius ?? 1;
+    const width = config.width ?? 1;
+    const height = config.height ?? 1;
+    const depth = config.depth ?? 1;
+    const radialScale = Math.max(scale.x, scale.z);
+    const base = {
+      offset: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+      isTrigger: config.isTrigger ?? false
+    };
 
-  insert(body: CollisionBody): void {
-    this.bodies.set(body.id, body);
-    this.xAxis.push(
-      { id: body.id, value: body.aabb.min.x, isMin: true },
-      { id: body.id, value: body.aabb.max.x, isMin: false }
-    );
-    this.dirty = true;
-  }
+    switch (config.type) {
+      case 'sphere':
+      case 'projectile':
+      case 'celestial':
+        return { ...base, type: 'sphere', radius: radius * Math.max(scale.x, scale.y, scale.z) };
+
+      case 'box':
+      case 'vehicle':
+        return {
+          ...base,
+          type: 'box',
+          halfExtents: {
+            x: (width / 2) * scale.x,
+            y: (height / 2) * scale.y,
+            z: (depth / 2) * scale.z
+          }
+        };
+
+      case 'capsule':
+      case 'character':
+        return { ...base, type: 'capsule', radius: radius * radialScale, halfHeight: (height / 2) * scale.y };
+
+      case 'cylinder':
+        return { ...base, type: 'cylinder', radius: radius * radialScale, halfHeight: (height / 2) * scale.y };
+
+      case 'cone':
+        return { ...base, type: 'cone', radius: radius * radialScale, halfHeight: (height / 2) * scale.y };
+
+      case 'plane':
+        return { ...base, type: 'plane', normal: { x: 0, y: 1, z: 0 }, distance: 0 };
+
+      case 'mesh':
+      case 'convex-hull': {
+        if (!config.vertices || config.vertices.length === 0) return null;
+        const isConvex = config.type === 'convex-hull';
+        const origin = isConvex ? Vec3.multiply(centerOfMass, scale) : { x: 0, y: 0, z: 0 };
+        const vertices = config.vertices.map(v => Vec3.sub(Vec3.multiply(v, scale), origin));
+        // Triangle meshes without indices are read as a triangle soup
+        const indices = config.indices?.length
+          ? [...config.indices]
+          : isConvex ? [] : vertices.map((_, i) => i);
+        return {
+          ...base,
+          type: 'mesh',
+          vertices,
+          indices,
+          isConvex,
+          bvh: indices.length >= 3 ? new TriangleBVH(vertices, indices) : undefined
+        };
+      }
 
-  remove(id: string): void {
-    this.bodies.delete(id);
-    this.xAxis = this.xAxis.filter(e => e.id !== id);
-    this.dirty = true;
-  }
+      case 'concave-decomposition': {
+        if (!config.vertices || config.vertices.length === 0) return null;
+        const origin = Vec3.multiply(centerOfMass, scale);
+        const children: CompoundChild[] = ColliderFactory.decompose(config.vertices, config.indices, scale).map((hull, index) => {
+          const vertices = hull.vertices.map(v => Vec3.sub(v, origin));
+          return {
+            index,
+            collider: {
+              ...base,
+              type: 'mesh',
+              vertices,
+              indices: hull.indices,
+              isConvex: true,
+              bvh: new TriangleBVH(vertices, hull.indices)
+            }
+          };
+        });
+        if (children.length === 0) return null;
+        return { ...base, type: 'compound', children };
+      }
 
-  update(body: CollisionBody): void {
-    this.bodies.set(body.id, body);
-    for (const endpoint of this.xAxis) {
-      if (endpoint.id === body.id) {
-        endpoint.value = endpoint.isMin ? body.aabb.min.x : body.aabb.max.x;
+      case 'heightmap': {
+        const heights = config.heightmapData;
+        if (!heights || heights.length < 2 || heights[0].length < 2) return null;
+        return ColliderFactory.heightmap(
+          heights,
+          (config.width ?? heights[0].length - 1) * scale.x,
+          (config.depth ?? heights.length - 1) * scale.z,
+          scale.y,
+          base
+        );
       }
+
+      case 'compound': {
+        const children = ColliderFactory.compoundChildren(config, scale, config.isTrigger ?? false);
+        if (children.length === 0) return null;
+        const origin = Vec3.multiply(centerOfMass, scale);
+        for (const child of children) {
+          child.collider.offset = Vec3.sub(child.collider.offset, origin);
+        }
+        return { ...base, type: 'compound', children };
+      }
+
+      default:
+        return null;
     }
-    this.dirty = true;
   }
 
-  queryPairs(): BroadPhasePair[] {
-    if (this.dirty) {
-      this.xAxis.sort((a, b) => a.value - b.value);
-      this.dirty = false;
+  /**
+   * Convex pieces of a scaled mesh, decomposed once per vertex array and scale
+   */
+  private static decompose(vertices: Vector3[], indices: number[] | undefined, scale: Vector3): ConvexHull[] {
+    const cached = decompositions.get(vertices);
+    if (cached && cached.indices === indices && Vec3.equals(cached.scale, scale)) {
+      return cached.hulls;
     }
 
-    const pairs: BroadPhasePair[] = [];
-    const active = new Set<string>();
+    const scaled = vertices.map(v => Vec3.multiply(v, scale));
+    const hulls = ConvexDecomposition.decompose(scaled, indices?.length ? indices : scaled.map((_, i) => i));
+    decompositions.set(vertices, { indices, scale: Vec3.clone(scale), hulls });
+    return hulls;
+  }
 
-    for (const endpoint of this.xAxis) {
-      if (endpoint.isMin) {
-        const bodyA = this.bodies.get(endpoint.id);
-        if (!bodyA) continue;
+  /**
+   * Child colliders of a compound, placed relative to its authored origin. Nested
+   * compounds are flattened and keep the index of their top-level child.
+   */
+  private static compoundChildren(config: ObjectConfig, scale: Vector3, isTrigger: boolean): CompoundChild[] {
+    const children: CompoundChild[] = [];
+
+    (config.children ?? []).forEach((childConfig, index) => {
+      const collider = ColliderFactory.fromObjectConfig({ ...childConfig, isTrigger: childConfig.isTrigger ?? isTrigger }, scale);
+      if (!collider) return;
+
+      const offset = Vec3.multiply(ColliderFactory.parseVector3(childConfig.position), scale);
+      const rotation = ColliderFactory.parseQuaternion(childConfig.rotation);
+      const parts = collider.type === 'compound'
+        ? collider.children.map(part => ({ ...part, material: part.material ?? childConfig.material }))
+        : [{ index, collider, material: childConfig.material }];
+
+      for (const part of parts) {
+        part.collider.offset = Vec3.add(offset, Quat.rotateVector(rotation, part.collider.offset));
+        part.collider.rotation = Quat.multiply(rotation, part.collider.rotation);
+        children.push({ ...part, index });
+      }
+    });
 
-        for (const otherId of active) {
-          const bodyB = this.bodies.get(otherId);
-          if (!bodyB) continue;
+    return children;
+  }
 
-          // Check collision masks
-          if ((bodyA.collisionGroup & bodyB.collisionMask) === 0 ||
-              (bodyB.collisionGroup & bodyA.collisionMask) === 0) {
-            continue;
-          }
+  private static parseVector3(value?: Vector3 | [number, number, number]): Vector3 {
+    if (!value) return { x: 0, y: 0, z: 0 };
+    return Array.isArray(value) ? Vec3.fromArray(value) : { ...value };
+  }
 
-          // Full AABB test (Y and Z axes)
-          if (AABBUtils.intersects(bodyA.aabb, bodyB.aabb)) {
-            pairs.push({ bodyA: endpoint.id, bodyB: otherId });
-          }
-        }
+  private static parseQuaternion(value?: Quaternion | [number, number, number, number]): Quaternion {
+    if (!value) return { x: 0, y: 0, z: 0, w: 1 };
+    return Array.isArray(value) ? { x: value[0], y: value[1], z: value[2], w: value[3] } : { ...value };
+  }
 
-        active.add(endpoint.id);
-      } else {
-        active.delete(endpoint.id);
+  /**
+   * Triangulate a height grid, two triangles per cell wound so normals face +y
+   */
+  private static heightmap(
+    data: number[][],
+    width: number,
+    depth: number,
+    heightScale: number,
+    base: Pick<ColliderBase, 'offset' | 'rotation' | 'isTrigger'>
+  ): HeightmapCollider {
+    const rows = data.length;
+    const columns = data[0].length;
+    const cellWidth = width / (columns - 1);
+    const cellDepth = depth / (rows - 1);
+    const heights = data.map(row => row.map(h => h * heightScale));
+
+    const vertices: Vector3[] = [];
+    for (let i = 0; i < rows; i++) {
+      for (let j = 0; j < columns; j++) {
+        vertices.push({ x: -width / 2 + j * cellWidth, y: heights[i][j] ?? 0, z: -depth / 2 + i * cellDepth });
       }
     }
 
-    return pairs;
-  }
-
-  queryAABB(aabb: AABB): string[] {
-    const results: string[] = [];
-    for (const [id, body] of this.bodies) {
-      if (AABBUtils.intersects(aabb, body.aabb)) {
-        results.push(id);
+    const indices: number[] = [];
+    for (let i = 0; i < rows - 1; i++) {
+      for (let j = 0; j < columns - 1; j++) {
+        const a = i * columns + j;
+        const b = a + 1;
+        const c = a + columns;
+        const d = c + 1;
+        indices.push(a, c, b, b, c, d);
       }
     }
-    return results;
+
+    return {
+      ...base,
+      type: 'heightmap',
+      heights,
+      width,
+      depth,
+      vertices,
+      indices,
+      bvh: new TriangleBVH(vertices, indices)
+    };
   }
+}
 
-  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[] {
-    const results: string[] = [];
-    const normalizedDir = Vec3.normalize(direction);
+export const ColliderUtils = {
+  /**
+   * World-space AABB of a collider attached to a body transform
+   */
+  computeAABB(collider: Collider, position: Vector3, rotation: Quaternion): AABB {
+    const center = Vec3.add(position, Quat.rotateVector(rotation, collider.offset));
+    const rot = Quat.multiply(rotation, collider.rotation);
+
+    switch (collider.type) {
+      case 'sphere': {
+        const r = collider.radius;
+        return AABBUtils.fromCenterExtents(center, { x: r, y: r, z: r });
+      }
 
-    for (const [id, body] of this.bodies) {
-      const result = AABBUtils.rayIntersect(body.aabb, origin, normalizedDir);
-      if (result.hit && result.tMin <= maxDistance) {
-        results.push(id);
+      case 'box':
+        return AABBUtils.fromCenterExtents(center, ColliderUtils.rotatedExtents(rot, collider.halfExtents));
+
+      case 'capsule': {
+        const axis = Quat.rotateVector(rot, { x: 0, y: collider.halfHeight, z: 0 });
+        const r = collider.radius;
+        return {
+          min: {
+            x: center.x - Math.abs(axis.x) - r,
+            y: center.y - Math.abs(axis.y) - r,
+            z: center.z - Math.abs(axis.z) - r
+          },
+          max: {
+            x: center.x + Math.abs(axis.x) + r,
+            y: center.y + Math.abs(axis.y) + r,
+            z: center.z + Math.abs(axis.z) + r
+          }
+        };
+      }
+
+      case 'cylinder':
+        return AABBUtils.fromCenterExtents(
+          center,
+          ColliderUtils.rotatedExtents(rot, { x: collider.radius, y: collider.halfHeight, z: collider.radius })
+        );
+
+      case 'cone': {
+        const apex = Vec3.add(center, Quat.rotateVector(rot, { x: 0, y: collider.halfHeight * 1.5, z: 0 }));
+        const baseCenter = Vec3.add(center, Quat.rotateVector(rot, { x: 0, y: -collider.halfHeight * 0.5, z: 0 }));
+        const base = AABBUtils.fromCenterExtents(
+          baseCenter,
+          ColliderUtils.rotatedExtents(rot, { x: collider.radius, y: 0, z: collider.radius })
+        );
+        return AABBUtils.fromPoints([apex, base.min, base.max]);
       }
+
+      case 'plane': {
+        const normal = Quat.rotateVector(rot, collider.normal);
+        const origin = Vec3.add(center, Vec3.scale(normal, collider.distance));
+        const extent = (n: number) => (Math.abs(n) > 1 - 1e-6 ? 0 : PLANE_HALF_EXTENT);
+        return AABBUtils.fromCenterExtents(origin, {
+          x: extent(normal.x),
+          y: extent(normal.y),
+          z: extent(normal.z)
+        });
+      }
+
+      case 'mesh':
+        if (collider.bvh) {
+          return ColliderUtils.transformBounds(collider.bvh.bounds, center, rot);
+        }
+        return AABBUtils.fromPoints(
+          collider.vertices.map(v => Vec3.add(center, Quat.rotateVector(rot, v)))
+        );
+
+      case 'heightmap':
+        return ColliderUtils.transformBounds(collider.bvh.bounds, center, rot);
+
+      case 'compound':
+        return collider.children
+          .map(child => ColliderUtils.computeAABB(child.collider, center, rot))
+          .reduce((merged, aabb) => AABBUtils.merge(merged, aabb));
     }
+  },
 
-    return results;
-  }
+  /**
+   * Radius of a sphere around the body origin enclosing the collider; infinite for planes
+   */
+  boundingRadius(collider: Collider): number {
+    const offset = Vec3.length(collider.offset);
+    const farthest = (points: Vector3[]) => points.reduce((max, p) => Math.max(max, Vec3.length(p)), 0);
+    const boxCorner = (b: AABB) => Vec3.length({
+      x: Math.max(Math.abs(b.min.x), Math.abs(b.max.x)),
+      y: Math.max(Math.abs(b.min.y), Math.abs(b.max.y)),
+      z: Math.max(Math.abs(b.min.z), Math.abs(b.max.z))
+    });
 
-  querySphere(center: Vector3, radius: number): string[] {
-    const results: string[] = [];
-    const sphereAABB = AABBUtils.fromCenterExtents(center, { x: radius, y: radius, z: radius });
+    switch (collider.type) {
+      case 'sphere':
+        return offset + collider.radius;
+      case 'box':
+        return offset + Vec3.length(collider.halfExtents);
+      case 'capsule':
+        return offset + collider.halfHeight + collider.radius;
+      case 'cylinder':
+        return offset + Math.sqrt(collider.halfHeight * collider.halfHeight + collider.radius * collider.radius);
+      case 'cone': {
+        const base = Math.sqrt(0.25 * collider.halfHeight * collider.halfHeight + collider.radius * collider.radius);
+        return offset + Math.max(1.5 * collider.halfHeight, base);
+      }
+      case 'plane':
+        return Infinity;
+      case 'mesh':
+        return offset + (collider.bvh ? boxCorner(collider.bvh.bounds) : farthest(collider.vertices));
+      case 'heightmap':
+        return offset + boxCorner(collider.bvh.bounds);
+      case 'compound':
+        return offset + collider.children.reduce(
+          (max, child) => Math.max(max, ColliderUtils.boundingRadius(child.collider)), 0
+        );
+    }
+  },
 
-    for (const [id, body] of this.bodies) {
-      if (AABBUtils.intersects(sphereAABB, body.aabb)) {
-        // More accurate sphere vs AABB test
-        const closest = AABBUtils.closestPoint(body.aabb, center);
-        const distSq = Vec3.lengthSq(Vec3.sub(closest, center));
-        if (distSq <= radius * radius) {
-          results.push(id);
+  /**
+   * World AABB enclosing a local-space box after rotation and translation
+   */
+  transformBounds(bounds: AABB, position: Vector3, rotation: Quaternion): AABB {
+    const corners: Vector3[] = [];
+    for (const x of [bounds.min.x, bounds.max.x]) {
+      for (const y of [bounds.min.y, bounds.max.y]) {
+        for (const z of [bounds.min.z, bounds.max.z]) {
+          corners.push(Vec3.add(position, Quat.rotateVector(rotation, { x, y, z })));
         }
       }
     }
+    return AABBUtils.fromPoints(corners);
+  },
 
-    return results;
+  /**
+   * Half extents of the AABB enclosing a rotated box
+   */
+  rotatedExtents(rotation: Quaternion, halfExtents: Vector3): Vector3 {
+    const e = Quat.toMatrix3(rotation).elements;
+    return {
+      x: Math.abs(e[0]) * halfExtents.x + Math.abs(e[1]) * halfExtents.y + Math.abs(e[2]) * halfExtents.z,
+      y: Math.abs(e[3]) * halfExtents.x + Math.abs(e[4]) * halfExtents.y + Math.abs(e[5]) * halfExtents.z,
+      z: Math.abs(e[6]) * halfExtents.x + Math.abs(e[7]) * halfExtents.y + Math.abs(e[8]) * halfExtents.z
+    };
   }
+};
 
-  clear(): void {
-    this.bodies.clear();
-    this.xAxis = [];
-    this.dirty = true;
-  }
+// ============================================================================
+// Triangle Mesh BVH
+// ============================================================================
+
+interface BVHNode {
+  bounds: AABB;
+  left: number;
+  right: number;
+  start: number;
+  count: number;
+}
+
+export interface TriangleRayHit {
+  triangle: number;
+  distance: number;
+  u: number; // Barycentric weight of the triangle's second vertex
+  v: number; // Barycentric weight of the triangle's third vertex
 }
 
+const BVH_LEAF_SIZE = 4;
+
 /**
- * Spatial Hash Grid for uniform distribution
+ * Bounding volume hierarchy over a static triangle mesh, in collider-local space
  */
-export class SpatialHashGrid implements BroadPhase {
-  private cellSize: number;
-  private invCellSize: number;
-  private cells: Map<string, Set<string>> = new Map();
-  private bodies: Map<string, CollisionBody> = new Map();
-  private bodyToCells: Map<string, string[]> = new Map();
+export class TriangleBVH {
+  private nodes: BVHNode[] = [];
+  private order: number[] = [];
+  private triangleBounds: AABB[] = [];
+  private centroids: Vector3[] = [];
+
+  constructor(
+    private readonly vertices: Vector3[],
+    private readonly indices: number[]
+  ) {
+    const count = Math.floor(indices.length / 3);
+    for (let t = 0; t < count; t++) {
+      const [a, b, c] = this.triangle(t);
+      this.triangleBounds.push(AABBUtils.fromPoints([a, b, c]));
+      this.centroids.push(Vec3.scale(Vec3.add(Vec3.add(a, b), c), 1 / 3));
+      this.order.push(t);
+    }
 
-  constructor(cellSize: number = 10) {
-    this.cellSize = cellSize;
-    this.invCellSize = 1 / cellSize;
+    if (count > 0) {
+      this.build(0, count);
+    }
   }
 
-  private hashPosition(x: number, y: number, z: number): string {
-    const ix = Math.floor(x * this.invCellSize);
-    const iy = Math.floor(y * this.invCellSize);
-    const iz = Math.floor(z * this.invCellSize);
-    return `${ix},${iy},${iz}`;
+  get triangleCount(): number {
+    return this.order.length;
   }
 
-  private getCellsForAABB(aabb: AABB): string[] {
-    const cells: string[] = [];
-    const minX = Math.floor(aabb.min.x * this.invCellSize);
-    const minY = Math.floor(aabb.min.y * this.invCellSize);
-    const minZ = Math.floor(aabb.min.z * this.invCellSize);
-    const maxX = Math.floor(aabb.max.x * this.invCellSize);
-    const maxY = Math.floor(aabb.max.y * this.invCellSize);
-    const maxZ = Math.floor(aabb.max.z * this.invCellSize);
+  get bounds(): AABB {
+    return this.nodes.length > 0 ? this.nodes[0].bounds : AABBUtils.create();
+  }
 
-    for (let x = minX; x <= maxX; x++) {
-      for (let y = minY; y <= maxY; y++) {
-        for (let z = minZ; z <= maxZ; z++) {
-          cells.push(`${x},${y},${z}`);
+  triangle(index: number): [Vector3, Vector3, Vector3] {
+    return [
+      this.vertices[this.indices[index * 3]],
+      this.vertices[this.indices[index * 3 + 1]],
+      this.vertices[this.indices[index * 3 + 2]]
+    ];
+  }
+
+  /**
+   * Indices of triangles whose bounds overlap the box
+   */
+  queryAABB(aabb: AABB): number[] {
+    const results: number[] = [];
+    if (this.nodes.length === 0) return results;
+
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = this.nodes[stack.pop()!];
+      if (!AABBUtils.intersects(node.bounds, aabb)) continue;
+
+      if (node.count > 0) {
+        for (let i = node.start; i < node.start + node.count; i++) {
+          const t = this.order[i];
+          if (AABBUtils.intersects(this.triangleBounds[t], aabb)) {
+            results.push(t);
+          }
         }
+      } else {
+        stack.push(node.left, node.right);
       }
     }
 
-    return cells;
+    return results;
   }
 
-  insert(body: CollisionBody): void {
-    this.bodies.set(body.id, body);
-    const cells = this.getCellsForAABB(body.aabb);
-    this.bodyToCells.set(body.id, cells);
-
-    for (const cell of cells) {
-      if (!this.cells.has(cell)) {
-        this.cells.set(cell, new Set());
+  /**
+   * Closest triangle hit along a ray (direction must be normalized)
+   */
+  raycast(origin: Vector3, direction: Vector3, maxDistance: number): TriangleRayHit | null {
+    if (this.nodes.length === 0) return null;
+
+    let best: TriangleRayHit | null = null;
+    let bestDistance = maxDistance;
+    const stack = [0];
+
+    while (stack.length > 0) {
+      const node = this.nodes[stack.pop()!];
+      const slab = AABBUtils.rayIntersect(node.bounds, origin, direction);
+      if (!slab.hit || slab.tMin > bestDistance) continue;
+
+      if (node.count > 0) {
+        for (let i = node.start; i < node.start + node.count; i++) {
+          const hit = this.intersectTriangle(this.order[i], origin, direction);
+          if (hit && hit.distance <= bestDistance) {
+            best = hit;
+            bestDistance = hit.distance;
+          }
+        }
+      } else {
+        stack.push(node.left, node.right);
       }
-      this.cells.get(cell)!.add(body.id);
     }
+
+    return best;
   }
 
-  remove(id: string): void {
-    const cells = this.bodyToCells.get(id);
-    if (cells) {
-      for (const cell of cells) {
-        this.cells.get(cell)?.delete(id);
-      }
-    }
-    this.bodyToCells.delete(id);
-    this.bodies.delete(id);
+  /**
+   * Möller–Trumbore ray/triangle test, two-sided
+   */
+  private intersectTriangle(index: number, origin: Vector3, direction: Vector3): TriangleRayHit | null {
+    const [a, b, c] = this.triangle(index);
+    const edge1 = Vec3.sub(b, a);
+    const edge2 = Vec3.sub(c, a);
+    const p = Vec3.cross(direction, edge2);
+    const det = Vec3.dot(edge1, p);
+    if (Math.abs(det) < 1e-12) return null;
+
+    const invDet = 1 / det;
+    const s = Vec3.sub(origin, a);
+    const u = Vec3.dot(s, p) * invDet;
+    if (u < 0 || u > 1) return null;
+
+    const q = Vec3.cross(s, edge1);
+    const v = Vec3.dot(direction, q) * invDet;
+    if (v < 0 || u + v > 1) return null;
+
+    const distance = Vec3.dot(edge2, q) * invDet;
+    if (distance < 0) return null;
+
+    return { triangle: index, distance, u, v };
   }
 
-  update(body: CollisionBody): void {
-    this.remove(body.id);
-    this.insert(body);
+  /**
+   * Build nodes over order[start, end) by median split on the longest centroid axis
+   */
+  private build(start: number, end: number): number {
+    const index = this.nodes.length;
+    let bounds = this.triangleBounds[this.order[start]];
+    for (let i = start + 1; i < end; i++) {
+      bounds = AABBUtils.merge(bounds, this.triangleBounds[this.order[i]]);
+    }
+
+    const node: BVHNode = { bounds, left: -1, right: -1, start, count: 0 };
+    this.nodes.push(node);
+
+    if (end - start <= BVH_LEAF_SIZE) {
+      node.count = end - start;
+      return index;
+    }
+
+    const spread = AABBUtils.size(AABBUtils.fromPoints(this.order.slice(start, end).map(t => this.centroids[t])));
+    const axis: 'x' | 'y' | 'z' = spread.x >= spread.y && spread.x >= spread.z ? 'x' : spread.y >= spread.z ? 'y' : 'z';
+
+    const sorted = this.order.slice(start, end).sort((p, q) => this.centroids[p][axis] - this.centroids[q][axis]);
+    for (let i = 0; i < sorted.length; i++) {
+      this.order[start + i] = sorted[i];
+    }
+
+    const mid = (start + end) >> 1;
+    node.left = this.build(start, mid);
+    node.right = this.build(mid, end);
+    return index;
   }
+}
 
-  queryPairs(): BroadPhasePair[] {
-    const pairs: BroadPhasePair[] = [];
-    const checked = new Set<string>();
+// ============================================================================
+// Collision Body (wrapper for physics objects in collision system)
+// ============================================================================
 
-    for (const [cellKey, cellBodies] of this.cells) {
-      const bodyArray = Array.from(cellBodies);
+export interface CollisionBody {
+  id: string;
+  position: Vector3;
+  rotation: Quaternion;
+  velocity: Vector3;
+  angularVelocity: Vector3;
+  collider: Collider;
+  aabb: AABB;
+  isStatic: boolean;
+  isKinematic: boolean;
+  isSleeping: boolean;
+  collisionGroup: number;
+  collisionMask: number;
+  mass: number;
+  invMass: number;
+  inertia: Matrix3;
+  invInertia: Matrix3;
+  friction: number;
+  restitution: number;
+  continuous?: boolean; // Swept for time of impact instead of tested only at the end of the step
+  previousPosition?: Vector3; // Pose at the start of the step, the origin of the sweep
+  previousRotation?: Quaternion;
+}
 
-      for (let i = 0; i < bodyArray.length; i++) {
-        const idA = bodyArray[i];
-        const bodyA = this.bodies.get(idA);
-        if (!bodyA) continue;
+// ============================================================================
+// Collision Filtering
+// ============================================================================
 
-        for (let j = i + 1; j < bodyArray.length; j++) {
-          const idB = bodyArray[j];
-          const pairKey = idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+/**
+ * Decides whether two bodies may generate contacts
+ */
+export type PairFilter = (bodyA: CollisionBody, bodyB: CollisionBody) => boolean;
 
-          if (checked.has(pairKey)) continue;
-          checked.add(pairKey);
+const MAX_COLLISION_LAYERS = 32;
+const DEFAULT_LAYER = 'default';
 
-          const bodyB = this.bodies.get(idB);
-          if (!bodyB) continue;
+/**
+ * Named collision layers, a symmetric layer-vs-layer matrix, per-pair ignore
+ * rules and a user hook. Each layer is one bit of a body's collisionGroup;
+ * collisionMask still applies on top of the matrix.
+ */
+export class CollisionFilter {
+  private layers: Map<string, number> = new Map([[DEFAULT_LAYER, 0]]);
+  private matrix: number[] = new Array(MAX_COLLISION_LAYERS).fill(0xffffffff);
+  private ignoredPairs: Map<string, number> = new Map();
+  private hook: PairFilter | null = null;
 
-          // Check collision masks
-          if ((bodyA.collisionGroup & bodyB.collisionMask) === 0 ||
-              (bodyB.collisionGroup & bodyA.collisionMask) === 0) {
-            continue;
-          }
+  /**
+   * The plain group/mask test used when no filter is installed
+   */
+  static groupsMatch(bodyA: CollisionBody, bodyB: CollisionBody): boolean {
+    return (bodyA.collisionGroup & bodyB.collisionMask) !== 0 &&
+      (bodyB.collisionGroup & bodyA.collisionMask) !== 0;
+  }
 
-          if (AABBUtils.intersects(bodyA.aabb, bodyB.aabb)) {
-            pairs.push({ bodyA: idA, bodyB: idB });
-          }
-        }
+  /**
+   * Whether a body is selected by a query's layer mask (undefined selects all)
+   */
+  static inLayerMask(body: CollisionBody, layerMask?: number): boolean {
+    return layerMask === undefined || (body.collisionGroup & layerMask) !== 0;
+  }
+
+  /**
+   * Register a named layer, or look up an existing one. Returns its group bit.
+   */
+  defineLayer(name: string): number {
+    let index = this.layers.get(name);
+    if (index === undefined) {
+      const used = new Set(this.layers.values());
+      index = 0;
+      while (used.has(index)) index++;
+      if (index >= MAX_COLLISION_LAYERS) {
+        throw new Error(`Cannot define collision layer "${name}": all ${MAX_COLLISION_LAYERS} layers are in use`);
       }
+      this.layers.set(name, index);
     }
+    return (1 << index) >>> 0;
+  }
 
-    return pairs;
+  /**
+   * Group bit of a named layer
+   */
+  getLayer(name: string): number {
+    const index = this.layers.get(name);
+    if (index === undefined) {
+      throw new Error(`Unknown collision layer "${name}"`);
+    }
+    return (1 << index) >>> 0;
   }
 
-  queryAABB(aabb: AABB): string[] {
-    const cells = this.getCellsForAABB(aabb);
-    const results = new Set<string>();
+  /**
+   * Combined bits of several named layers, for collisionMask or query layer masks
+   */
+  getLayerMask(...names: string[]): number {
+    return names.reduce((mask, name) => (mask | this.getLayer(name)) >>> 0, 0);
+  }
 
-    for (const cell of cells) {
-      const cellBodies = this.cells.get(cell);
-      if (cellBodies) {
-        for (const id of cellBodies) {
-          const body = this.bodies.get(id);
-          if (body && AABBUtils.intersects(aabb, body.aabb)) {
-            results.add(id);
-          }
-        }
-      }
+  getLayerNames(): string[] {
+    return Array.from(this.layers.keys());
+  }
+
+  /**
+   * Enable or disable collisions between two layers, in both directions
+   */
+  setLayerCollision(layerA: string, layerB: string, enabled: boolean): void {
+    const a = this.layers.get(layerA);
+    const b = this.layers.get(layerB);
+    if (a === undefined || b === undefined) {
+      throw new Error(`Unknown collision layer "${a === undefined ? layerA : layerB}"`);
     }
 
-    return Array.from(results);
+    if (enabled) {
+      this.matrix[a] = (this.matrix[a] | (1 << b)) >>> 0;
+      this.matrix[b] = (this.matrix[b] | (1 << a)) >>> 0;
+    } else {
+      this.matrix[a] = (this.matrix[a] & ~(1 << b)) >>> 0;
+      this.matrix[b] = (this.matrix[b] & ~(1 << a)) >>> 0;
+    }
   }
 
-  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[] {
-    // Simple implementation - check all potential cells along ray
-    const normalizedDir = Vec3.normalize(direction);
-    const results = new Set<string>();
-    const step = this.cellSize * 0.5;
-    const steps = Math.ceil(maxDistance / step);
+  layersCollide(layerA: string, layerB: string): boolean {
+    return (this.matrix[this.layers.get(layerA) ?? 0] & this.getLayer(layerB)) !== 0;
+  }
 
-    for (let i = 0; i <= steps; i++) {
-      const t = i * step;
-      const point = Vec3.add(origin, Vec3.scale(normalizedDir, t));
-      const cell = this.hashPosition(point.x, point.y, point.z);
-      const cellBodies = this.cells.get(cell);
+  /**
+   * Stop two bodies colliding with each other. Calls are counted, so a pair
+   * ignored by two constraints collides again only once both release it.
+   */
+  ignorePair(idA: string, idB: string): void {
+    const key = this.pairKey(idA, idB);
+    this.ignoredPairs.set(key, (this.ignoredPairs.get(key) ?? 0) + 1);
+  }
 
-      if (cellBodies) {
-        for (const id of cellBodies) {
-          const body = this.bodies.get(id);
-          if (body) {
-            const hit = AABBUtils.rayIntersect(body.aabb, origin, normalizedDir);
-            if (hit.hit && hit.tMin <= maxDistance) {
-              results.add(id);
-            }
-          }
-        }
-      }
+  releasePair(idA: string, idB: string): void {
+    const key = this.pairKey(idA, idB);
+    const count = this.ignoredPairs.get(key) ?? 0;
+    if (count <= 1) {
+      this.ignoredPairs.delete(key);
+    } else {
+      this.ignoredPairs.set(key, count - 1);
     }
+  }
 
-    return Array.from(results);
+  isPairIgnored(idA: string, idB: string): boolean {
+    return this.ignoredPairs.has(this.pairKey(idA, idB));
   }
 
-  querySphere(center: Vector3, radius: number): string[] {
-    const aabb = AABBUtils.fromCenterExtents(center, { x: radius, y: radius, z: radius });
-    const candidates = this.queryAABB(aabb);
-    const results: string[] = [];
+  /**
+   * Install a hook consulted after every other rule; return false to reject a pair
+   */
+  setShouldCollide(hook: PairFilter | null): void {
+    this.hook = hook;
+  }
 
-    for (const id of candidates) {
-      const body = this.bodies.get(id);
-      if (body) {
-        const closest = AABBUtils.closestPoint(body.aabb, center);
-        const distSq = Vec3.lengthSq(Vec3.sub(closest, center));
-        if (distSq <= radius * radius) {
-          results.push(id);
-        }
+  /**
+   * Forget the pair rules of a removed body
+   */
+  removeBody(id: string): void {
+    for (const key of this.ignoredPairs.keys()) {
+      const [a, b] = key.split('\0');
+      if (a === id || b === id) {
+        this.ignoredPairs.delete(key);
       }
     }
+  }
 
-    return results;
+  getIgnoredPairs(): IgnoredPairState[] {
+    return Array.from(this.ignoredPairs, ([key, count]) => {
+      const [bodyA, bodyB] = key.split('\0');
+      return { bodyA, bodyB, count };
+    });
   }
 
-  clear(): void {
-    this.cells.clear();
-    this.bodies.clear();
-    this.bodyToCells.clear();
+  /**
+   * Replace every pair rule, e.g. when restoring a snapshot
+   */
+  setIgnoredPairs(pairs: IgnoredPairState[]): void {
+    this.ignoredPairs = new Map(pairs.map(pair => [this.pairKey(pair.bodyA, pair.bodyB), pair.count]));
+  }
+
+  /**
+   * Forget every pair rule; layers, the matrix and the hook are kept
+   */
+  clearPairs(): void {
+    this.ignoredPairs.clear();
+  }
+
+  canCollide(bodyA: CollisionBody, bodyB: CollisionBody): boolean {
+    if (!CollisionFilter.groupsMatch(bodyA, bodyB)) return false;
+    if ((this.allowedGroups(bodyA.collisionGroup) & bodyB.collisionGroup) === 0) return false;
+    if (this.ignoredPairs.size > 0 && this.isPairIgnored(bodyA.id, bodyB.id)) return false;
+    return this.hook ? this.hook(bodyA, bodyB) : true;
+  }
+
+  /**
+   * Union of the matrix rows of every layer in a group
+   */
+  private allowedGroups(group: number): number {
+    let allowed = 0;
+    let bits = group >>> 0;
+    while (bits !== 0) {
+      const index = 31 - Math.clz32(bits & -bits);
+      allowed |= this.matrix[index];
+      bits = (bits & (bits - 1)) >>> 0;
+    }
+    return allowed >>> 0;
+  }
+
+  private pairKey(idA: string, idB: string): string {
+    return idA < idB ? `${idA}\0${idB}` : `${idB}\0${idA}`;
   }
 }
 
 // ============================================================================
-// Narrow Phase - Actual Collision Detection
+// Broad Phase - Spatial Partitioning
 // ============================================================================
 
-export interface ContactManifold {
+export interface BroadPhasePair {
   bodyA: string;
   bodyB: string;
-  contacts: ContactPoint[];
-  normal: Vector3;
-  penetration: number;
-  isTrigger: boolean;
 }
 
-export class NarrowPhase {
-  /**
-   * Test collision between two bodies and generate contact manifold
-   */
-  static testCollision(bodyA: CollisionBody, bodyB: CollisionBody): ContactManifold | null {
-    const typeA = bodyA.collider.type;
-    const typeB = bodyB.collider.type;
+export interface BroadPhase {
+  insert(body: CollisionBody): void;
+  remove(id: string): void;
+  update(body: CollisionBody): void;
+  queryPairs(filter?: PairFilter): BroadPhasePair[];
+  queryAABB(aabb: AABB): string[];
+  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[];
+  querySphere(center: Vector3, radius: number): string[];
+  clear(): void;
+}
 
-    // Transform colliders to world space
-    const posA = Vec3.add(bodyA.position, Quat.rotateVector(bodyA.rotation, bodyA.collider.offset));
-    const posB = Vec3.add(bodyB.position, Quat.rotateVector(bodyB.rotation, bodyB.collider.offset));
-    const rotA = Quat.multiply(bodyA.rotation, bodyA.collider.rotation);
-    const rotB = Quat.multiply(bodyB.rotation, bodyB.collider.rotation);
+/**
+ * Simple Sweep and Prune (SAP) broad phase
+ */
+export class SweepAndPrune implements BroadPhase {
+  private bodies: Map<string, CollisionBody> = new Map();
+  private xAxis: Array<{ id: string; value: number; isMin: boolean }> = [];
+  private dirty: boolean = true;
 
-    let result: ContactManifold | null = null;
+  insert(body: CollisionBody): void {
+    this.bodies.set(body.id, body);
+    this.xAxis.push(
+      { id: body.id, value: body.aabb.min.x, isMin: true },
+      { id: body.id, value: body.aabb.max.x, isMin: false }
+    );
+    this.dirty = true;
+  }
 
-    // Dispatch to appropriate test function
-    if (typeA === 'sphere' && typeB === 'sphere') {
-      result = this.sphereVsSphere(bodyA, bodyB, posA, posB);
-    } else if (typeA === 'sphere' && typeB === 'box') {
-      result = this.sphereVsBox(bodyA, bodyB, posA, posB, rotB);
-    } else if (typeA === 'box' && typeB === 'sphere') {
-      result = this.sphereVsBox(bodyB, bodyA, posB, posA, rotA);
-      if (result) {
-        result = this.flipManifold(result);
-      }
-    } else if (typeA === 'sphere' && typeB === 'plane') {
-      result = this.sphereVsPlane(bodyA, bodyB, posA, posB, rotB);
-    } else if (typeA === 'plane' && typeB === 'sphere') {
-      result = this.sphereVsPlane(bodyB, bodyA, posB, posA, rotA);
-      if (result) {
-        result = this.flipManifold(result);
-      }
-    } else if (typeA === 'box' && typeB === 'box') {
-      result = this.boxVsBox(bodyA, bodyB, posA, posB, rotA, rotB);
-    } else if (typeA === 'box' && typeB === 'plane') {
-      result = this.boxVsPlane(bodyA, bodyB, posA, posB, rotA, rotB);
-    } else if (typeA === 'plane' && typeB === 'box') {
-      result = this.boxVsPlane(bodyB, bodyA, posB, posA, rotB, rotA);
-      if (result) {
-        result = this.flipManifold(result);
+  remove(id: string): void {
+    this.bodies.delete(id);
+    this.xAxis = this.xAxis.filter(e => e.id !== id);
+    this.dirty = true;
+  }
+
+  update(body: CollisionBody): void {
+    this.bodies.set(body.id, body);
+    for (const endpoint of this.xAxis) {
+      if (endpoint.id === body.id) {
+        endpoint.value = endpoint.isMin ? body.aabb.min.x : body.aabb.max.x;
+      }
+    }
+    this.dirty = true;
+  }
+
+  queryPairs(filter: PairFilter = CollisionFilter.groupsMatch): BroadPhasePair[] {
+    if (this.dirty) {
+      this.xAxis.sort((a, b) => a.value - b.value);
+      this.dirty = false;
+    }
+
+    const pairs: BroadPhasePair[] = [];
+    const active = new Set<string>();
+
+    for (const endpoint of this.xAxis) {
+      if (endpoint.isMin) {
+        const bodyA = this.bodies.get(endpoint.id);
+        if (!bodyA) continue;
+
+        for (const otherId of active) {
+          const bodyB = this.bodies.get(otherId);
+          if (!bodyB) continue;
+
+          // Full AABB test (Y and Z axes), then layer and pair rules
+          if (AABBUtils.intersects(bodyA.aabb, bodyB.aabb) && filter(bodyA, bodyB)) {
+            pairs.push({ bodyA: endpoint.id, bodyB: otherId });
+          }
+        }
+
+        active.add(endpoint.id);
+      } else {
+        active.delete(endpoint.id);
+      }
+    }
+
+    return pairs;
+  }
+
+  queryAABB(aabb: AABB): string[] {
+    const results: string[] = [];
+    for (const [id, body] of this.bodies) {
+      if (AABBUtils.intersects(aabb, body.aabb)) {
+        results.push(id);
+      }
+    }
+    return results;
+  }
+
+  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[] {
+    const results: string[] = [];
+    const normalizedDir = Vec3.normalize(direction);
+
+    for (const [id, body] of this.bodies) {
+      const result = AABBUtils.rayIntersect(body.aabb, origin, normalizedDir);
+      if (result.hit && result.tMin <= maxDistance) {
+        results.push(id);
+      }
+    }
+
+    return results;
+  }
+
+  querySphere(center: Vector3, radius: number): string[] {
+    const results: string[] = [];
+    const sphereAABB = AABBUtils.fromCenterExtents(center, { x: radius, y: radius, z: radius });
+
+    for (const [id, body] of this.bodies) {
+      if (AABBUtils.intersects(sphereAABB, body.aabb)) {
+        // More accurate sphere vs AABB test
+        const closest = AABBUtils.closestPoint(body.aabb, center);
+        const distSq = Vec3.lengthSquared(Vec3.sub(closest, center));
+        if (distSq <= radius * radius) {
+          results.push(id);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  clear(): void {
+    this.bodies.clear();
+    this.xAxis = [];
+    this.dirty = true;
+  }
+}
+
+/**
+ * Spatial Hash Grid for uniform distribution
+ */
+export class SpatialHashGrid implements BroadPhase {
+  private cellSize: number;
+  private invCellSize: number;
+  private cells: Map<string, Set<string>> = new Map();
+  private bodies: Map<string, CollisionBody> = new Map();
+  private bodyToCells: Map<string, string[]> = new Map();
+
+  constructor(cellSize: number = 10) {
+    this.cellSize = cellSize;
+    this.invCellSize = 1 / cellSize;
+  }
+
+  private hashPosition(x: number, y: number, z: number): string {
+    const ix = Math.floor(x * this.invCellSize);
+    const iy = Math.floor(y * this.invCellSize);
+    const iz = Math.floor(z * this.invCellSize);
+    return `${ix},${iy},${iz}`;
+  }
+
+  private getCellsForAABB(aabb: AABB): string[] {
+    const cells: string[] = [];
+    const minX = Math.floor(aabb.min.x * this.invCellSize);
+    const minY = Math.floor(aabb.min.y * this.invCellSize);
+    const minZ = Math.floor(aabb.min.z * this.invCellSize);
+    const maxX = Math.floor(aabb.max.x * this.invCellSize);
+    const maxY = Math.floor(aabb.max.y * this.invCellSize);
+    const maxZ = Math.floor(aabb.max.z * this.invCellSize);
+
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+          cells.push(`${x},${y},${z}`);
+        }
+      }
+    }
+
+    return cells;
+  }
+
+  insert(body: CollisionBody): void {
+    this.bodies.set(body.id, body);
+    const cells = this.getCellsForAABB(body.aabb);
+    this.bodyToCells.set(body.id, cells);
+
+    for (const cell of cells) {
+      if (!this.cells.has(cell)) {
+        this.cells.set(cell, new Set());
+      }
+      this.cells.get(cell)!.add(body.id);
+    }
+  }
+
+  remove(id: string): void {
+    const cells = this.bodyToCells.get(id);
+    if (cells) {
+      for (const cell of cells) {
+        this.cells.get(cell)?.delete(id);
+      }
+    }
+    this.bodyToCells.delete(id);
+    this.bodies.delete(id);
+  }
+
+  update(body: CollisionBody): void {
+    this.remove(body.id);
+    this.insert(body);
+  }
+
+  queryPairs(filter: PairFilter = CollisionFilter.groupsMatch): BroadPhasePair[] {
+    const pairs: BroadPhasePair[] = [];
+    const checked = new Set<string>();
+
+    for (const [cellKey, cellBodies] of this.cells) {
+      const bodyArray = Array.from(cellBodies);
+
+      for (let i = 0; i < bodyArray.length; i++) {
+        const idA = bodyArray[i];
+        const bodyA = this.bodies.get(idA);
+        if (!bodyA) continue;
+
+        for (let j = i + 1; j < bodyArray.length; j++) {
+          const idB = bodyArray[j];
+          const pairKey = idA < idB ? `${idA}:${idB}` : `${idB}:${idA}`;
+
+          if (checked.has(pairKey)) continue;
+          checked.add(pairKey);
+
+          const bodyB = this.bodies.get(idB);
+          if (!bodyB) continue;
+
+          if (AABBUtils.intersects(bodyA.aabb, bodyB.aabb) && filter(bodyA, bodyB)) {
+            pairs.push({ bodyA: idA, bodyB: idB });
+          }
+        }
+      }
+    }
+
+    return pairs;
+  }
+
+  queryAABB(aabb: AABB): string[] {
+    // A region spanning more cells than there are bodies is cheaper to test body by body
+    const span = (axis: 'x' | 'y' | 'z') =>
+      Math.floor(aabb.max[axis] * this.invCellSize) - Math.floor(aabb.min[axis] * this.invCellSize) + 1;
+    const cellCount = span('x') * span('y') * span('z');
+    if (!(cellCount <= this.bodies.size)) {
+      return Array.from(this.bodies.values())
+        .filter(body => AABBUtils.intersects(aabb, body.aabb))
+        .map(body => body.id);
+    }
+
+    const cells = this.getCellsForAABB(aabb);
+    const results = new Set<string>();
+
+    for (const cell of cells) {
+      const cellBodies = this.cells.get(cell);
+      if (cellBodies) {
+        for (const id of cellBodies) {
+          const body = this.bodies.get(id);
+          if (body && AABBUtils.intersects(aabb, body.aabb)) {
+            results.add(id);
+          }
+        }
+      }
+    }
+
+    return Array.from(results);
+  }
+
+  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[] {
+    // Simple implementation - check all potential cells along ray
+    const normalizedDir = Vec3.normalize(direction);
+    const results = new Set<string>();
+    const step = this.cellSize * 0.5;
+    const steps = Math.ceil(maxDistance / step);
+
+    for (let i = 0; i <= steps; i++) {
+      const t = i * step;
+      const point = Vec3.add(origin, Vec3.scale(normalizedDir, t));
+      const cell = this.hashPosition(point.x, point.y, point.z);
+      const cellBodies = this.cells.get(cell);
+
+      if (cellBodies) {
+        for (const id of cellBodies) {
+          const body = this.bodies.get(id);
+          if (body) {
+            const hit = AABBUtils.rayIntersect(body.aabb, origin, normalizedDir);
+            if (hit.hit && hit.tMin <= maxDistance) {
+              results.add(id);
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(results);
+  }
+
+  querySphere(center: Vector3, radius: number): string[] {
+    const aabb = AABBUtils.fromCenterExtents(center, { x: radius, y: radius, z: radius });
+    const candidates = this.queryAABB(aabb);
+    const results: string[] = [];
+
+    for (const id of candidates) {
+      const body = this.bodies.get(id);
+      if (body) {
+        const closest = AABBUtils.closestPoint(body.aabb, center);
+        const distSq = Vec3.lengthSquared(Vec3.sub(closest, center));
+        if (distSq <= radius * radius) {
+          results.push(id);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.bodies.clear();
+    this.bodyToCells.clear();
+  }
+}
+
+/**
+ * Node of the dynamic AABB tree; leaves hold one body's fat AABB
+ */
+interface TreeNode {
+  aabb: AABB;
+  parent: number;
+  left: number;
+  right: number;
+  height: number; // 0 for leaves
+  id: string | null; // Body id for leaves
+}
+
+const TREE_NULL = -1;
+const TREE_MARGIN = 0.1; // Fat AABB padding so small motions don't touch the tree
+const TREE_PREDICTION_TIME = 1 / 30; // Fat AABBs also stretch along this much velocity
+
+/**
+ * Dynamic bounding volume hierarchy (as in Box2D's b2DynamicTree). Leaves store
+ * fattened AABBs so most updates leave the tree untouched; moved leaves are
+ * reinserted by surface-area cost and the tree is kept balanced with rotations.
+ */
+export class DynamicAABBTree implements BroadPhase {
+  private nodes: TreeNode[] = [];
+  private freeNodes: number[] = [];
+  private root: number = TREE_NULL;
+  private leaves: Map<string, number> = new Map();
+  private bodies: Map<string, CollisionBody> = new Map();
+  private margin: number;
+
+  constructor(margin: number = TREE_MARGIN) {
+    this.margin = margin;
+  }
+
+  /**
+   * Height of the tree, 0 for a single leaf
+   */
+  get height(): number {
+    return this.root === TREE_NULL ? 0 : this.nodes[this.root].height;
+  }
+
+  insert(body: CollisionBody): void {
+    if (this.leaves.has(body.id)) {
+      this.remove(body.id);
+    }
+
+    const leaf = this.allocateNode(this.fatAABB(body), body.id);
+    this.bodies.set(body.id, body);
+    this.leaves.set(body.id, leaf);
+    this.insertLeaf(leaf);
+  }
+
+  remove(id: string): void {
+    const leaf = this.leaves.get(id);
+    if (leaf === undefined) return;
+
+    this.removeLeaf(leaf);
+    this.freeNode(leaf);
+    this.leaves.delete(id);
+    this.bodies.delete(id);
+  }
+
+  update(body: CollisionBody): void {
+    const leaf = this.leaves.get(body.id);
+    if (leaf === undefined) {
+      this.insert(body);
+      return;
+    }
+
+    this.bodies.set(body.id, body);
+    if (AABBUtils.containsAABB(this.nodes[leaf].aabb, body.aabb)) return;
+
+    this.removeLeaf(leaf);
+    this.nodes[leaf].aabb = this.fatAABB(body);
+    this.insertLeaf(leaf);
+  }
+
+  /**
+   * Each moving body queries the tree with its tight AABB; pairs of two static
+   * bodies are never produced, so large static scenery costs nothing per step
+   */
+  queryPairs(filter: PairFilter = CollisionFilter.groupsMatch): BroadPhasePair[] {
+    const pairs: BroadPhasePair[] = [];
+
+    for (const [idA, bodyA] of this.bodies) {
+      if (bodyA.isStatic) continue;
+
+      this.traverse(
+        node => AABBUtils.intersects(node.aabb, bodyA.aabb),
+        idB => {
+          if (idB === idA) return;
+          const bodyB = this.bodies.get(idB)!;
+
+          // Report each moving pair once, from its smaller id
+          if (!bodyB.isStatic && idB < idA) return;
+
+          if (AABBUtils.intersects(bodyA.aabb, bodyB.aabb) && filter(bodyA, bodyB)) {
+            pairs.push({ bodyA: idA, bodyB: idB });
+          }
+        }
+      );
+    }
+
+    return pairs;
+  }
+
+  queryAABB(aabb: AABB): string[] {
+    const results: string[] = [];
+    this.traverse(
+      node => AABBUtils.intersects(node.aabb, aabb),
+      id => {
+        if (AABBUtils.intersects(aabb, this.bodies.get(id)!.aabb)) {
+          results.push(id);
+        }
+      }
+    );
+    return results;
+  }
+
+  queryRay(origin: Vector3, direction: Vector3, maxDistance: number): string[] {
+    const normalizedDir = Vec3.normalize(direction);
+    const reaches = (aabb: AABB) => {
+      const slab = AABBUtils.rayIntersect(aabb, origin, normalizedDir);
+      return slab.hit && slab.tMin <= maxDistance;
+    };
+
+    const results: string[] = [];
+    this.traverse(
+      node => reaches(node.aabb),
+      id => {
+        if (reaches(this.bodies.get(id)!.aabb)) {
+          results.push(id);
+        }
+      }
+    );
+    return results;
+  }
+
+  querySphere(center: Vector3, radius: number): string[] {
+    const touches = (aabb: AABB) =>
+      Vec3.lengthSquared(Vec3.sub(AABBUtils.closestPoint(aabb, center), center)) <= radius * radius;
+
+    const results: string[] = [];
+    this.traverse(
+      node => touches(node.aabb),
+      id => {
+        if (touches(this.bodies.get(id)!.aabb)) {
+          results.push(id);
+        }
+      }
+    );
+    return results;
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.freeNodes = [];
+    this.root = TREE_NULL;
+    this.leaves.clear();
+    this.bodies.clear();
+  }
+
+  /**
+   * Depth-first walk visiting the leaves under every node that passes the test
+   */
+  private traverse(test: (node: TreeNode) => boolean, visit: (id: string) => void): void {
+    if (this.root === TREE_NULL) return;
+
+    const stack = [this.root];
+    while (stack.length > 0) {
+      const node = this.nodes[stack.pop()!];
+      if (!test(node)) continue;
+
+      if (node.id !== null) {
+        visit(node.id);
+      } else {
+        stack.push(node.left, node.right);
+      }
+    }
+  }
+
+  private fatAABB(body: CollisionBody): AABB {
+    const padded = AABBUtils.expand(body.aabb, this.margin);
+    return body.isStatic ? padded : AABBUtils.expandByVelocity(padded, body.velocity, TREE_PREDICTION_TIME);
+  }
+
+  private allocateNode(aabb: AABB, id: string | null): number {
+    const node: TreeNode = { aabb, parent: TREE_NULL, left: TREE_NULL, right: TREE_NULL, height: 0, id };
+    const index = this.freeNodes.pop();
+    if (index !== undefined) {
+      this.nodes[index] = node;
+      return index;
+    }
+    this.nodes.push(node);
+    return this.nodes.length - 1;
+  }
+
+  private freeNode(index: number): void {
+    this.freeNodes.push(index);
+  }
+
+  /**
+   * Descend towards the sibling that grows the tree's surface area least
+   */
+  private insertLeaf(leaf: number): void {
+    if (this.root === TREE_NULL) {
+      this.root = leaf;
+      this.nodes[leaf].parent = TREE_NULL;
+      return;
+    }
+
+    const leafAABB = this.nodes[leaf].aabb;
+    let index = this.root;
+
+    while (this.nodes[index].id === null) {
+      const node = this.nodes[index];
+      const area = AABBUtils.surfaceArea(node.aabb);
+      const combinedArea = AABBUtils.surfaceArea(AABBUtils.merge(node.aabb, leafAABB));
+
+      // Cost of pairing the leaf with this node, and the cost pushed down to either child
+      const cost = 2 * combinedArea;
+      const inheritance = 2 * (combinedArea - area);
+      const childCost = (child: number) => {
+        const grown = AABBUtils.surfaceArea(AABBUtils.merge(leafAABB, this.nodes[child].aabb));
+        const own = this.nodes[child].id === null ? AABBUtils.surfaceArea(this.nodes[child].aabb) : 0;
+        return grown - own + inheritance;
+      };
+
+      const costLeft = childCost(node.left);
+      const costRight = childCost(node.right);
+      if (cost < costLeft && cost < costRight) break;
+
+      index = costLeft < costRight ? node.left : node.right;
+    }
+
+    const sibling = index;
+    const oldParent = this.nodes[sibling].parent;
+    const newParent = this.allocateNode(AABBUtils.merge(leafAABB, this.nodes[sibling].aabb), null);
+    this.nodes[newParent].parent = oldParent;
+    this.nodes[newParent].height = this.nodes[sibling].height + 1;
+    this.nodes[newParent].left = sibling;
+    this.nodes[newParent].right = leaf;
+    this.nodes[sibling].parent = newParent;
+    this.nodes[leaf].parent = newParent;
+
+    if (oldParent === TREE_NULL) {
+      this.root = newParent;
+    } else if (this.nodes[oldParent].left === sibling) {
+      this.nodes[oldParent].left = newParent;
+    } else {
+      this.nodes[oldParent].right = newParent;
+    }
+
+    this.refit(this.nodes[leaf].parent);
+  }
+
+  private removeLeaf(leaf: number): void {
+    if (leaf === this.root) {
+      this.root = TREE_NULL;
+      return;
+    }
+
+    const parent = this.nodes[leaf].parent;
+    const grandParent = this.nodes[parent].parent;
+    const sibling = this.nodes[parent].left === leaf ? this.nodes[parent].right : this.nodes[parent].left;
+
+    this.freeNode(parent);
+    if (grandParent === TREE_NULL) {
+      this.root = sibling;
+      this.nodes[sibling].parent = TREE_NULL;
+      return;
+    }
+
+    if (this.nodes[grandParent].left === parent) {
+      this.nodes[grandParent].left = sibling;
+    } else {
+      this.nodes[grandParent].right = sibling;
+    }
+    this.nodes[sibling].parent = grandParent;
+    this.refit(grandParent);
+  }
+
+  /**
+   * Rebalance and recompute bounds and heights from a node up to the root
+   */
+  private refit(start: number): void {
+    let index = start;
+    while (index !== TREE_NULL) {
+      index = this.balance(index);
+
+      const node = this.nodes[index];
+      const left = this.nodes[node.left];
+      const right = this.nodes[node.right];
+      node.height = 1 + Math.max(left.height, right.height);
+      node.aabb = AABBUtils.merge(left.aabb, right.aabb);
+
+      index = node.parent;
+    }
+  }
+
+  /**
+   * Rotate the taller child of an unbalanced node above it. Returns the index
+   * of the node now at this position in the tree.
+   */
+  private balance(indexA: number): number {
+    const a = this.nodes[indexA];
+    if (a.id !== null || a.height < 2) return indexA;
+
+    const indexB = a.left;
+    const indexC = a.right;
+    const b = this.nodes[indexB];
+    const c = this.nodes[indexC];
+    const skew = c.height - b.height;
+
+    if (skew > 1) {
+      this.rotateUp(indexA, indexC, 'right');
+      return indexC;
+    }
+    if (skew < -1) {
+      this.rotateUp(indexA, indexB, 'left');
+      return indexB;
+    }
+    return indexA;
+  }
+
+  /**
+   * Lift child (on the given side of parent) into parent's place. The child's
+   * shorter subtree is handed down to parent; the taller one stays with child.
+   */
+  private rotateUp(indexA: number, indexChild: number, side: 'left' | 'right'): void {
+    const a = this.nodes[indexA];
+    const child = this.nodes[indexChild];
+    const indexF = child.left;
+    const indexG = child.right;
+    const f = this.nodes[indexF];
+    const g = this.nodes[indexG];
+
+    // Swap child and A
+    child.left = indexA;
+    child.parent = a.parent;
+    a.parent = indexChild;
+
+    if (child.parent === TREE_NULL) {
+      this.root = indexChild;
+    } else if (this.nodes[child.parent].left === indexA) {
+      this.nodes[child.parent].left = indexChild;
+    } else {
+      this.nodes[child.parent].right = indexChild;
+    }
+
+    const [keep, give, indexKeep, indexGive] = f.height > g.height
+      ? [f, g, indexF, indexG]
+      : [g, f, indexG, indexF];
+
+    child.right = indexKeep;
+    a[side] = indexGive;
+    give.parent = indexA;
+
+    const other = this.nodes[side === 'right' ? a.left : a.right];
+    a.aabb = AABBUtils.merge(other.aabb, give.aabb);
+    a.height = 1 + Math.max(other.height, give.height);
+    child.aabb = AABBUtils.merge(a.aabb, keep.aabb);
+    child.height = 1 + Math.max(a.height, keep.height);
+  }
+}
+
+// ============================================================================
+// Convex Support Mapping
+// ============================================================================
+
+/**
+ * Support function of a convex shape: the farthest point along a world direction
+ */
+export type SupportFunction = (direction: Vector3) => Vector3;
+
+export const ConvexSupport = {
+  /**
+   * Whether a collider can be handled by the GJK/EPA path
+   */
+  isConvex(collider: Collider): boolean {
+    switch (collider.type) {
+      case 'sphere':
+      case 'box':
+      case 'capsule':
+      case 'cylinder':
+      case 'cone':
+        return true;
+      case 'mesh':
+        return collider.isConvex && collider.vertices.length > 0;
+      default:
+        return false;
+    }
+  },
+
+  /**
+   * Support point of a collider in its own local frame
+   */
+  local(collider: Collider, direction: Vector3): Vector3 {
+    switch (collider.type) {
+      case 'sphere':
+        return Vec3.scale(ConvexSupport.unit(direction), collider.radius);
+
+      case 'box': {
+        const h = collider.halfExtents;
+        return {
+          x: direction.x >= 0 ? h.x : -h.x,
+          y: direction.y >= 0 ? h.y : -h.y,
+          z: direction.z >= 0 ? h.z : -h.z
+        };
+      }
+
+      case 'capsule': {
+        const tip = { x: 0, y: direction.y >= 0 ? collider.halfHeight : -collider.halfHeight, z: 0 };
+        return Vec3.add(tip, Vec3.scale(ConvexSupport.unit(direction), collider.radius));
+      }
+
+      case 'cylinder': {
+        const rim = ConvexSupport.radial(direction, collider.radius);
+        return { x: rim.x, y: direction.y >= 0 ? collider.halfHeight : -collider.halfHeight, z: rim.z };
+      }
+
+      case 'cone': {
+        const apex = { x: 0, y: collider.halfHeight * 1.5, z: 0 };
+        const rim = ConvexSupport.radial(direction, collider.radius);
+        const base = { x: rim.x, y: -collider.halfHeight * 0.5, z: rim.z };
+        return Vec3.dot(apex, direction) >= Vec3.dot(base, direction) ? apex : base;
+      }
+
+      case 'mesh': {
+        let best = collider.vertices[0];
+        let bestDot = -Infinity;
+        for (const v of collider.vertices) {
+          const d = Vec3.dot(v, direction);
+          if (d > bestDot) {
+            bestDot = d;
+            best = v;
+          }
+        }
+        return { ...best };
+      }
+
+      case 'plane':
+      case 'heightmap':
+      case 'compound':
+        // Unbounded or concave; callers handle them separately
+        return { x: 0, y: 0, z: 0 };
+    }
+  },
+
+  /**
+   * Support point of a collider placed at a world transform
+   */
+  world(collider: Collider, position: Vector3, rotation: Quaternion, direction: Vector3): Vector3 {
+    const localDir = Quat.rotateVector(Quat.conjugate(rotation), direction);
+    return Vec3.add(position, Quat.rotateVector(rotation, ConvexSupport.local(collider, localDir)));
+  },
+
+  /**
+   * Support function bound to a collider's world transform
+   */
+  bind(collider: Collider, position: Vector3, rotation: Quaternion): SupportFunction {
+    return (direction: Vector3) => ConvexSupport.world(collider, position, rotation, direction);
+  },
+
+  unit(direction: Vector3): Vector3 {
+    const len = Vec3.length(direction);
+    return len > 1e-12 ? Vec3.scale(direction, 1 / len) : { x: 0, y: 0, z: 0 };
+  },
+
+  /**
+   * Point on a circle of the given radius in the local XZ plane, farthest along direction
+   */
+  radial(direction: Vector3, radius: number): Vector3 {
+    const len = Math.sqrt(direction.x * direction.x + direction.z * direction.z);
+    if (len < 1e-12) return { x: 0, y: 0, z: 0 };
+    return { x: (direction.x / len) * radius, y: 0, z: (direction.z / len) * radius };
+  }
+};
+
+// ============================================================================
+// GJK / EPA - General Convex Collision
+// ============================================================================
+
+/**
+ * Vertex of the Minkowski difference A - B, remembering the support points it came from
+ */
+export interface MinkowskiVertex {
+  point: Vector3;
+  supportA: Vector3;
+  supportB: Vector3;
+}
+
+export interface PenetrationResult {
+  normal: Vector3; // Points from A towards B
+  depth: number;
+  pointA: Vector3; // Deepest point of A inside B
+  pointB: Vector3; // Deepest point of B inside A
+}
+
+export interface ClosestPoints {
+  distance: number;
+  normal: Vector3; // Unit direction from A towards B
+  pointA: Vector3; // Point on A nearest B
+  pointB: Vector3; // Point on B nearest A
+}
+
+/**
+ * Point of a simplex nearest the origin, as weights over the vertices that support it
+ */
+interface SimplexPoint {
+  simplex: MinkowskiVertex[];
+  weights: number[];
+  point: Vector3;
+}
+
+interface EPAFace {
+  a: number;
+  b: number;
+  c: number;
+  normal: Vector3;
+  distance: number;
+}
+
+const GJK_MAX_ITERATIONS = 64;
+const EPA_MAX_ITERATIONS = 64;
+const EPA_TOLERANCE = 1e-4;
+const GJK_EPSILON = 1e-10;
+const GJK_DISTANCE_TOLERANCE = 1e-8; // Relative convergence of the separation distance
+
+const SEARCH_DIRECTIONS: Vector3[] = [
+  { x: 1, y: 0, z: 0 }, { x: -1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 }, { x: 0, y: -1, z: 0 },
+  { x: 0, y: 0, z: 1 }, { x: 0, y: 0, z: -1 }
+];
+
+export class GJK {
+  /**
+   * Test two convex shapes for overlap. Returns a tetrahedron enclosing the
+   * origin when they intersect, or null when they are separated.
+   */
+  static intersect(
+    supportA: SupportFunction,
+    supportB: SupportFunction,
+    initialDirection: Vector3 = { x: 1, y: 0, z: 0 }
+  ): MinkowskiVertex[] | null {
+    let direction = Vec3.lengthSquared(initialDirection) > GJK_EPSILON ? initialDirection : { x: 1, y: 0, z: 0 };
+    let simplex: MinkowskiVertex[] = [this.minkowski(supportA, supportB, direction)];
+    direction = Vec3.negate(simplex[0].point);
+
+    for (let i = 0; i < GJK_MAX_ITERATIONS; i++) {
+      if (Vec3.lengthSquared(direction) < GJK_EPSILON) {
+        // Origin lies on the current simplex: touching or overlapping
+        return this.completeSimplex(simplex, supportA, supportB);
+      }
+
+      const vertex = this.minkowski(supportA, supportB, direction);
+      if (Vec3.dot(vertex.point, direction) < 0) {
+        return null;
+      }
+
+      simplex.push(vertex);
+      const next = this.nextSimplex(simplex);
+      if (!next) {
+        return this.completeSimplex(simplex, supportA, supportB);
+      }
+      simplex = next.simplex;
+      direction = next.direction;
+    }
+
+    return null;
+  }
+
+  /**
+   * Expanding Polytope Algorithm: penetration normal, depth and witness points
+   * from a GJK simplex enclosing the origin
+   */
+  static penetration(
+    simplex: MinkowskiVertex[],
+    supportA: SupportFunction,
+    supportB: SupportFunction
+  ): PenetrationResult | null {
+    if (simplex.length < 4) return null;
+
+    const vertices = [...simplex];
+    const centroid = Vec3.scale(
+      vertices.reduce((sum, v) => Vec3.add(sum, v.point), { x: 0, y: 0, z: 0 }),
+      0.25
+    );
+
+    const makeFace = (a: number, b: number, c: number): EPAFace | null => {
+      const pa = vertices[a].point;
+      let normal = Vec3.cross(Vec3.sub(vertices[b].point, pa), Vec3.sub(vertices[c].point, pa));
+      const len = Vec3.length(normal);
+      if (len < GJK_EPSILON) return null;
+      normal = Vec3.scale(normal, 1 / len);
+
+      // Orient outwards, away from the polytope interior
+      if (Vec3.dot(normal, Vec3.sub(pa, centroid)) < 0) {
+        return { a, b: c, c: b, normal: Vec3.negate(normal), distance: -Vec3.dot(normal, pa) };
+      }
+      return { a, b, c, normal, distance: Vec3.dot(normal, pa) };
+    };
+
+    let faces: EPAFace[] = [];
+    for (const [a, b, c] of [[0, 1, 2], [0, 3, 1], [0, 2, 3], [1, 3, 2]]) {
+      const face = makeFace(a, b, c);
+      if (face) faces.push(face);
+    }
+    if (faces.length < 4) return null;
+
+    let closest = faces[0];
+
+    for (let i = 0; i < EPA_MAX_ITERATIONS; i++) {
+      closest = faces.reduce((best, f) => (f.distance < best.distance ? f : best), faces[0]);
+
+      const vertex = this.minkowski(supportA, supportB, closest.normal);
+      if (Vec3.dot(vertex.point, closest.normal) - closest.distance < EPA_TOLERANCE) {
+        break;
+      }
+
+      // Remove faces visible from the new vertex and stitch the horizon
+      const edges: Array<[number, number]> = [];
+      const remaining: EPAFace[] = [];
+      for (const face of faces) {
+        if (Vec3.dot(face.normal, Vec3.sub(vertex.point, vertices[face.a].point)) > GJK_EPSILON) {
+          for (const [e0, e1] of [[face.a, face.b], [face.b, face.c], [face.c, face.a]]) {
+            const reverse = edges.findIndex(([x, y]) => x === e1 && y === e0);
+            if (reverse >= 0) {
+              edges.splice(reverse, 1);
+            } else {
+              edges.push([e0, e1]);
+            }
+          }
+        } else {
+          remaining.push(face);
+        }
+      }
+
+      if (edges.length === 0) break;
+
+      vertices.push(vertex);
+      const index = vertices.length - 1;
+      for (const [e0, e1] of edges) {
+        const face = makeFace(e0, e1, index);
+        if (face) remaining.push(face);
+      }
+
+      if (remaining.length === 0) break;
+      faces = remaining;
+    }
+
+    // Witness points from the barycentric coordinates of the origin's projection
+    const projection = Vec3.scale(closest.normal, closest.distance);
+    const [u, v, w] = this.barycentric(
+      projection,
+      vertices[closest.a].point,
+      vertices[closest.b].point,
+      vertices[closest.c].point
+    );
+    const blend = (key: 'supportA' | 'supportB') => Vec3.add(
+      Vec3.add(Vec3.scale(vertices[closest.a][key], u), Vec3.scale(vertices[closest.b][key], v)),
+      Vec3.scale(vertices[closest.c][key], w)
+    );
+
+    return {
+      normal: closest.normal,
+      depth: Math.max(0, closest.distance),
+      pointA: blend('supportA'),
+      pointB: blend('supportB')
+    };
+  }
+
+  /**
+   * Closest points between two separated convex shapes. Returns null when they
+   * touch or overlap; use intersect/penetration for the overlapping case.
+   */
+  static distance(
+    supportA: SupportFunction,
+    supportB: SupportFunction,
+    initialDirection: Vector3 = { x: 1, y: 0, z: 0 }
+  ): ClosestPoints | null {
+    const direction = Vec3.lengthSquared(initialDirection) > GJK_EPSILON ? initialDirection : { x: 1, y: 0, z: 0 };
+    const first = this.minkowski(supportA, supportB, direction);
+    let closest: SimplexPoint = { simplex: [first], weights: [1], point: first.point };
+
+    for (let i = 0; i < GJK_MAX_ITERATIONS; i++) {
+      const v = closest.point;
+      const distSq = Vec3.lengthSquared(v);
+      if (distSq < GJK_EPSILON) return null;
+
+      const vertex = this.minkowski(supportA, supportB, Vec3.negate(v));
+      if (distSq - Vec3.dot(v, vertex.point) <= GJK_DISTANCE_TOLERANCE * distSq) break;
+      if (closest.simplex.some(s => Vec3.lengthSquared(Vec3.sub(s.point, vertex.point)) < GJK_EPSILON)) break;
+
+      closest = this.closestOnSimplex([...closest.simplex, vertex]);
+      if (closest.simplex.length === 4) return null;
+    }
+
+    const blend = (key: 'supportA' | 'supportB'): Vector3 =>
+      closest.simplex.reduce(
+        (sum, v, i) => Vec3.add(sum, Vec3.scale(v[key], closest.weights[i])),
+        { x: 0, y: 0, z: 0 }
+      );
+
+    // The Minkowski point is A - B, so B lies along its negation
+    const distance = Vec3.length(closest.point);
+    if (distance < GJK_EPSILON) return null;
+
+    return {
+      distance,
+      normal: Vec3.scale(closest.point, -1 / distance),
+      pointA: blend('supportA'),
+      pointB: blend('supportB')
+    };
+  }
+
+  /**
+   * Reduce a simplex of up to four vertices to the feature nearest the origin.
+   * A full tetrahedron is returned only when it encloses the origin.
+   */
+  private static closestOnSimplex(simplex: MinkowskiVertex[]): SimplexPoint {
+    const combine = (vertices: MinkowskiVertex[], weights: number[]): SimplexPoint => ({
+      simplex: vertices,
+      weights,
+      point: vertices.reduce((sum, v, i) => Vec3.add(sum, Vec3.scale(v.point, weights[i])), { x: 0, y: 0, z: 0 })
+    });
+
+    switch (simplex.length) {
+      case 1:
+        return combine(simplex, [1]);
+
+      case 2: {
+        const [a, b] = simplex;
+        const ab = Vec3.sub(b.point, a.point);
+        const lenSq = Vec3.lengthSquared(ab);
+        const t = lenSq < GJK_EPSILON ? 0 : -Vec3.dot(a.point, ab) / lenSq;
+        if (t <= 0) return combine([a], [1]);
+        if (t >= 1) return combine([b], [1]);
+        return combine([a, b], [1 - t, t]);
+      }
+
+      case 3: {
+        const [a, b, c] = simplex;
+        const ab = Vec3.sub(b.point, a.point);
+        const ac = Vec3.sub(c.point, a.point);
+
+        const d1 = -Vec3.dot(ab, a.point);
+        const d2 = -Vec3.dot(ac, a.point);
+        if (d1 <= 0 && d2 <= 0) return combine([a], [1]);
+
+        const d3 = -Vec3.dot(ab, b.point);
+        const d4 = -Vec3.dot(ac, b.point);
+        if (d3 >= 0 && d4 <= d3) return combine([b], [1]);
+
+        const vc = d1 * d4 - d3 * d2;
+        if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+          const t = d1 / (d1 - d3);
+          return combine([a, b], [1 - t, t]);
+        }
+
+        const d5 = -Vec3.dot(ab, c.point);
+        const d6 = -Vec3.dot(ac, c.point);
+        if (d6 >= 0 && d5 <= d6) return combine([c], [1]);
+
+        const vb = d5 * d2 - d1 * d6;
+        if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+          const t = d2 / (d2 - d6);
+          return combine([a, c], [1 - t, t]);
+        }
+
+        const va = d3 * d6 - d5 * d4;
+        if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+          const t = (d4 - d3) / ((d4 - d3) + (d5 - d6));
+          return combine([b, c], [1 - t, t]);
+        }
+
+        const sum = va + vb + vc;
+        if (Math.abs(sum) < GJK_EPSILON) {
+          // Degenerate triangle: fall back to its nearest edge
+          return [[a, b], [b, c], [a, c]]
+            .map(edge => this.closestOnSimplex(edge))
+            .reduce((best, p) => (Vec3.lengthSquared(p.point) < Vec3.lengthSquared(best.point) ? p : best));
+        }
+        return combine([a, b, c], [va / sum, vb / sum, vc / sum]);
+      }
+
+      default: {
+        const [a, b, c, d] = simplex;
+        const faces: Array<[MinkowskiVertex, MinkowskiVertex, MinkowskiVertex, MinkowskiVertex]> = [
+          [a, b, c, d], [a, c, d, b], [a, d, b, c], [b, d, c, a]
+        ];
+
+        let best: SimplexPoint | null = null;
+        for (const [p, q, r, opposite] of faces) {
+          const normal = Vec3.cross(Vec3.sub(q.point, p.point), Vec3.sub(r.point, p.point));
+          const originSide = -Vec3.dot(normal, p.point);
+          const oppositeSide = Vec3.dot(normal, Vec3.sub(opposite.point, p.point));
+
+          // Only faces whose plane separates the origin from the opposite vertex can be nearest
+          if (originSide * oppositeSide > 0) continue;
+
+          const candidate = this.closestOnSimplex([p, q, r]);
+          if (!best || Vec3.lengthSquared(candidate.point) < Vec3.lengthSquared(best.point)) {
+            best = candidate;
+          }
+        }
+
+        return best ?? { simplex, weights: [0.25, 0.25, 0.25, 0.25], point: { x: 0, y: 0, z: 0 } };
+      }
+    }
+  }
+
+  private static minkowski(
+    supportA: SupportFunction,
+    supportB: SupportFunction,
+    direction: Vector3
+  ): MinkowskiVertex {
+    const a = supportA(direction);
+    const b = supportB(Vec3.negate(direction));
+    return { point: Vec3.sub(a, b), supportA: a, supportB: b };
+  }
+
+  /**
+   * Reduce the simplex to the feature nearest the origin and pick the next search
+   * direction. Returns null when the origin is enclosed.
+   */
+  private static nextSimplex(
+    simplex: MinkowskiVertex[]
+  ): { simplex: MinkowskiVertex[]; direction: Vector3 } | null {
+    switch (simplex.length) {
+      case 2:
+        return this.lineCase(simplex[1], simplex[0]);
+      case 3:
+        return this.triangleCase(simplex[2], simplex[1], simplex[0]);
+      default:
+        return this.tetrahedronCase(simplex[3], simplex[2], simplex[1], simplex[0]);
+    }
+  }
+
+  private static lineCase(
+    a: MinkowskiVertex,
+    b: MinkowskiVertex
+  ): { simplex: MinkowskiVertex[]; direction: Vector3 } | null {
+    const ab = Vec3.sub(b.point, a.point);
+    const ao = Vec3.negate(a.point);
+
+    if (Vec3.dot(ab, ao) > 0) {
+      const direction = Vec3.cross(Vec3.cross(ab, ao), ab);
+      if (Vec3.lengthSquared(direction) < GJK_EPSILON) return null;
+      return { simplex: [b, a], direction };
+    }
+    return { simplex: [a], direction: ao };
+  }
+
+  private static triangleCase(
+    a: MinkowskiVertex,
+    b: MinkowskiVertex,
+    c: MinkowskiVertex
+  ): { simplex: MinkowskiVertex[]; direction: Vector3 } | null {
+    const ab = Vec3.sub(b.point, a.point);
+    const ac = Vec3.sub(c.point, a.point);
+    const ao = Vec3.negate(a.point);
+    const abc = Vec3.cross(ab, ac);
+
+    if (Vec3.dot(Vec3.cross(abc, ac), ao) > 0) {
+      if (Vec3.dot(ac, ao) > 0) {
+        const direction = Vec3.cross(Vec3.cross(ac, ao), ac);
+        if (Vec3.lengthSquared(direction) < GJK_EPSILON) return null;
+        return { simplex: [c, a], direction };
+      }
+      return this.lineCase(a, b);
+    }
+
+    if (Vec3.dot(Vec3.cross(ab, abc), ao) > 0) {
+      return this.lineCase(a, b);
+    }
+
+    const side = Vec3.dot(abc, ao);
+    if (Math.abs(side) < GJK_EPSILON) return null;
+    return side > 0
+      ? { simplex: [c, b, a], direction: abc }
+      : { simplex: [b, c, a], direction: Vec3.negate(abc) };
+  }
+
+  private static tetrahedronCase(
+    a: MinkowskiVertex,
+    b: MinkowskiVertex,
+    c: MinkowskiVertex,
+    d: MinkowskiVertex
+  ): { simplex: MinkowskiVertex[]; direction: Vector3 } | null {
+    const ao = Vec3.negate(a.point);
+    const faces: Array<[MinkowskiVertex, MinkowskiVertex, MinkowskiVertex]> = [[b, c, d], [c, d, b], [d, b, c]];
+
+    for (const [p, q, opposite] of faces) {
+      let normal = Vec3.cross(Vec3.sub(p.point, a.point), Vec3.sub(q.point, a.point));
+      if (Vec3.dot(normal, Vec3.sub(opposite.point, a.point)) > 0) {
+        normal = Vec3.negate(normal);
+      }
+      if (Vec3.dot(normal, ao) > 0) {
+        return this.triangleCase(a, p, q);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Grow a degenerate simplex to a full tetrahedron so EPA has a volume to expand
+   */
+  private static completeSimplex(
+    simplex: MinkowskiVertex[],
+    supportA: SupportFunction,
+    supportB: SupportFunction
+  ): MinkowskiVertex[] {
+    const result = [...simplex];
+
+    const tryAdd = (direction: Vector3): boolean => {
+      for (const dir of [direction, Vec3.negate(direction)]) {
+        if (Vec3.lengthSquared(dir) < GJK_EPSILON) continue;
+        const vertex = this.minkowski(supportA, supportB, dir);
+        if (this.extendsSimplex(result, vertex.point)) {
+          result.push(vertex);
+          return true;
+        }
+      }
+      return false;
+    };
+
+    while (result.length < 4) {
+      let added = false;
+
+      if (result.length === 3) {
+        const normal = Vec3.cross(
+          Vec3.sub(result[1].point, result[0].point),
+          Vec3.sub(result[2].point, result[0].point)
+        );
+        added = tryAdd(normal);
+      } else if (result.length === 2) {
+        const line = Vec3.sub(result[1].point, result[0].point);
+        for (const axis of SEARCH_DIRECTIONS) {
+          if (tryAdd(Vec3.cross(line, axis))) {
+            added = true;
+            break;
+          }
+        }
+      }
+
+      if (!added) {
+        for (const axis of SEARCH_DIRECTIONS) {
+          if (tryAdd(axis)) {
+            added = true;
+            break;
+          }
+        }
+      }
+
+      if (!added) break;
+    }
+
+    return result;
+  }
+
+  private static extendsSimplex(simplex: MinkowskiVertex[], point: Vector3): boolean {
+    const p0 = simplex[0].point;
+    switch (simplex.length) {
+      case 1:
+        return Vec3.lengthSquared(Vec3.sub(point, p0)) > GJK_EPSILON;
+      case 2: {
+        const cross = Vec3.cross(Vec3.sub(simplex[1].point, p0), Vec3.sub(point, p0));
+        return Vec3.lengthSquared(cross) > GJK_EPSILON;
+      }
+      default: {
+        const normal = Vec3.cross(Vec3.sub(simplex[1].point, p0), Vec3.sub(simplex[2].point, p0));
+        return Math.abs(Vec3.dot(normal, Vec3.sub(point, p0))) > GJK_EPSILON;
+      }
+    }
+  }
+
+  /**
+   * Barycentric coordinates of p with respect to triangle abc
+   */
+  private static barycentric(p: Vector3, a: Vector3, b: Vector3, c: Vector3): [number, number, number] {
+    const v0 = Vec3.sub(b, a);
+    const v1 = Vec3.sub(c, a);
+    const v2 = Vec3.sub(p, a);
+    const d00 = Vec3.dot(v0, v0);
+    const d01 = Vec3.dot(v0, v1);
+    const d11 = Vec3.dot(v1, v1);
+    const d20 = Vec3.dot(v2, v0);
+    const d21 = Vec3.dot(v2, v1);
+    const denom = d00 * d11 - d01 * d01;
+    if (Math.abs(denom) < GJK_EPSILON) return [1, 0, 0];
+
+    const v = (d11 * d20 - d01 * d21) / denom;
+    const w = (d00 * d21 - d01 * d20) / denom;
+    return [1 - v - w, v, w];
+  }
+}
+
+// ============================================================================
+// Narrow Phase - Actual Collision Detection
+// ============================================================================
+
+/**
+ * Contact witness points in each body's local frame, carried between frames
+ */
+export interface ContactAnchor {
+  localA: Vector3;
+  localB: Vector3;
+}
+
+export interface ContactManifold {
+  bodyA: string;
+  bodyB: string;
+  contacts: ContactPoint[];
+  normal: Vector3; // Points from bodyA towards bodyB
+  penetration: number;
+  isTrigger: boolean;
+  anchors?: ContactAnchor[]; // Persistent points for GJK/EPA manifolds
+}
+
+interface WitnessPair {
+  pointA: Vector3;
+  pointB: Vector3;
+}
+
+const PERSISTENT_CONTACT_THRESHOLD = 0.02;
+const PERSISTENT_NORMAL_COS = 0.95;
+const MAX_PERSISTENT_CONTACTS = 4;
+const PLANE_PROBE_TILT = 0.1;
+const PLANE_PROBE_COUNT = 8;
+const SAT_RELATIVE_TOLERANCE = 0.95; // A later box axis must beat an earlier one by 5%...
+const SAT_ABSOLUTE_TOLERANCE = 1e-3; // ... and 1 mm to be used instead
+
+interface SatAxis {
+  axis: Vector3;
+  penetration: number;
+}
+
+export class NarrowPhase {
+  /**
+   * Test collision between two bodies and generate contact manifold.
+   * Pass the pair's manifold from the previous step to keep GJK/EPA contacts persistent.
+   */
+  static testCollision(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    previous?: ContactManifold
+  ): ContactManifold | null {
+    const typeA = bodyA.collider.type;
+    const typeB = bodyB.collider.type;
+
+    // Transform colliders to world space
+    const posA = Vec3.add(bodyA.position, Quat.rotateVector(bodyA.rotation, bodyA.collider.offset));
+    const posB = Vec3.add(bodyB.position, Quat.rotateVector(bodyB.rotation, bodyB.collider.offset));
+    const rotA = Quat.multiply(bodyA.rotation, bodyA.collider.rotation);
+    const rotB = Quat.multiply(bodyB.rotation, bodyB.collider.rotation);
+
+    let result: ContactManifold | null = null;
+
+    // Dispatch to appropriate test function
+    if (typeA === 'compound' || typeB === 'compound') {
+      result = this.compoundCollision(bodyA, bodyB);
+    } else if (typeA === 'sphere' && typeB === 'sphere') {
+      result = this.sphereVsSphere(bodyA, bodyB, posA, posB);
+    } else if (typeA === 'sphere' && typeB === 'box') {
+      result = this.sphereVsBox(bodyA, bodyB, posA, posB, rotB);
+    } else if (typeA === 'box' && typeB === 'sphere') {
+      result = this.sphereVsBox(bodyB, bodyA, posB, posA, rotA);
+      if (result) {
+        result = this.flipManifold(result);
+      }
+    } else if (typeA === 'sphere' && typeB === 'plane') {
+      result = this.sphereVsPlane(bodyA, bodyB, posA, posB, rotB);
+    } else if (typeA === 'plane' && typeB === 'sphere') {
+      result = this.sphereVsPlane(bodyB, bodyA, posB, posA, rotA);
+      if (result) {
+        result = this.flipManifold(result);
+      }
+    } else if (typeA === 'box' && typeB === 'box') {
+      result = this.boxVsBox(bodyA, bodyB, posA, posB, rotA, rotB);
+    } else if (typeA === 'box' && typeB === 'plane') {
+      result = this.boxVsPlane(bodyA, bodyB, posA, posB, rotA, rotB);
+    } else if (typeA === 'plane' && typeB === 'box') {
+      result = this.boxVsPlane(bodyB, bodyA, posB, posA, rotB, rotA);
+      if (result) {
+        result = this.flipManifold(result);
       }
     } else if (typeA === 'sphere' && typeB === 'capsule') {
       result = this.sphereVsCapsule(bodyA, bodyB, posA, posB, rotB);
@@ -638,54 +2482,990 @@ export class NarrowPhase {
       if (result) {
         result = this.flipManifold(result);
       }
-    } else if (typeA === 'capsule' && typeB === 'capsule') {
-      result = this.capsuleVsCapsule(bodyA, bodyB, posA, posB, rotA, rotB);
-    } else if (typeA === 'capsule' && typeB === 'plane') {
-      result = this.capsuleVsPlane(bodyA, bodyB, posA, posB, rotA, rotB);
-    } else if (typeA === 'plane' && typeB === 'capsule') {
-      result = this.capsuleVsPlane(bodyB, bodyA, posB, posA, rotB, rotA);
-      if (result) {
-        result = this.flipManifold(result);
+    } else if (typeA === 'capsule' && typeB === 'capsule') {
+      result = this.capsuleVsCapsule(bodyA, bodyB, posA, posB, rotA, rotB);
+    } else if (typeA === 'capsule' && typeB === 'plane') {
+      result = this.capsuleVsPlane(bodyA, bodyB, posA, posB, rotA, rotB);
+    } else if (typeA === 'plane' && typeB === 'capsule') {
+      result = this.capsuleVsPlane(bodyB, bodyA, posB, posA, rotB, rotA);
+      if (result) {
+        result = this.flipManifold(result);
+      }
+    } else if (typeB === 'plane' && ConvexSupport.isConvex(bodyA.collider)) {
+      result = this.convexVsPlane(bodyA, bodyB, posA, posB, rotA, rotB, previous);
+    } else if (typeA === 'plane' && ConvexSupport.isConvex(bodyB.collider)) {
+      result = this.convexVsPlane(bodyB, bodyA, posB, posA, rotB, rotA, previous);
+      if (result) {
+        result = this.flipManifold(result);
+      }
+    } else if (this.triangleBVH(bodyB.collider) && ConvexSupport.isConvex(bodyA.collider)) {
+      result = this.convexVsTriangleMesh(bodyA, bodyB, posA, posB, rotA, rotB);
+    } else if (this.triangleBVH(bodyA.collider) && ConvexSupport.isConvex(bodyB.collider)) {
+      result = this.convexVsTriangleMesh(bodyB, bodyA, posB, posA, rotB, rotA);
+      if (result) {
+        result = this.flipManifold(result);
+      }
+    } else if (ConvexSupport.isConvex(bodyA.collider) && ConvexSupport.isConvex(bodyB.collider)) {
+      result = this.convexVsConvex(bodyA, bodyB, posA, posB, rotA, rotB, previous);
+    }
+
+    if (result) {
+      result.isTrigger = bodyA.collider.isTrigger || bodyB.collider.isTrigger;
+    }
+
+    return result;
+  }
+
+  private static flipManifold(manifold: ContactManifold): ContactManifold {
+    return {
+      ...manifold,
+      bodyA: manifold.bodyB,
+      bodyB: manifold.bodyA,
+      normal: Vec3.negate(manifold.normal),
+      contacts: manifold.contacts.map(c => ({
+        ...c,
+        localA: c.localB,
+        localB: c.localA,
+        normal: Vec3.negate(c.normal)
+      })),
+      anchors: manifold.anchors?.map(a => ({ localA: a.localB, localB: a.localA }))
+    };
+  }
+
+  /**
+   * Test every overlapping pair of child shapes and merge the results into one
+   * manifold, tagging each contact with its children and their combined material
+   */
+  private static compoundCollision(bodyA: CollisionBody, bodyB: CollisionBody): ContactManifold | null {
+    const contacts: ContactPoint[] = [];
+    let normalSum: Vector3 = { x: 0, y: 0, z: 0 };
+    let maxPenetration = 0;
+
+    for (const partA of this.compoundParts(bodyA)) {
+      for (const partB of this.compoundParts(bodyB)) {
+        if (!AABBUtils.intersects(partA.body.aabb, partB.body.aabb)) continue;
+
+        const manifold = this.testCollision(partA.body, partB.body);
+        if (!manifold) continue;
+
+        maxPenetration = Math.max(maxPenetration, manifold.penetration);
+        for (const contact of manifold.contacts) {
+          normalSum = Vec3.add(normalSum, Vec3.scale(contact.normal, Math.max(contact.penetrationDepth, 1e-6)));
+          contacts.push({
+            ...contact,
+            ...(partA.index !== undefined && { childA: partA.index }),
+            ...(partB.index !== undefined && { childB: partB.index }),
+            friction: Math.sqrt(partA.body.friction * partB.body.friction),
+            restitution: Math.min(partA.body.restitution, partB.body.restitution)
+          });
+        }
+      }
+    }
+
+    if (contacts.length === 0) {
+      return null;
+    }
+
+    return {
+      bodyA: bodyA.id,
+      bodyB: bodyB.id,
+      normal: Vec3.normalize(normalSum),
+      penetration: maxPenetration,
+      isTrigger: false,
+      contacts
+    };
+  }
+
+  /**
+   * Per-child stand-in bodies for a compound, or the body itself otherwise
+   */
+  private static compoundParts(body: CollisionBody): Array<{ body: CollisionBody; index?: number }> {
+    if (body.collider.type !== 'compound') {
+      return [{ body }];
+    }
+
+    return body.collider.children.map(child => ({
+      index: child.index,
+      body: {
+        ...body,
+        collider: child.collider,
+        aabb: ColliderUtils.computeAABB(child.collider, body.position, body.rotation),
+        friction: child.material?.friction ?? body.friction,
+        restitution: child.material?.restitution ?? body.restitution
+      }
+    }));
+  }
+
+  /**
+   * General convex pair via GJK and EPA. Supports probed around the EPA normal
+   * on both shapes add the corners of faces pressed flat together, so e.g. a
+   * cylinder standing on a box rests on its whole rim rather than one point.
+   */
+  private static convexVsConvex(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    posA: Vector3,
+    posB: Vector3,
+    rotA: Quaternion,
+    rotB: Quaternion,
+    previous?: ContactManifold
+  ): ContactManifold | null {
+    const supportA = ConvexSupport.bind(bodyA.collider, posA, rotA);
+    const supportB = ConvexSupport.bind(bodyB.collider, posB, rotB);
+
+    const simplex = GJK.intersect(supportA, supportB, Vec3.sub(posB, posA));
+    if (!simplex) {
+      return null;
+    }
+
+    const hit = GJK.penetration(simplex, supportA, supportB);
+    if (!hit || hit.depth <= 0) {
+      return null;
+    }
+
+    const normal = hit.normal;
+    const points: WitnessPair[] = [{ pointA: hit.pointA, pointB: hit.pointB }];
+    const inside = (point: Vector3, support: SupportFunction, center: Vector3) =>
+      GJK.intersect(() => point, support, Vec3.sub(center, point)) !== null;
+
+    // Points of A past B's extent towards A, kept when they really lie inside B
+    const limitB = Vec3.dot(supportB(Vec3.negate(normal)), normal);
+    for (const pointA of this.probeSupports(bodyA.collider, posA, rotA, normal)) {
+      const depth = Math.min(hit.depth, Vec3.dot(pointA, normal) - limitB);
+      if (depth > 0 && inside(pointA, supportB, posB)) {
+        points.push({ pointA, pointB: Vec3.sub(pointA, Vec3.scale(normal, depth)) });
+      }
+    }
+
+    // ... and the same for points of B inside A
+    const limitA = Vec3.dot(supportA(normal), normal);
+    for (const pointB of this.probeSupports(bodyB.collider, posB, rotB, Vec3.negate(normal))) {
+      const depth = Math.min(hit.depth, limitA - Vec3.dot(pointB, normal));
+      if (depth > 0 && inside(pointB, supportA, posA)) {
+        points.push({ pointA: Vec3.add(pointB, Vec3.scale(normal, depth)), pointB });
+      }
+    }
+
+    return this.persistentManifold(bodyA, bodyB, normal, points, previous);
+  }
+
+  /**
+   * Convex shape vs plane: the deepest support point plus probes tilted around
+   * the plane normal, so flat faces resting on the plane get several contacts at once
+   */
+  private static convexVsPlane(
+    convexBody: CollisionBody,
+    planeBody: CollisionBody,
+    convexPos: Vector3,
+    planePos: Vector3,
+    convexRot: Quaternion,
+    planeRot: Quaternion,
+    previous?: ContactManifold
+  ): ContactManifold | null {
+    const plane = planeBody.collider as PlaneCollider;
+
+    const planeNormal = Quat.rotateVector(planeRot, plane.normal);
+    const planeD = Vec3.dot(planePos, planeNormal) + plane.distance;
+    const normal = Vec3.negate(planeNormal);
+
+    const points: WitnessPair[] = [];
+    for (const pointA of this.probeSupports(convexBody.collider, convexPos, convexRot, normal)) {
+      const depth = planeD - Vec3.dot(pointA, planeNormal);
+      if (depth > 0) {
+        points.push({ pointA, pointB: Vec3.add(pointA, Vec3.scale(planeNormal, depth)) });
+      }
+    }
+
+    if (points.length === 0) {
+      return null;
+    }
+
+    return this.persistentManifold(convexBody, planeBody, normal, points, previous);
+  }
+
+  /**
+   * Support points along a direction and along a ring of directions tilted slightly
+   * around it, so a flat face pressed against a surface yields its corners
+   */
+  private static probeSupports(
+    collider: Collider,
+    position: Vector3,
+    rotation: Quaternion,
+    direction: Vector3
+  ): Vector3[] {
+    const tangent = Vec3.normalize(
+      Vec3.cross(direction, Math.abs(direction.x) < 0.9 ? { x: 1, y: 0, z: 0 } : { x: 0, y: 1, z: 0 })
+    );
+    const bitangent = Vec3.cross(direction, tangent);
+
+    const points = [ConvexSupport.world(collider, position, rotation, direction)];
+    for (let i = 0; i < PLANE_PROBE_COUNT; i++) {
+      const angle = (2 * Math.PI * i) / PLANE_PROBE_COUNT;
+      const tilt = Vec3.add(
+        Vec3.scale(tangent, Math.cos(angle) * PLANE_PROBE_TILT),
+        Vec3.scale(bitangent, Math.sin(angle) * PLANE_PROBE_TILT)
+      );
+      points.push(ConvexSupport.world(collider, position, rotation, Vec3.add(direction, tilt)));
+    }
+    return points;
+  }
+
+  /**
+   * BVH of a concave triangle mesh or heightmap, or null for other colliders
+   */
+  private static triangleBVH(collider: Collider): TriangleBVH | null {
+    if (collider.type === 'heightmap') return collider.bvh;
+    if (collider.type === 'mesh' && !collider.isConvex) return collider.bvh ?? null;
+    return null;
+  }
+
+  /**
+   * Convex shape vs static triangle mesh. Each overlapping triangle contributes
+   * face contacts (or an EPA contact near its edges); triangles are two-sided.
+   */
+  private static convexVsTriangleMesh(
+    convexBody: CollisionBody,
+    meshBody: CollisionBody,
+    convexPos: Vector3,
+    meshPos: Vector3,
+    convexRot: Quaternion,
+    meshRot: Quaternion
+  ): ContactManifold | null {
+    const bvh = this.triangleBVH(meshBody.collider)!;
+    const invMeshRot = Quat.conjugate(meshRot);
+    const toWorld = (p: Vector3) => Vec3.add(meshPos, Quat.rotateVector(meshRot, p));
+
+    // Convex bounds in mesh-local space
+    const convexBounds = ColliderUtils.computeAABB(convexBody.collider, convexBody.position, convexBody.rotation);
+    const localBounds = ColliderUtils.transformBounds(
+      convexBounds,
+      Quat.rotateVector(invMeshRot, Vec3.negate(meshPos)),
+      invMeshRot
+    );
+
+    const supportA = ConvexSupport.bind(convexBody.collider, convexPos, convexRot);
+    const candidates: Array<WitnessPair & { depth: number; normal: Vector3 }> = [];
+    const addCandidate = (candidate: WitnessPair & { depth: number; normal: Vector3 }) => {
+      const near = candidates.findIndex(c => Vec3.distance(c.pointA, candidate.pointA) < PERSISTENT_CONTACT_THRESHOLD);
+      if (near < 0) {
+        candidates.push(candidate);
+      } else if (candidate.depth > candidates[near].depth) {
+        candidates[near] = candidate;
+      }
+    };
+
+    for (const index of bvh.queryAABB(AABBUtils.expand(localBounds, PERSISTENT_CONTACT_THRESHOLD))) {
+      const [a, b, c] = bvh.triangle(index).map(toWorld);
+      let faceNormal = Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a));
+      const area = Vec3.length(faceNormal);
+      if (area < 1e-12) continue;
+      faceNormal = Vec3.scale(faceNormal, 1 / area);
+      if (Vec3.dot(faceNormal, Vec3.sub(convexPos, a)) < 0) {
+        faceNormal = Vec3.negate(faceNormal);
+      }
+
+      const supportB = (direction: Vector3) => {
+        const da = Vec3.dot(a, direction);
+        const db = Vec3.dot(b, direction);
+        const dc = Vec3.dot(c, direction);
+        return da >= db && da >= dc ? a : db >= dc ? b : c;
+      };
+
+      const simplex = GJK.intersect(supportA, supportB, Vec3.sub(a, convexPos));
+      if (!simplex) continue;
+
+      const normal = Vec3.negate(faceNormal);
+      let found = false;
+      for (const pointA of this.probeSupports(convexBody.collider, convexPos, convexRot, normal)) {
+        const depth = Vec3.dot(Vec3.sub(a, pointA), faceNormal);
+        if (depth <= 0 || !this.insideTriangle(pointA, a, b, c, faceNormal)) continue;
+        addCandidate({ pointA, pointB: Vec3.add(pointA, Vec3.scale(faceNormal, depth)), depth, normal });
+        found = true;
+      }
+
+      if (!found) {
+        const hit = GJK.penetration(simplex, supportA, supportB);
+        if (hit && hit.depth > 0) {
+          addCandidate({ pointA: hit.pointA, pointB: hit.pointB, depth: hit.depth, normal: hit.normal });
+        }
+      }
+    }
+
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const kept = this.reduceContacts(candidates);
+    let normalSum: Vector3 = { x: 0, y: 0, z: 0 };
+    let maxPenetration = 0;
+    const contacts = kept.map(c => {
+      normalSum = Vec3.add(normalSum, Vec3.scale(c.normal, c.depth));
+      maxPenetration = Math.max(maxPenetration, c.depth);
+      return this.createContact(Vec3.lerp(c.pointA, c.pointB, 0.5), convexBody, meshBody, c.normal, c.depth);
+    });
+
+    return {
+      bodyA: convexBody.id,
+      bodyB: meshBody.id,
+      normal: Vec3.normalize(normalSum),
+      penetration: maxPenetration,
+      isTrigger: false,
+      contacts
+    };
+  }
+
+  /**
+   * Whether the projection of p along n falls inside triangle abc
+   */
+  private static insideTriangle(p: Vector3, a: Vector3, b: Vector3, c: Vector3, n: Vector3): boolean {
+    const eps = 1e-9;
+    const s1 = Vec3.dot(Vec3.cross(Vec3.sub(b, a), Vec3.sub(p, a)), n);
+    const s2 = Vec3.dot(Vec3.cross(Vec3.sub(c, b), Vec3.sub(p, b)), n);
+    const s3 = Vec3.dot(Vec3.cross(Vec3.sub(a, c), Vec3.sub(p, c)), n);
+    return (s1 >= -eps && s2 >= -eps && s3 >= -eps) || (s1 <= eps && s2 <= eps && s3 <= eps);
+  }
+
+  /**
+   * Merge this step's witness points with the previous step's anchors that still
+   * hold, then reduce to at most four well-spread contacts
+   */
+  private static persistentManifold(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    normal: Vector3,
+    fresh: WitnessPair[],
+    previous?: ContactManifold
+  ): ContactManifold | null {
+    const candidates: Array<WitnessPair & { depth: number }> = [];
+    const isNear = (point: Vector3) =>
+      candidates.some(c => Vec3.distance(c.pointA, point) < PERSISTENT_CONTACT_THRESHOLD);
+
+    for (const pair of fresh) {
+      if (!isNear(pair.pointA)) {
+        candidates.push({ ...pair, depth: Vec3.dot(Vec3.sub(pair.pointA, pair.pointB), normal) });
+      }
+    }
+
+    const prior = previous && (previous.bodyA === bodyA.id ? previous : this.flipManifold(previous));
+    if (prior?.anchors && Vec3.dot(prior.normal, normal) > PERSISTENT_NORMAL_COS) {
+      for (const anchor of prior.anchors) {
+        const pointA = Vec3.add(bodyA.position, Quat.rotateVector(bodyA.rotation, anchor.localA));
+        const pointB = Vec3.add(bodyB.position, Quat.rotateVector(bodyB.rotation, anchor.localB));
+        const separation = Vec3.sub(pointA, pointB);
+        const depth = Vec3.dot(separation, normal);
+        const drift = Vec3.length(Vec3.sub(separation, Vec3.scale(normal, depth)));
+
+        if (depth < -PERSISTENT_CONTACT_THRESHOLD || drift > PERSISTENT_CONTACT_THRESHOLD || isNear(pointA)) {
+          continue;
+        }
+        candidates.push({ pointA, pointB, depth });
+      }
+    }
+
+    const kept = this.reduceContacts(candidates);
+    const contacts: ContactPoint[] = [];
+    let maxPenetration = 0;
+
+    for (const c of kept) {
+      if (c.depth > 0) {
+        maxPenetration = Math.max(maxPenetration, c.depth);
+        contacts.push(this.createContact(Vec3.lerp(c.pointA, c.pointB, 0.5), bodyA, bodyB, normal, c.depth));
+      }
+    }
+
+    if (contacts.length === 0) {
+      return null;
+    }
+
+    const toLocal = (body: CollisionBody, point: Vector3) =>
+      Quat.rotateVector(Quat.conjugate(body.rotation), Vec3.sub(point, body.position));
+
+    return {
+      bodyA: bodyA.id,
+      bodyB: bodyB.id,
+      normal,
+      penetration: maxPenetration,
+      isTrigger: false,
+      contacts,
+      anchors: kept.map(c => ({ localA: toLocal(bodyA, c.pointA), localB: toLocal(bodyB, c.pointB) }))
+    };
+  }
+
+  /**
+   * Keep the deepest point, then greedily add the points farthest from those already kept
+   */
+  private static reduceContacts<T extends WitnessPair & { depth: number }>(candidates: T[]): T[] {
+    if (candidates.length <= MAX_PERSISTENT_CONTACTS) {
+      return candidates;
+    }
+
+    const kept = [candidates.reduce((best, c) => (c.depth > best.depth ? c : best), candidates[0])];
+
+    while (kept.length < MAX_PERSISTENT_CONTACTS) {
+      let best: T | null = null;
+      let bestDistance = -1;
+      for (const c of candidates) {
+        if (kept.includes(c)) continue;
+        const distance = Math.min(...kept.map(k => Vec3.distance(k.pointA, c.pointA)));
+        if (distance > bestDistance) {
+          bestDistance = distance;
+          best = c;
+        }
+      }
+      if (!best) break;
+      kept.push(best);
+    }
+
+    return kept;
+  }
+
+  /**
+   * Sphere vs Sphere collision
+   */
+  private static sphereVsSphere(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    posA: Vector3,
+    posB: Vector3
+  ): ContactManifold | null {
+    const colliderA = bodyA.collider as SphereCollider;
+    const colliderB = bodyB.collider as SphereCollider;
+
+    const diff = Vec3.sub(posB, posA);
+    const distSq = Vec3.lengthSquared(diff);
+    const radiusSum = colliderA.radius + colliderB.radius;
+
+    if (distSq > radiusSum * radiusSum) {
+      return null;
+    }
+
+    const dist = Math.sqrt(distSq);
+    const normal = dist > 1e-6 ? Vec3.scale(diff, 1 / dist) : { x: 0, y: 1, z: 0 };
+    const penetration = radiusSum - dist;
+
+    const contactPoint = Vec3.add(posA, Vec3.scale(normal, colliderA.radius - penetration * 0.5));
+
+    return {
+      bodyA: bodyA.id,
+      bodyB: bodyB.id,
+      normal,
+      penetration,
+      isTrigger: false,
+      contacts: [this.createContact(contactPoint, bodyA, bodyB, normal, penetration)]
+    };
+  }
+
+  /**
+   * Sphere vs Box collision
+   */
+  private static sphereVsBox(
+    sphereBody: CollisionBody,
+    boxBody: CollisionBody,
+    spherePos: Vector3,
+    boxPos: Vector3,
+    boxRot: Quaternion
+  ): ContactManifold | null {
+    const sphere = sphereBody.collider as SphereCollider;
+    const box = boxBody.collider as BoxCollider;
+
+    // Transform sphere center to box local space
+    const invBoxRot = Quat.conjugate(boxRot);
+    const localSpherePos = Quat.rotateVector(invBoxRot, Vec3.sub(spherePos, boxPos));
+
+    // Find closest point on box to sphere center
+    const closest = {
+      x: Math.max(-box.halfExtents.x, Math.min(localSpherePos.x, box.halfExtents.x)),
+      y: Math.max(-box.halfExtents.y, Math.min(localSpherePos.y, box.halfExtents.y)),
+      z: Math.max(-box.halfExtents.z, Math.min(localSpherePos.z, box.halfExtents.z))
+    };
+
+    const diff = Vec3.sub(localSpherePos, closest);
+    const distSq = Vec3.lengthSquared(diff);
+
+    if (distSq > sphere.radius * sphere.radius) {
+      return null;
+    }
+
+    const dist = Math.sqrt(distSq);
+    let localNormal: Vector3;
+    let penetration: number;
+
+    if (dist > 1e-6) {
+      // Sphere center outside box
+      localNormal = Vec3.scale(diff, 1 / dist);
+      penetration = sphere.radius - dist;
+    } else {
+      // Sphere center inside box - find closest face
+      const dx = box.halfExtents.x - Math.abs(localSpherePos.x);
+      const dy = box.halfExtents.y - Math.abs(localSpherePos.y);
+      const dz = box.halfExtents.z - Math.abs(localSpherePos.z);
+
+      if (dx <= dy && dx <= dz) {
+        localNormal = { x: localSpherePos.x > 0 ? 1 : -1, y: 0, z: 0 };
+        penetration = dx + sphere.radius;
+      } else if (dy <= dz) {
+        localNormal = { x: 0, y: localSpherePos.y > 0 ? 1 : -1, z: 0 };
+        penetration = dy + sphere.radius;
+      } else {
+        localNormal = { x: 0, y: 0, z: localSpherePos.z > 0 ? 1 : -1 };
+        penetration = dz + sphere.radius;
+      }
+    }
+
+    // Transform back to world space (box -> sphere), then flip so it points from sphere to box
+    const boxToSphere = Quat.rotateVector(boxRot, localNormal);
+    const worldClosest = Vec3.add(boxPos, Quat.rotateVector(boxRot, closest));
+    const contactPoint = Vec3.add(worldClosest, Vec3.scale(boxToSphere, penetration * 0.5));
+    const normal = Vec3.negate(boxToSphere);
+
+    return {
+      bodyA: sphereBody.id,
+      bodyB: boxBody.id,
+      normal,
+      penetration,
+      isTrigger: false,
+      contacts: [this.createContact(contactPoint, sphereBody, boxBody, normal, penetration)]
+    };
+  }
+
+  /**
+   * Sphere vs Plane collision
+   */
+  private static sphereVsPlane(
+    sphereBody: CollisionBody,
+    planeBody: CollisionBody,
+    spherePos: Vector3,
+    planePos: Vector3,
+    planeRot: Quaternion
+  ): ContactManifold | null {
+    const sphere = sphereBody.collider as SphereCollider;
+    const plane = planeBody.collider as PlaneCollider;
+
+    // Get world space normal
+    const planeNormal = Quat.rotateVector(planeRot, plane.normal);
+    
+    // Distance from sphere center to plane
+    const toSphere = Vec3.sub(spherePos, planePos);
+    const distance = Vec3.dot(toSphere, planeNormal) - plane.distance;
+
+    if (distance > sphere.radius) {
+      return null;
+    }
+
+    const penetration = sphere.radius - distance;
+    const contactPoint = Vec3.sub(spherePos, Vec3.scale(planeNormal, sphere.radius - penetration * 0.5));
+    const normal = Vec3.negate(planeNormal);
+
+    return {
+      bodyA: sphereBody.id,
+      bodyB: planeBody.id,
+      normal,
+      penetration,
+      isTrigger: false,
+      contacts: [this.createContact(contactPoint, sphereBody, planeBody, normal, penetration)]
+    };
+  }
+
+  /**
+   * Box vs Box collision using SAT (Separating Axis Theorem)
+   */
+  private static boxVsBox(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    posA: Vector3,
+    posB: Vector3,
+    rotA: Quaternion,
+    rotB: Quaternion
+  ): ContactManifold | null {
+    const boxA = bodyA.collider as BoxCollider;
+    const boxB = bodyB.collider as BoxCollider;
+
+    // Box axes in world space (columns of the rotation matrices)
+    const axesA = this.boxAxes(rotA);
+    const axesB = this.boxAxes(rotB);
+
+    const extentsA = [boxA.halfExtents.x, boxA.halfExtents.y, boxA.halfExtents.z];
+    const extentsB = [boxB.halfExtents.x, boxB.halfExtents.y, boxB.halfExtents.z];
+
+    const diff = Vec3.sub(posB, posA);
+
+    // Overlap along an axis, oriented from A to B; null when the axis separates the boxes
+    const testAxis = (axis: Vector3): SatAxis | null => {
+      const len = Vec3.length(axis);
+      if (len < 1e-6) return { axis, penetration: Infinity }; // Skip degenerate axes
+
+      const normalizedAxis = Vec3.scale(axis, 1 / len);
+
+      // Project extents onto axis
+      let radiusA = 0;
+      let radiusB = 0;
+
+      for (let i = 0; i < 3; i++) {
+        radiusA += extentsA[i] * Math.abs(Vec3.dot(axesA[i], normalizedAxis));
+        radiusB += extentsB[i] * Math.abs(Vec3.dot(axesB[i], normalizedAxis));
+      }
+
+      const distance = Math.abs(Vec3.dot(diff, normalizedAxis));
+      const penetration = radiusA + radiusB - distance;
+
+      if (penetration < 0) return null; // Separating axis found
+
+      return {
+        axis: Vec3.dot(diff, normalizedAxis) < 0 ? Vec3.negate(normalizedAxis) : normalizedAxis,
+        penetration
+      };
+    };
+
+    // Test 15 axes (3 from A + 3 from B + 9 cross products), keeping the shallowest of each kind
+    const none: SatAxis = { axis: { x: 0, y: 1, z: 0 }, penetration: Infinity };
+    let faceA = none;
+    let faceB = none;
+    let edge = none;
+    let edgeIndices: [number, number] = [0, 0];
+
+    for (const axis of axesA) {
+      const result = testAxis(axis);
+      if (!result) return null;
+      if (result.penetration < faceA.penetration) faceA = result;
+    }
+    for (const axis of axesB) {
+      const result = testAxis(axis);
+      if (!result) return null;
+      if (result.penetration < faceB.penetration) faceB = result;
+    }
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        const result = testAxis(Vec3.cross(axesA[i], axesB[j]));
+        if (!result) return null;
+        if (result.penetration < edge.penetration) {
+          edge = result;
+          edgeIndices = [i, j];
+        }
       }
     }
 
-    if (result) {
-      result.isTrigger = bodyA.collider.isTrigger || bodyB.collider.isTrigger;
+    // Prefer A's faces, then B's, then edges, unless clearly shallower, so resting
+    // contacts keep the same reference face from step to step
+    const clearlyBetter = (a: SatAxis, b: SatAxis) =>
+      a.penetration < b.penetration * SAT_RELATIVE_TOLERANCE - SAT_ABSOLUTE_TOLERANCE;
+    let best = faceA;
+    let reference: 'A' | 'B' | null = 'A';
+    if (clearlyBetter(faceB, best)) {
+      best = faceB;
+      reference = 'B';
+    }
+    if (clearlyBetter(edge, best)) {
+      best = edge;
+      reference = null;
     }
 
-    return result;
+    const minAxis = best.axis;
+    const minPenetration = best.penetration;
+
+    // Generate contact points
+    const contacts = reference
+      ? this.generateBoxBoxContacts(
+        bodyA, posA, axesA, extentsA,
+        bodyB, posB, axesB, extentsB,
+        minAxis, minPenetration, reference
+      )
+      : this.generateBoxEdgeContact(
+        bodyA, posA, axesA, extentsA,
+        bodyB, posB, axesB, extentsB,
+        minAxis, minPenetration, edgeIndices
+      );
+
+    return {
+      bodyA: bodyA.id,
+      bodyB: bodyB.id,
+      normal: minAxis,
+      penetration: minPenetration,
+      isTrigger: false,
+      contacts
+    };
   }
 
-  private static flipManifold(manifold: ContactManifold): ContactManifold {
+  /**
+   * World-space axes of a rotated box
+   */
+  private static boxAxes(rotation: Quaternion): Vector3[] {
+    const e = Quat.toMatrix3(rotation).elements;
+    return [
+      { x: e[0], y: e[3], z: e[6] },
+      { x: e[1], y: e[4], z: e[7] },
+      { x: e[2], y: e[5], z: e[8] }
+    ];
+  }
+
+  /**
+   * World-space corners of a rotated box
+   */
+  private static boxVertices(position: Vector3, rotation: Quaternion, halfExtents: Vector3): Vector3[] {
+    const vertices: Vector3[] = [];
+    for (let x = -1; x <= 1; x += 2) {
+      for (let y = -1; y <= 1; y += 2) {
+        for (let z = -1; z <= 1; z += 2) {
+          const local = {
+            x: x * halfExtents.x,
+            y: y * halfExtents.y,
+            z: z * halfExtents.z
+          };
+          vertices.push(Vec3.add(position, Quat.rotateVector(rotation, local)));
+        }
+      }
+    }
+    return vertices;
+  }
+
+  /**
+   * Generate contact points for box-box collision by clipping
+   *
+   * The face of the reference box facing the other box is kept fixed; the face
+   * of the incident box most opposed to it is clipped against the reference
+   * face's side planes, and the clipped points below the reference face become
+   * contacts (at most four, well spread).
+   */
+  private static generateBoxBoxContacts(
+    bodyA: CollisionBody, posA: Vector3, axesA: Vector3[], extentsA: number[],
+    bodyB: CollisionBody, posB: Vector3, axesB: Vector3[], extentsB: number[],
+    normal: Vector3, penetration: number, reference: 'A' | 'B'
+  ): ContactPoint[] {
+    const refIsA = reference === 'A';
+    const [refPos, refAxes, refExtents] = refIsA ? [posA, axesA, extentsA] : [posB, axesB, extentsB];
+    const [incPos, incAxes, incExtents] = refIsA ? [posB, axesB, extentsB] : [posA, axesA, extentsA];
+    const faceNormal = refIsA ? normal : Vec3.negate(normal); // Out of the reference box
+
+    const mostAligned = (axes: Vector3[]) => {
+      let index = 0;
+      for (let i = 1; i < 3; i++) {
+        if (Math.abs(Vec3.dot(axes[i], faceNormal)) > Math.abs(Vec3.dot(axes[index], faceNormal))) index = i;
+      }
+      return index;
+    };
+
+    // Reference face
+    const refIndex = mostAligned(refAxes);
+    const refNormal = Vec3.scale(refAxes[refIndex], Math.sign(Vec3.dot(refAxes[refIndex], faceNormal)) || 1);
+    const refCenter = Vec3.add(refPos, Vec3.scale(refNormal, refExtents[refIndex]));
+
+    // Incident face, as a quad
+    const incIndex = mostAligned(incAxes);
+    const incNormal = Vec3.scale(incAxes[incIndex], -(Math.sign(Vec3.dot(incAxes[incIndex], faceNormal)) || 1));
+    const incCenter = Vec3.add(incPos, Vec3.scale(incNormal, incExtents[incIndex]));
+    const u = Vec3.scale(incAxes[(incIndex + 1) % 3], incExtents[(incIndex + 1) % 3]);
+    const v = Vec3.scale(incAxes[(incIndex + 2) % 3], incExtents[(incIndex + 2) % 3]);
+    let polygon = [
+      Vec3.add(incCenter, Vec3.add(u, v)),
+      Vec3.add(incCenter, Vec3.sub(v, u)),
+      Vec3.sub(incCenter, Vec3.add(u, v)),
+      Vec3.add(incCenter, Vec3.sub(u, v))
+    ];
+
+    // Clip against the four side planes of the reference face
+    for (const k of [(refIndex + 1) % 3, (refIndex + 2) % 3]) {
+      for (const sign of [1, -1]) {
+        const planeNormal = Vec3.scale(refAxes[k], sign);
+        polygon = this.clipPolygon(polygon, planeNormal, Vec3.dot(refPos, planeNormal) + refExtents[k]);
+      }
+    }
+
+    // Keep the points below the reference face, paired with their projection onto it
+    const candidates: Array<WitnessPair & { depth: number }> = [];
+    for (const point of polygon) {
+      const depth = Vec3.dot(Vec3.sub(refCenter, point), refNormal);
+      if (depth < 0) continue;
+      const onFace = Vec3.add(point, Vec3.scale(refNormal, depth));
+      candidates.push(refIsA
+        ? { pointA: onFace, pointB: point, depth }
+        : { pointA: point, pointB: onFace, depth });
+    }
+
+    if (candidates.length === 0) {
+      const contactPoint = Vec3.lerp(posA, posB, 0.5);
+      return [this.createContact(contactPoint, bodyA, bodyB, normal, penetration)];
+    }
+
+    return this.reduceContacts(candidates).map(c =>
+      this.createContact(Vec3.lerp(c.pointA, c.pointB, 0.5), bodyA, bodyB, normal, Math.min(c.depth, penetration))
+    );
+  }
+
+  /**
+   * Single contact for an edge-edge box collision, between the closest points of the two edges
+   */
+  private static generateBoxEdgeContact(
+    bodyA: CollisionBody, posA: Vector3, axesA: Vector3[], extentsA: number[],
+    bodyB: CollisionBody, posB: Vector3, axesB: Vector3[], extentsB: number[],
+    normal: Vector3, penetration: number, [edgeA, edgeB]: [number, number]
+  ): ContactPoint[] {
+    // The edge of a box along one of its axes that reaches furthest in a direction
+    const supportEdge = (pos: Vector3, axes: Vector3[], extents: number[], index: number, direction: Vector3) => {
+      let center = pos;
+      for (let k = 0; k < 3; k++) {
+        if (k === index) continue;
+        const sign = Vec3.dot(axes[k], direction) < 0 ? -1 : 1;
+        center = Vec3.add(center, Vec3.scale(axes[k], sign * extents[k]));
+      }
+      const half = Vec3.scale(axes[index], extents[index]);
+      return [Vec3.sub(center, half), Vec3.add(center, half)];
+    };
+
+    const [a0, a1] = supportEdge(posA, axesA, extentsA, edgeA, normal);
+    const [b0, b1] = supportEdge(posB, axesB, extentsB, edgeB, Vec3.negate(normal));
+    const { pointA, pointB } = this.closestPointsOnSegments(a0, a1, b0, b1);
+
+    return [this.createContact(Vec3.lerp(pointA, pointB, 0.5), bodyA, bodyB, normal, penetration)];
+  }
+
+  /**
+   * Clip a convex polygon to the half-space dot(p, normal) <= offset (Sutherland-Hodgman)
+   */
+  private static clipPolygon(polygon: Vector3[], normal: Vector3, offset: number): Vector3[] {
+    const clipped: Vector3[] = [];
+    for (let i = 0; i < polygon.length; i++) {
+      const current = polygon[i];
+      const next = polygon[(i + 1) % polygon.length];
+      const dCurrent = Vec3.dot(current, normal) - offset;
+      const dNext = Vec3.dot(next, normal) - offset;
+
+      if (dCurrent <= 0) clipped.push(current);
+      if ((dCurrent < 0 && dNext > 0) || (dCurrent > 0 && dNext < 0)) {
+        clipped.push(Vec3.lerp(current, next, dCurrent / (dCurrent - dNext)));
+      }
+    }
+    return clipped;
+  }
+
+  /**
+   * Box vs Plane collision
+   */
+  private static boxVsPlane(
+    boxBody: CollisionBody,
+    planeBody: CollisionBody,
+    boxPos: Vector3,
+    planePos: Vector3,
+    boxRot: Quaternion,
+    planeRot: Quaternion
+  ): ContactManifold | null {
+    const box = boxBody.collider as BoxCollider;
+    const plane = planeBody.collider as PlaneCollider;
+
+    const planeNormal = Quat.rotateVector(planeRot, plane.normal);
+    const planeD = Vec3.dot(planePos, planeNormal) + plane.distance;
+    const normal = Vec3.negate(planeNormal);
+
+    // Find vertices below the plane
+    const contacts: ContactPoint[] = [];
+    let maxPenetration = 0;
+
+    for (const v of this.boxVertices(boxPos, boxRot, box.halfExtents)) {
+      const distance = Vec3.dot(v, planeNormal) - planeD;
+      if (distance < 0) {
+        const penetration = -distance;
+        maxPenetration = Math.max(maxPenetration, penetration);
+
+        const contactPoint = Vec3.sub(v, Vec3.scale(planeNormal, distance * 0.5));
+        contacts.push(this.createContact(contactPoint, boxBody, planeBody, normal, penetration));
+      }
+    }
+
+    if (contacts.length === 0) {
+      return null;
+    }
+
     return {
-      ...manifold,
-      bodyA: manifold.bodyB,
-      bodyB: manifold.bodyA,
-      normal: Vec3.negate(manifold.normal),
-      contacts: manifold.contacts.map(c => ({
-        ...c,
-        localA: c.localB,
-        localB: c.localA,
-        normal: Vec3.negate(c.normal)
-      }))
+      bodyA: boxBody.id,
+      bodyB: planeBody.id,
+      normal,
+      penetration: maxPenetration,
+      isTrigger: false,
+      contacts
+    };
+  }
+
+  /**
+   * Sphere vs Capsule collision
+   */
+  private static sphereVsCapsule(
+    sphereBody: CollisionBody,
+    capsuleBody: CollisionBody,
+    spherePos: Vector3,
+    capsulePos: Vector3,
+    capsuleRot: Quaternion
+  ): ContactManifold | null {
+    const sphere = sphereBody.collider as SphereCollider;
+    const capsule = capsuleBody.collider as CapsuleCollider;
+
+    // Capsule axis in world space
+    const axis = Quat.rotateVector(capsuleRot, { x: 0, y: 1, z: 0 });
+    const halfAxis = Vec3.scale(axis, capsule.halfHeight);
+
+    // Line segment endpoints
+    const p0 = Vec3.sub(capsulePos, halfAxis);
+    const p1 = Vec3.add(capsulePos, halfAxis);
+
+    // Find closest point on capsule axis to sphere center
+    const d = Vec3.sub(p1, p0);
+    const lenSq = Vec3.lengthSquared(d);
+    const t = lenSq > 1e-12 ? Math.max(0, Math.min(1, Vec3.dot(Vec3.sub(spherePos, p0), d) / lenSq)) : 0;
+    const closest = Vec3.add(p0, Vec3.scale(d, t));
+
+    // Sphere-sphere test with closest point
+    const diff = Vec3.sub(closest, spherePos);
+    const distSq = Vec3.lengthSquared(diff);
+    const radiusSum = sphere.radius + capsule.radius;
+
+    if (distSq > radiusSum * radiusSum) {
+      return null;
+    }
+
+    const dist = Math.sqrt(distSq);
+    const normal = dist > 1e-6 ? Vec3.scale(diff, 1 / dist) : { x: 0, y: 1, z: 0 };
+    const penetration = radiusSum - dist;
+
+    const contactPoint = Vec3.add(spherePos, Vec3.scale(normal, sphere.radius - penetration * 0.5));
+
+    return {
+      bodyA: sphereBody.id,
+      bodyB: capsuleBody.id,
+      normal,
+      penetration,
+      isTrigger: false,
+      contacts: [this.createContact(contactPoint, sphereBody, capsuleBody, normal, penetration)]
     };
   }
 
   /**
-   * Sphere vs Sphere collision
+   * Capsule vs Capsule collision
    */
-  private static sphereVsSphere(
+  private static capsuleVsCapsule(
     bodyA: CollisionBody,
     bodyB: CollisionBody,
     posA: Vector3,
-    posB: Vector3
+    posB: Vector3,
+    rotA: Quaternion,
+    rotB: Quaternion
   ): ContactManifold | null {
-    const colliderA = bodyA.collider as SphereCollider;
-    const colliderB = bodyB.collider as SphereCollider;
+    const capsuleA = bodyA.collider as CapsuleCollider;
+    const capsuleB = bodyB.collider as CapsuleCollider;
 
-    const diff = Vec3.sub(posB, posA);
-    const distSq = Vec3.lengthSq(diff);
-    const radiusSum = colliderA.radius + colliderB.radius;
+    // Get capsule axes
+    const axisA = Quat.rotateVector(rotA, { x: 0, y: 1, z: 0 });
+    const axisB = Quat.rotateVector(rotB, { x: 0, y: 1, z: 0 });
+
+    // Line segment endpoints
+    const a0 = Vec3.sub(posA, Vec3.scale(axisA, capsuleA.halfHeight));
+    const a1 = Vec3.add(posA, Vec3.scale(axisA, capsuleA.halfHeight));
+    const b0 = Vec3.sub(posB, Vec3.scale(axisB, capsuleB.halfHeight));
+    const b1 = Vec3.add(posB, Vec3.scale(axisB, capsuleB.halfHeight));
+
+    // Find closest points between line segments
+    const { pointA, pointB } = this.closestPointsOnSegments(a0, a1, b0, b1);
+
+    // Sphere-sphere test
+    const diff = Vec3.sub(pointB, pointA);
+    const distSq = Vec3.lengthSquared(diff);
+    const radiusSum = capsuleA.radius + capsuleB.radius;
 
     if (distSq > radiusSum * radiusSum) {
       return null;
@@ -695,7 +3475,7 @@ export class NarrowPhase {
     const normal = dist > 1e-6 ? Vec3.scale(diff, 1 / dist) : { x: 0, y: 1, z: 0 };
     const penetration = radiusSum - dist;
 
-    const contactPoint = Vec3.add(posA, Vec3.scale(normal, colliderA.radius - penetration * 0.5));
+    const contactPoint = Vec3.add(pointA, Vec3.scale(normal, capsuleA.radius - penetration * 0.5));
 
     return {
       bodyA: bodyA.id,
@@ -703,864 +3483,1333 @@ export class NarrowPhase {
       normal,
       penetration,
       isTrigger: false,
-      contacts: [{
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, bodyA.position),
-        localB: Vec3.sub(contactPoint, bodyB.position),
-        normal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      }]
+      contacts: [this.createContact(contactPoint, bodyA, bodyB, normal, penetration)]
     };
   }
 
   /**
-   * Sphere vs Box collision
+   * Capsule vs Plane collision
    */
-  private static sphereVsBox(
-    sphereBody: CollisionBody,
-    boxBody: CollisionBody,
-    spherePos: Vector3,
-    boxPos: Vector3,
-    boxRot: Quaternion
+  private static capsuleVsPlane(
+    capsuleBody: CollisionBody,
+    planeBody: CollisionBody,
+    capsulePos: Vector3,
+    planePos: Vector3,
+    capsuleRot: Quaternion,
+    planeRot: Quaternion
   ): ContactManifold | null {
-    const sphere = sphereBody.collider as SphereCollider;
-    const box = boxBody.collider as BoxCollider;
+    const capsule = capsuleBody.collider as CapsuleCollider;
+    const plane = planeBody.collider as PlaneCollider;
 
-    // Transform sphere center to box local space
-    const invBoxRot = Quat.conjugate(boxRot);
-    const localSpherePos = Quat.rotateVector(invBoxRot, Vec3.sub(spherePos, boxPos));
+    const planeNormal = Quat.rotateVector(planeRot, plane.normal);
+    const planeD = Vec3.dot(planePos, planeNormal) + plane.distance;
+    const normal = Vec3.negate(planeNormal);
 
-    // Find closest point on box to sphere center
-    const closest = {
-      x: Math.max(-box.halfExtents.x, Math.min(localSpherePos.x, box.halfExtents.x)),
-      y: Math.max(-box.halfExtents.y, Math.min(localSpherePos.y, box.halfExtents.y)),
-      z: Math.max(-box.halfExtents.z, Math.min(localSpherePos.z, box.halfExtents.z))
+    // Capsule axis
+    const axis = Quat.rotateVector(capsuleRot, { x: 0, y: 1, z: 0 });
+    const halfAxis = Vec3.scale(axis, capsule.halfHeight);
+
+    // Test both endpoints
+    const contacts: ContactPoint[] = [];
+    let maxPenetration = 0;
+
+    for (const p of [Vec3.sub(capsulePos, halfAxis), Vec3.add(capsulePos, halfAxis)]) {
+      const d = Vec3.dot(p, planeNormal) - planeD;
+      if (d < capsule.radius) {
+        const penetration = capsule.radius - d;
+        maxPenetration = Math.max(maxPenetration, penetration);
+        const contactPoint = Vec3.sub(p, Vec3.scale(planeNormal, capsule.radius - penetration * 0.5));
+        contacts.push(this.createContact(contactPoint, capsuleBody, planeBody, normal, penetration));
+      }
+    }
+
+    if (contacts.length === 0) {
+      return null;
+    }
+
+    return {
+      bodyA: capsuleBody.id,
+      bodyB: planeBody.id,
+      normal,
+      penetration: maxPenetration,
+      isTrigger: false,
+      contacts
+    };
+  }
+
+  /**
+   * Build a contact point; local offsets are world-space vectors from each body's center
+   */
+  private static createContact(
+    position: Vector3,
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    normal: Vector3,
+    penetrationDepth: number
+  ): ContactPoint {
+    return {
+      position,
+      localA: Vec3.sub(position, bodyA.position),
+      localB: Vec3.sub(position, bodyB.position),
+      normal,
+      normalForce: 0,
+      frictionForce: { x: 0, y: 0, z: 0 },
+      penetrationDepth
+    };
+  }
+
+  /**
+   * Find closest points between two line segments
+   */
+  static closestPointsOnSegments(
+    a0: Vector3, a1: Vector3,
+    b0: Vector3, b1: Vector3
+  ): { pointA: Vector3; pointB: Vector3 } {
+    const d1 = Vec3.sub(a1, a0);
+    const d2 = Vec3.sub(b1, b0);
+    const r = Vec3.sub(a0, b0);
+
+    const a = Vec3.dot(d1, d1);
+    const e = Vec3.dot(d2, d2);
+    const f = Vec3.dot(d2, r);
+
+    let s: number;
+    let t: number;
+
+    if (a <= 1e-6 && e <= 1e-6) {
+      // Both segments are points
+      return { pointA: a0, pointB: b0 };
+    }
+
+    if (a <= 1e-6) {
+      // First segment is a point
+      s = 0;
+      t = Math.max(0, Math.min(1, f / e));
+    } else {
+      const c = Vec3.dot(d1, r);
+      if (e <= 1e-6) {
+        // Second segment is a point
+        t = 0;
+        s = Math.max(0, Math.min(1, -c / a));
+      } else {
+        // General case
+        const b = Vec3.dot(d1, d2);
+        const denom = a * e - b * b;
+
+        if (denom !== 0) {
+          s = Math.max(0, Math.min(1, (b * f - c * e) / denom));
+        } else {
+          s = 0;
+        }
+
+        t = (b * s + f) / e;
+
+        if (t < 0) {
+          t = 0;
+          s = Math.max(0, Math.min(1, -c / a));
+        } else if (t > 1) {
+          t = 1;
+          s = Math.max(0, Math.min(1, (b - c) / a));
+        }
+      }
+    }
+
+    return {
+      pointA: Vec3.add(a0, Vec3.scale(d1, s)),
+      pointB: Vec3.add(b0, Vec3.scale(d2, t))
     };
+  }
+}
+
+// ============================================================================
+// Contact Solver - Impulse-based collision resolution
+// ============================================================================
+
+export class ContactSolver {
+  private velocityIterations: number = 8;
+  private positionIterations: number = 3;
+  private baumgarte: number = 0.2; // Position correction factor
+  private slop: number = 0.005; // Penetration allowance
+  private restitutionThreshold: number = 1; // Closing speed below which contacts don't bounce
+
+  constructor(options?: {
+    velocityIterations?: number;
+    positionIterations?: number;
+    baumgarte?: number;
+    slop?: number;
+  }) {
+    if (options?.velocityIterations) this.velocityIterations = options.velocityIterations;
+    if (options?.positionIterations) this.positionIterations = options.positionIterations;
+    if (options?.baumgarte) this.baumgarte = options.baumgarte;
+    if (options?.slop) this.slop = options.slop;
+  }
+
+  /**
+   * Solve all contacts for velocity and position
+   */
+  solve(
+    bodies: Map<string, CollisionBody>,
+    manifolds: ContactManifold[],
+    dt: number
+  ): void {
+    // Skip triggers
+    const physicalManifolds = manifolds.filter(m => !m.isTrigger);
+
+    // Pre-calculate contact data and apply the impulses carried over from the last step
+    const contacts = this.prepareContacts(bodies, physicalManifolds, dt);
+    this.warmStart(bodies, contacts);
+
+    // Velocity solving
+    for (let i = 0; i < this.velocityIterations; i++) {
+      this.solveVelocities(bodies, contacts);
+    }
+
+    // Record the forces each contact ended on, so the next step can start from them
+    for (const contact of contacts) {
+      contact.point.normalForce = contact.normalImpulse / dt;
+      contact.point.frictionForce = Vec3.scale(
+        Vec3.add(Vec3.scale(contact.tangent, contact.tangentImpulse), Vec3.scale(contact.bitangent, contact.bitangentImpulse)),
+        1 / dt
+      );
+    }
+
+    // Remember where bodies started so position iterations can track the remaining penetration
+    const startPositions = new Map<string, Vector3>();
+    for (const manifold of physicalManifolds) {
+      for (const id of [manifold.bodyA, manifold.bodyB]) {
+        const body = bodies.get(id);
+        if (body && !startPositions.has(id)) {
+          startPositions.set(id, { ...body.position });
+        }
+      }
+    }
+
+    // Position solving
+    for (let i = 0; i < this.positionIterations; i++) {
+      this.solvePositions(bodies, physicalManifolds, startPositions);
+    }
+  }
+
+  private prepareContacts(
+    bodies: Map<string, CollisionBody>,
+    manifolds: ContactManifold[],
+    dt: number
+  ): PreparedContact[] {
+    const contacts: PreparedContact[] = [];
+
+    for (const manifold of manifolds) {
+      const bodyA = bodies.get(manifold.bodyA);
+      const bodyB = bodies.get(manifold.bodyB);
+      if (!bodyA || !bodyB) continue;
+
+      for (const contact of manifold.contacts) {
+        const rA = contact.localA;
+        const rB = contact.localB;
+        const n = contact.normal;
+
+        // Calculate effective mass
+        const rnA = Vec3.cross(rA, n);
+        const rnB = Vec3.cross(rB, n);
+
+        const kNormal = bodyA.invMass + bodyB.invMass +
+          Vec3.dot(rnA, Mat3.multiplyVector(bodyA.invInertia, rnA)) +
+          Vec3.dot(rnB, Mat3.multiplyVector(bodyB.invInertia, rnB));
+
+        // Calculate friction tangents
+        const dv = this.getRelativeVelocity(bodyA, bodyB, rA, rB);
+        const vn = Vec3.dot(dv, n);
+        let tangent = Vec3.sub(dv, Vec3.scale(n, vn));
+        const tangentLen = Vec3.length(tangent);
+
+        if (tangentLen > 1e-6) {
+          tangent = Vec3.scale(tangent, 1 / tangentLen);
+        } else {
+          // Generate arbitrary tangent
+          if (Math.abs(n.x) < 0.9) {
+            tangent = Vec3.normalize(Vec3.cross(n, { x: 1, y: 0, z: 0 }));
+          } else {
+            tangent = Vec3.normalize(Vec3.cross(n, { x: 0, y: 1, z: 0 }));
+          }
+        }
+
+        const bitangent = Vec3.cross(n, tangent);
 
-    const diff = Vec3.sub(localSpherePos, closest);
-    const distSq = Vec3.lengthSq(diff);
+        // Friction effective mass
+        const rtA = Vec3.cross(rA, tangent);
+        const rtB = Vec3.cross(rB, tangent);
+        const kTangent = bodyA.invMass + bodyB.invMass +
+          Vec3.dot(rtA, Mat3.multiplyVector(bodyA.invInertia, rtA)) +
+          Vec3.dot(rtB, Mat3.multiplyVector(bodyB.invInertia, rtB));
 
-    if (distSq > sphere.radius * sphere.radius) {
-      return null;
-    }
+        const rbA = Vec3.cross(rA, bitangent);
+        const rbB = Vec3.cross(rB, bitangent);
+        const kBitangent = bodyA.invMass + bodyB.invMass +
+          Vec3.dot(rbA, Mat3.multiplyVector(bodyA.invInertia, rbA)) +
+          Vec3.dot(rbB, Mat3.multiplyVector(bodyB.invInertia, rbB));
 
-    const dist = Math.sqrt(distSq);
-    let localNormal: Vector3;
-    let penetration: number;
+        // Restitution
+        const restitution = contact.restitution ?? Math.min(bodyA.restitution, bodyB.restitution);
+        const friction = contact.friction ?? Math.sqrt(bodyA.friction * bodyB.friction);
 
-    if (dist > 1e-6) {
-      // Sphere center outside box
-      localNormal = Vec3.scale(diff, 1 / dist);
-      penetration = sphere.radius - dist;
-    } else {
-      // Sphere center inside box - find closest face
-      const dx = box.halfExtents.x - Math.abs(localSpherePos.x);
-      const dy = box.halfExtents.y - Math.abs(localSpherePos.y);
-      const dz = box.halfExtents.z - Math.abs(localSpherePos.z);
+        // Impulses carried over from the previous step's forces, within the friction cone
+        const normalImpulse = Math.max(0, contact.normalForce * dt);
+        const maxFriction = friction * normalImpulse;
+        const clampFriction = (impulse: number) => Math.max(-maxFriction, Math.min(maxFriction, impulse));
 
-      if (dx <= dy && dx <= dz) {
-        localNormal = { x: localSpherePos.x > 0 ? 1 : -1, y: 0, z: 0 };
-        penetration = dx + sphere.radius;
-      } else if (dy <= dz) {
-        localNormal = { x: 0, y: localSpherePos.y > 0 ? 1 : -1, z: 0 };
-        penetration = dy + sphere.radius;
-      } else {
-        localNormal = { x: 0, y: 0, z: localSpherePos.z > 0 ? 1 : -1 };
-        penetration = dz + sphere.radius;
+        contacts.push({
+          point: contact,
+          bodyA: manifold.bodyA,
+          bodyB: manifold.bodyB,
+          rA,
+          rB,
+          normal: n,
+          tangent,
+          bitangent,
+          normalMass: kNormal > 0 ? 1 / kNormal : 0,
+          tangentMass: kTangent > 0 ? 1 / kTangent : 0,
+          bitangentMass: kBitangent > 0 ? 1 / kBitangent : 0,
+          restitution,
+          friction,
+          velocityBias: vn < -this.restitutionThreshold ? -restitution * vn : 0,
+          normalImpulse,
+          tangentImpulse: clampFriction(Vec3.dot(contact.frictionForce, tangent) * dt),
+          bitangentImpulse: clampFriction(Vec3.dot(contact.frictionForce, bitangent) * dt)
+        });
       }
     }
 
-    // Transform back to world space
-    const worldNormal = Quat.rotateVector(boxRot, localNormal);
-    const worldClosest = Vec3.add(boxPos, Quat.rotateVector(boxRot, closest));
-    const contactPoint = Vec3.add(worldClosest, Vec3.scale(worldNormal, penetration * 0.5));
-
-    return {
-      bodyA: sphereBody.id,
-      bodyB: boxBody.id,
-      normal: worldNormal,
-      penetration,
-      isTrigger: false,
-      contacts: [{
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, sphereBody.position),
-        localB: Vec3.sub(contactPoint, boxBody.position),
-        normal: worldNormal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      }]
-    };
+    return contacts;
   }
 
-  /**
-   * Sphere vs Plane collision
-   */
-  private static sphereVsPlane(
-    sphereBody: CollisionBody,
-    planeBody: CollisionBody,
-    spherePos: Vector3,
-    planePos: Vector3,
-    planeRot: Quaternion
-  ): ContactManifold | null {
-    const sphere = sphereBody.collider as SphereCollider;
-    const plane = planeBody.collider as PlaneCollider;
-
-    // Get world space normal
-    const worldNormal = Quat.rotateVector(planeRot, plane.normal);
-    
-    // Distance from sphere center to plane
-    const toSphere = Vec3.sub(spherePos, planePos);
-    const distance = Vec3.dot(toSphere, worldNormal) - plane.distance;
+  private warmStart(
+    bodies: Map<string, CollisionBody>,
+    contacts: PreparedContact[]
+  ): void {
+    for (const contact of contacts) {
+      const bodyA = bodies.get(contact.bodyA);
+      const bodyB = bodies.get(contact.bodyB);
+      if (!bodyA || !bodyB) continue;
 
-    if (distance > sphere.radius) {
-      return null;
+      const impulse = Vec3.add(
+        Vec3.scale(contact.normal, contact.normalImpulse),
+        Vec3.add(Vec3.scale(contact.tangent, contact.tangentImpulse), Vec3.scale(contact.bitangent, contact.bitangentImpulse))
+      );
+      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, impulse);
     }
+  }
 
-    const penetration = sphere.radius - distance;
-    const contactPoint = Vec3.sub(spherePos, Vec3.scale(worldNormal, sphere.radius - penetration * 0.5));
+  private solveVelocities(
+    bodies: Map<string, CollisionBody>,
+    contacts: PreparedContact[]
+  ): void {
+    for (const contact of contacts) {
+      const bodyA = bodies.get(contact.bodyA);
+      const bodyB = bodies.get(contact.bodyB);
+      if (!bodyA || !bodyB) continue;
 
-    return {
-      bodyA: sphereBody.id,
-      bodyB: planeBody.id,
-      normal: worldNormal,
-      penetration,
-      isTrigger: false,
-      contacts: [{
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, sphereBody.position),
-        localB: Vec3.sub(contactPoint, planeBody.position),
-        normal: worldNormal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      }]
-    };
-  }
+      // Get relative velocity
+      const dv = this.getRelativeVelocity(bodyA, bodyB, contact.rA, contact.rB);
 
-  /**
-   * Box vs Box collision using SAT (Separating Axis Theorem)
-   */
-  private static boxVsBox(
-    bodyA: CollisionBody,
-    bodyB: CollisionBody,
-    posA: Vector3,
-    posB: Vector3,
-    rotA: Quaternion,
-    rotB: Quaternion
-  ): ContactManifold | null {
-    const boxA = bodyA.collider as BoxCollider;
-    const boxB = bodyB.collider as BoxCollider;
+      // Normal impulse
+      const vn = Vec3.dot(dv, contact.normal);
+      let lambda = contact.normalMass * (-vn + contact.velocityBias);
 
-    // Get rotation matrices
-    const matA = Quat.toMatrix3(rotA);
-    const matB = Quat.toMatrix3(rotB);
+      // Clamp accumulated impulse
+      const oldImpulse = contact.normalImpulse;
+      contact.normalImpulse = Math.max(0, oldImpulse + lambda);
+      lambda = contact.normalImpulse - oldImpulse;
 
-    // Box axes in world space
-    const axesA = [
-      { x: matA[0], y: matA[1], z: matA[2] },
-      { x: matA[3], y: matA[4], z: matA[5] },
-      { x: matA[6], y: matA[7], z: matA[8] }
-    ];
-    const axesB = [
-      { x: matB[0], y: matB[1], z: matB[2] },
-      { x: matB[3], y: matB[4], z: matB[5] },
-      { x: matB[6], y: matB[7], z: matB[8] }
-    ];
+      // Apply normal impulse
+      const impulse = Vec3.scale(contact.normal, lambda);
+      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, impulse);
 
-    const extentsA = [boxA.halfExtents.x, boxA.halfExtents.y, boxA.halfExtents.z];
-    const extentsB = [boxB.halfExtents.x, boxB.halfExtents.y, boxB.halfExtents.z];
+      // Friction impulse, against the velocity left after the normal impulse
+      const maxFriction = contact.friction * contact.normalImpulse;
 
-    const diff = Vec3.sub(posB, posA);
+      // Tangent
+      const dvT = this.getRelativeVelocity(bodyA, bodyB, contact.rA, contact.rB);
+      const vt = Vec3.dot(dvT, contact.tangent);
+      let lambdaT = contact.tangentMass * (-vt);
 
-    let minPenetration = Infinity;
-    let minAxis: Vector3 = { x: 0, y: 1, z: 0 };
+      const oldTangent = contact.tangentImpulse;
+      contact.tangentImpulse = Math.max(-maxFriction, Math.min(maxFriction, oldTangent + lambdaT));
+      lambdaT = contact.tangentImpulse - oldTangent;
 
-    // Test 15 axes (3 from A + 3 from B + 9 cross products)
-    const testAxis = (axis: Vector3): boolean => {
-      const len = Vec3.length(axis);
-      if (len < 1e-6) return true; // Skip degenerate axes
+      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, Vec3.scale(contact.tangent, lambdaT));
 
-      const normalizedAxis = Vec3.scale(axis, 1 / len);
+      // Bitangent
+      const dvB = this.getRelativeVelocity(bodyA, bodyB, contact.rA, contact.rB);
+      const vb = Vec3.dot(dvB, contact.bitangent);
+      let lambdaB = contact.bitangentMass * (-vb);
 
-      // Project extents onto axis
-      let radiusA = 0;
-      let radiusB = 0;
+      const oldBitangent = contact.bitangentImpulse;
+      contact.bitangentImpulse = Math.max(-maxFriction, Math.min(maxFriction, oldBitangent + lambdaB));
+      lambdaB = contact.bitangentImpulse - oldBitangent;
 
-      for (let i = 0; i < 3; i++) {
-        radiusA += extentsA[i] * Math.abs(Vec3.dot(axesA[i], normalizedAxis));
-        radiusB += extentsB[i] * Math.abs(Vec3.dot(axesB[i], normalizedAxis));
-      }
+      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, Vec3.scale(contact.bitangent, lambdaB));
+    }
+  }
 
-      const distance = Math.abs(Vec3.dot(diff, normalizedAxis));
-      const penetration = radiusA + radiusB - distance;
+  private solvePositions(
+    bodies: Map<string, CollisionBody>,
+    manifolds: ContactManifold[],
+    startPositions: Map<string, Vector3>
+  ): void {
+    for (const manifold of manifolds) {
+      const bodyA = bodies.get(manifold.bodyA);
+      const bodyB = bodies.get(manifold.bodyB);
+      if (!bodyA || !bodyB) continue;
 
-      if (penetration < 0) return false; // Separating axis found
+      const startA = startPositions.get(manifold.bodyA) ?? bodyA.position;
+      const startB = startPositions.get(manifold.bodyB) ?? bodyB.position;
 
-      if (penetration < minPenetration) {
-        minPenetration = penetration;
-        minAxis = Vec3.dot(diff, normalizedAxis) < 0 
-          ? Vec3.negate(normalizedAxis) 
-          : normalizedAxis;
-      }
+      for (const contact of manifold.contacts) {
+        // Recalculate penetration from the correction applied so far
+        const moveA = Vec3.sub(bodyA.position, startA);
+        const moveB = Vec3.sub(bodyB.position, startB);
+        const depth = contact.penetrationDepth ?? manifold.penetration;
+        const separation = Vec3.dot(Vec3.sub(moveB, moveA), contact.normal) - depth;
 
-      return true;
-    };
+        // Baumgarte stabilization
+        const correction = Math.max(0, -separation - this.slop) * this.baumgarte;
 
-    // Test face axes
-    for (const axis of axesA) {
-      if (!testAxis(axis)) return null;
-    }
-    for (const axis of axesB) {
-      if (!testAxis(axis)) return null;
-    }
+        if (correction > 0) {
+          const totalInvMass = bodyA.invMass + bodyB.invMass;
+          if (totalInvMass > 0) {
+            const correctionVec = Vec3.scale(contact.normal, correction / totalInvMass);
 
-    // Test edge-edge axes
-    for (const aAxis of axesA) {
-      for (const bAxis of axesB) {
-        if (!testAxis(Vec3.cross(aAxis, bAxis))) return null;
+            if (!bodyA.isStatic && !bodyA.isKinematic) {
+              bodyA.position = Vec3.sub(bodyA.position, Vec3.scale(correctionVec, bodyA.invMass));
+            }
+            if (!bodyB.isStatic && !bodyB.isKinematic) {
+              bodyB.position = Vec3.add(bodyB.position, Vec3.scale(correctionVec, bodyB.invMass));
+            }
+          }
+        }
       }
     }
+  }
 
-    // Generate contact points
-    const contacts = this.generateBoxBoxContacts(
-      posA, rotA, boxA.halfExtents,
-      posB, rotB, boxB.halfExtents,
-      minAxis, minPenetration
-    );
+  private getRelativeVelocity(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    rA: Vector3,
+    rB: Vector3
+  ): Vector3 {
+    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
+    const velB = Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB));
+    return Vec3.sub(velB, velA);
+  }
 
-    return {
-      bodyA: bodyA.id,
-      bodyB: bodyB.id,
-      normal: minAxis,
-      penetration: minPenetration,
-      isTrigger: false,
-      contacts
-    };
+  private applyImpulse(
+    bodyA: CollisionBody,
+    bodyB: CollisionBody,
+    rA: Vector3,
+    rB: Vector3,
+    impulse: Vector3
+  ): void {
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, impulse))
+      );
+    }
+
+    if (!bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, impulse))
+      );
+    }
   }
+}
+
+interface PreparedContact {
+  point: ContactPoint;
+  bodyA: string;
+  bodyB: string;
+  rA: Vector3;
+  rB: Vector3;
+  normal: Vector3;
+  tangent: Vector3;
+  bitangent: Vector3;
+  normalMass: number;
+  tangentMass: number;
+  bitangentMass: number;
+  restitution: number;
+  friction: number;
+  velocityBias: number;
+  normalImpulse: number;
+  tangentImpulse: number;
+  bitangentImpulse: number;
+}
 
-  /**
-   * Generate contact points for box-box collision
-   */
-  private static generateBoxBoxContacts(
-    posA: Vector3, rotA: Quaternion, extentsA: Vector3,
-    posB: Vector3, rotB: Quaternion, extentsB: Vector3,
-    normal: Vector3, penetration: number
-  ): ContactPoint[] {
-    // Simplified: generate single contact point at center of penetration
-    const contactPoint = Vec3.lerp(posA, posB, 0.5);
+// ============================================================================
+// Distance Queries
+// ============================================================================
 
-    return [{
-      position: contactPoint,
-      localA: Quat.rotateVector(Quat.conjugate(rotA), Vec3.sub(contactPoint, posA)),
-      localB: Quat.rotateVector(Quat.conjugate(rotB), Vec3.sub(contactPoint, posB)),
-      normal,
-      normalForce: 0,
-      frictionForce: { x: 0, y: 0, z: 0 }
-    }];
-  }
+export interface Pose {
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+interface ShapePart {
+  collider: Exclude<Collider, CompoundCollider>;
+  position: Vector3;
+  rotation: Quaternion;
+}
+
+/**
+ * Spheres and capsules measured as a point or segment plus a radius, so their
+ * distances are exact instead of converging on a curved support
+ */
+interface ShapeCore {
+  support: SupportFunction;
+  margin: number;
+  segment?: [Vector3, Vector3];
+}
 
+export class ShapeDistance {
   /**
-   * Box vs Plane collision
+   * Closest points between two posed colliders. Compound children and mesh
+   * triangles are measured separately and the nearest pair wins. Returns null
+   * when any part overlaps, and an infinite distance when no part pair can be
+   * measured (e.g. plane against plane).
+   *
+   * Search bounds limit which mesh triangles are considered: CCD and casts pass
+   * their sweep; without them the nearest triangle is found exhaustively.
    */
-  private static boxVsPlane(
-    boxBody: CollisionBody,
-    planeBody: CollisionBody,
-    boxPos: Vector3,
-    planePos: Vector3,
-    boxRot: Quaternion,
-    planeRot: Quaternion
-  ): ContactManifold | null {
-    const box = boxBody.collider as BoxCollider;
-    const plane = planeBody.collider as PlaneCollider;
-
-    const worldNormal = Quat.rotateVector(planeRot, plane.normal);
-    const planeD = Vec3.dot(planePos, worldNormal) + plane.distance;
+  static between(
+    colliderA: Collider,
+    poseA: Pose,
+    colliderB: Collider,
+    poseB: Pose,
+    boundsA?: AABB,
+    boundsB?: AABB
+  ): ClosestPoints | null {
+    let best: ClosestPoints = {
+      distance: Infinity,
+      normal: { x: 0, y: 0, z: 0 },
+      pointA: poseA.position,
+      pointB: poseB.position
+    };
 
-    // Get box vertices in world space
-    const vertices: Vector3[] = [];
-    for (let x = -1; x <= 1; x += 2) {
-      for (let y = -1; y <= 1; y += 2) {
-        for (let z = -1; z <= 1; z += 2) {
-          const local = {
-            x: x * box.halfExtents.x,
-            y: y * box.halfExtents.y,
-            z: z * box.halfExtents.z
-          };
-          vertices.push(Vec3.add(boxPos, Quat.rotateVector(boxRot, local)));
-        }
+    for (const partA of this.parts(colliderA, poseA)) {
+      for (const partB of this.parts(colliderB, poseB)) {
+        const gap = this.partSeparation(partA, partB, boundsA, boundsB);
+        if (!gap) return null;
+        if (gap.distance < best.distance) best = gap;
       }
     }
 
-    // Find vertices below the plane
-    const contacts: ContactPoint[] = [];
-    let maxPenetration = 0;
-
-    for (const v of vertices) {
-      const distance = Vec3.dot(v, worldNormal) - planeD;
-      if (distance < 0) {
-        const penetration = -distance;
-        maxPenetration = Math.max(maxPenetration, penetration);
+    return best;
+  }
 
-        const contactPoint = Vec3.sub(v, Vec3.scale(worldNormal, distance * 0.5));
-        contacts.push({
-          position: contactPoint,
-          localA: Vec3.sub(contactPoint, boxBody.position),
-          localB: Vec3.sub(contactPoint, planeBody.position),
-          normal: worldNormal,
-          normalForce: 0,
-          frictionForce: { x: 0, y: 0, z: 0 }
-        });
-      }
+  /**
+   * Signed distance between two bodies: the separation when apart, or minus the
+   * penetration depth when overlapping, with witness points at the deepest
+   * contact. Returns null when the pair can't be measured.
+   */
+  static signed(bodyA: CollisionBody, bodyB: CollisionBody): ClosestPoints | null {
+    const gap = this.between(bodyA.collider, bodyA, bodyB.collider, bodyB);
+    if (gap) {
+      return isFinite(gap.distance) ? gap : null;
     }
 
-    if (contacts.length === 0) {
-      return null;
+    const manifold = NarrowPhase.testCollision(bodyA, bodyB);
+    const deepest = manifold?.contacts.reduce((a, b) => (b.penetrationDepth > a.penetrationDepth ? b : a));
+    if (!deepest) {
+      const midpoint = Vec3.lerp(bodyA.position, bodyB.position, 0.5);
+      return {
+        distance: 0,
+        normal: ConvexSupport.unit(Vec3.sub(bodyB.position, bodyA.position)),
+        pointA: midpoint,
+        pointB: midpoint
+      };
     }
 
+    // Contact positions sit halfway between the two deepest points
+    const half = Vec3.scale(deepest.normal, deepest.penetrationDepth * 0.5);
     return {
-      bodyA: boxBody.id,
-      bodyB: planeBody.id,
-      normal: worldNormal,
-      penetration: maxPenetration,
-      isTrigger: false,
-      contacts
+      distance: -deepest.penetrationDepth,
+      normal: deepest.normal,
+      pointA: Vec3.add(deepest.position, half),
+      pointB: Vec3.sub(deepest.position, half)
     };
   }
 
-  /**
-   * Sphere vs Capsule collision
-   */
-  private static sphereVsCapsule(
-    sphereBody: CollisionBody,
-    capsuleBody: CollisionBody,
-    spherePos: Vector3,
-    capsulePos: Vector3,
-    capsuleRot: Quaternion
-  ): ContactManifold | null {
-    const sphere = sphereBody.collider as SphereCollider;
-    const capsule = capsuleBody.collider as CapsuleCollider;
-
-    // Capsule axis in world space
-    const axis = Quat.rotateVector(capsuleRot, { x: 0, y: 1, z: 0 });
-    const halfAxis = Vec3.scale(axis, capsule.halfHeight);
+  private static partSeparation(
+    partA: ShapePart,
+    partB: ShapePart,
+    boundsA?: AABB,
+    boundsB?: AABB
+  ): ClosestPoints | null {
+    const posA = Vec3.add(partA.position, Quat.rotateVector(partA.rotation, partA.collider.offset));
+    const posB = Vec3.add(partB.position, Quat.rotateVector(partB.rotation, partB.collider.offset));
+    const rotA = Quat.multiply(partA.rotation, partA.collider.rotation);
+    const rotB = Quat.multiply(partB.rotation, partB.collider.rotation);
+    const convexA = ConvexSupport.isConvex(partA.collider);
+    const convexB = ConvexSupport.isConvex(partB.collider);
+
+    if (convexA && convexB) {
+      return this.coreSeparation(
+        this.core(partA.collider, posA, rotA),
+        this.core(partB.collider, posB, rotB),
+        Vec3.sub(posB, posA)
+      );
+    }
 
-    // Line segment endpoints
-    const p0 = Vec3.sub(capsulePos, halfAxis);
-    const p1 = Vec3.add(capsulePos, halfAxis);
+    if (convexA && partB.collider.type === 'plane') {
+      return this.planeSeparation(partA.collider, posA, rotA, partB.collider, posB, rotB);
+    }
+    if (convexB && partA.collider.type === 'plane') {
+      return this.flip(this.planeSeparation(partB.collider, posB, rotB, partA.collider, posA, rotA));
+    }
 
-    // Find closest point on capsule axis to sphere center
-    const d = Vec3.sub(p1, p0);
-    const t = Math.max(0, Math.min(1, Vec3.dot(Vec3.sub(spherePos, p0), d) / Vec3.lengthSq(d)));
-    const closest = Vec3.add(p0, Vec3.scale(d, t));
+    if (convexA && this.triangleBVH(partB.collider)) {
+      const search = boundsA ?? ColliderUtils.computeAABB(partA.collider, partA.position, partA.rotation);
+      return this.meshSeparation(partA.collider, posA, rotA, search, !boundsA, partB.collider, posB, rotB);
+    }
+    if (convexB && this.triangleBVH(partA.collider)) {
+      const search = boundsB ?? ColliderUtils.computeAABB(partB.collider, partB.position, partB.rotation);
+      return this.flip(this.meshSeparation(partB.collider, posB, rotB, search, !boundsB, partA.collider, posA, rotA));
+    }
 
-    // Sphere-sphere test with closest point
-    const diff = Vec3.sub(spherePos, closest);
-    const distSq = Vec3.lengthSq(diff);
-    const radiusSum = sphere.radius + capsule.radius;
+    return { distance: Infinity, normal: { x: 0, y: 0, z: 0 }, pointA: posA, pointB: posB };
+  }
 
-    if (distSq > radiusSum * radiusSum) {
-      return null;
+  private static core(collider: Collider, position: Vector3, rotation: Quaternion): ShapeCore {
+    if (collider.type === 'sphere') {
+      return { support: () => position, margin: collider.radius, segment: [position, position] };
     }
 
-    const dist = Math.sqrt(distSq);
-    const normal = dist > 1e-6 ? Vec3.scale(diff, 1 / dist) : { x: 0, y: 1, z: 0 };
-    const penetration = radiusSum - dist;
-
-    const contactPoint = Vec3.add(closest, Vec3.scale(normal, capsule.radius - penetration * 0.5));
+    if (collider.type === 'capsule') {
+      const axis = Quat.rotateVector(rotation, { x: 0, y: collider.halfHeight, z: 0 });
+      const a = Vec3.sub(position, axis);
+      const b = Vec3.add(position, axis);
+      return {
+        support: (direction: Vector3) => (Vec3.dot(axis, direction) >= 0 ? b : a),
+        margin: collider.radius,
+        segment: [a, b]
+      };
+    }
 
-    return {
-      bodyA: sphereBody.id,
-      bodyB: capsuleBody.id,
-      normal,
-      penetration,
-      isTrigger: false,
-      contacts: [{
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, sphereBody.position),
-        localB: Vec3.sub(contactPoint, capsuleBody.position),
-        normal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      }]
-    };
+    return { support: ConvexSupport.bind(collider, position, rotation), margin: 0 };
   }
 
   /**
-   * Capsule vs Capsule collision
+   * Distance between two cores less their margins: segment math when both are
+   * points or segments, GJK otherwise
    */
-  private static capsuleVsCapsule(
-    bodyA: CollisionBody,
-    bodyB: CollisionBody,
-    posA: Vector3,
-    posB: Vector3,
-    rotA: Quaternion,
-    rotB: Quaternion
-  ): ContactManifold | null {
-    const capsuleA = bodyA.collider as CapsuleCollider;
-    const capsuleB = bodyB.collider as CapsuleCollider;
-
-    // Get capsule axes
-    const axisA = Quat.rotateVector(rotA, { x: 0, y: 1, z: 0 });
-    const axisB = Quat.rotateVector(rotB, { x: 0, y: 1, z: 0 });
-
-    // Line segment endpoints
-    const a0 = Vec3.sub(posA, Vec3.scale(axisA, capsuleA.halfHeight));
-    const a1 = Vec3.add(posA, Vec3.scale(axisA, capsuleA.halfHeight));
-    const b0 = Vec3.sub(posB, Vec3.scale(axisB, capsuleB.halfHeight));
-    const b1 = Vec3.add(posB, Vec3.scale(axisB, capsuleB.halfHeight));
-
-    // Find closest points between line segments
-    const { pointA, pointB } = this.closestPointsOnSegments(a0, a1, b0, b1);
-
-    // Sphere-sphere test
-    const diff = Vec3.sub(pointA, pointB);
-    const distSq = Vec3.lengthSq(diff);
-    const radiusSum = capsuleA.radius + capsuleB.radius;
+  private static coreSeparation(coreA: ShapeCore, coreB: ShapeCore, direction: Vector3): ClosestPoints | null {
+    let closest: ClosestPoints | null;
 
-    if (distSq > radiusSum * radiusSum) {
-      return null;
+    if (coreA.segment && coreB.segment) {
+      const { pointA, pointB } = NarrowPhase.closestPointsOnSegments(
+        coreA.segment[0], coreA.segment[1], coreB.segment[0], coreB.segment[1]
+      );
+      const distance = Vec3.distance(pointA, pointB);
+      closest = distance < GJK_EPSILON
+        ? null
+        : { distance, normal: Vec3.scale(Vec3.sub(pointB, pointA), 1 / distance), pointA, pointB };
+    } else {
+      closest = GJK.distance(coreA.support, coreB.support, direction);
     }
 
-    const dist = Math.sqrt(distSq);
-    const normal = dist > 1e-6 ? Vec3.scale(diff, 1 / dist) : { x: 0, y: 1, z: 0 };
-    const penetration = radiusSum - dist;
+    if (!closest) return null;
 
-    const contactPoint = Vec3.lerp(pointA, pointB, 0.5);
+    const distance = closest.distance - coreA.margin - coreB.margin;
+    if (distance <= 0) return null;
 
     return {
-      bodyA: bodyA.id,
-      bodyB: bodyB.id,
-      normal,
-      penetration,
-      isTrigger: false,
-      contacts: [{
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, bodyA.position),
-        localB: Vec3.sub(contactPoint, bodyB.position),
-        normal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      }]
+      distance,
+      normal: closest.normal,
+      pointA: Vec3.add(closest.pointA, Vec3.scale(closest.normal, coreA.margin)),
+      pointB: Vec3.sub(closest.pointB, Vec3.scale(closest.normal, coreB.margin))
     };
   }
 
-  /**
-   * Capsule vs Plane collision
-   */
-  private static capsuleVsPlane(
-    capsuleBody: CollisionBody,
-    planeBody: CollisionBody,
-    capsulePos: Vector3,
+  private static planeSeparation(
+    convex: Collider,
+    convexPos: Vector3,
+    convexRot: Quaternion,
+    plane: PlaneCollider,
     planePos: Vector3,
-    capsuleRot: Quaternion,
     planeRot: Quaternion
-  ): ContactManifold | null {
-    const capsule = capsuleBody.collider as CapsuleCollider;
-    const plane = planeBody.collider as PlaneCollider;
-
-    const worldNormal = Quat.rotateVector(planeRot, plane.normal);
-    const planeD = Vec3.dot(planePos, worldNormal) + plane.distance;
-
-    // Capsule axis
-    const axis = Quat.rotateVector(capsuleRot, { x: 0, y: 1, z: 0 });
-    const halfAxis = Vec3.scale(axis, capsule.halfHeight);
-
-    // Test both endpoints
-    const p0 = Vec3.sub(capsulePos, halfAxis);
-    const p1 = Vec3.add(capsulePos, halfAxis);
-
-    const d0 = Vec3.dot(p0, worldNormal) - planeD;
-    const d1 = Vec3.dot(p1, worldNormal) - planeD;
-
-    const contacts: ContactPoint[] = [];
-    let maxPenetration = 0;
+  ): ClosestPoints | null {
+    const planeNormal = Quat.rotateVector(planeRot, plane.normal);
+    const planeD = Vec3.dot(planePos, planeNormal) + plane.distance;
 
-    if (d0 < capsule.radius) {
-      const penetration = capsule.radius - d0;
-      maxPenetration = Math.max(maxPenetration, penetration);
-      const contactPoint = Vec3.sub(p0, Vec3.scale(worldNormal, d0 - penetration * 0.5));
-      contacts.push({
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, capsuleBody.position),
-        localB: Vec3.sub(contactPoint, planeBody.position),
-        normal: worldNormal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      });
-    }
-
-    if (d1 < capsule.radius) {
-      const penetration = capsule.radius - d1;
-      maxPenetration = Math.max(maxPenetration, penetration);
-      const contactPoint = Vec3.sub(p1, Vec3.scale(worldNormal, d1 - penetration * 0.5));
-      contacts.push({
-        position: contactPoint,
-        localA: Vec3.sub(contactPoint, capsuleBody.position),
-        localB: Vec3.sub(contactPoint, planeBody.position),
-        normal: worldNormal,
-        normalForce: 0,
-        frictionForce: { x: 0, y: 0, z: 0 }
-      });
-    }
-
-    if (contacts.length === 0) {
-      return null;
-    }
+    const pointA = ConvexSupport.world(convex, convexPos, convexRot, Vec3.negate(planeNormal));
+    const distance = Vec3.dot(pointA, planeNormal) - planeD;
+    if (distance <= 0) return null;
 
     return {
-      bodyA: capsuleBody.id,
-      bodyB: planeBody.id,
-      normal: worldNormal,
-      penetration: maxPenetration,
-      isTrigger: false,
-      contacts
+      distance,
+      normal: Vec3.negate(planeNormal),
+      pointA,
+      pointB: Vec3.sub(pointA, Vec3.scale(planeNormal, distance))
     };
   }
 
   /**
-   * Find closest points between two line segments
+   * Nearest triangle of a mesh or heightmap among those overlapping the search
+   * bounds. An exhaustive search grows the bounds until they hold a triangle,
+   * then by the best distance found, which no nearer triangle can lie outside of.
    */
-  private static closestPointsOnSegments(
-    a0: Vector3, a1: Vector3,
-    b0: Vector3, b1: Vector3
-  ): { pointA: Vector3; pointB: Vector3 } {
-    const d1 = Vec3.sub(a1, a0);
-    const d2 = Vec3.sub(b1, b0);
-    const r = Vec3.sub(a0, b0);
+  private static meshSeparation(
+    convex: Collider,
+    convexPos: Vector3,
+    convexRot: Quaternion,
+    bounds: AABB,
+    exhaustive: boolean,
+    mesh: Collider,
+    meshPos: Vector3,
+    meshRot: Quaternion
+  ): ClosestPoints | null {
+    const bvh = this.triangleBVH(mesh)!;
+    const inverse = Quat.conjugate(meshRot);
+    const toLocal = (world: AABB) =>
+      ColliderUtils.transformBounds(world, Quat.rotateVector(inverse, Vec3.negate(meshPos)), inverse);
+
+    const core = this.core(convex, convexPos, convexRot);
+    const tested = new Set<number>();
+    let best: ClosestPoints = { distance: Infinity, normal: { x: 0, y: 0, z: 0 }, pointA: convexPos, pointB: meshPos };
+
+    const measure = (search: AABB): boolean => {
+      for (const index of bvh.queryAABB(toLocal(search))) {
+        if (tested.has(index)) continue;
+        tested.add(index);
+
+        const corners = bvh.triangle(index).map(v => Vec3.add(meshPos, Quat.rotateVector(meshRot, v)));
+        const triangle: ShapeCore = {
+          support: (direction: Vector3) =>
+            corners.reduce((a, b) => (Vec3.dot(b, direction) > Vec3.dot(a, direction) ? b : a)),
+          margin: 0
+        };
+
+        const gap = this.coreSeparation(core, triangle, Vec3.sub(corners[0], convexPos));
+        if (!gap) return false;
+        if (gap.distance < best.distance) best = gap;
+      }
+      return true;
+    };
 
-    const a = Vec3.dot(d1, d1);
-    const e = Vec3.dot(d2, d2);
-    const f = Vec3.dot(d2, r);
+    if (!measure(bounds)) return null;
+    if (!exhaustive || bvh.triangleCount === 0) return best;
+
+    const meshBounds = ColliderUtils.transformBounds(bvh.bounds, meshPos, meshRot);
+    const size = AABBUtils.size(bounds);
+    let reach = Math.max(size.x, size.y, size.z, 1e-3);
+    while (!isFinite(best.distance)) {
+      const search = AABBUtils.expand(bounds, reach);
+      if (!measure(search)) return null;
+      if (AABBUtils.containsAABB(search, meshBounds)) break;
+      reach *= 2;
+    }
 
-    let s: number;
-    let t: number;
+    if (!measure(AABBUtils.expand(bounds, best.distance))) return null;
+    return best;
+  }
 
-    if (a <= 1e-6 && e <= 1e-6) {
-      // Both segments are points
-      return { pointA: a0, pointB: b0 };
+  private static parts(collider: Collider, pose: Pose): ShapePart[] {
+    if (collider.type !== 'compound') {
+      return [{ collider, position: pose.position, rotation: pose.rotation }];
     }
 
-    if (a <= 1e-6) {
-      // First segment is a point
-      s = 0;
-      t = Math.max(0, Math.min(1, f / e));
-    } else {
-      const c = Vec3.dot(d1, r);
-      if (e <= 1e-6) {
-        // Second segment is a point
-        t = 0;
-        s = Math.max(0, Math.min(1, -c / a));
-      } else {
-        // General case
-        const b = Vec3.dot(d1, d2);
-        const denom = a * e - b * b;
+    const center = Vec3.add(pose.position, Quat.rotateVector(pose.rotation, collider.offset));
+    const rotation = Quat.multiply(pose.rotation, collider.rotation);
+    return collider.children.map(child => ({ collider: child.collider, position: center, rotation }));
+  }
 
-        if (denom !== 0) {
-          s = Math.max(0, Math.min(1, (b * f - c * e) / denom));
-        } else {
-          s = 0;
-        }
+  private static triangleBVH(collider: Collider): TriangleBVH | null {
+    if (collider.type === 'heightmap') return collider.bvh;
+    if (collider.type === 'mesh' && !collider.isConvex) return collider.bvh ?? null;
+    return null;
+  }
 
-        t = (b * s + f) / e;
+  private static flip(result: ClosestPoints | null): ClosestPoints | null {
+    if (!result) return null;
+    return { ...result, normal: Vec3.negate(result.normal), pointA: result.pointB, pointB: result.pointA };
+  }
+}
 
-        if (t < 0) {
-          t = 0;
-          s = Math.max(0, Math.min(1, -c / a));
-        } else if (t > 1) {
-          t = 1;
-          s = Math.max(0, Math.min(1, (b - c) / a));
-        }
-      }
-    }
+// ============================================================================
+// Continuous Collision Detection
+// ============================================================================
 
-    return {
-      pointA: Vec3.add(a0, Vec3.scale(d1, s)),
-      pointB: Vec3.add(b0, Vec3.scale(d2, t))
-    };
-  }
+/**
+ * Motion of a body over one step; poses in between are interpolated
+ */
+export interface Sweep {
+  position0: Vector3;
+  rotation0: Quaternion;
+  position1: Vector3;
+  rotation1: Quaternion;
+}
+
+export interface TimeOfImpact {
+  time: number; // Fraction of the step, 0..1
+  normal: Vector3; // Points from A towards B
+  pointA: Vector3;
+  pointB: Vector3;
 }
 
-// ============================================================================
-// Contact Solver - Impulse-based collision resolution
-// ============================================================================
+const CCD_TARGET_SEPARATION = 0.005; // Gap left between bodies at the time of impact
+const CCD_MAX_ITERATIONS = 32;
+const CCD_MOTION_THRESHOLD = 0.5; // Sweep only when moving more than this fraction of the body's thinnest extent
+const CAST_TOLERANCE = 1e-4; // Gap at which shape casts refine the contact analytically
 
-export class ContactSolver {
-  private velocityIterations: number = 8;
-  private positionIterations: number = 3;
-  private baumgarte: number = 0.2; // Position correction factor
-  private slop: number = 0.005; // Penetration allowance
+export class ContinuousCollision {
+  /**
+   * Whether a body moved far enough this step that a discrete test could miss a contact
+   */
+  static needsSweep(body: CollisionBody): boolean {
+    if (!body.previousPosition) return false;
 
-  constructor(options?: {
-    velocityIterations?: number;
-    positionIterations?: number;
-    baumgarte?: number;
-    slop?: number;
-  }) {
-    if (options?.velocityIterations) this.velocityIterations = options.velocityIterations;
-    if (options?.positionIterations) this.positionIterations = options.positionIterations;
-    if (options?.baumgarte) this.baumgarte = options.baumgarte;
-    if (options?.slop) this.slop = options.slop;
+    const extents = Vec3.scale(Vec3.sub(body.aabb.max, body.aabb.min), 0.5);
+    const thinnest = Math.min(extents.x, extents.y, extents.z);
+    return Vec3.distance(body.previousPosition, body.position) > CCD_MOTION_THRESHOLD * thinnest;
   }
 
   /**
-   * Solve all contacts for velocity and position
+   * Sweep of a body from its pose at the start of the step to its current pose
    */
-  solve(
-    bodies: Map<string, CollisionBody>,
-    manifolds: ContactManifold[],
-    dt: number
-  ): void {
-    // Skip triggers
-    const physicalManifolds = manifolds.filter(m => !m.isTrigger);
+  static sweepOf(body: CollisionBody): Sweep {
+    return {
+      position0: body.previousPosition ?? body.position,
+      rotation0: body.previousRotation ?? body.rotation,
+      position1: body.position,
+      rotation1: body.rotation
+    };
+  }
 
-    // Pre-calculate contact data
-    const contacts = this.prepareContacts(bodies, physicalManifolds);
+  static poseAt(sweep: Sweep, t: number): Pose {
+    return {
+      position: Vec3.lerp(sweep.position0, sweep.position1, t),
+      rotation: Quat.slerp(sweep.rotation0, sweep.rotation1, t)
+    };
+  }
 
-    // Velocity solving
-    for (let i = 0; i < this.velocityIterations; i++) {
-      this.solveVelocities(bodies, contacts);
+  /**
+   * World AABB covering a collider over its whole sweep, rotation included
+   */
+  static sweptAABB(collider: Collider, sweep: Sweep): AABB {
+    const start = ColliderUtils.computeAABB(collider, sweep.position0, sweep.rotation0);
+    const end = ColliderUtils.computeAABB(collider, sweep.position1, sweep.rotation1);
+    if (this.rotationAngle(sweep) < 1e-9) {
+      return AABBUtils.merge(start, end);
     }
 
-    // Position solving
-    for (let i = 0; i < this.positionIterations; i++) {
-      this.solvePositions(bodies, physicalManifolds);
-    }
+    const r = ColliderUtils.boundingRadius(collider);
+    const extents = { x: r, y: r, z: r };
+    return AABBUtils.merge(
+      AABBUtils.fromCenterExtents(sweep.position0, extents),
+      AABBUtils.fromCenterExtents(sweep.position1, extents)
+    );
   }
 
-  private prepareContacts(
-    bodies: Map<string, CollisionBody>,
-    manifolds: ContactManifold[]
-  ): PreparedContact[] {
-    const contacts: PreparedContact[] = [];
+  /**
+   * First time in [0, 1] at which two sweeping colliders come within contact
+   * distance, by conservative advancement: step forward by the current gap
+   * divided by the fastest the gap can close, until the gap is within tolerance.
+   * Returns null when they stay apart or already overlap at the start (the
+   * discrete pass handles that).
+   */
+  static timeOfImpact(
+    colliderA: Collider,
+    sweepA: Sweep,
+    colliderB: Collider,
+    sweepB: Sweep,
+    tolerance: number = CCD_TARGET_SEPARATION
+  ): TimeOfImpact | null {
+    const boundsA = this.sweptAABB(colliderA, sweepA);
+    const boundsB = this.sweptAABB(colliderB, sweepB);
+
+    // Bound on how fast any point of each body moves towards the other, per unit of t
+    const angularA = this.angularBound(colliderA, sweepA);
+    const angularB = this.angularBound(colliderB, sweepB);
+    const relativeMotion = Vec3.sub(
+      Vec3.sub(sweepA.position1, sweepA.position0),
+      Vec3.sub(sweepB.position1, sweepB.position0)
+    );
 
-    for (const manifold of manifolds) {
-      const bodyA = bodies.get(manifold.bodyA);
-      const bodyB = bodies.get(manifold.bodyB);
-      if (!bodyA || !bodyB) continue;
+    let t = 0;
+    let last: TimeOfImpact | null = null;
 
-      for (const contact of manifold.contacts) {
-        const rA = contact.localA;
-        const rB = contact.localB;
-        const n = manifold.normal;
+    for (let i = 0; i < CCD_MAX_ITERATIONS; i++) {
+      const poseA = this.poseAt(sweepA, t);
+      const poseB = this.poseAt(sweepB, t);
+      const gap = ShapeDistance.between(colliderA, poseA, colliderB, poseB, boundsA, boundsB);
 
-        // Calculate effective mass
-        const rnA = Vec3.cross(rA, n);
-        const rnB = Vec3.cross(rB, n);
+      // Overshot into contact: the previous iterate is the impact
+      if (!gap) return last;
+      if (!isFinite(gap.distance)) return null;
 
-        const kNormal = bodyA.invMass + bodyB.invMass +
-          Vec3.dot(rnA, Mat3.multiplyVector(bodyA.invInertia, rnA)) +
-          Vec3.dot(rnB, Mat3.multiplyVector(bodyB.invInertia, rnB));
+      const impact = { time: t, normal: gap.normal, pointA: gap.pointA, pointB: gap.pointB };
+      if (gap.distance <= tolerance) return impact;
 
-        // Calculate friction tangents
-        const dv = this.getRelativeVelocity(bodyA, bodyB, rA, rB);
-        const vn = Vec3.dot(dv, n);
-        let tangent = Vec3.sub(dv, Vec3.scale(n, vn));
-        const tangentLen = Vec3.length(tangent);
+      const closing = Vec3.dot(relativeMotion, gap.normal) + angularA + angularB;
+      if (closing <= GJK_EPSILON) return null;
 
-        if (tangentLen > 1e-6) {
-          tangent = Vec3.scale(tangent, 1 / tangentLen);
-        } else {
-          // Generate arbitrary tangent
-          if (Math.abs(n.x) < 0.9) {
-            tangent = Vec3.normalize(Vec3.cross(n, { x: 1, y: 0, z: 0 }));
-          } else {
-            tangent = Vec3.normalize(Vec3.cross(n, { x: 0, y: 1, z: 0 }));
-          }
-        }
+      t += (gap.distance - tolerance * 0.5) / closing;
+      if (t >= 1) return null;
+      last = impact;
+    }
 
-        const bitangent = Vec3.cross(n, tangent);
+    return last;
+  }
 
-        // Friction effective mass
-        const rtA = Vec3.cross(rA, tangent);
-        const rtB = Vec3.cross(rB, tangent);
-        const kTangent = bodyA.invMass + bodyB.invMass +
-          Vec3.dot(rtA, Mat3.multiplyVector(bodyA.invInertia, rtA)) +
-          Vec3.dot(rtB, Mat3.multiplyVector(bodyB.invInertia, rtB));
+  private static rotationAngle(sweep: Sweep): number {
+    const delta = Quat.multiply(sweep.rotation1, Quat.conjugate(sweep.rotation0));
+    return 2 * Math.acos(Math.min(1, Math.abs(delta.w)));
+  }
 
-        const rbA = Vec3.cross(rA, bitangent);
-        const rbB = Vec3.cross(rB, bitangent);
-        const kBitangent = bodyA.invMass + bodyB.invMass +
-          Vec3.dot(rbA, Mat3.multiplyVector(bodyA.invInertia, rbA)) +
-          Vec3.dot(rbB, Mat3.multiplyVector(bodyB.invInertia, rbB));
+  private static angularBound(collider: Collider, sweep: Sweep): number {
+    const angle = this.rotationAngle(sweep);
+    return angle < 1e-9 ? 0 : angle * ColliderUtils.boundingRadius(collider);
+  }
+}
 
-        // Restitution
-        const restitution = Math.min(bodyA.restitution, bodyB.restitution);
-        const friction = Math.sqrt(bodyA.friction * bodyB.friction);
+// ============================================================================
+// Parallel Narrow Phase
+// ============================================================================
 
-        contacts.push({
-          bodyA: manifold.bodyA,
-          bodyB: manifold.bodyB,
-          rA,
-          rB,
-          normal: n,
-          tangent,
-          bitangent,
-          normalMass: kNormal > 0 ? 1 / kNormal : 0,
-          tangentMass: kTangent > 0 ? 1 / kTangent : 0,
-          bitangentMass: kBitangent > 0 ? 1 / kBitangent : 0,
-          restitution,
-          friction,
-          velocityBias: restitution * Math.min(0, vn + 1), // Threshold
-          normalImpulse: 0,
-          tangentImpulse: 0,
-          bitangentImpulse: 0
-        });
-      }
-    }
+const PARALLEL_MIN_PAIRS = 128; // Below this a step is cheaper to test on the calling thread
+const WORKER_TIMEOUT_MS = 30000; // Longest wait on the workers before giving up on them
+const POSE_STRIDE = 15; // Floats per body slot: position, rotation, bounds, friction, restitution
+const CONTROL_DONE = 0; // Shared counters: workers finished with the current job
+const CONTROL_READY = 1; // ... and workers that have loaded this module
+const WORKER_FAILED = 1 << 16; // Added to the ready counter by a worker that could not load
 
-    return contacts;
+/**
+ * Worker entry point: import this module, CommonJS or ES, and hand over to
+ * runWorker(), reporting a failed load through the ready counter
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+import(workerData.moduleUrl).then(module => {
+  (module.ParallelNarrowPhase ?? module.default.ParallelNarrowPhase).runWorker();
+}).catch(() => {
+  Atomics.add(workerData.control, ${CONTROL_READY}, ${WORKER_FAILED});
+  Atomics.notify(workerData.control, ${CONTROL_READY});
+});
+`;
+
+/**
+ * A Node built-in module, or undefined outside Node. ES module builds have no
+ * require, so fall back to process.getBuiltinModule there.
+ */
+function nodeModule<T>(id: string): T | undefined {
+  try {
+    return require(id);
+  } catch {
+    return (globalThis as any).process?.getBuiltinModule?.(id);
   }
+}
 
-  private solveVelocities(
-    bodies: Map<string, CollisionBody>,
-    contacts: PreparedContact[]
-  ): void {
-    for (const contact of contacts) {
-      const bodyA = bodies.get(contact.bodyA);
-      const bodyB = bodies.get(contact.bodyB);
-      if (!bodyA || !bodyB) continue;
+/**
+ * The file this module was loaded from, for the workers to import
+ */
+function ownModule(): string | undefined {
+  if (typeof __filename !== 'undefined') return __filename;
+  try {
+    return import.meta.url;
+  } catch {
+    return undefined;
+  }
+}
 
-      // Get relative velocity
-      const dv = this.getRelativeVelocity(bodyA, bodyB, contact.rA, contact.rB);
+export interface ParallelNarrowPhaseOptions {
+  module?: string | URL; // Path or URL the workers import this module from; defaults to its own file
+  onFail?: (reason: string) => void; // Called once when the pool shuts down for good
+}
 
-      // Normal impulse
-      const vn = Vec3.dot(dv, contact.normal);
-      let lambda = contact.normalMass * (-vn + contact.velocityBias);
+type WorkerMessage =
+  | { type: 'buffers'; poses: SharedArrayBuffer; pairs: SharedArrayBuffer }
+  | { type: 'bodies'; set: Array<{ slot: number; id: string; collider: Collider }>; remove: number[] }
+  | { type: 'job'; start: number; end: number; previous: Array<[number, ContactManifold]> };
 
-      // Clamp accumulated impulse
-      const oldImpulse = contact.normalImpulse;
-      contact.normalImpulse = Math.max(0, oldImpulse + lambda);
-      lambda = contact.normalImpulse - oldImpulse;
+interface WorkerResult {
+  start: number;
+  manifolds?: Array<ContactManifold | null>;
+  error?: string;
+}
 
-      // Apply normal impulse
-      const impulse = Vec3.scale(contact.normal, lambda);
-      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, impulse);
+/**
+ * Spreads narrow-phase pair tests over Node worker threads. Body poses live in
+ * SharedArrayBuffers the workers read directly and colliders are sent once per
+ * body; each worker tests a contiguous slice of the pair list while the calling
+ * thread tests the first. Results are merged back in pair order, so a parallel
+ * step produces exactly the manifolds a single-threaded one would.
+ *
+ * testCollisions() returns null whenever the caller should test the pairs itself:
+ * too few pairs, no worker_threads or shared memory (browsers), or a worker that
+ * failed, for instance because its module could not be imported, after which the
+ * pool shuts down for good and options.onFail hears why.
+ */
+export class ParallelNarrowPhase {
+  private workers: Worker[] = [];
+  private resultPorts: MessagePort[] = [];
+  private receive: ((port: MessagePort) => { message: WorkerResult } | undefined) | null = null;
+  private control: Int32Array | null = null;
+  private poses: Float64Array = new Float64Array(0);
+  private pairs: Int32Array = new Int32Array(0);
+  private slots: Map<string, number> = new Map(); // body id -> slot in the pose buffer
+  private colliders: Map<string, Collider> = new Map(); // collider last sent for each body
+  private freeSlots: number[] = [];
+  private slotCount = 0;
+  private started = false;
+  private failed = false;
+
+  constructor(
+    private readonly workerCount: number = ParallelNarrowPhase.defaultWorkerCount(),
+    private readonly options: ParallelNarrowPhaseOptions = {}
+  ) {}
 
-      // Friction impulse
-      const maxFriction = contact.friction * contact.normalImpulse;
+  /**
+   * One worker per core besides the calling thread, which tests a slice too
+   */
+  static defaultWorkerCount(): number {
+    const os = nodeModule<typeof import('os')>('os');
+    return os ? Math.max(1, (os.availableParallelism?.() ?? os.cpus().length) - 1) : 1;
+  }
 
-      // Tangent
-      const vt = Vec3.dot(dv, contact.tangent);
-      let lambdaT = contact.tangentMass * (-vt);
+  get available(): boolean {
+    return !this.failed;
+  }
 
-      const oldTangent = contact.tangentImpulse;
-      contact.tangentImpulse = Math.max(-maxFriction, Math.min(maxFriction, oldTangent + lambdaT));
-      lambdaT = contact.tangentImpulse - oldTangent;
+  /**
+   * Manifolds for each candidate pair, in order, or null to test them on the calling thread
+   */
+  testCollisions(
+    bodies: Map<string, CollisionBody>,
+    candidates: Array<[CollisionBody, CollisionBody]>,
+    previous: Array<ContactManifold | undefined>
+  ): Array<ContactManifold | null> | null {
+    if (this.failed || candidates.length < PARALLEL_MIN_PAIRS) return null;
+
+    if (!this.started) {
+      this.started = true;
+      if (!this.start()) {
+        this.fail('worker threads are not available');
+        return null;
+      }
+    }
 
-      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, Vec3.scale(contact.tangent, lambdaT));
+    this.syncBodies(bodies);
+    this.writePairs(candidates);
 
-      // Bitangent
-      const vb = Vec3.dot(dv, contact.bitangent);
-      let lambdaB = contact.bitangentMass * (-vb);
+    // The calling thread takes the first slice and each worker one of the rest
+    const slices = this.workers.length + 1;
+    const bound = (slice: number) => Math.floor((slice * candidates.length) / slices);
 
-      const oldBitangent = contact.bitangentImpulse;
-      contact.bitangentImpulse = Math.max(-maxFriction, Math.min(maxFriction, oldBitangent + lambdaB));
-      lambdaB = contact.bitangentImpulse - oldBitangent;
+    Atomics.store(this.control!, CONTROL_DONE, 0);
+    this.workers.forEach((worker, w) => {
+      const start = bound(w + 1);
+      const end = bound(w + 2);
+      const anchored: Array<[number, ContactManifold]> = [];
+      for (let i = start; i < end; i++) {
+        if (previous[i]?.anchors) anchored.push([i, previous[i]!]);
+      }
+      worker.postMessage({ type: 'job', start, end, previous: anchored } as WorkerMessage);
+    });
 
-      this.applyImpulse(bodyA, bodyB, contact.rA, contact.rB, Vec3.scale(contact.bitangent, lambdaB));
+    const manifolds: Array<ContactManifold | null> = new Array(candidates.length).fill(null);
+    for (let i = 0; i < bound(1); i++) {
+      manifolds[i] = NarrowPhase.testCollision(candidates[i][0], candidates[i][1], previous[i]);
     }
-  }
 
-  private solvePositions(
-    bodies: Map<string, CollisionBody>,
-    manifolds: ContactManifold[]
-  ): void {
-    for (const manifold of manifolds) {
-      const bodyA = bodies.get(manifold.bodyA);
-      const bodyB = bodies.get(manifold.bodyB);
-      if (!bodyA || !bodyB) continue;
+    if (!this.waitFor(CONTROL_DONE, this.workers.length)) {
+      this.fail('a worker did not respond');
+      return null;
+    }
 
-      for (const contact of manifold.contacts) {
-        // Recalculate penetration
-        const worldA = Vec3.add(bodyA.position, Quat.rotateVector(bodyA.rotation, contact.localA));
-        const worldB = Vec3.add(bodyB.position, Quat.rotateVector(bodyB.rotation, contact.localB));
-        const separation = Vec3.dot(Vec3.sub(worldB, worldA), manifold.normal);
+    for (const port of this.resultPorts) {
+      const result = this.receive!(port)?.message;
+      if (!result?.manifolds) {
+        this.fail(result?.error ?? 'a worker returned no result');
+        return null;
+      }
+      result.manifolds.forEach((manifold, i) => {
+        // Trigger flags are toggled on the colliders in place, so take them from this side
+        if (manifold) {
+          const [bodyA, bodyB] = candidates[result.start + i];
+          manifold.isTrigger = bodyA.collider.isTrigger || bodyB.collider.isTrigger;
+        }
+        manifolds[result.start + i] = manifold;
+      });
+    }
 
-        // Baumgarte stabilization
-        const correction = Math.max(0, -separation - this.slop) * this.baumgarte;
+    return manifolds;
+  }
 
-        if (correction > 0) {
-          const totalInvMass = bodyA.invMass + bodyB.invMass;
-          if (totalInvMass > 0) {
-            const correctionVec = Vec3.scale(manifold.normal, correction / totalInvMass);
+  /**
+   * Stop the workers; the next call to testCollisions() starts a fresh pool
+   */
+  dispose(): void {
+    for (const worker of this.workers) worker.terminate();
+    for (const port of this.resultPorts) port.close();
+
+    this.workers = [];
+    this.resultPorts = [];
+    this.control = null;
+    this.poses = new Float64Array(0);
+    this.pairs = new Int32Array(0);
+    this.slots.clear();
+    this.colliders.clear();
+    this.freeSlots = [];
+    this.slotCount = 0;
+    this.started = false;
+  }
 
-            if (!bodyA.isStatic && !bodyA.isKinematic) {
-              bodyA.position = Vec3.sub(bodyA.position, Vec3.scale(correctionVec, bodyA.invMass));
-            }
-            if (!bodyB.isStatic && !bodyB.isKinematic) {
-              bodyB.position = Vec3.add(bodyB.position, Vec3.scale(correctionVec, bodyB.invMass));
-            }
+  /**
+   * Body of each worker thread: keeps its own copy of the colliders, reads poses and
+   * pair slots from shared memory and answers every job on its result port
+   */
+  static runWorker(): void {
+    const { parentPort, workerData } = nodeModule<typeof import('worker_threads')>('worker_threads')!;
+    const control: Int32Array = workerData.control;
+    const resultPort: MessagePort = workerData.resultPort;
+    const bodies: Array<CollisionBody | undefined> = [];
+    let poses: Float64Array = new Float64Array(0);
+    let pairs: Int32Array = new Int32Array(0);
+
+    const load = (slot: number): CollisionBody => {
+      const body = bodies[slot]!;
+      const o = slot * POSE_STRIDE;
+      body.position = { x: poses[o], y: poses[o + 1], z: poses[o + 2] };
+      body.rotation = { x: poses[o + 3], y: poses[o + 4], z: poses[o + 5], w: poses[o + 6] };
+      body.aabb = {
+        min: { x: poses[o + 7], y: poses[o + 8], z: poses[o + 9] },
+        max: { x: poses[o + 10], y: poses[o + 11], z: poses[o + 12] }
+      };
+      body.friction = poses[o + 13];
+      body.restitution = poses[o + 14];
+      return body;
+    };
+
+    parentPort.on('message', (message: WorkerMessage) => {
+      if (message.type === 'buffers') {
+        poses = new Float64Array(message.poses);
+        pairs = new Int32Array(message.pairs);
+      } else if (message.type === 'bodies') {
+        for (const slot of message.remove) bodies[slot] = undefined;
+        for (const { slot, id, collider } of message.set) {
+          bodies[slot] = { id, collider: this.restoreCollider(collider) } as CollisionBody;
+        }
+      } else {
+        const result: WorkerResult = { start: message.start };
+        try {
+          const previous = new Map(message.previous);
+          const manifolds: Array<ContactManifold | null> = [];
+          for (let i = message.start; i < message.end; i++) {
+            manifolds.push(NarrowPhase.testCollision(load(pairs[2 * i]), load(pairs[2 * i + 1]), previous.get(i)));
           }
+          result.manifolds = manifolds;
+        } catch (error) {
+          result.error = error instanceof Error ? error.message : String(error);
         }
+        resultPort.postMessage(result);
+        Atomics.add(control, CONTROL_DONE, 1);
+        Atomics.notify(control, CONTROL_DONE);
+      }
+    });
+
+    Atomics.add(control, CONTROL_READY, 1);
+    Atomics.notify(control, CONTROL_READY);
+  }
+
+  private start(): boolean {
+    const threads = nodeModule<typeof import('worker_threads')>('worker_threads');
+    const workerModule = String(this.options.module ?? ownModule() ?? '');
+    if (typeof SharedArrayBuffer === 'undefined' || !threads || !workerModule) {
+      return false;
+    }
+
+    try {
+      const moduleUrl = workerModule.startsWith('file:')
+        ? workerModule
+        : nodeModule<typeof import('url')>('url')!.pathToFileURL(workerModule).href;
+      this.receive = threads.receiveMessageOnPort;
+      this.control = new Int32Array(new SharedArrayBuffer(2 * Int32Array.BYTES_PER_ELEMENT));
+
+      for (let i = 0; i < this.workerCount; i++) {
+        const { port1, port2 } = new threads.MessageChannel();
+        const worker = new threads.Worker(WORKER_SOURCE, {
+          eval: true,
+          workerData: { moduleUrl, control: this.control, resultPort: port2 },
+          transferList: [port2]
+        });
+        // Never keep the process alive; a crash surfaces as a missed deadline
+        worker.on('error', () => { this.failed = true; });
+        worker.unref();
+        port1.unref();
+        this.workers.push(worker);
+        this.resultPorts.push(port1);
       }
+    } catch {
+      return false;
     }
+
+    return this.waitFor(CONTROL_READY, this.workerCount);
   }
 
-  private getRelativeVelocity(
-    bodyA: CollisionBody,
-    bodyB: CollisionBody,
-    rA: Vector3,
-    rB: Vector3
-  ): Vector3 {
-    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
-    const velB = Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB));
-    return Vec3.sub(velB, velA);
+  /**
+   * Block until a shared counter reaches the target; false on timeout or a failed worker
+   */
+  private waitFor(index: number, target: number): boolean {
+    const deadline = Date.now() + WORKER_TIMEOUT_MS;
+    let value = Atomics.load(this.control!, index);
+
+    while (value < target) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return false;
+      Atomics.wait(this.control!, index, value, remaining);
+      value = Atomics.load(this.control!, index);
+    }
+
+    return value < WORKER_FAILED && !this.failed;
   }
 
-  private applyImpulse(
-    bodyA: CollisionBody,
-    bodyB: CollisionBody,
-    rA: Vector3,
-    rB: Vector3,
-    impulse: Vector3
-  ): void {
-    if (!bodyA.isStatic && !bodyA.isKinematic) {
-      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
-      bodyA.angularVelocity = Vec3.sub(
-        bodyA.angularVelocity,
-        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, impulse))
-      );
+  private fail(reason: string): void {
+    this.failed = true;
+    this.dispose();
+    this.options.onFail?.(reason);
+  }
+
+  /**
+   * Give new bodies a pose slot, send colliders the workers have not seen,
+   * then write every pose into shared memory
+   */
+  private syncBodies(bodies: Map<string, CollisionBody>): void {
+    const set: Array<{ slot: number; id: string; collider: Collider }> = [];
+    const remove: number[] = [];
+
+    for (const [id, slot] of this.slots) {
+      if (!bodies.has(id)) {
+        this.slots.delete(id);
+        this.colliders.delete(id);
+        this.freeSlots.push(slot);
+        remove.push(slot);
+      }
+    }
+
+    for (const body of bodies.values()) {
+      let slot = this.slots.get(body.id);
+      if (slot === undefined) {
+        slot = this.freeSlots.pop() ?? this.slotCount++;
+        this.slots.set(body.id, slot);
+      }
+      if (this.colliders.get(body.id) !== body.collider) {
+        this.colliders.set(body.id, body.collider);
+        set.push({ slot, id: body.id, collider: ParallelNarrowPhase.portableCollider(body.collider) });
+      }
+    }
+
+    if (this.poses.length < this.slotCount * POSE_STRIDE) {
+      this.poses = new Float64Array(new SharedArrayBuffer(2 * this.slotCount * POSE_STRIDE * Float64Array.BYTES_PER_ELEMENT));
+      this.postBuffers();
+    }
+    if (set.length > 0 || remove.length > 0) {
+      for (const worker of this.workers) worker.postMessage({ type: 'bodies', set, remove } as WorkerMessage);
     }
 
-    if (!bodyB.isStatic && !bodyB.isKinematic) {
-      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
-      bodyB.angularVelocity = Vec3.add(
-        bodyB.angularVelocity,
-        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, impulse))
-      );
+    for (const body of bodies.values()) {
+      const o = this.slots.get(body.id)! * POSE_STRIDE;
+      this.poses[o] = body.position.x;
+      this.poses[o + 1] = body.position.y;
+      this.poses[o + 2] = body.position.z;
+      this.poses[o + 3] = body.rotation.x;
+      this.poses[o + 4] = body.rotation.y;
+      this.poses[o + 5] = body.rotation.z;
+      this.poses[o + 6] = body.rotation.w;
+      this.poses[o + 7] = body.aabb.min.x;
+      this.poses[o + 8] = body.aabb.min.y;
+      this.poses[o + 9] = body.aabb.min.z;
+      this.poses[o + 10] = body.aabb.max.x;
+      this.poses[o + 11] = body.aabb.max.y;
+      this.poses[o + 12] = body.aabb.max.z;
+      this.poses[o + 13] = body.friction;
+      this.poses[o + 14] = body.restitution;
     }
   }
-}
 
-interface PreparedContact {
-  bodyA: string;
-  bodyB: string;
-  rA: Vector3;
-  rB: Vector3;
-  normal: Vector3;
-  tangent: Vector3;
-  bitangent: Vector3;
-  normalMass: number;
-  tangentMass: number;
-  bitangentMass: number;
-  restitution: number;
-  friction: number;
-  velocityBias: number;
-  normalImpulse: number;
-  tangentImpulse: number;
-  bitangentImpulse: number;
+  private writePairs(candidates: Array<[CollisionBody, CollisionBody]>): void {
+    if (this.pairs.length < 2 * candidates.length) {
+      this.pairs = new Int32Array(new SharedArrayBuffer(4 * candidates.length * Int32Array.BYTES_PER_ELEMENT));
+      this.postBuffers();
+    }
+
+    candidates.forEach(([bodyA, bodyB], i) => {
+      this.pairs[2 * i] = this.slots.get(bodyA.id)!;
+      this.pairs[2 * i + 1] = this.slots.get(bodyB.id)!;
+    });
+  }
+
+  private postBuffers(): void {
+    const message: WorkerMessage = {
+      type: 'buffers',
+      poses: this.poses.buffer as SharedArrayBuffer,
+      pairs: this.pairs.buffer as SharedArrayBuffer
+    };
+    for (const worker of this.workers) worker.postMessage(message);
+  }
+
+  /**
+   * Triangle BVHs lose their methods when copied to a worker, so send the
+   * collider without them and rebuild them on the other side
+   */
+  private static portableCollider(collider: Collider): Collider {
+    if (collider.type === 'compound') {
+      return {
+        ...collider,
+        children: collider.children.map(child => ({
+          ...child,
+          collider: this.portableCollider(child.collider) as CompoundChild['collider']
+        }))
+      };
+    }
+    if (collider.type === 'mesh' || collider.type === 'heightmap') {
+      return { ...collider, bvh: undefined };
+    }
+    return collider;
+  }
+
+  private static restoreCollider(collider: Collider): Collider {
+    if (collider.type === 'compound') {
+      for (const child of collider.children) {
+        child.collider = this.restoreCollider(child.collider) as CompoundChild['collider'];
+      }
+    } else if (collider.type === 'heightmap' || (collider.type === 'mesh' && collider.indices.length >= 3)) {
+      collider.bvh = new TriangleBVH(collider.vertices, collider.indices);
+    }
+    return collider;
+  }
 }
 
 // ============================================================================
 // Main Collision System
 // ============================================================================
 
+export interface ShapeCastOptions {
+  layerMask?: number;
+  ignoreTriggers?: boolean;
+  sortByDistance?: boolean; // Default true
+}
+
 export interface CollisionSystemConfig {
-  broadPhase?: 'sap' | 'spatial-hash';
+  broadPhase?: BroadPhaseType;
   cellSize?: number; // For spatial hash
+  treeMargin?: number; // Fat AABB padding for the dynamic tree
   velocityIterations?: number;
   positionIterations?: number;
   continuousCollisionDetection?: boolean;
+  workers?: number; // Worker threads for the narrow phase; 0 tests every pair on the calling thread
+  workerModule?: string | URL; // Where the workers import this module from; see ParallelNarrowPhaseOptions
+  onWorkersFailed?: (reason: string) => void; // The narrow phase fell back to the calling thread for good
 }
 
 export class CollisionSystem {
@@ -1568,7 +4817,9 @@ export class CollisionSystem {
   private solver: ContactSolver;
   private bodies: Map<string, CollisionBody> = new Map();
   private activeManifolds: Map<string, ContactManifold> = new Map();
+  private filter: CollisionFilter = new CollisionFilter();
   private ccd: boolean;
+  private parallel: ParallelNarrowPhase | null;
 
   // Callbacks
   private onCollisionStart: ((info: CollisionInfo) => void)[] = [];
@@ -1580,6 +4831,8 @@ export class CollisionSystem {
   constructor(config: CollisionSystemConfig = {}) {
     if (config.broadPhase === 'spatial-hash') {
       this.broadPhase = new SpatialHashGrid(config.cellSize || 10);
+    } else if (config.broadPhase === 'dynamic-tree') {
+      this.broadPhase = new DynamicAABBTree(config.treeMargin);
     } else {
       this.broadPhase = new SweepAndPrune();
     }
@@ -1590,6 +4843,9 @@ export class CollisionSystem {
     });
 
     this.ccd = config.continuousCollisionDetection ?? false;
+    this.parallel = config.workers
+      ? new ParallelNarrowPhase(config.workers, { module: config.workerModule, onFail: config.onWorkersFailed })
+      : null;
   }
 
   addBody(body: CollisionBody): void {
@@ -1600,6 +4856,7 @@ export class CollisionSystem {
   removeBody(id: string): void {
     this.bodies.delete(id);
     this.broadPhase.remove(id);
+    this.filter.removeBody(id);
 
     // Clean up manifolds
     for (const [key, manifold] of this.activeManifolds) {
@@ -1614,17 +4871,81 @@ export class CollisionSystem {
     this.broadPhase.update(body);
   }
 
+  getBody(id: string): CollisionBody | undefined {
+    return this.bodies.get(id);
+  }
+
+  /**
+   * Layer registry, pair rules and shouldCollide hook applied to every pair and query
+   */
+  getFilter(): CollisionFilter {
+    return this.filter;
+  }
+
+  getContactPairCount(): number {
+    return this.activeManifolds.size;
+  }
+
+  /**
+   * Copies of the active manifolds, in solver order, with the impulses they carry
+   * into the next step
+   */
+  getContactState(): ContactManifoldState[] {
+    return Array.from(this.activeManifolds.values(), manifold => CollisionSystem.copyManifold(manifold));
+  }
+
+  /**
+   * Replace the active manifolds, e.g. when restoring a snapshot
+   */
+  setContactState(manifolds: ContactManifoldState[]): void {
+    this.activeManifolds = new Map(manifolds.map(manifold =>
+      [this.manifoldKey(manifold.bodyA, manifold.bodyB), CollisionSystem.copyManifold(manifold)]
+    ));
+  }
+
+  /**
+   * Pairs in solid contact after the last step (trigger overlaps excluded)
+   */
+  getContactPairs(): BroadPhasePair[] {
+    const pairs: BroadPhasePair[] = [];
+    for (const manifold of this.activeManifolds.values()) {
+      if (!manifold.isTrigger) {
+        pairs.push({ bodyA: manifold.bodyA, bodyB: manifold.bodyB });
+      }
+    }
+    return pairs;
+  }
+
   /**
    * Main collision detection and resolution step
    */
   step(dt: number): CollisionInfo[] {
-    // Get broad phase pairs
-    const pairs = this.broadPhase.queryPairs();
+    // Pull fast movers back to their first impact so the discrete pass sees the contact
+    const remaining = new Map<string, number>();
+    const impacts = this.resolveTimesOfImpact(remaining);
+
+    // Get broad phase pairs, plus impact pairs whose bounds no longer overlap
+    const pairs = this.broadPhase.queryPairs((a, b) => this.filter.canCollide(a, b));
+    const pairKeys = new Set(pairs.map(pair => this.manifoldKey(pair.bodyA, pair.bodyB)));
+    for (const manifold of impacts.values()) {
+      if (!pairKeys.has(this.manifoldKey(manifold.bodyA, manifold.bodyB))) {
+        pairs.push({ bodyA: manifold.bodyA, bodyB: manifold.bodyB });
+      }
+    }
 
-    // Narrow phase collision detection
-    const newManifolds = new Map<string, ContactManifold>();
-    const collisions: CollisionInfo[] = [];
+    // Solve in an order that depends only on the ids, not on the broad phase's
+    // history, so a world rebuilt from a snapshot steps exactly like the original
+    for (const pair of pairs) {
+      if (pair.bodyB < pair.bodyA) {
+        [pair.bodyA, pair.bodyB] = [pair.bodyB, pair.bodyA];
+      }
+    }
+    pairs.sort((a, b) => a.bodyA === b.bodyA
+      ? (a.bodyB < b.bodyB ? -1 : 1)
+      : (a.bodyA < b.bodyA ? -1 : 1));
 
+    const candidates: Array<[CollisionBody, CollisionBody]> = [];
+    const resting = new Map<string, ContactManifold>();
     for (const pair of pairs) {
       const bodyA = this.bodies.get(pair.bodyA);
       const bodyB = this.bodies.get(pair.bodyB);
@@ -1633,13 +4954,36 @@ export class CollisionSystem {
       // Skip static-static pairs
       if (bodyA.isStatic && bodyB.isStatic) continue;
 
-      // Skip sleeping pairs
-      if (bodyA.isSleeping && bodyB.isSleeping) continue;
+      // Skip sleeping pairs, but keep their contacts: they are still touching
+      if (bodyA.isSleeping && bodyB.isSleeping) {
+        const key = this.manifoldKey(bodyA.id, bodyB.id);
+        const manifold = this.activeManifolds.get(key);
+        if (manifold) resting.set(key, manifold);
+        continue;
+      }
+
+      candidates.push([bodyA, bodyB]);
+    }
+
+    // Narrow phase collision detection, spread over the worker pool when there is one
+    const keys = candidates.map(([bodyA, bodyB]) => this.manifoldKey(bodyA.id, bodyB.id));
+    const previous = keys.map(key => this.activeManifolds.get(key));
+    const tested = this.parallel?.testCollisions(this.bodies, candidates, previous)
+      ?? candidates.map(([bodyA, bodyB], i) => NarrowPhase.testCollision(bodyA, bodyB, previous[i]));
 
-      const manifold = NarrowPhase.testCollision(bodyA, bodyB);
+    const newManifolds = new Map<string, ContactManifold>();
+    const collisions: CollisionInfo[] = [];
+
+    for (let i = 0; i < candidates.length; i++) {
+      const [bodyA, bodyB] = candidates[i];
+      const key = keys[i];
+      const manifold = tested[i] ?? impacts.get(key);
       if (manifold) {
-        const key = this.manifoldKey(pair.bodyA, pair.bodyB);
         newManifolds.set(key, manifold);
+        const prior = this.activeManifolds.get(key);
+        if (prior) {
+          this.carryContactForces(prior, manifold);
+        }
 
         // Create collision info
         const info = this.manifoldToCollisionInfo(manifold, bodyA, bodyB);
@@ -1662,7 +5006,7 @@ export class CollisionSystem {
 
     // Check for ended collisions
     for (const [key, manifold] of this.activeManifolds) {
-      if (!newManifolds.has(key)) {
+      if (!newManifolds.has(key) && !resting.has(key)) {
         const bodyA = this.bodies.get(manifold.bodyA);
         const bodyB = this.bodies.get(manifold.bodyB);
         if (bodyA && bodyB) {
@@ -1676,18 +5020,177 @@ export class CollisionSystem {
       }
     }
 
-    this.activeManifolds = newManifolds;
-
     // Solve contacts
     this.solver.solve(this.bodies, Array.from(newManifolds.values()), dt);
+    this.activeManifolds = new Map([...newManifolds, ...resting]);
+
+    // Spend the rest of the step that swept bodies lost at their impact
+    this.finishSweeps(remaining, dt);
 
     return collisions;
   }
 
+  /**
+   * Sweep continuous bodies from their start-of-step pose and move each one back
+   * to its earliest impact. Records the unused fraction of the step per body and
+   * returns a touching manifold for every impact pair.
+   */
+  private resolveTimesOfImpact(remaining: Map<string, number>): Map<string, ContactManifold> {
+    const impacts = new Map<string, ContactManifold>();
+
+    for (const body of this.bodies.values()) {
+      if (!this.ccd && !body.continuous) continue;
+      if (body.isStatic || body.isKinematic || body.isSleeping || body.collider.isTrigger) continue;
+      if (!ContinuousCollision.needsSweep(body)) continue;
+
+      const sweep = ContinuousCollision.sweepOf(body);
+      const hit = this.firstImpact(body, sweep, true);
+      if (!hit) continue;
+
+      const pose = ContinuousCollision.poseAt(sweep, hit.impact.time);
+      this.moveBody(body, pose.position, pose.rotation);
+      remaining.set(body.id, 1 - hit.impact.time);
+      impacts.set(this.manifoldKey(body.id, hit.other.id), this.impactManifold(body, hit.other, hit.impact));
+    }
+
+    return impacts;
+  }
+
+  /**
+   * Advance bodies stopped at an impact through the rest of the step with their
+   * solved velocity, stopping short of anything else in the way
+   */
+  private finishSweeps(remaining: Map<string, number>, dt: number): void {
+    for (const [id, fraction] of remaining) {
+      const body = this.bodies.get(id);
+      if (!body) continue;
+
+      const sweep: Sweep = {
+        position0: body.position,
+        rotation0: body.rotation,
+        position1: Vec3.add(body.position, Vec3.scale(body.velocity, fraction * dt)),
+        rotation1: body.rotation
+      };
+      const hit = this.firstImpact(body, sweep, false);
+      const pose = ContinuousCollision.poseAt(sweep, hit ? hit.impact.time : 1);
+      this.moveBody(body, pose.position, pose.rotation);
+    }
+  }
+
+  /**
+   * Earliest impact of a sweeping body against anything its swept bounds touch.
+   * Other bodies follow their own sweeps when othersMoving is set, else stay put.
+   */
+  private firstImpact(
+    body: CollisionBody,
+    sweep: Sweep,
+    othersMoving: boolean
+  ): { other: CollisionBody; impact: TimeOfImpact } | null {
+    let first: { other: CollisionBody; impact: TimeOfImpact } | null = null;
+
+    for (const id of this.broadPhase.queryAABB(ContinuousCollision.sweptAABB(body.collider, sweep))) {
+      const other = this.bodies.get(id);
+      if (!other || other.id === body.id || other.collider.isTrigger) continue;
+      if (!this.filter.canCollide(body, other)) continue;
+
+      const otherSweep = othersMoving
+        ? ContinuousCollision.sweepOf(other)
+        : { position0: other.position, rotation0: other.rotation, position1: other.position, rotation1: other.rotation };
+
+      const impact = ContinuousCollision.timeOfImpact(body.collider, sweep, other.collider, otherSweep);
+      if (impact && (!first || impact.time < first.impact.time)) {
+        first = { other, impact };
+      }
+    }
+
+    return first;
+  }
+
+  private moveBody(body: CollisionBody, position: Vector3, rotation: Quaternion): void {
+    body.position = position;
+    body.rotation = rotation;
+    body.aabb = ColliderUtils.computeAABB(body.collider, position, rotation);
+    this.broadPhase.update(body);
+  }
+
+  /**
+   * Single touching contact between the witness points of an impact
+   */
+  private impactManifold(body: CollisionBody, other: CollisionBody, impact: TimeOfImpact): ContactManifold {
+    const position = Vec3.lerp(impact.pointA, impact.pointB, 0.5);
+
+    return {
+      bodyA: body.id,
+      bodyB: other.id,
+      contacts: [{
+        position,
+        localA: Vec3.sub(position, body.position),
+        localB: Vec3.sub(position, other.position),
+        normal: impact.normal,
+        normalForce: 0,
+        frictionForce: { x: 0, y: 0, z: 0 },
+        penetrationDepth: 0
+      }],
+      normal: impact.normal,
+      penetration: 0,
+      isTrigger: false
+    };
+  }
+
+  private static copyManifold(manifold: ContactManifoldState): ContactManifold {
+    const copy: ContactManifold = {
+      ...manifold,
+      normal: Vec3.clone(manifold.normal),
+      contacts: manifold.contacts.map(contact => ({
+        ...contact,
+        position: Vec3.clone(contact.position),
+        localA: Vec3.clone(contact.localA),
+        localB: Vec3.clone(contact.localB),
+        normal: Vec3.clone(contact.normal),
+        frictionForce: Vec3.clone(contact.frictionForce),
+      })),
+    };
+    if (manifold.anchors) {
+      copy.anchors = manifold.anchors.map(anchor => ({
+        localA: Vec3.clone(anchor.localA),
+        localB: Vec3.clone(anchor.localB),
+      }));
+    }
+    return copy;
+  }
+
   private manifoldKey(a: string, b: string): string {
     return a < b ? `${a}:${b}` : `${b}:${a}`;
   }
 
+  /**
+   * Start each contact from the forces of the nearest matching contact in the
+   * pair's previous manifold, so the solver warm-starts instead of building up
+   * resting forces from zero every step
+   */
+  private carryContactForces(previous: ContactManifold, manifold: ContactManifold): void {
+    if (previous.bodyA !== manifold.bodyA || Vec3.dot(previous.normal, manifold.normal) < PERSISTENT_NORMAL_COS) {
+      return;
+    }
+
+    for (const contact of manifold.contacts) {
+      let nearest: ContactPoint | null = null;
+      let nearestDistance = PERSISTENT_CONTACT_THRESHOLD;
+      for (const old of previous.contacts) {
+        if (old === contact || old.childA !== contact.childA || old.childB !== contact.childB) continue;
+        const distance = Vec3.distance(old.position, contact.position);
+        if (distance < nearestDistance) {
+          nearest = old;
+          nearestDistance = distance;
+        }
+      }
+      if (nearest) {
+        contact.normalForce = nearest.normalForce;
+        contact.frictionForce = Vec3.clone(nearest.frictionForce);
+      }
+    }
+  }
+
   private manifoldToCollisionInfo(
     manifold: ContactManifold,
     bodyA: CollisionBody,
@@ -1721,7 +5224,7 @@ export class CollisionSystem {
       const body = this.bodies.get(id);
       if (!body) continue;
 
-      if (options?.layerMask !== undefined && (body.collisionGroup & options.layerMask) === 0) {
+      if (!CollisionFilter.inLayerMask(body, options?.layerMask)) {
         continue;
       }
 
@@ -1759,11 +5262,64 @@ export class CollisionSystem {
       const plane = collider as PlaneCollider;
       const rot = Quat.multiply(body.rotation, collider.rotation);
       return this.raycastPlane(origin, direction, maxDistance, pos, rot, plane, body.id);
+    } else if (collider.type === 'compound') {
+      let closest: RaycastHit | null = null;
+      for (const child of collider.children) {
+        const hit = this.raycastBody(origin, direction, maxDistance, { ...body, collider: child.collider });
+        if (hit && (!closest || hit.distance < closest.distance)) {
+          closest = hit;
+        }
+      }
+      return closest;
+    } else if ((collider.type === 'mesh' && collider.bvh) || collider.type === 'heightmap') {
+      const rot = Quat.multiply(body.rotation, collider.rotation);
+      return this.raycastTriangleMesh(origin, direction, maxDistance, pos, rot, collider, body.id);
     }
 
     return null;
   }
 
+  /**
+   * Ray vs BVH triangles. uv holds barycentric coordinates for meshes and
+   * normalized terrain coordinates for heightmaps.
+   */
+  private raycastTriangleMesh(
+    origin: Vector3,
+    direction: Vector3,
+    maxDistance: number,
+    position: Vector3,
+    rotation: Quaternion,
+    collider: MeshCollider | HeightmapCollider,
+    objectId: string
+  ): RaycastHit | null {
+    const invRot = Quat.conjugate(rotation);
+    const localOrigin = Quat.rotateVector(invRot, Vec3.sub(origin, position));
+    const localDir = Quat.rotateVector(invRot, direction);
+
+    const hit = collider.bvh!.raycast(localOrigin, localDir, maxDistance);
+    if (!hit) return null;
+
+    const [a, b, c] = collider.bvh!.triangle(hit.triangle);
+    let localNormal = Vec3.normalize(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)));
+    if (Vec3.dot(localNormal, localDir) > 0) {
+      localNormal = Vec3.negate(localNormal);
+    }
+
+    const localPoint = Vec3.add(localOrigin, Vec3.scale(localDir, hit.distance));
+    const uv = collider.type === 'heightmap'
+      ? { x: localPoint.x / collider.width + 0.5, y: localPoint.z / collider.depth + 0.5 }
+      : { x: hit.u, y: hit.v };
+
+    return {
+      objectId,
+      point: Vec3.add(origin, Vec3.scale(direction, hit.distance)),
+      normal: Quat.rotateVector(rotation, localNormal),
+      distance: hit.distance,
+      triangleIndex: hit.triangle,
+      uv
+    };
+  }
+
   private raycastSphere(
     origin: Vector3,
     direction: Vector3,
@@ -1875,6 +5431,201 @@ export class CollisionSystem {
     };
   }
 
+  /**
+   * Sweep a sphere from origin along direction
+   */
+  sphereCast(
+    origin: Vector3,
+    radius: number,
+    direction: Vector3,
+    maxDistance: number,
+    options?: ShapeCastOptions
+  ): RaycastHit[] {
+    const sphere: SphereCollider = {
+      type: 'sphere',
+      radius,
+      offset: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+      isTrigger: false
+    };
+    return this.shapeCast(sphere, origin, { x: 0, y: 0, z: 0, w: 1 }, direction, maxDistance, options);
+  }
+
+  /**
+   * Sweep an oriented box from origin along direction
+   */
+  boxCast(
+    origin: Vector3,
+    halfExtents: Vector3,
+    rotation: Quaternion,
+    direction: Vector3,
+    maxDistance: number,
+    options?: ShapeCastOptions
+  ): RaycastHit[] {
+    const box: BoxCollider = {
+      type: 'box',
+      halfExtents,
+      offset: { x: 0, y: 0, z: 0 },
+      rotation: { x: 0, y: 0, z: 0, w: 1 },
+      isTrigger: false
+    };
+    return this.shapeCast(box, origin, rotation, direction, maxDistance, options);
+  }
+
+  /**
+   * Sweep any convex or compound collider along a ray and report where it first
+   * touches each body in the way. Distances are along the normalized direction;
+   * bodies the shape already overlaps at the origin are hit at distance 0.
+   */
+  shapeCast(
+    collider: Collider,
+    origin: Vector3,
+    rotation: Quaternion,
+    direction: Vector3,
+    maxDistance: number,
+    options?: ShapeCastOptions
+  ): RaycastHit[] {
+    const speed = Vec3.length(direction);
+    if (speed < 1e-12) return [];
+
+    const normalizedDir = Vec3.scale(direction, 1 / speed);
+    const shapeBounds = ColliderUtils.computeAABB(collider, origin, rotation);
+    const center = Vec3.scale(Vec3.add(shapeBounds.min, shapeBounds.max), 0.5);
+    const extents = Vec3.sub(shapeBounds.max, center);
+    const hits: RaycastHit[] = [];
+
+    // Only bodies in the swept bounds can be hit. An unbounded cast reaches
+    // infinitely far along the axes it moves on and nowhere else.
+    const swept = { min: { ...shapeBounds.min }, max: { ...shapeBounds.max } };
+    for (const axis of ['x', 'y', 'z'] as const) {
+      if (normalizedDir[axis] > 0) swept.max[axis] += normalizedDir[axis] * maxDistance;
+      else if (normalizedDir[axis] < 0) swept.min[axis] += normalizedDir[axis] * maxDistance;
+    }
+
+    for (const id of this.broadPhase.queryAABB(swept)) {
+      const body = this.bodies.get(id);
+      if (!body) continue;
+
+      if (!CollisionFilter.inLayerMask(body, options?.layerMask)) {
+        continue;
+      }
+
+      if (options?.ignoreTriggers && body.collider.isTrigger) {
+        continue;
+      }
+
+      // The shape's bounds can only reach the body's bounds grown by the shape's extents
+      const grown = { min: Vec3.sub(body.aabb.min, extents), max: Vec3.add(body.aabb.max, extents) };
+      const slab = AABBUtils.rayIntersect(grown, center, normalizedDir);
+      if (!slab.hit || slab.tMin > maxDistance) continue;
+
+      const hit = this.castBody(collider, origin, rotation, normalizedDir, Math.min(maxDistance, slab.tMax), body);
+      if (hit) {
+        hit.timeOfImpact = hit.distance / speed;
+        hits.push(hit);
+      }
+    }
+
+    if (options?.sortByDistance !== false) {
+      hits.sort((a, b) => a.distance - b.distance);
+    }
+    return hits;
+  }
+
+  private castBody(
+    collider: Collider,
+    origin: Vector3,
+    rotation: Quaternion,
+    direction: Vector3,
+    length: number,
+    body: CollisionBody
+  ): RaycastHit | null {
+    const sweep: Sweep = {
+      position0: origin,
+      rotation0: rotation,
+      position1: Vec3.add(origin, Vec3.scale(direction, length)),
+      rotation1: rotation
+    };
+    const still: Sweep = {
+      position0: body.position,
+      rotation0: body.rotation,
+      position1: body.position,
+      rotation1: body.rotation
+    };
+
+    const start = ShapeDistance.between(
+      collider, { position: origin, rotation },
+      body.collider, { position: body.position, rotation: body.rotation },
+      ContinuousCollision.sweptAABB(collider, sweep), body.aabb
+    );
+    if (!start) {
+      return { objectId: body.id, point: { ...origin }, normal: Vec3.negate(direction), distance: 0 };
+    }
+    if (!isFinite(start.distance)) return null;
+
+    const impact = ContinuousCollision.timeOfImpact(collider, sweep, body.collider, still, CAST_TOLERANCE);
+    if (!impact) return null;
+
+    // Close the remaining gap along the cast direction
+    let distance = impact.time * length;
+    const approach = Vec3.dot(direction, impact.normal);
+    if (approach > 1e-6) {
+      distance = Math.min(length, distance + Vec3.distance(impact.pointA, impact.pointB) / approach);
+    }
+
+    return {
+      objectId: body.id,
+      point: impact.pointB,
+      normal: Vec3.negate(impact.normal),
+      distance
+    };
+  }
+
+  /**
+   * Exact signed distance between two bodies; negative when they overlap.
+   * Returns null when either body is missing or the pair can't be measured.
+   */
+  distanceBetween(idA: string, idB: string): DistanceResult | null {
+    const bodyA = this.bodies.get(idA);
+    const bodyB = this.bodies.get(idB);
+    if (!bodyA || !bodyB) return null;
+
+    return ShapeDistance.signed(bodyA, bodyB);
+  }
+
+  /**
+   * Signed distances between every pair of the given bodies no farther apart
+   * than maxDistance, nearest first, skipping pairs the filter keeps apart.
+   * Without ids all bodies are paired, except static with static.
+   */
+  closestPairs(ids?: string[], maxDistance: number = Infinity, layerMask?: number): ClosestPair[] {
+    const selected = (ids ?? Array.from(this.bodies.keys()))
+      .map(id => this.bodies.get(id))
+      .filter((body): body is CollisionBody =>
+        body !== undefined && CollisionFilter.inLayerMask(body, layerMask)
+      );
+    const pairs: ClosestPair[] = [];
+
+    for (let i = 0; i < selected.length; i++) {
+      const bodyA = selected[i];
+      const reach = isFinite(maxDistance) ? AABBUtils.expand(bodyA.aabb, maxDistance) : null;
+
+      for (let j = i + 1; j < selected.length; j++) {
+        const bodyB = selected[j];
+        if (!ids && bodyA.isStatic && bodyB.isStatic) continue;
+        if (!this.filter.canCollide(bodyA, bodyB)) continue;
+        if (reach && !AABBUtils.intersects(reach, bodyB.aabb)) continue;
+
+        const result = ShapeDistance.signed(bodyA, bodyB);
+        if (result && result.distance <= maxDistance) {
+          pairs.push({ objectA: bodyA.id, objectB: bodyB.id, ...result });
+        }
+      }
+    }
+
+    return pairs.sort((a, b) => a.distance - b.distance);
+  }
+
   overlapSphere(center: Vector3, radius: number): string[] {
     return this.broadPhase.querySphere(center, radius);
   }
@@ -1885,6 +5636,20 @@ export class CollisionSystem {
     return this.broadPhase.queryAABB(aabb);
   }
 
+  /**
+   * Bodies whose bounds overlap the region, sorted by id. With a probe body
+   * (which need not be registered) those the filter keeps apart from it are skipped.
+   */
+  queryBodies(aabb: AABB, probe?: CollisionBody): CollisionBody[] {
+    const found: CollisionBody[] = [];
+    for (const id of this.broadPhase.queryAABB(aabb)) {
+      const body = this.bodies.get(id);
+      if (!body || (probe && !this.filter.canCollide(probe, body))) continue;
+      found.push(body);
+    }
+    return found.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
   // Event registration
   addCollisionStartCallback(callback: (info: CollisionInfo) => void): void {
     this.onCollisionStart.push(callback);
@@ -1910,6 +5675,15 @@ export class CollisionSystem {
     this.bodies.clear();
     this.activeManifolds.clear();
     this.broadPhase.clear();
+    this.filter.clearPairs();
+  }
+
+  /**
+   * Stop the narrow-phase worker threads; later steps run single-threaded
+   */
+  dispose(): void {
+    this.parallel?.dispose();
+    this.parallel = null;
   }
 }
 
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../core/Engine';
+
+function engineWith(gravity: number): Engine {
+  const engine = new Engine({ timeStep: 1 / 60 });
+  engine.setEnvironment({ gravity: { x: 0, y: gravity, z: 0 } });
+  return engine;
+}
+
+function run(engine: Engine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.step();
+}
+
+// ============================================================================
+// JOINT TYPES
+// ============================================================================
+
+describe('piston constraint', () => {
+  it('stops at its limit while leaving rotation about the axis free', () => {
+    const engine = engineWith(-9.81);
+    const piston = engine.addObject({ id: 'p', type: 'box', width: 1, height: 0.5, depth: 0.5, mass: 1 });
+    engine.addConstraint({
+      type: 'piston', bodyA: 'p', axis: [1, 0, 0],
+      limits: { min: -1, max: 1 }, motorEnabled: true, motorSpeed: -2, motorMaxForce: 50,
+    });
+    piston.angularVelocity = { x: 3, y: 2, z: 0 };
+    run(engine, 120);
+
+    expect(Math.abs(piston.position.x)).toBeCloseTo(1, 3);
+    expect(Math.abs(piston.position.y)).toBeLessThan(0.02);
+    expect(Math.abs(piston.angularVelocity.x)).toBeGreaterThan(1);
+    expect(Math.abs(piston.angularVelocity.y)).toBeLessThan(1e-6);
+  });
+});
+
+describe('universal constraint', () => {
+  it('transmits spin across the joint', () => {
+    const engine = engineWith(0);
+    const a = engine.addObject({ id: 'a', type: 'box', width: 0.2, height: 0.2, depth: 2, mass: 1 });
+    const b = engine.addObject({ id: 'b', type: 'box', width: 0.2, height: 0.2, depth: 2, mass: 1, position: { x: 0, y: 0, z: 2 } });
+    engine.addConstraint({ type: 'hinge', bodyA: 'a', anchorB: [0, 0, 0], axis: [0, 0, 1] });
+    engine.addConstraint({
+      type: 'universal', bodyA: 'a', bodyB: 'b',
+      anchorA: [0, 0, 1], anchorB: [0, 0, -1], axis: [1, 0, 0], secondaryAxis: [0, 1, 0],
+    });
+    a.angularVelocity = { x: 0, y: 0, z: 2 };
+    run(engine, 120);
+
+    expect(b.angularVelocity.z).toBeGreaterThan(0.5);
+    expect(b.angularVelocity.z).toBeCloseTo(a.angularVelocity.z, 3);
+    expect(b.position.z).toBeCloseTo(2, 3);
+  });
+});
+
+describe('motor and gear constraints', () => {
+  it('spins a wheel up to the motor speed and drives a geared wheel at the ratio', () => {
+    const engine = engineWith(0);
+    const wheel = engine.addObject({ id: 'w', type: 'cylinder', radius: 0.5, height: 0.2, mass: 1 });
+    engine.addConstraint({ type: 'hinge', bodyA: 'w', anchorB: [0, 0, 0], axis: [0, 0, 1] });
+    engine.addConstraint({ type: 'motor', bodyA: 'w', axis: [0, 0, 1], motorSpeed: -3, motorMaxForce: 5 });
+    run(engine, 120);
+
+    expect(Math.abs(wheel.angularVelocity.z)).toBeCloseTo(3, 1);
+    expect(Math.hypot(wheel.position.x, wheel.position.y, wheel.position.z)).toBeLessThan(1e-6);
+
+    const driven = engine.addObject({ id: 'w2', type: 'cylinder', radius: 0.5, height: 0.2, mass: 1, position: { x: 2, y: 0, z: 0 } });
+    engine.addConstraint({ type: 'hinge', bodyA: 'w2', anchorB: [2, 0, 0], axis: [0, 0, 1] });
+    engine.addConstraint({ type: 'gear', bodyA: 'w', bodyB: 'w2', axis: [0, 0, 1], gearRatio: 2 });
+    run(engine, 120);
+
+    expect(driven.angularVelocity.z).toBeCloseTo(-wheel.angularVelocity.z / 2, 1);
+  });
+});
+
+describe('rope constraint', () => {
+  it('is slack inside its length and taut at it', () => {
+    const engine = engineWith(-9.81);
+    const weight = engine.addObject({ id: 'r', type: 'sphere', radius: 0.1, mass: 1, position: { x: 0, y: 4, z: 0 } });
+    engine.addConstraint({ type: 'rope', bodyA: 'r', anchorB: [0, 5, 0], maxLength: 3 });
+
+    run(engine, 20);
+    expect(weight.position.y).toBeLessThan(3.5);
+
+    let maxDrop = 0;
+    for (let i = 0; i < 220; i++) {
+      engine.step();
+      maxDrop = Math.max(maxDrop, 5 - weight.position.y);
+    }
+    expect(maxDrop).toBeLessThan(3.05);
+    expect(weight.position.y).toBeCloseTo(2, 1);
+  });
+});
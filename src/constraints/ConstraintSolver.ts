@@ -31,6 +31,23 @@ export interface ConstraintBody {
   isKinematic: boolean;
 }
 
+/**
+ * World-space distance between two body-local anchors (anchorB is a world point
+ * when bodyB is null)
+ */
+function anchorSeparation(
+  bodyA: ConstraintBody,
+  bodyB: ConstraintBody | null,
+  anchorA: Vector3,
+  anchorB: Vector3
+): number {
+  const worldAnchorA = Vec3.add(bodyA.position, Quat.rotateVector(bodyA.rotation, anchorA));
+  const worldAnchorB = bodyB
+    ? Vec3.add(bodyB.position, Quat.rotateVector(bodyB.rotation, anchorB))
+    : anchorB;
+  return Vec3.distance(worldAnchorA, worldAnchorB);
+}
+
 // ============================================================================
 // Base Constraint
 // ============================================================================
@@ -52,10 +69,11 @@ export interface Constraint {
   reactionTorque: Vector3;
 
   // Methods
+  setInitialState?(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void;
   prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void;
   solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void;
   solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void;
-  getState(): ConstraintState;
+  getState(timestamp: number): ConstraintState;
 }
 
 // ============================================================================
@@ -155,10 +173,9 @@ export class FixedConstraint implements Constraint {
     K = Mat3.add(K, IA);
 
     if (bodyB) {
-      K = Mat3.scale(K, 1); // Add bodyB.invMass
-      K[0] += bodyB.invMass;
-      K[4] += bodyB.invMass;
-      K[8] += bodyB.invMass;
+      K.elements[0] += bodyB.invMass;
+      K.elements[4] += bodyB.invMass;
+      K.elements[8] += bodyB.invMass;
 
       const IB = Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB));
       K = Mat3.add(K, IB);
@@ -268,9 +285,10 @@ export class FixedConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: 0,
@@ -314,9 +332,13 @@ export class HingeConstraint implements Constraint {
   private effectiveMass: Matrix3 = Mat3.identity();
   private angularMass: number = 0;
   private motorMass: number = 0;
+  private alignMass: Matrix3 = Mat3.identity();
   private positionBias: Vector3 = { x: 0, y: 0, z: 0 };
+  private alignBias: Vector3 = { x: 0, y: 0, z: 0 };
   private baumgarte: number = 0.2;
   private initialAngle: number = 0;
+  // Hinge axis in bodyB's frame (world frame when attached to the world)
+  private axisB: Vector3;
 
   constructor(config: {
     id: string;
@@ -340,6 +362,7 @@ export class HingeConstraint implements Constraint {
     this.anchorA = { ...config.anchorA };
     this.anchorB = { ...config.anchorB };
     this.axis = Vec3.normalize(config.axis);
+    this.axisB = { ...this.axis };
 
     if (config.lowerLimit !== undefined) this.lowerLimit = config.lowerLimit;
     if (config.upperLimit !== undefined) this.upperLimit = config.upperLimit;
@@ -352,6 +375,10 @@ export class HingeConstraint implements Constraint {
   }
 
   setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    const worldAxisA = Quat.rotateVector(bodyA.rotation, this.axis);
+    this.axisB = bodyB
+      ? Quat.rotateVector(Quat.conjugate(bodyB.rotation), worldAxisA)
+      : worldAxisA;
     this.initialAngle = this.calculateAngle(bodyA, bodyB);
   }
 
@@ -419,17 +446,17 @@ export class HingeConstraint implements Constraint {
     const skewB = Mat3.skew(rB);
 
     let K = Mat3.identity();
-    K[0] = bodyA.invMass;
-    K[4] = bodyA.invMass;
-    K[8] = bodyA.invMass;
+    K.elements[0] = bodyA.invMass;
+    K.elements[4] = bodyA.invMass;
+    K.elements[8] = bodyA.invMass;
 
     const IA = Mat3.multiply(Mat3.multiply(skewA, bodyA.invInertia), Mat3.transpose(skewA));
     K = Mat3.add(K, IA);
 
     if (bodyB) {
-      K[0] += bodyB.invMass;
-      K[4] += bodyB.invMass;
-      K[8] += bodyB.invMass;
+      K.elements[0] += bodyB.invMass;
+      K.elements[4] += bodyB.invMass;
+      K.elements[8] += bodyB.invMass;
 
       const IB = Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB));
       K = Mat3.add(K, IB);
@@ -443,6 +470,16 @@ export class HingeConstraint implements Constraint {
     const iB = bodyB ? Vec3.dot(worldAxis, Mat3.multiplyVector(bodyB.invInertia, worldAxis)) : 0;
     this.angularMass = iA + iB > 0 ? 1 / (iA + iB) : 0;
     this.motorMass = this.angularMass;
+
+    // Keep the axes of both bodies aligned so only rotation about the hinge axis remains
+    const worldAxisB = bodyB ? Quat.rotateVector(bodyB.rotation, this.axisB) : this.axisB;
+    this.alignBias = Vec3.scale(Vec3.cross(worldAxis, worldAxisB), this.baumgarte / dt);
+
+    let angularK = bodyA.invInertia;
+    if (bodyB) {
+      angularK = Mat3.add(angularK, bodyB.invInertia);
+    }
+    this.alignMass = Mat3.inverse(angularK) || Mat3.identity();
   }
 
   solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
@@ -467,9 +504,35 @@ export class HingeConstraint implements Constraint {
 
     this.reactionForce = Vec3.add(this.reactionForce, impulse);
 
-    // Motor
     const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
 
+    // Axis alignment: remove relative angular velocity off the hinge axis
+    const relAngVelocity = Vec3.sub(
+      bodyB ? bodyB.angularVelocity : { x: 0, y: 0, z: 0 },
+      bodyA.angularVelocity
+    );
+    const alignCdot = Vec3.add(relAngVelocity, this.alignBias);
+    const offAxisCdot = Vec3.sub(alignCdot, Vec3.scale(worldAxis, Vec3.dot(alignCdot, worldAxis)));
+    let alignImpulse = Mat3.multiplyVector(this.alignMass, Vec3.negate(offAxisCdot));
+    alignImpulse = Vec3.sub(alignImpulse, Vec3.scale(worldAxis, Vec3.dot(alignImpulse, worldAxis)));
+
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, alignImpulse)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, alignImpulse)
+      );
+    }
+
+    this.reactionTorque = Vec3.add(this.reactionTorque, alignImpulse);
+
+    // Motor
+
     if (this.motorEnabled) {
       const angVelA = Vec3.dot(bodyA.angularVelocity, worldAxis);
       const angVelB = bodyB ? Vec3.dot(bodyB.angularVelocity, worldAxis) : 0;
@@ -581,9 +644,10 @@ export class HingeConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: this.currentAngle,
@@ -658,17 +722,17 @@ export class BallConstraint implements Constraint {
     const skewB = Mat3.skew(rB);
 
     let K = Mat3.identity();
-    K[0] = bodyA.invMass;
-    K[4] = bodyA.invMass;
-    K[8] = bodyA.invMass;
+    K.elements[0] = bodyA.invMass;
+    K.elements[4] = bodyA.invMass;
+    K.elements[8] = bodyA.invMass;
 
     const IA = Mat3.multiply(Mat3.multiply(skewA, bodyA.invInertia), Mat3.transpose(skewA));
     K = Mat3.add(K, IA);
 
     if (bodyB) {
-      K[0] += bodyB.invMass;
-      K[4] += bodyB.invMass;
-      K[8] += bodyB.invMass;
+      K.elements[0] += bodyB.invMass;
+      K.elements[4] += bodyB.invMass;
+      K.elements[8] += bodyB.invMass;
 
       const IB = Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB));
       K = Mat3.add(K, IB);
@@ -734,9 +798,10 @@ export class BallConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: 0,
@@ -789,6 +854,10 @@ export class DistanceConstraint implements Constraint {
     if (config.breakForce !== undefined) this.breakForce = config.breakForce;
   }
 
+  setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    this.distance = anchorSeparation(bodyA, bodyB, this.anchorA, this.anchorB);
+  }
+
   prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
     if (!this.enabled || this.isBroken) return;
 
@@ -891,10 +960,11 @@ export class DistanceConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     const rA = this.anchorA; // Simplified - would need body reference
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: 0,
@@ -950,11 +1020,15 @@ export class SpringConstraint implements Constraint {
     if (config.breakForce !== undefined) this.breakForce = config.breakForce;
   }
 
-  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
-    // Spring doesn't need velocity preparation
+  setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    this.restLength = anchorSeparation(bodyA, bodyB, this.anchorA, this.anchorB);
   }
 
-  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+  /**
+   * Springs are force elements, so they are applied once per step here rather
+   * than on every velocity iteration
+   */
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
     if (!this.enabled || this.isBroken) return;
 
     const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
@@ -991,15 +1065,18 @@ export class SpringConstraint implements Constraint {
     const dampingForce = this.damping * relVel;
 
     const totalForce = springForce + dampingForce;
-    const impulse = Vec3.scale(axis, totalForce);
+    const force = Vec3.scale(axis, totalForce);
 
-    // Apply as force (not impulse) - multiply by dt would happen in engine
-    this.applyForce(bodyA, bodyB, rA, rB, impulse);
+    this.applyForce(bodyA, bodyB, rA, rB, force, dt);
 
-    this.reactionForce = impulse;
+    this.reactionForce = force;
     this.checkBreak();
   }
 
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Spring force is applied in prepare
+  }
+
   solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
     // Springs don't need position solving
   }
@@ -1009,23 +1086,22 @@ export class SpringConstraint implements Constraint {
     bodyB: ConstraintBody | null,
     rA: Vector3,
     rB: Vector3,
-    force: Vector3
+    force: Vector3,
+    dt: number
   ): void {
-    // For springs, we apply forces not impulses
-    // The engine should handle the dt multiplication
     if (!bodyA.isStatic && !bodyA.isKinematic) {
-      bodyA.velocity = Vec3.add(bodyA.velocity, Vec3.scale(force, bodyA.invMass * 0.016)); // ~60fps dt
+      bodyA.velocity = Vec3.add(bodyA.velocity, Vec3.scale(force, bodyA.invMass * dt));
       bodyA.angularVelocity = Vec3.add(
         bodyA.angularVelocity,
-        Mat3.multiplyVector(bodyA.invInertia, Vec3.scale(Vec3.cross(rA, force), 0.016))
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.scale(Vec3.cross(rA, force), dt))
       );
     }
 
     if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
-      bodyB.velocity = Vec3.sub(bodyB.velocity, Vec3.scale(force, bodyB.invMass * 0.016));
+      bodyB.velocity = Vec3.sub(bodyB.velocity, Vec3.scale(force, bodyB.invMass * dt));
       bodyB.angularVelocity = Vec3.sub(
         bodyB.angularVelocity,
-        Mat3.multiplyVector(bodyB.invInertia, Vec3.scale(Vec3.cross(rB, force), 0.016))
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.scale(Vec3.cross(rB, force), dt))
       );
     }
   }
@@ -1036,9 +1112,10 @@ export class SpringConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: 0,
@@ -1081,6 +1158,11 @@ export class SliderConstraint implements Constraint {
   private currentPosition: number = 0;
   private effectiveMass: number = 0;
   private baumgarte: number = 0.2;
+  private initialRelativeRotation: Quaternion = { x: 0, y: 0, z: 0, w: 1 };
+  private linearMass: Matrix3 = Mat3.identity();
+  private angularMass: Matrix3 = Mat3.identity();
+  private linearBias: Vector3 = { x: 0, y: 0, z: 0 };
+  private angularBias: Vector3 = { x: 0, y: 0, z: 0 };
 
   constructor(config: {
     id: string;
@@ -1115,6 +1197,17 @@ export class SliderConstraint implements Constraint {
     if (config.breakTorque !== undefined) this.breakTorque = config.breakTorque;
   }
 
+  setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (bodyB) {
+      this.initialRelativeRotation = Quat.multiply(
+        Quat.conjugate(bodyA.rotation),
+        bodyB.rotation
+      );
+    } else {
+      this.initialRelativeRotation = Quat.conjugate(bodyA.rotation);
+    }
+  }
+
   prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
     if (!this.enabled || this.isBroken) return;
 
@@ -1124,11 +1217,13 @@ export class SliderConstraint implements Constraint {
     const worldAnchorA = Vec3.add(bodyA.position, rA);
 
     let worldAnchorB: Vector3;
+    let rB: Vector3;
 
     if (bodyB) {
-      const rB = Quat.rotateVector(bodyB.rotation, this.anchorB);
+      rB = Quat.rotateVector(bodyB.rotation, this.anchorB);
       worldAnchorB = Vec3.add(bodyB.position, rB);
     } else {
+      rB = { x: 0, y: 0, z: 0 };
       worldAnchorB = this.anchorB;
     }
 
@@ -1141,6 +1236,42 @@ export class SliderConstraint implements Constraint {
       K += bodyB.invMass;
     }
     this.effectiveMass = K > 0 ? 1 / K : 0;
+
+    // Off-axis drift of the anchors
+    const offAxisError = Vec3.sub(delta, Vec3.scale(worldAxis, this.currentPosition));
+    this.linearBias = Vec3.scale(offAxisError, this.baumgarte / dt);
+
+    const skewA = Mat3.skew(rA);
+    const skewB = Mat3.skew(rB);
+
+    let linearK = Mat3.identity();
+    linearK.elements[0] = bodyA.invMass;
+    linearK.elements[4] = bodyA.invMass;
+    linearK.elements[8] = bodyA.invMass;
+    linearK = Mat3.add(linearK, Mat3.multiply(Mat3.multiply(skewA, bodyA.invInertia), Mat3.transpose(skewA)));
+
+    if (bodyB) {
+      linearK.elements[0] += bodyB.invMass;
+      linearK.elements[4] += bodyB.invMass;
+      linearK.elements[8] += bodyB.invMass;
+      linearK = Mat3.add(linearK, Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB)));
+    }
+
+    this.linearMass = Mat3.inverse(linearK) || Mat3.identity();
+
+    // Relative rotation is locked
+    const currentRelativeRot = bodyB
+      ? Quat.multiply(Quat.conjugate(bodyA.rotation), bodyB.rotation)
+      : Quat.conjugate(bodyA.rotation);
+
+    const errorQuat = Quat.multiply(currentRelativeRot, Quat.conjugate(this.initialRelativeRotation));
+    this.angularBias = Vec3.scale({ x: errorQuat.x * 2, y: errorQuat.y * 2, z: errorQuat.z * 2 }, this.baumgarte / dt);
+
+    let angularK = bodyA.invInertia;
+    if (bodyB) {
+      angularK = Mat3.add(angularK, bodyB.invInertia);
+    }
+    this.angularMass = Mat3.inverse(angularK) || Mat3.identity();
   }
 
   solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
@@ -1148,6 +1279,61 @@ export class SliderConstraint implements Constraint {
 
     const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
 
+    // Angular lock
+    const relAngVel = Vec3.sub(
+      bodyB ? bodyB.angularVelocity : { x: 0, y: 0, z: 0 },
+      bodyA.angularVelocity
+    );
+    const angularImpulse = Mat3.multiplyVector(this.angularMass, Vec3.negate(Vec3.add(relAngVel, this.angularBias)));
+
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, angularImpulse)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, angularImpulse)
+      );
+    }
+
+    this.reactionTorque = Vec3.add(this.reactionTorque, angularImpulse);
+
+    // Off-axis linear lock
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const rB = bodyB
+      ? Quat.rotateVector(bodyB.rotation, this.anchorB)
+      : { x: 0, y: 0, z: 0 };
+
+    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
+    const velB = bodyB
+      ? Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB))
+      : { x: 0, y: 0, z: 0 };
+
+    const Cdot = Vec3.add(Vec3.sub(velB, velA), this.linearBias);
+    const offAxisCdot = Vec3.sub(Cdot, Vec3.scale(worldAxis, Vec3.dot(Cdot, worldAxis)));
+    let linearImpulse = Mat3.multiplyVector(this.linearMass, Vec3.negate(offAxisCdot));
+    linearImpulse = Vec3.sub(linearImpulse, Vec3.scale(worldAxis, Vec3.dot(linearImpulse, worldAxis)));
+
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(linearImpulse, bodyA.invMass));
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, linearImpulse))
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(linearImpulse, bodyB.invMass));
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, linearImpulse))
+      );
+    }
+
+    this.reactionForce = Vec3.add(this.reactionForce, linearImpulse);
+
     // Motor
     if (this.motorEnabled) {
       const relVel = bodyB
@@ -1222,9 +1408,10 @@ export class SliderConstraint implements Constraint {
     }
   }
 
-  getState(): ConstraintState {
+  getState(timestamp: number = 0): ConstraintState {
     return {
       constraintId: this.id,
+      timestamp,
       reactionForce: { ...this.reactionForce },
       reactionTorque: { ...this.reactionTorque },
       currentAngle: 0,
@@ -1235,84 +1422,997 @@ export class SliderConstraint implements Constraint {
 }
 
 // ============================================================================
-// Constraint Solver
+// Piston Constraint (Cylindrical Joint)
 // ============================================================================
 
-export class ConstraintSolver {
-  private constraints: Map<string, Constraint> = new Map();
-  private velocityIterations: number = 8;
-  private positionIterations: number = 3;
+/**
+ * Slides along and rotates about a single axis. Translation can be limited and
+ * driven by a linear motor.
+ */
+export class PistonConstraint implements Constraint {
+  id: string;
+  type: ConstraintType = 'piston';
+  bodyA: string;
+  bodyB: string | 'world';
+  anchorA: Vector3;
+  anchorB: Vector3;
+  axis: Vector3; // Local to bodyA
+  enabled: boolean = true;
+  breakForce: number = Infinity;
+  breakTorque: number = Infinity;
+  isBroken: boolean = false;
 
-  constructor(options?: {
-    velocityIterations?: number;
-    positionIterations?: number;
+  // Translation limits
+  lowerLimit: number = -Infinity;
+  upperLimit: number = Infinity;
+  limitsEnabled: boolean = false;
+
+  // Linear motor
+  motorEnabled: boolean = false;
+  motorTargetVelocity: number = 0;
+  motorMaxForce: number = 0;
+
+  reactionForce: Vector3 = { x: 0, y: 0, z: 0 };
+  reactionTorque: Vector3 = { x: 0, y: 0, z: 0 };
+
+  private currentPosition: number = 0;
+  private axialMass: number = 0;
+  private linearMass: Matrix3 = Mat3.identity();
+  private alignMass: Matrix3 = Mat3.identity();
+  private linearBias: Vector3 = { x: 0, y: 0, z: 0 };
+  private alignBias: Vector3 = { x: 0, y: 0, z: 0 };
+  private motorImpulse: number = 0;
+  private maxMotorImpulse: number = 0;
+  private baumgarte: number = 0.2;
+  private dt: number = 1 / 60;
+  // Piston axis in bodyB's frame (world frame when attached to the world)
+  private axisB: Vector3;
+
+  constructor(config: {
+    id: string;
+    bodyA: string;
+    bodyB: string | 'world';
+    anchorA: Vector3;
+    anchorB: Vector3;
+    axis: Vector3;
+    lowerLimit?: number;
+    upperLimit?: number;
+    limitsEnabled?: boolean;
+    motorEnabled?: boolean;
+    motorTargetVelocity?: number;
+    motorMaxForce?: number;
+    breakForce?: number;
+    breakTorque?: number;
   }) {
-    if (options?.velocityIterations) this.velocityIterations = options.velocityIterations;
-    if (options?.positionIterations) this.positionIterations = options.positionIterations;
-  }
+    this.id = config.id;
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.anchorA = { ...config.anchorA };
+    this.anchorB = { ...config.anchorB };
+    this.axis = Vec3.normalize(config.axis);
+    this.axisB = { ...this.axis };
 
-  addConstraint(constraint: Constraint): void {
-    this.constraints.set(constraint.id, constraint);
+    if (config.lowerLimit !== undefined) this.lowerLimit = config.lowerLimit;
+    if (config.upperLimit !== undefined) this.upperLimit = config.upperLimit;
+    if (config.limitsEnabled !== undefined) this.limitsEnabled = config.limitsEnabled;
+    if (config.motorEnabled !== undefined) this.motorEnabled = config.motorEnabled;
+    if (config.motorTargetVelocity !== undefined) this.motorTargetVelocity = config.motorTargetVelocity;
+    if (config.motorMaxForce !== undefined) this.motorMaxForce = config.motorMaxForce;
+    if (config.breakForce !== undefined) this.breakForce = config.breakForce;
+    if (config.breakTorque !== undefined) this.breakTorque = config.breakTorque;
   }
 
-  removeConstraint(id: string): void {
-    this.constraints.delete(id);
+  setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    const worldAxisA = Quat.rotateVector(bodyA.rotation, this.axis);
+    this.axisB = bodyB
+      ? Quat.rotateVector(Quat.conjugate(bodyB.rotation), worldAxisA)
+      : worldAxisA;
   }
 
-  getConstraint(id: string): Constraint | undefined {
-    return this.constraints.get(id);
-  }
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
+    if (!this.enabled || this.isBroken) return;
 
-  solve(
-    bodies: Map<string, ConstraintBody>,
-    dt: number
-  ): ConstraintState[] {
-    const states: ConstraintState[] = [];
+    this.dt = dt;
+    this.motorImpulse = 0;
+    this.maxMotorImpulse = this.motorMaxForce * dt;
 
-    // Remove broken constraints
-    for (const [id, constraint] of this.constraints) {
-      if (constraint.isBroken) {
-        this.constraints.delete(id);
-      }
+    const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
+
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const worldAnchorA = Vec3.add(bodyA.position, rA);
+
+    let worldAnchorB: Vector3;
+    let rB: Vector3;
+
+    if (bodyB) {
+      rB = Quat.rotateVector(bodyB.rotation, this.anchorB);
+      worldAnchorB = Vec3.add(bodyB.position, rB);
+    } else {
+      rB = { x: 0, y: 0, z: 0 };
+      worldAnchorB = this.anchorB;
     }
 
-    // Prepare all constraints
-    for (const constraint of this.constraints.values()) {
-      if (!constraint.enabled || constraint.isBroken) continue;
+    const delta = Vec3.sub(worldAnchorB, worldAnchorA);
+    this.currentPosition = Vec3.dot(delta, worldAxis);
 
-      const bodyA = bodies.get(constraint.bodyA);
-      const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
+    const offAxisError = Vec3.sub(delta, Vec3.scale(worldAxis, this.currentPosition));
+    this.linearBias = Vec3.scale(offAxisError, this.baumgarte / dt);
 
-      if (!bodyA) continue;
+    const skewA = Mat3.skew(rA);
+    const skewB = Mat3.skew(rB);
 
-      // Reset reaction forces
-      constraint.reactionForce = { x: 0, y: 0, z: 0 };
-      constraint.reactionTorque = { x: 0, y: 0, z: 0 };
+    let K = Mat3.identity();
+    K.elements[0] = bodyA.invMass;
+    K.elements[4] = bodyA.invMass;
+    K.elements[8] = bodyA.invMass;
+    K = Mat3.add(K, Mat3.multiply(Mat3.multiply(skewA, bodyA.invInertia), Mat3.transpose(skewA)));
 
-      constraint.prepare(bodyA, bodyB, dt);
+    if (bodyB) {
+      K.elements[0] += bodyB.invMass;
+      K.elements[4] += bodyB.invMass;
+      K.elements[8] += bodyB.invMass;
+      K = Mat3.add(K, Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB)));
     }
 
-    // Velocity iterations
-    for (let i = 0; i < this.velocityIterations; i++) {
-      for (const constraint of this.constraints.values()) {
-        if (!constraint.enabled || constraint.isBroken) continue;
+    this.linearMass = Mat3.inverse(K) || Mat3.identity();
 
-        const bodyA = bodies.get(constraint.bodyA);
-        const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
+    let axialK = bodyA.invMass;
+    if (bodyB) {
+      axialK += bodyB.invMass;
+    }
+    this.axialMass = axialK > 0 ? 1 / axialK : 0;
 
-        if (!bodyA) continue;
+    const worldAxisB = bodyB ? Quat.rotateVector(bodyB.rotation, this.axisB) : this.axisB;
+    this.alignBias = Vec3.scale(Vec3.cross(worldAxis, worldAxisB), this.baumgarte / dt);
 
-        constraint.solve(bodyA, bodyB);
-      }
+    let angularK = bodyA.invInertia;
+    if (bodyB) {
+      angularK = Mat3.add(angularK, bodyB.invInertia);
     }
+    this.alignMass = Mat3.inverse(angularK) || Mat3.identity();
+  }
 
-    // Position iterations
-    for (let i = 0; i < this.positionIterations; i++) {
-      for (const constraint of this.constraints.values()) {
-        if (!constraint.enabled || constraint.isBroken) continue;
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (!this.enabled || this.isBroken) return;
 
-        const bodyA = bodies.get(constraint.bodyA);
-        const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
+    const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
+
+    // Axis alignment: only rotation about the piston axis is free
+    const relAngVel = Vec3.sub(
+      bodyB ? bodyB.angularVelocity : { x: 0, y: 0, z: 0 },
+      bodyA.angularVelocity
+    );
+    const alignCdot = Vec3.add(relAngVel, this.alignBias);
+    const offAxisAngCdot = Vec3.sub(alignCdot, Vec3.scale(worldAxis, Vec3.dot(alignCdot, worldAxis)));
+    let alignImpulse = Mat3.multiplyVector(this.alignMass, Vec3.negate(offAxisAngCdot));
+    alignImpulse = Vec3.sub(alignImpulse, Vec3.scale(worldAxis, Vec3.dot(alignImpulse, worldAxis)));
+    this.applyAngularImpulse(bodyA, bodyB, alignImpulse);
+    this.reactionTorque = Vec3.add(this.reactionTorque, alignImpulse);
+
+    // Off-axis linear lock
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const rB = bodyB
+      ? Quat.rotateVector(bodyB.rotation, this.anchorB)
+      : { x: 0, y: 0, z: 0 };
+
+    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
+    const velB = bodyB
+      ? Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB))
+      : { x: 0, y: 0, z: 0 };
+
+    const Cdot = Vec3.add(Vec3.sub(velB, velA), this.linearBias);
+    const offAxisCdot = Vec3.sub(Cdot, Vec3.scale(worldAxis, Vec3.dot(Cdot, worldAxis)));
+    let impulse = Mat3.multiplyVector(this.linearMass, Vec3.negate(offAxisCdot));
+    impulse = Vec3.sub(impulse, Vec3.scale(worldAxis, Vec3.dot(impulse, worldAxis)));
+    this.applyImpulse(bodyA, bodyB, rA, rB, impulse);
+    this.reactionForce = Vec3.add(this.reactionForce, impulse);
+
+    // Motor along the axis
+    if (this.motorEnabled) {
+      const relVel = this.axialVelocity(bodyA, bodyB, worldAxis);
+      const oldImpulse = this.motorImpulse;
+      this.motorImpulse = Math.max(
+        -this.maxMotorImpulse,
+        Math.min(this.maxMotorImpulse, oldImpulse + this.axialMass * (this.motorTargetVelocity - relVel))
+      );
+      this.applyAxialImpulse(bodyA, bodyB, worldAxis, this.motorImpulse - oldImpulse);
+    }
+
+    // Translation limits
+    if (this.limitsEnabled) {
+      const relVel = this.axialVelocity(bodyA, bodyB, worldAxis);
+
+      if (this.currentPosition <= this.lowerLimit) {
+        const limitImpulse = this.axialMass * (-relVel + this.baumgarte * (this.lowerLimit - this.currentPosition) / this.dt);
+        if (limitImpulse > 0) {
+          this.applyAxialImpulse(bodyA, bodyB, worldAxis, limitImpulse);
+        }
+      } else if (this.currentPosition >= this.upperLimit) {
+        const limitImpulse = this.axialMass * (-relVel + this.baumgarte * (this.upperLimit - this.currentPosition) / this.dt);
+        if (limitImpulse < 0) {
+          this.applyAxialImpulse(bodyA, bodyB, worldAxis, limitImpulse);
+        }
+      }
+    }
+
+    this.checkBreak();
+  }
+
+  solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Position solving handled in velocity phase
+  }
+
+  private axialVelocity(bodyA: ConstraintBody, bodyB: ConstraintBody | null, worldAxis: Vector3): number {
+    return bodyB
+      ? Vec3.dot(Vec3.sub(bodyB.velocity, bodyA.velocity), worldAxis)
+      : Vec3.dot(Vec3.negate(bodyA.velocity), worldAxis);
+  }
+
+  private applyAxialImpulse(
+    bodyA: ConstraintBody,
+    bodyB: ConstraintBody | null,
+    worldAxis: Vector3,
+    magnitude: number
+  ): void {
+    const impulse = Vec3.scale(worldAxis, magnitude);
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
+    }
+    this.reactionForce = Vec3.add(this.reactionForce, impulse);
+  }
+
+  private applyAngularImpulse(bodyA: ConstraintBody, bodyB: ConstraintBody | null, impulse: Vector3): void {
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, impulse)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, impulse)
+      );
+    }
+  }
+
+  private applyImpulse(
+    bodyA: ConstraintBody,
+    bodyB: ConstraintBody | null,
+    rA: Vector3,
+    rB: Vector3,
+    impulse: Vector3
+  ): void {
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, impulse))
+      );
+    }
+
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, impulse))
+      );
+    }
+  }
+
+  private checkBreak(): void {
+    const forceMag = Vec3.length(this.reactionForce);
+    const torqueMag = Vec3.length(this.reactionTorque);
+
+    if (forceMag > this.breakForce || torqueMag > this.breakTorque) {
+      this.isBroken = true;
+    }
+  }
+
+  getState(timestamp: number = 0): ConstraintState {
+    return {
+      constraintId: this.id,
+      timestamp,
+      reactionForce: { ...this.reactionForce },
+      reactionTorque: { ...this.reactionTorque },
+      currentAngle: 0,
+      currentDistance: this.currentPosition,
+      isBroken: this.isBroken
+    };
+  }
+}
+
+// ============================================================================
+// Universal Constraint (Cardan Joint)
+// ============================================================================
+
+/**
+ * Ball joint that additionally keeps `axis` (on bodyA) perpendicular to
+ * `secondaryAxis` (on bodyB), leaving two rotational degrees of freedom.
+ */
+export class UniversalConstraint implements Constraint {
+  id: string;
+  type: ConstraintType = 'universal';
+  bodyA: string;
+  bodyB: string | 'world';
+  anchorA: Vector3;
+  anchorB: Vector3;
+  axis: Vector3; // Local to bodyA
+  secondaryAxis: Vector3; // Local to bodyB (world frame when attached to the world)
+  enabled: boolean = true;
+  breakForce: number = Infinity;
+  breakTorque: number = Infinity;
+  isBroken: boolean = false;
+
+  reactionForce: Vector3 = { x: 0, y: 0, z: 0 };
+  reactionTorque: Vector3 = { x: 0, y: 0, z: 0 };
+
+  private effectiveMass: Matrix3 = Mat3.identity();
+  private positionBias: Vector3 = { x: 0, y: 0, z: 0 };
+  private twistAxis: Vector3 = { x: 0, y: 0, z: 0 };
+  private twistMass: number = 0;
+  private twistBias: number = 0;
+  private baumgarte: number = 0.2;
+
+  constructor(config: {
+    id: string;
+    bodyA: string;
+    bodyB: string | 'world';
+    anchorA: Vector3;
+    anchorB: Vector3;
+    axis: Vector3;
+    secondaryAxis: Vector3;
+    breakForce?: number;
+    breakTorque?: number;
+  }) {
+    this.id = config.id;
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.anchorA = { ...config.anchorA };
+    this.anchorB = { ...config.anchorB };
+    this.axis = Vec3.normalize(config.axis);
+    this.secondaryAxis = Vec3.normalize(config.secondaryAxis);
+    if (config.breakForce !== undefined) this.breakForce = config.breakForce;
+    if (config.breakTorque !== undefined) this.breakTorque = config.breakTorque;
+  }
+
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const worldAnchorA = Vec3.add(bodyA.position, rA);
+
+    let worldAnchorB: Vector3;
+    let rB: Vector3;
+
+    if (bodyB) {
+      rB = Quat.rotateVector(bodyB.rotation, this.anchorB);
+      worldAnchorB = Vec3.add(bodyB.position, rB);
+    } else {
+      rB = { x: 0, y: 0, z: 0 };
+      worldAnchorB = this.anchorB;
+    }
+
+    const positionError = Vec3.sub(worldAnchorB, worldAnchorA);
+    this.positionBias = Vec3.scale(positionError, this.baumgarte / dt);
+
+    const skewA = Mat3.skew(rA);
+    const skewB = Mat3.skew(rB);
+
+    let K = Mat3.identity();
+    K.elements[0] = bodyA.invMass;
+    K.elements[4] = bodyA.invMass;
+    K.elements[8] = bodyA.invMass;
+    K = Mat3.add(K, Mat3.multiply(Mat3.multiply(skewA, bodyA.invInertia), Mat3.transpose(skewA)));
+
+    if (bodyB) {
+      K.elements[0] += bodyB.invMass;
+      K.elements[4] += bodyB.invMass;
+      K.elements[8] += bodyB.invMass;
+      K = Mat3.add(K, Mat3.multiply(Mat3.multiply(skewB, bodyB.invInertia), Mat3.transpose(skewB)));
+    }
+
+    this.effectiveMass = Mat3.inverse(K) || Mat3.identity();
+
+    // C = dot(a, b) = 0, Cdot = dot(b x a, wB - wA)
+    const worldAxisA = Quat.rotateVector(bodyA.rotation, this.axis);
+    const worldAxisB = bodyB ? Quat.rotateVector(bodyB.rotation, this.secondaryAxis) : this.secondaryAxis;
+    this.twistAxis = Vec3.cross(worldAxisB, worldAxisA);
+    this.twistBias = this.baumgarte * Vec3.dot(worldAxisA, worldAxisB) / dt;
+
+    const iA = Vec3.dot(this.twistAxis, Mat3.multiplyVector(bodyA.invInertia, this.twistAxis));
+    const iB = bodyB ? Vec3.dot(this.twistAxis, Mat3.multiplyVector(bodyB.invInertia, this.twistAxis)) : 0;
+    this.twistMass = iA + iB > 1e-12 ? 1 / (iA + iB) : 0;
+  }
+
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const rB = bodyB
+      ? Quat.rotateVector(bodyB.rotation, this.anchorB)
+      : { x: 0, y: 0, z: 0 };
+
+    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
+    const velB = bodyB
+      ? Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB))
+      : { x: 0, y: 0, z: 0 };
+
+    const Cdot = Vec3.add(Vec3.sub(velB, velA), this.positionBias);
+    const impulse = Mat3.multiplyVector(this.effectiveMass, Vec3.negate(Cdot));
+    this.applyImpulse(bodyA, bodyB, rA, rB, impulse);
+    this.reactionForce = Vec3.add(this.reactionForce, impulse);
+
+    // Keep the two cross axes perpendicular
+    const relAngVel = Vec3.sub(
+      bodyB ? bodyB.angularVelocity : { x: 0, y: 0, z: 0 },
+      bodyA.angularVelocity
+    );
+    const lambda = -this.twistMass * (Vec3.dot(this.twistAxis, relAngVel) + this.twistBias);
+    const angularImpulse = Vec3.scale(this.twistAxis, lambda);
+
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, angularImpulse)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, angularImpulse)
+      );
+    }
+
+    this.reactionTorque = Vec3.add(this.reactionTorque, angularImpulse);
+    this.checkBreak();
+  }
+
+  solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Position solving handled in velocity phase
+  }
+
+  private applyImpulse(
+    bodyA: ConstraintBody,
+    bodyB: ConstraintBody | null,
+    rA: Vector3,
+    rB: Vector3,
+    impulse: Vector3
+  ): void {
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, impulse))
+      );
+    }
+
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, impulse))
+      );
+    }
+  }
+
+  private checkBreak(): void {
+    const forceMag = Vec3.length(this.reactionForce);
+    const torqueMag = Vec3.length(this.reactionTorque);
+
+    if (forceMag > this.breakForce || torqueMag > this.breakTorque) {
+      this.isBroken = true;
+    }
+  }
+
+  getState(timestamp: number = 0): ConstraintState {
+    return {
+      constraintId: this.id,
+      timestamp,
+      reactionForce: { ...this.reactionForce },
+      reactionTorque: { ...this.reactionTorque },
+      currentAngle: 0,
+      currentDistance: 0,
+      isBroken: this.isBroken
+    };
+  }
+}
+
+// ============================================================================
+// Gear Constraint
+// ============================================================================
+
+/**
+ * Couples the spin of bodyA about `axis` to the spin of bodyB about
+ * `secondaryAxis`: wA + ratio * wB = 0, so a positive ratio counter-rotates
+ * like meshing gears. Velocity-level only; relative phase may drift.
+ */
+export class GearConstraint implements Constraint {
+  id: string;
+  type: ConstraintType = 'gear';
+  bodyA: string;
+  bodyB: string | 'world';
+  anchorA: Vector3;
+  anchorB: Vector3;
+  axis: Vector3; // Local to bodyA
+  secondaryAxis: Vector3; // Local to bodyB
+  ratio: number;
+  enabled: boolean = true;
+  breakForce: number = Infinity;
+  breakTorque: number = Infinity;
+  isBroken: boolean = false;
+
+  reactionForce: Vector3 = { x: 0, y: 0, z: 0 };
+  reactionTorque: Vector3 = { x: 0, y: 0, z: 0 };
+
+  private effectiveMass: number = 0;
+
+  constructor(config: {
+    id: string;
+    bodyA: string;
+    bodyB: string | 'world';
+    anchorA: Vector3;
+    anchorB: Vector3;
+    axis: Vector3;
+    secondaryAxis: Vector3;
+    ratio: number;
+    breakTorque?: number;
+  }) {
+    this.id = config.id;
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.anchorA = { ...config.anchorA };
+    this.anchorB = { ...config.anchorB };
+    this.axis = Vec3.normalize(config.axis);
+    this.secondaryAxis = Vec3.normalize(config.secondaryAxis);
+    this.ratio = config.ratio;
+    if (config.breakTorque !== undefined) this.breakTorque = config.breakTorque;
+  }
+
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const worldAxisA = Quat.rotateVector(bodyA.rotation, this.axis);
+    let K = Vec3.dot(worldAxisA, Mat3.multiplyVector(bodyA.invInertia, worldAxisA));
+
+    if (bodyB) {
+      const worldAxisB = Quat.rotateVector(bodyB.rotation, this.secondaryAxis);
+      K += this.ratio * this.ratio * Vec3.dot(worldAxisB, Mat3.multiplyVector(bodyB.invInertia, worldAxisB));
+    }
+
+    this.effectiveMass = K > 0 ? 1 / K : 0;
+  }
+
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const worldAxisA = Quat.rotateVector(bodyA.rotation, this.axis);
+    const worldAxisB = bodyB
+      ? Quat.rotateVector(bodyB.rotation, this.secondaryAxis)
+      : this.secondaryAxis;
+
+    const Cdot = Vec3.dot(bodyA.angularVelocity, worldAxisA)
+      + (bodyB ? this.ratio * Vec3.dot(bodyB.angularVelocity, worldAxisB) : 0);
+    const lambda = -this.effectiveMass * Cdot;
+
+    const impulseA = Vec3.scale(worldAxisA, lambda);
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.add(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, impulseA)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.scale(worldAxisB, this.ratio * lambda))
+      );
+    }
+
+    this.reactionTorque = Vec3.add(this.reactionTorque, impulseA);
+    this.checkBreak();
+  }
+
+  solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Gears only couple velocities
+  }
+
+  private checkBreak(): void {
+    if (Vec3.length(this.reactionTorque) > this.breakTorque) {
+      this.isBroken = true;
+    }
+  }
+
+  getState(timestamp: number = 0): ConstraintState {
+    return {
+      constraintId: this.id,
+      timestamp,
+      reactionForce: { ...this.reactionForce },
+      reactionTorque: { ...this.reactionTorque },
+      currentAngle: 0,
+      currentDistance: 0,
+      isBroken: this.isBroken
+    };
+  }
+}
+
+// ============================================================================
+// Motor Constraint
+// ============================================================================
+
+/**
+ * Angular velocity drive: pushes the spin of bodyB relative to bodyA about
+ * `axis` towards `targetVelocity`, with torque capped at `maxTorque`. Pair it
+ * with a hinge to build a powered joint.
+ */
+export class MotorConstraint implements Constraint {
+  id: string;
+  type: ConstraintType = 'motor';
+  bodyA: string;
+  bodyB: string | 'world';
+  anchorA: Vector3;
+  anchorB: Vector3;
+  axis: Vector3; // Local to bodyA
+  targetVelocity: number;
+  maxTorque: number;
+  enabled: boolean = true;
+  breakForce: number = Infinity;
+  breakTorque: number = Infinity;
+  isBroken: boolean = false;
+
+  reactionForce: Vector3 = { x: 0, y: 0, z: 0 };
+  reactionTorque: Vector3 = { x: 0, y: 0, z: 0 };
+
+  private effectiveMass: number = 0;
+  private accumulatedImpulse: number = 0;
+  private maxImpulse: number = 0;
+
+  constructor(config: {
+    id: string;
+    bodyA: string;
+    bodyB: string | 'world';
+    anchorA: Vector3;
+    anchorB: Vector3;
+    axis: Vector3;
+    targetVelocity: number;
+    maxTorque: number;
+  }) {
+    this.id = config.id;
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.anchorA = { ...config.anchorA };
+    this.anchorB = { ...config.anchorB };
+    this.axis = Vec3.normalize(config.axis);
+    this.targetVelocity = config.targetVelocity;
+    this.maxTorque = config.maxTorque;
+  }
+
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
+    const iA = Vec3.dot(worldAxis, Mat3.multiplyVector(bodyA.invInertia, worldAxis));
+    const iB = bodyB ? Vec3.dot(worldAxis, Mat3.multiplyVector(bodyB.invInertia, worldAxis)) : 0;
+
+    this.effectiveMass = iA + iB > 0 ? 1 / (iA + iB) : 0;
+    this.accumulatedImpulse = 0;
+    this.maxImpulse = this.maxTorque * dt;
+  }
+
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const worldAxis = Quat.rotateVector(bodyA.rotation, this.axis);
+    const angVelA = Vec3.dot(bodyA.angularVelocity, worldAxis);
+    const angVelB = bodyB ? Vec3.dot(bodyB.angularVelocity, worldAxis) : 0;
+
+    const oldImpulse = this.accumulatedImpulse;
+    this.accumulatedImpulse = Math.max(
+      -this.maxImpulse,
+      Math.min(this.maxImpulse, oldImpulse + this.effectiveMass * (this.targetVelocity - (angVelB - angVelA)))
+    );
+
+    const angImpulse = Vec3.scale(worldAxis, this.accumulatedImpulse - oldImpulse);
+
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, angImpulse)
+      );
+    }
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, angImpulse)
+      );
+    }
+
+    this.reactionTorque = Vec3.add(this.reactionTorque, angImpulse);
+  }
+
+  solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Motors only drive velocities
+  }
+
+  getState(timestamp: number = 0): ConstraintState {
+    return {
+      constraintId: this.id,
+      timestamp,
+      reactionForce: { ...this.reactionForce },
+      reactionTorque: { ...this.reactionTorque },
+      currentAngle: 0,
+      currentDistance: 0,
+      isBroken: this.isBroken
+    };
+  }
+}
+
+// ============================================================================
+// Rope Constraint
+// ============================================================================
+
+/**
+ * Distance constraint that only acts in tension: the anchors may move closer
+ * together freely but never further apart than `maxLength`.
+ */
+export class RopeConstraint implements Constraint {
+  id: string;
+  type: ConstraintType = 'rope';
+  bodyA: string;
+  bodyB: string | 'world';
+  anchorA: Vector3;
+  anchorB: Vector3;
+  maxLength: number;
+  enabled: boolean = true;
+  breakForce: number = Infinity;
+  breakTorque: number = Infinity;
+  isBroken: boolean = false;
+
+  reactionForce: Vector3 = { x: 0, y: 0, z: 0 };
+  reactionTorque: Vector3 = { x: 0, y: 0, z: 0 };
+
+  private currentLength: number = 0;
+  private effectiveMass: number = 0;
+  private accumulatedImpulse: number = 0;
+  private bias: number = 0;
+  private axis: Vector3 = { x: 0, y: 1, z: 0 };
+  private baumgarte: number = 0.2;
+  private measureOnInit: boolean;
+
+  constructor(config: {
+    id: string;
+    bodyA: string;
+    bodyB: string | 'world';
+    anchorA: Vector3;
+    anchorB: Vector3;
+    maxLength?: number;
+    breakForce?: number;
+  }) {
+    this.id = config.id;
+    this.bodyA = config.bodyA;
+    this.bodyB = config.bodyB;
+    this.anchorA = { ...config.anchorA };
+    this.anchorB = { ...config.anchorB };
+    this.measureOnInit = config.maxLength === undefined;
+    this.maxLength = config.maxLength ?? Vec3.length(Vec3.sub(config.anchorB, config.anchorA));
+    if (config.breakForce !== undefined) this.breakForce = config.breakForce;
+  }
+
+  setInitialState(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (this.measureOnInit) {
+      this.maxLength = anchorSeparation(bodyA, bodyB, this.anchorA, this.anchorB);
+    }
+  }
+
+  prepare(bodyA: ConstraintBody, bodyB: ConstraintBody | null, dt: number): void {
+    if (!this.enabled || this.isBroken) return;
+
+    this.accumulatedImpulse = 0;
+
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const worldAnchorA = Vec3.add(bodyA.position, rA);
+
+    let worldAnchorB: Vector3;
+    let rB: Vector3;
+
+    if (bodyB) {
+      rB = Quat.rotateVector(bodyB.rotation, this.anchorB);
+      worldAnchorB = Vec3.add(bodyB.position, rB);
+    } else {
+      rB = { x: 0, y: 0, z: 0 };
+      worldAnchorB = this.anchorB;
+    }
+
+    const delta = Vec3.sub(worldAnchorB, worldAnchorA);
+    this.currentLength = Vec3.length(delta);
+    this.axis = this.currentLength > 1e-6
+      ? Vec3.scale(delta, 1 / this.currentLength)
+      : { x: 0, y: 1, z: 0 };
+
+    // Slack ropes only stop the anchors from separating faster than the slack allows
+    const error = this.currentLength - this.maxLength;
+    this.bias = error > 0 ? this.baumgarte * error / dt : error / dt;
+
+    const rnA = Vec3.cross(rA, this.axis);
+    const rnB = Vec3.cross(rB, this.axis);
+
+    let K = bodyA.invMass;
+    K += Vec3.dot(rnA, Mat3.multiplyVector(bodyA.invInertia, rnA));
+
+    if (bodyB) {
+      K += bodyB.invMass;
+      K += Vec3.dot(rnB, Mat3.multiplyVector(bodyB.invInertia, rnB));
+    }
+
+    this.effectiveMass = K > 0 ? 1 / K : 0;
+  }
+
+  solve(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    if (!this.enabled || this.isBroken) return;
+
+    const rA = Quat.rotateVector(bodyA.rotation, this.anchorA);
+    const rB = bodyB
+      ? Quat.rotateVector(bodyB.rotation, this.anchorB)
+      : { x: 0, y: 0, z: 0 };
+
+    const velA = Vec3.add(bodyA.velocity, Vec3.cross(bodyA.angularVelocity, rA));
+    const velB = bodyB
+      ? Vec3.add(bodyB.velocity, Vec3.cross(bodyB.angularVelocity, rB))
+      : { x: 0, y: 0, z: 0 };
+
+    const Cdot = Vec3.dot(Vec3.sub(velB, velA), this.axis) + this.bias;
+
+    // Tension only: the accumulated impulse may pull the anchors together but never push
+    const oldImpulse = this.accumulatedImpulse;
+    this.accumulatedImpulse = Math.min(0, oldImpulse - this.effectiveMass * Cdot);
+    const impulse = Vec3.scale(this.axis, this.accumulatedImpulse - oldImpulse);
+
+    this.applyImpulse(bodyA, bodyB, rA, rB, impulse);
+    this.reactionForce = Vec3.add(this.reactionForce, impulse);
+    this.checkBreak();
+  }
+
+  solvePosition(bodyA: ConstraintBody, bodyB: ConstraintBody | null): void {
+    // Position solving handled in velocity phase
+  }
+
+  private applyImpulse(
+    bodyA: ConstraintBody,
+    bodyB: ConstraintBody | null,
+    rA: Vector3,
+    rB: Vector3,
+    impulse: Vector3
+  ): void {
+    if (!bodyA.isStatic && !bodyA.isKinematic) {
+      bodyA.velocity = Vec3.sub(bodyA.velocity, Vec3.scale(impulse, bodyA.invMass));
+      bodyA.angularVelocity = Vec3.sub(
+        bodyA.angularVelocity,
+        Mat3.multiplyVector(bodyA.invInertia, Vec3.cross(rA, impulse))
+      );
+    }
+
+    if (bodyB && !bodyB.isStatic && !bodyB.isKinematic) {
+      bodyB.velocity = Vec3.add(bodyB.velocity, Vec3.scale(impulse, bodyB.invMass));
+      bodyB.angularVelocity = Vec3.add(
+        bodyB.angularVelocity,
+        Mat3.multiplyVector(bodyB.invInertia, Vec3.cross(rB, impulse))
+      );
+    }
+  }
+
+  private checkBreak(): void {
+    if (Vec3.length(this.reactionForce) > this.breakForce) {
+      this.isBroken = true;
+    }
+  }
+
+  getState(timestamp: number = 0): ConstraintState {
+    return {
+      constraintId: this.id,
+      timestamp,
+      reactionForce: { ...this.reactionForce },
+      reactionTorque: { ...this.reactionTorque },
+      currentAngle: 0,
+      currentDistance: this.currentLength,
+      isBroken: this.isBroken
+    };
+  }
+}
+
+// ============================================================================
+// Constraint Solver
+// ============================================================================
+
+export class ConstraintSolver {
+  private constraints: Map<string, Constraint> = new Map();
+  private velocityIterations: number = 8;
+  private positionIterations: number = 3;
+  private sortById = false;
+
+  constructor(options?: {
+    velocityIterations?: number;
+    positionIterations?: number;
+  }) {
+    if (options?.velocityIterations) this.velocityIterations = options.velocityIterations;
+    if (options?.positionIterations) this.positionIterations = options.positionIterations;
+  }
+
+  addConstraint(constraint: Constraint): void {
+    this.constraints.set(constraint.id, constraint);
+    if (this.sortById) this.sortConstraints();
+  }
+
+  /**
+   * Solve constraints in id order rather than insertion order, so the result
+   * doesn't depend on the order a scene was built in
+   */
+  setDeterministic(enabled: boolean): void {
+    this.sortById = enabled;
+    if (enabled) this.sortConstraints();
+  }
+
+  removeConstraint(id: string): void {
+    this.constraints.delete(id);
+  }
+
+  getConstraint(id: string): Constraint | undefined {
+    return this.constraints.get(id);
+  }
+
+  solve(
+    bodies: Map<string, ConstraintBody>,
+    dt: number,
+    time: number = 0
+  ): ConstraintState[] {
+    const states: ConstraintState[] = [];
+
+    // Remove broken constraints
+    for (const [id, constraint] of this.constraints) {
+      if (constraint.isBroken) {
+        this.constraints.delete(id);
+      }
+    }
+
+    // Prepare all constraints
+    for (const constraint of this.constraints.values()) {
+      if (!constraint.enabled || constraint.isBroken) continue;
+
+      const bodyA = bodies.get(constraint.bodyA);
+      const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
+
+      if (!bodyA) continue;
+
+      // Reset reaction forces
+      constraint.reactionForce = { x: 0, y: 0, z: 0 };
+      constraint.reactionTorque = { x: 0, y: 0, z: 0 };
+
+      constraint.prepare(bodyA, bodyB, dt);
+    }
+
+    // Velocity iterations
+    for (let i = 0; i < this.velocityIterations; i++) {
+      for (const constraint of this.constraints.values()) {
+        if (!constraint.enabled || constraint.isBroken) continue;
+
+        const bodyA = bodies.get(constraint.bodyA);
+        const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
+
+        if (!bodyA) continue;
+
+        constraint.solve(bodyA, bodyB);
+      }
+    }
+
+    // Position iterations
+    for (let i = 0; i < this.positionIterations; i++) {
+      for (const constraint of this.constraints.values()) {
+        if (!constraint.enabled || constraint.isBroken) continue;
+
+        const bodyA = bodies.get(constraint.bodyA);
+        const bodyB = constraint.bodyB === 'world' ? null : bodies.get(constraint.bodyB);
 
         if (!bodyA) continue;
 
@@ -1322,7 +2422,7 @@ export class ConstraintSolver {
 
     // Collect states
     for (const constraint of this.constraints.values()) {
-      states.push(constraint.getState());
+      states.push(constraint.getState(time));
     }
 
     return states;
@@ -1335,6 +2435,13 @@ export class ConstraintSolver {
   getConstraints(): Constraint[] {
     return Array.from(this.constraints.values());
   }
+
+  private sortConstraints(): void {
+    const ids = Array.from(this.constraints.keys());
+    if (ids.every((id, i) => i === 0 || ids[i - 1] < id)) return;
+    ids.sort();
+    this.constraints = new Map(ids.map(id => [id, this.constraints.get(id)!]));
+  }
 }
 
 // ============================================================================
@@ -1343,14 +2450,20 @@ export class ConstraintSolver {
 
 export class ConstraintFactory {
   static create(config: ConstraintConfig): Constraint {
+    const bodyB = config.bodyB ?? 'world';
+    const anchorA = ConstraintFactory.parseVector3(config.anchorA) ?? { x: 0, y: 0, z: 0 };
+    const anchorB = ConstraintFactory.parseVector3(config.anchorB) ?? { x: 0, y: 0, z: 0 };
+    const axis = ConstraintFactory.parseVector3(config.axis);
+    const secondaryAxis = ConstraintFactory.parseVector3(config.secondaryAxis);
+
     switch (config.type) {
       case 'fixed':
         return new FixedConstraint({
           id: config.id || `fixed_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
+          bodyB,
+          anchorA,
+          anchorB,
           breakForce: config.breakForce,
           breakTorque: config.breakTorque
         });
@@ -1359,13 +2472,16 @@ export class ConstraintFactory {
         return new HingeConstraint({
           id: config.id || `hinge_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
-          axis: config.axis || { x: 0, y: 0, z: 1 },
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 0, y: 0, z: 1 },
           lowerLimit: config.limits?.min,
           upperLimit: config.limits?.max,
           limitsEnabled: config.limits !== undefined,
+          motorEnabled: config.motorEnabled,
+          motorTargetVelocity: config.motorSpeed,
+          motorMaxTorque: config.motorMaxForce,
           breakForce: config.breakForce,
           breakTorque: config.breakTorque
         });
@@ -1374,9 +2490,9 @@ export class ConstraintFactory {
         return new BallConstraint({
           id: config.id || `ball_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
+          bodyB,
+          anchorA,
+          anchorB,
           breakForce: config.breakForce,
           breakTorque: config.breakTorque
         });
@@ -1385,10 +2501,10 @@ export class ConstraintFactory {
         return new DistanceConstraint({
           id: config.id || `distance_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
-          distance: Vec3.length(Vec3.sub(config.anchorB, config.anchorA)),
+          bodyB,
+          anchorA,
+          anchorB,
+          distance: Vec3.length(Vec3.sub(anchorB, anchorA)),
           breakForce: config.breakForce
         });
 
@@ -1396,10 +2512,10 @@ export class ConstraintFactory {
         return new SpringConstraint({
           id: config.id || `spring_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
-          restLength: Vec3.length(Vec3.sub(config.anchorB, config.anchorA)),
+          bodyB,
+          anchorA,
+          anchorB,
+          restLength: Vec3.length(Vec3.sub(anchorB, anchorA)),
           stiffness: config.stiffness || 100,
           damping: config.damping || 10,
           breakForce: config.breakForce
@@ -1409,21 +2525,99 @@ export class ConstraintFactory {
         return new SliderConstraint({
           id: config.id || `slider_${Date.now()}`,
           bodyA: config.bodyA,
-          bodyB: config.bodyB,
-          anchorA: config.anchorA,
-          anchorB: config.anchorB,
-          axis: config.axis || { x: 1, y: 0, z: 0 },
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 1, y: 0, z: 0 },
+          lowerLimit: config.limits?.min,
+          upperLimit: config.limits?.max,
+          limitsEnabled: config.limits !== undefined,
+          motorEnabled: config.motorEnabled,
+          motorTargetVelocity: config.motorSpeed,
+          motorMaxForce: config.motorMaxForce,
+          breakForce: config.breakForce,
+          breakTorque: config.breakTorque
+        });
+
+      case 'piston':
+        return new PistonConstraint({
+          id: config.id || `piston_${Date.now()}`,
+          bodyA: config.bodyA,
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 1, y: 0, z: 0 },
           lowerLimit: config.limits?.min,
           upperLimit: config.limits?.max,
           limitsEnabled: config.limits !== undefined,
+          motorEnabled: config.motorEnabled,
+          motorTargetVelocity: config.motorSpeed,
+          motorMaxForce: config.motorMaxForce,
+          breakForce: config.breakForce,
+          breakTorque: config.breakTorque
+        });
+
+      case 'universal':
+        return new UniversalConstraint({
+          id: config.id || `universal_${Date.now()}`,
+          bodyA: config.bodyA,
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 1, y: 0, z: 0 },
+          secondaryAxis: secondaryAxis || { x: 0, y: 1, z: 0 },
           breakForce: config.breakForce,
           breakTorque: config.breakTorque
         });
 
+      case 'gear':
+        return new GearConstraint({
+          id: config.id || `gear_${Date.now()}`,
+          bodyA: config.bodyA,
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 0, y: 0, z: 1 },
+          secondaryAxis: secondaryAxis || axis || { x: 0, y: 0, z: 1 },
+          ratio: config.gearRatio ?? 1,
+          breakTorque: config.breakTorque
+        });
+
+      case 'motor':
+        return new MotorConstraint({
+          id: config.id || `motor_${Date.now()}`,
+          bodyA: config.bodyA,
+          bodyB,
+          anchorA,
+          anchorB,
+          axis: axis || { x: 0, y: 0, z: 1 },
+          targetVelocity: config.motorSpeed ?? 0,
+          maxTorque: config.motorMaxForce ?? Infinity
+        });
+
+      case 'rope':
+        return new RopeConstraint({
+          id: config.id || `rope_${Date.now()}`,
+          bodyA: config.bodyA,
+          bodyB,
+          anchorA,
+          anchorB,
+          maxLength: config.maxLength,
+          breakForce: config.breakForce
+        });
+
       default:
         throw new Error(`Unknown constraint type: ${config.type}`);
     }
   }
+
+  private static parseVector3(value?: Vector3 | [number, number, number]): Vector3 | undefined {
+    if (!value) return undefined;
+    if (Array.isArray(value)) {
+      return Vec3.fromArray(value);
+    }
+    return value;
+  }
 }
 
 export default ConstraintSolver;
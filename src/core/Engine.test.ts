@@ -0,0 +1,567 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { buildSync } from 'esbuild';
+import { mkdtempSync, rmSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
+import { Engine } from './Engine';
+import { EngineConfig, EngineWarning, Integrator, ObjectConfig } from '../types';
+import { ScriptManager } from '../scripting/ScriptManager';
+import { Random, Vec3, MathUtils } from '../math';
+
+function box(id: string, x: number, y: number, extra: Partial<ObjectConfig> = {}): ObjectConfig {
+  return { id, type: 'box', width: 1, height: 1, depth: 1, mass: 1, position: { x, y, z: 0 }, ...extra };
+}
+
+function groundedEngine(): Engine {
+  const engine = new Engine({ timeStep: 1 / 60 });
+  engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+  engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+  return engine;
+}
+
+function run(engine: Engine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.step();
+}
+
+// ============================================================================
+// CONTACT RESOLUTION
+// ============================================================================
+
+describe('contact resolution', () => {
+  it('rests a dropped sphere on the ground plane', () => {
+    const engine = groundedEngine();
+    const ball = engine.addObject({ id: 'ball', type: 'sphere', radius: 0.5, mass: 1, position: { x: 0, y: 3, z: 0 } });
+    run(engine, 300);
+
+    expect(ball.position.y).toBeCloseTo(0.5, 1);
+    expect(Math.abs(ball.velocity.y)).toBeLessThan(0.05);
+  });
+
+  it('keeps a resting box stack upright', () => {
+    const engine = groundedEngine();
+    engine.addObject(box('a', 0, 0.5));
+    engine.addObject(box('b', 0, 1.5));
+    engine.addObject(box('c', 0, 2.5));
+    run(engine, 300);
+
+    ['a', 'b', 'c'].forEach((id, i) => {
+      const body = engine.getObject(id)!;
+      expect(body.position.y).toBeCloseTo(0.5 + i, 1);
+      expect(Math.abs(body.position.x)).toBeLessThan(0.02);
+      expect(Math.abs(body.rotation.w)).toBeGreaterThan(0.999);
+    });
+  });
+
+  it('keeps an overhanging box on top of an equal static box', () => {
+    const engine = groundedEngine();
+    engine.addObject(box('base', 0, 0.5, { isStatic: true }));
+    const top = engine.addObject(box('top', 0.3, 1.5));
+    run(engine, 300);
+
+    expect(top.position.y).toBeCloseTo(1.5, 1);
+    expect(top.position.x).toBeCloseTo(0.3, 1);
+    expect(Math.abs(top.rotation.w)).toBeGreaterThan(0.999);
+  });
+
+  it('brings a sliding box to rest through friction', () => {
+    const engine = groundedEngine();
+    const slider = engine.addObject(box('slider', 0, 0.5, { velocity: { x: 3, y: 0, z: 0 } }));
+    run(engine, 180);
+
+    expect(slider.position.x).toBeGreaterThan(0.1);
+    expect(Math.abs(slider.velocity.x)).toBeLessThan(0.05);
+    expect(slider.position.y).toBeCloseTo(0.5, 1);
+  });
+});
+
+// ============================================================================
+// CONSTRAINT WRITE-BACK
+// ============================================================================
+
+describe('constraint write-back', () => {
+  it('keeps a ball-joint pendulum at its length', () => {
+    const engine = groundedEngine();
+    const bob = engine.addObject({ id: 'bob', type: 'sphere', radius: 0.1, mass: 1, position: { x: 1, y: 5, z: 0 } });
+    engine.addConstraint({ type: 'ball', bodyA: 'bob', anchorA: { x: -1, y: 0, z: 0 }, anchorB: { x: 0, y: 5, z: 0 } });
+
+    let maxError = 0;
+    for (let i = 0; i < 300; i++) {
+      engine.step();
+      const length = Math.hypot(bob.position.x, bob.position.y - 5, bob.position.z);
+      maxError = Math.max(maxError, Math.abs(length - 1));
+    }
+
+    expect(maxError).toBeLessThan(0.02);
+    expect(bob.position.y).toBeLessThan(5);
+  });
+
+  it('holds two bodies apart with a distance constraint', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: 0, z: 0 } });
+    const a = engine.addObject({ id: 'a', type: 'sphere', radius: 0.1, mass: 1, position: { x: 0, y: 0, z: 0 } });
+    const b = engine.addObject({
+      id: 'b', type: 'sphere', radius: 0.1, mass: 1,
+      position: { x: 2, y: 0, z: 0 }, velocity: { x: 0, y: 2, z: 0 },
+    });
+    engine.addConstraint({ type: 'distance', bodyA: 'a', bodyB: 'b' });
+    run(engine, 120);
+
+    const distance = Math.hypot(b.position.x - a.position.x, b.position.y - a.position.y, b.position.z - a.position.z);
+    expect(distance).toBeCloseTo(2, 1);
+  });
+
+  it('keeps a slider body on its axis', () => {
+    const engine = groundedEngine();
+    const carriage = engine.addObject(box('carriage', 0, 3, { velocity: { x: 1, y: 0, z: 0 } }));
+    engine.addConstraint({ type: 'slider', bodyA: 'carriage', axis: [1, 0, 0], anchorB: [0, 3, 0] });
+    run(engine, 120);
+
+    expect(carriage.position.x).toBeGreaterThan(1);
+    expect(carriage.position.y).toBeCloseTo(3, 1);
+    expect(carriage.position.z).toBeCloseTo(0, 2);
+  });
+
+  it('emits constraintBroken once when the break force is exceeded', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'weight', type: 'sphere', radius: 0.1, mass: 200, position: { x: 0, y: 4, z: 0 } });
+    const id = engine.addConstraint({ type: 'ball', bodyA: 'weight', anchorB: { x: 0, y: 4, z: 0 }, breakForce: 10 });
+
+    const broken: string[] = [];
+    engine.on('constraintBroken', (event) => broken.push((event.data as { constraintId: string }).constraintId));
+    run(engine, 30);
+
+    expect(broken).toEqual([id]);
+    expect(engine.getObject('weight')!.position.y).toBeLessThan(4);
+  });
+});
+
+// ============================================================================
+// FIXED-STEP ACCUMULATOR
+// ============================================================================
+
+describe('advance', () => {
+  it('takes whole fixed steps and carries the remainder as alpha', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    const result = engine.advance(0.025);
+
+    expect(result.steps).toBe(1);
+    expect(result.alpha).toBeCloseTo(0.5, 6);
+    expect(result.droppedTime).toBe(0);
+    expect(engine.time).toBeCloseTo(1 / 60, 9);
+  });
+
+  it('drops time beyond maxSubSteps', () => {
+    const engine = new Engine({ timeStep: 1 / 60, maxSubSteps: 4 });
+    const result = engine.advance(0.5);
+
+    expect(result.steps).toBe(4);
+    expect(result.droppedTime).toBeGreaterThan(0.4);
+    expect(result.alpha).toBeLessThan(1);
+  });
+
+  it('measures alpha against the last completed step after a time-step change', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.addObject({ id: 'ball', type: 'sphere', position: { x: 0, y: 5, z: 0 } });
+    engine.advance(0.025);
+    engine.setTimeStep(1 / 30);
+    const result = engine.advance(0.001);
+
+    expect(result.steps).toBe(0);
+    expect(result.alpha).toBeCloseTo((0.025 - 1 / 60 + 0.001) * 60, 6);
+  });
+
+  it('blends render states between the previous and current step', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    const ball = engine.addObject({ id: 'ball', type: 'sphere', position: { x: 0, y: 10, z: 0 } });
+    engine.advance(1 / 60);
+    const before = ball.position.y;
+    engine.advance(0.025);
+    const after = ball.position.y;
+
+    const blended = engine.getInterpolatedStates().get('ball')!.position.y;
+    expect(blended).toBeLessThan(before);
+    expect(blended).toBeGreaterThan(after);
+    expect(engine.getInterpolatedStates(1).get('ball')!.position.y).toBeCloseTo(after, 9);
+  });
+});
+
+// ============================================================================
+// RUNGE-KUTTA INTEGRATION
+// ============================================================================
+
+describe('runge-kutta integrators', () => {
+  function orbitRadius(integrator: Integrator): number {
+    const engine = new Engine({ integrator, timeStep: 0.05, tolerance: 1e-8 });
+    engine.setEnvironment({ gravity: { x: 0, y: 0, z: 0 }, airDensity: 0 });
+    const body = engine.addObject({
+      id: 's', type: 'sphere', radius: 0.01, mass: 1, linearDamping: 0, angularDamping: 0,
+      position: { x: 1, y: 0, z: 0 }, velocity: { x: 0, y: 1, z: 0 },
+    });
+    engine.addForce({
+      type: 'force-field',
+      target: 's',
+      fieldFunction: (p) => {
+        const r3 = Math.hypot(p.x, p.y, p.z) ** 3;
+        return { x: -p.x / r3, y: -p.y / r3, z: -p.z / r3 };
+      },
+    });
+    run(engine, Math.round((2 * Math.PI) / 0.05));
+    return Math.hypot(body.position.x, body.position.y);
+  }
+
+  it('re-evaluates position-dependent forces so an orbit stays circular', () => {
+    const symplectic = Math.abs(orbitRadius('symplectic') - 1);
+    const rk4 = Math.abs(orbitRadius('runge-kutta-4') - 1);
+    const rk45 = Math.abs(orbitRadius('rk45') - 1);
+
+    expect(rk4).toBeLessThan(1e-5);
+    expect(rk45).toBeLessThan(1e-5);
+    expect(rk4).toBeLessThan(symplectic);
+  });
+
+  it('reports a warning event and still completes the step when rk45 runs out of sub-steps', () => {
+    const engine = new Engine({ integrator: 'rk45', tolerance: 1e-300, timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    const ball = engine.addObject({ id: 'b', type: 'sphere', position: { x: 0, y: 100, z: 0 } });
+    const warnings: EngineWarning[] = [];
+    engine.on('warning', event => warnings.push(event.data as EngineWarning));
+    const warn = vi.spyOn(console, 'warn');
+
+    engine.step();
+    expect(warnings).toEqual([{ code: 'integrator-substeps', message: expect.stringContaining('sub-steps') }]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+
+    expect(engine.time).toBeCloseTo(1 / 60, 12);
+    expect(ball.position.y).toBeCloseTo(100 - 0.5 * 9.81 / 3600, 4);
+  });
+});
+
+// ============================================================================
+// ADAPTIVE TIME STEPPING
+// ============================================================================
+
+describe('adaptive time stepping', () => {
+  it('shrinks the step around an impact and grows it back within bounds', () => {
+    const engine = groundedEngine();
+    engine.setAdaptiveTimeStep(true, { minTimeStep: 1e-4, maxTimeStep: 1 / 30 });
+    engine.addObject({ id: 'ball', type: 'sphere', radius: 0.5, mass: 1, position: { x: 0, y: 20, z: 0 }, material: { restitution: 0.5 } });
+
+    const steps: { time: number; dt: number }[] = [];
+    engine.on('step', (event) => steps.push(event.data as { time: number; dt: number }));
+    while (engine.time < 4) engine.step();
+
+    const dts = steps.map(s => s.dt);
+    expect(Math.min(...dts)).toBeGreaterThanOrEqual(1e-4);
+    expect(Math.max(...dts)).toBeLessThanOrEqual(1 / 30 + 1e-12);
+
+    const impact = steps.findIndex((s, i) => i > 0 && s.dt < steps[i - 1].dt * 0.75);
+    expect(impact).toBeGreaterThan(0);
+    expect(steps[steps.length - 1].dt).toBeCloseTo(1 / 30, 9);
+  });
+
+  it('limits the step for a stiff spring', () => {
+    const engine = new Engine({ adaptiveTimeStep: true });
+    engine.setEnvironment({ gravity: { x: 0, y: 0, z: 0 } });
+    engine.addObject({ id: 'anchor', type: 'sphere', radius: 0.1, isStatic: true });
+    engine.addObject({ id: 'bob', type: 'sphere', radius: 0.1, mass: 0.1, position: { x: 1, y: 0, z: 0 } });
+    engine.addConstraint({ type: 'spring', bodyA: 'bob', bodyB: 'anchor', stiffness: 1e4, damping: 0 });
+    engine.step();
+    engine.step();
+
+    expect(engine.nextTimeStep).toBeLessThanOrEqual(0.2 / Math.sqrt(1e4 / 0.1) + 1e-12);
+  });
+});
+
+// ============================================================================
+// ISLAND SLEEPING
+// ============================================================================
+
+describe('island sleeping', () => {
+  function islandWorld() {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    engine.addObject({ id: 'ground', type: 'box', width: 20, height: 1, depth: 20, isStatic: true, position: { x: 0, y: -0.5, z: 0 } });
+    const boxes = ['b0', 'b1', 'b2'].map((id, i) => engine.addObject(box(id, i * 0.99, 0.5)));
+    boxes.push(engine.addObject(box('b3', 5, 0.5)));
+    engine.addConstraint({ type: 'distance', bodyA: 'b2', bodyB: 'b3' });
+
+    const events: [string, string][] = [];
+    engine.on('sleep', (event) => events.push(['sleep', (event.data as { objectId: string }).objectId]));
+    engine.on('wake', (event) => events.push(['wake', (event.data as { objectId: string }).objectId]));
+    return { engine, boxes, events };
+  }
+
+  it('puts touching and jointed bodies to sleep together', () => {
+    const { engine, boxes, events } = islandWorld();
+    let partial = false;
+    for (let i = 0; i < 300; i++) {
+      engine.step();
+      const asleep = boxes.filter(b => b.isSleeping).length;
+      if (asleep > 0 && asleep < boxes.length) partial = true;
+    }
+
+    expect(partial).toBe(false);
+    expect(boxes.every(b => b.isSleeping)).toBe(true);
+    expect(events.filter(e => e[0] === 'sleep').map(e => e[1]).sort()).toEqual(['b0', 'b1', 'b2', 'b3']);
+  });
+
+  it('wakes the whole island when a force is applied to one body', () => {
+    const { engine, boxes, events } = islandWorld();
+    run(engine, 300);
+    events.length = 0;
+
+    boxes[3].applyImpulse({ x: 0.5, y: 0, z: 0 });
+    engine.step();
+
+    expect(boxes.every(b => !b.isSleeping)).toBe(true);
+    expect(events.filter(e => e[0] === 'wake')).toHaveLength(4);
+  });
+
+  it('wakes a sleeping body when another lands on it', () => {
+    const { engine, boxes } = islandWorld();
+    run(engine, 300);
+
+    engine.addObject({ id: 'ball', type: 'sphere', radius: 0.3, mass: 1, position: { x: 5, y: 3, z: 0 } });
+    let woke = false;
+    for (let i = 0; i < 120 && !woke; i++) {
+      engine.step();
+      woke = !boxes[3].isSleeping;
+    }
+
+    expect(woke).toBe(true);
+  });
+
+  it('keeps a sleeping stack in contact without end or repeated start events', () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.addObject({ id: 'floor', type: 'box', width: 10, height: 1, depth: 10, isStatic: true, position: { x: 0, y: -0.5, z: 0 } });
+    const a = engine.addObject(box('a', 0, 0.5));
+    const b = engine.addObject(box('b', 0, 1.5));
+    const events: string[] = [];
+    engine.onCollisionStart(info => events.push(`start ${info.objectA} ${info.objectB}`));
+    engine.onCollisionEnd(info => events.push(`end ${info.objectA} ${info.objectB}`));
+    run(engine, 300);
+
+    expect(a.isSleeping && b.isSleeping).toBe(true);
+    expect(events.sort()).toEqual(['start a b', 'start a floor']);
+
+    b.applyImpulse({ x: 0.1, y: 0, z: 0 });
+    run(engine, 10);
+    expect(a.isSleeping || b.isSleeping).toBe(false);
+    expect(events).toHaveLength(2);
+  });
+
+  it("fires scripts' onSleep and onWake hooks once attached to the engine", () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+    const ball = engine.addObject({ id: 'ball', type: 'sphere', radius: 0.5, position: { x: 0, y: 0.5, z: 0 } });
+    const scripts = new ScriptManager();
+    const calls: string[] = [];
+    scripts.attachScriptDirect('ball', {
+      name: 'watcher',
+      state: {},
+      callbacks: { onSleep: () => calls.push('sleep'), onWake: () => calls.push('wake') },
+    });
+    // A second attach to the same engine does not fire the hooks twice
+    scripts.attachToEngine(engine);
+    const detach = scripts.attachToEngine(engine);
+
+    run(engine, 120);
+    ball.applyForce({ x: 10, y: 0, z: 0 });
+    run(engine, 6);
+    expect(calls).toEqual(['sleep', 'wake']);
+
+    detach();
+    run(engine, 240);
+    expect(ball.isSleeping).toBe(true);
+    expect(calls).toEqual(['sleep', 'wake']);
+  });
+});
+
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+describe('snapshots', () => {
+  function busyWorld(): Engine {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    engine.addObject({ id: 'ground', type: 'box', width: 40, height: 1, depth: 40, isStatic: true, position: { x: 0, y: -0.5, z: 0 } });
+    for (let i = 0; i < 9; i++) {
+      engine.addObject({
+        id: `s${i}`, type: (['box', 'sphere', 'capsule'] as const)[i % 3], radius: 0.4, height: 1, width: 0.8, depth: 0.8,
+        position: { x: (i % 3) * 1.1 - 1.5, y: 1 + Math.floor(i / 3) * 1.2, z: (i % 2) * 0.3 },
+        angularVelocity: { x: 0.1 * i, y: 0, z: 0.2 },
+      });
+    }
+    engine.addObject({ id: 'p1', type: 'sphere', radius: 0.3, position: { x: 5, y: 5, z: 0 } });
+    engine.addObject({ id: 'p2', type: 'box', width: 0.5, height: 0.5, depth: 0.5, position: { x: 6, y: 5, z: 0 } });
+    engine.addConstraint({ type: 'distance', bodyA: 'p1', bodyB: 'p2' });
+    engine.addConstraint({ type: 'hinge', bodyA: 'p1', anchorB: { x: 5, y: 6, z: 0 }, axis: { x: 0, y: 0, z: 1 } });
+    engine.addForce({ type: 'constant', target: 's5', direction: { x: 1, y: 0, z: 0 }, magnitude: 2 });
+    return engine;
+  }
+
+  it('replays a bit-identical trajectory after the world was changed', () => {
+    const engine = busyWorld();
+    run(engine, 60);
+    const snapshot = engine.createSnapshot();
+    run(engine, 180);
+    const expected = engine.stateHash();
+    const expectedTime = engine.time;
+
+    engine.removeObject('s3');
+    engine.addObject({ id: 'extra', type: 'sphere', radius: 1, position: { x: 0, y: 8, z: 0 } });
+    engine.getObject('s1')!.material.friction = 0.01;
+    engine.removeConstraint('constraint_1');
+    engine.addForce({ type: 'constant', target: 's0', direction: { x: 0, y: 1, z: 0 }, magnitude: 50 });
+    run(engine, 30);
+
+    engine.restoreSnapshot(snapshot);
+    expect(engine.getObject('extra')).toBeUndefined();
+    expect(engine.getObject('s3')).toBeDefined();
+
+    run(engine, 180);
+    expect(engine.time).toBe(expectedTime);
+    expect(engine.stateHash()).toBe(expected);
+  });
+
+  it('rewinds from the nearest earlier snapshot', () => {
+    const engine = busyWorld();
+    const snapshots = [];
+    for (let i = 0; i < 4; i++) {
+      snapshots.push(engine.createSnapshot());
+      run(engine, 30);
+    }
+    const expected = engine.stateHash();
+
+    run(engine, 60);
+    engine.rewind(engine.time - 1, snapshots);
+    expect(engine.stateHash()).toBe(expected);
+  });
+});
+
+// ============================================================================
+// DETERMINISM
+// ============================================================================
+
+describe('deterministic mode', () => {
+  function noisyWorld(seed: number, reversed = false): { engine: Engine; hashes: string[] } {
+    const engine = new Engine({ timeStep: 1 / 60, seed, deterministicMode: true });
+    const configs: ObjectConfig[] = [{ id: 'ground', type: 'plane', isStatic: true }];
+    for (let i = 0; i < 6; i++) {
+      configs.push({ id: `b${i}`, type: i % 2 ? 'box' : 'sphere', radius: 0.5, mass: 1, position: { x: (i % 3) * 0.4, y: 1 + i * 1.1, z: (i % 2) * 0.3 } });
+    }
+    if (reversed) configs.reverse();
+    configs.forEach(config => engine.addObject(config));
+    engine.addForce({ type: 'noise-field', target: 'all', magnitude: 3 });
+
+    const hashes: string[] = [];
+    for (let i = 0; i < 120; i++) {
+      engine.step();
+      hashes.push(engine.stateHash());
+    }
+    return { engine, hashes };
+  }
+
+  it('produces the same stateHash every step for the same seed', () => {
+    expect(noisyWorld(7).hashes).toEqual(noisyWorld(7).hashes);
+  });
+
+  it('does not depend on the order objects were added', () => {
+    expect(noisyWorld(7, true).hashes).toEqual(noisyWorld(7).hashes);
+  });
+
+  it('follows a different trajectory for a different seed', () => {
+    const a = noisyWorld(7).engine.getObject('b3')!.position;
+    const b = noisyWorld(8).engine.getObject('b3')!.position;
+    expect(Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z)).toBeGreaterThan(0.1);
+  });
+
+  it('draws random helpers from the given generator', () => {
+    const a = new Random(42);
+    const b = new Random(42);
+    const draws = (random: Random) => [
+      Vec3.randomUnit(random), Vec3.random({ x: 0, y: 0, z: 0 }, { x: 1, y: 1, z: 1 }, random),
+      MathUtils.randomRange(2, 3, random), MathUtils.randomInt(1, 6, random), MathUtils.randomGaussian(0, 1, random),
+    ];
+
+    expect(draws(a)).toEqual(draws(b));
+
+    const state = a.getState();
+    const next = a.next();
+    a.setState(state);
+    expect(a.next()).toBe(next);
+    expect(Vec3.length(Vec3.randomUnit(a))).toBeCloseTo(1, 12);
+  });
+});
+
+// ============================================================================
+// MULTITHREADING
+// ============================================================================
+
+describe('multithreaded stepping', () => {
+  function crowd(engine: Engine): { hashes: string[]; warnings: EngineWarning[] } {
+    const warnings: EngineWarning[] = [];
+    engine.on('warning', event => warnings.push(event.data as EngineWarning));
+    engine.addObject({ id: 'floor', type: 'plane', isStatic: true });
+    for (let i = 0; i < 200; i++) {
+      engine.addObject({ id: `o${i}`, type: i % 2 ? 'sphere' : 'box', radius: 0.5, position: [(i % 15) * 1.05, 0.55, Math.floor(i / 15) * 1.05] });
+    }
+
+    const hashes: string[] = [];
+    for (let s = 0; s < 40; s++) {
+      if (s === 10) for (let i = 0; i < 50; i++) engine.removeObject(`o${i}`);
+      if (s === 20) for (let i = 0; i < 30; i++) engine.addObject({ id: `n${i}`, type: 'sphere', radius: 0.5, position: [i * 1.05, 2, 0] });
+      engine.step(1 / 60);
+      hashes.push(engine.stateHash());
+    }
+    engine.dispose();
+    return { hashes, warnings };
+  }
+
+  const threaded: EngineConfig = { seed: 3, enableMultithreading: true, workerCount: 2 };
+  let single: string[];
+  let dir: string;
+
+  /**
+   * The workers import the engine as JavaScript, so build it like the package
+   * does: an ES module and a CommonJS file
+   */
+  beforeAll(() => {
+    single = crowd(new Engine({ seed: 3 })).hashes;
+    dir = mkdtempSync(join(tmpdir(), 'asimulate-'));
+    for (const [format, file] of [['esm', 'index.mjs'], ['cjs', 'index.js']] as const) {
+      buildSync({ entryPoints: [join(__dirname, '../index.ts')], bundle: true, platform: 'node', format, outfile: join(dir, file), logLevel: 'silent' });
+    }
+  });
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  it('matches the single-threaded run step for step from the ES module build', async () => {
+    const built: typeof import('../index') = await import(pathToFileURL(join(dir, 'index.mjs')).href);
+    expect(crowd(new built.Engine(threaded))).toEqual({ hashes: single, warnings: [] });
+  });
+
+  it('matches the single-threaded run step for step from the CommonJS build', () => {
+    const built: typeof import('../index') = createRequire(__filename)(join(dir, 'index.js'));
+    expect(crowd(new built.Engine(threaded))).toEqual({ hashes: single, warnings: [] });
+  });
+
+  it('loads the workers from an explicit workerModule', () => {
+    const { hashes, warnings } = crowd(new Engine({ ...threaded, workerModule: pathToFileURL(join(dir, 'index.mjs')) }));
+    expect(hashes).toEqual(single);
+    expect(warnings).toEqual([]);
+  });
+
+  it('falls back to the calling thread with a warning when the workers cannot load', () => {
+    const warn = vi.spyOn(console, 'warn');
+    const { hashes, warnings } = crowd(new Engine({ ...threaded, workerModule: join(dir, 'missing.js') }));
+    expect(hashes).toEqual(single);
+    expect(warnings).toEqual([{ code: 'workers-unavailable', message: expect.stringContaining('single-threaded') }]);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
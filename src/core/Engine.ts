@@ -7,39 +7,226 @@ import type {
   EngineConfig,
   EnvironmentConfig,
   ObjectConfig,
+  ObjectType,
   ForceConfig,
   ConstraintConfig,
+  ConstraintState,
   SimObject,
   World,
   SimulationSnapshot,
+  DeformableState,
+  ParticleEmitterState,
   CollisionInfo,
   CollisionCallback,
   TriggerCallback,
   RaycastHit,
   RaycastOptions,
+  DistanceResult,
+  ClosestPair,
   WorldStats,
   EngineEvent,
   EngineEventCallback,
+  EngineWarning,
+  AdvanceResult,
+  ObjectState,
   Vector3,
   Quaternion,
+  Matrix3,
   Precision,
   Integrator,
+  SceneDocument,
+  SceneCollision,
+  SceneScript,
 } from '../types';
-import { Vec3, Quat, Mat3 } from '../math';
+import { Vec3, Quat, Mat3, Random } from '../math';
 import { PhysicsObject } from './PhysicsObject';
 import { ForceSystem } from '../forces/ForceSystem';
-import { ConstraintSolver } from '../constraints/ConstraintSolver';
-import { CollisionSystem } from '../collision/CollisionSystem';
+import { ConstraintSolver, ConstraintFactory } from '../constraints/ConstraintSolver';
+import type { ConstraintBody } from '../constraints/ConstraintSolver';
+import { CollisionSystem, ColliderFactory, ColliderUtils, ParallelNarrowPhase } from '../collision/CollisionSystem';
+import type { CollisionBody } from '../collision/CollisionSystem';
 import { Environment } from '../environment/Environment';
+import { SoftBodySystem, SoftBodyFactory, Cloth, Fluid } from '../softbody/SoftBodySystem';
+import type { ParticleBody } from '../softbody/SoftBodySystem';
+import { ParticleSystem, ParticleEmitter } from '../particles/ParticleSystem';
+import { SceneSerializer, SCENE_FORMAT, SCENE_VERSION } from '../scene/SceneSerializer';
+import type { SceneOptions, SceneLoadResult } from '../scene/SceneSerializer';
+
+/**
+ * Recomputes the accumulated force and torque on every object for its current
+ * state at the given time. Multi-stage integrators call it between stages.
+ */
+type ForceEvaluator = (time: number) => void;
+
+interface IntegratorContext {
+  time: number;
+  tolerance: number;
+  evaluateForces: ForceEvaluator;
+  warn: (warning: EngineWarning) => void;
+}
+
+/**
+ * Advances the given (dynamic, awake) objects by dt. Forces for the start of the
+ * step are already accumulated on the objects when an integrator is called.
+ */
+type IntegratorFn = (objects: PhysicsObject[], dt: number, context: IntegratorContext) => void;
+
+type SingleStageIntegrator = (obj: PhysicsObject, dt: number, forces: Vector3, torques: Vector3) => void;
+
+/**
+ * Lift a per-object integrator that only needs the start-of-step forces
+ */
+function eachObject(integrate: SingleStageIntegrator): IntegratorFn {
+  return (objects, dt) => {
+    for (const obj of objects) {
+      const { force, torque } = obj.getAccumulatedForces();
+      integrate(obj, dt, force, torque);
+    }
+  };
+}
+
+// ============================================================================
+// Runge-Kutta helpers
+// ============================================================================
+
+interface BodyState {
+  position: Vector3;
+  velocity: Vector3;
+  rotation: Quaternion;
+  angularVelocity: Vector3;
+}
+
+/** Time derivative of a BodyState */
+interface BodyDerivative {
+  velocity: Vector3;
+  acceleration: Vector3;
+  spin: Quaternion;
+  angularAcceleration: Vector3;
+}
+
+function captureState(obj: PhysicsObject): BodyState {
+  return {
+    position: Vec3.clone(obj.position),
+    velocity: Vec3.clone(obj.velocity),
+    rotation: Quat.clone(obj.rotation),
+    angularVelocity: Vec3.clone(obj.angularVelocity),
+  };
+}
+
+function applyState(obj: PhysicsObject, state: BodyState): void {
+  obj.position = state.position;
+  obj.velocity = state.velocity;
+  obj.rotation = state.rotation;
+  obj.angularVelocity = state.angularVelocity;
+}
+
+/**
+ * Derivative at the object's current state, using its accumulated forces
+ */
+function evaluateDerivative(obj: PhysicsObject): BodyDerivative {
+  const { force, torque } = obj.getAccumulatedForces();
+  const w = obj.angularVelocity;
+  const spin = Quat.multiply({ x: 0.5 * w.x, y: 0.5 * w.y, z: 0.5 * w.z, w: 0 }, obj.rotation);
+
+  return {
+    velocity: Vec3.clone(obj.velocity),
+    acceleration: Vec3.scale(force, obj.inverseMass),
+    spin,
+    angularAcceleration: Mat3.multiplyVector(obj.inverseInertiaTensor, torque),
+  };
+}
+
+/**
+ * state + dt * sum(weight_i * k_i)
+ */
+function advanceState(state: BodyState, terms: Array<[BodyDerivative, number]>, dt: number): BodyState {
+  const result: BodyState = {
+    position: Vec3.clone(state.position),
+    velocity: Vec3.clone(state.velocity),
+    rotation: Quat.clone(state.rotation),
+    angularVelocity: Vec3.clone(state.angularVelocity),
+  };
+
+  for (const [k, weight] of terms) {
+    if (weight === 0) continue;
+    const h = weight * dt;
+    result.position = Vec3.add(result.position, Vec3.scale(k.velocity, h));
+    result.velocity = Vec3.add(result.velocity, Vec3.scale(k.acceleration, h));
+    result.angularVelocity = Vec3.add(result.angularVelocity, Vec3.scale(k.angularAcceleration, h));
+    result.rotation = {
+      x: result.rotation.x + k.spin.x * h,
+      y: result.rotation.y + k.spin.y * h,
+      z: result.rotation.z + k.spin.z * h,
+      w: result.rotation.w + k.spin.w * h,
+    };
+  }
+
+  result.rotation = Quat.normalize(result.rotation);
+  return result;
+}
+
+/**
+ * Move every object to its stage state and evaluate the derivatives there
+ */
+function evaluateStage(
+  objects: PhysicsObject[],
+  start: BodyState[],
+  stages: BodyDerivative[][],
+  weights: number[],
+  dt: number,
+  time: number,
+  evaluateForces: ForceEvaluator
+): BodyDerivative[] {
+  objects.forEach((obj, i) => {
+    const terms = weights.map((w, s) => [stages[s][i], w] as [BodyDerivative, number]);
+    applyState(obj, advanceState(start[i], terms, dt));
+  });
+  evaluateForces(time);
+  return objects.map(evaluateDerivative);
+}
+
+// Dormand-Prince 5(4) tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40];
+const DP_MAX_SUBSTEPS = 1000;
+
+/**
+ * Scaled error norm between the 5th and 4th order solutions (<= 1 is acceptable)
+ */
+function errorNorm(high: BodyState[], low: BodyState[], tolerance: number): number {
+  let error = 0;
+  const measure = (a: Vector3, b: Vector3) => {
+    const scale = tolerance * (1 + Math.max(Vec3.length(a), Vec3.length(b)));
+    error = Math.max(error, Vec3.distance(a, b) / scale);
+  };
+
+  for (let i = 0; i < high.length; i++) {
+    measure(high[i].position, low[i].position);
+    measure(high[i].velocity, low[i].velocity);
+    measure(high[i].angularVelocity, low[i].angularVelocity);
+  }
+
+  return error;
+}
 
 /**
  * Integrator implementations for different precision levels
  */
-const integrators = {
+const integrators: Record<Integrator, IntegratorFn> = {
   /**
    * Euler integration (simplest, least accurate)
    */
-  euler: (obj: PhysicsObject, dt: number, forces: Vector3, torques: Vector3) => {
+  euler: eachObject((obj, dt, forces, torques) => {
     if (obj.isStatic || obj.isKinematic) return;
 
     // Linear motion
@@ -61,13 +248,14 @@ const integrators = {
       z: 0.5 * dt * w.z,
       w: 0,
     };
-    obj.rotation = Quat.normalize(Quat.multiply(spin, q));
-  },
+    const dq = Quat.multiply(spin, q);
+    obj.rotation = Quat.normalize({ x: q.x + dq.x, y: q.y + dq.y, z: q.z + dq.z, w: q.w + dq.w });
+  }),
 
   /**
    * Velocity Verlet integration (good balance of speed and accuracy)
    */
-  verlet: (obj: PhysicsObject, dt: number, forces: Vector3, torques: Vector3) => {
+  verlet: eachObject((obj, dt, forces, torques) => {
     if (obj.isStatic || obj.isKinematic) return;
 
     const halfDt = dt * 0.5;
@@ -98,81 +286,99 @@ const integrators = {
       z: 0.5 * dt * w.z,
       w: 0,
     };
-    obj.rotation = Quat.normalize(Quat.multiply(spin, q));
+    const dq = Quat.multiply(spin, q);
+    obj.rotation = Quat.normalize({ x: q.x + dq.x, y: q.y + dq.y, z: q.z + dq.z, w: q.w + dq.w });
 
     // Update angular velocity
     obj.angularVelocity = Vec3.add(obj.angularVelocity, Vec3.scale(angularAccel, dt));
+  }),
+
+  /**
+   * Classic Runge-Kutta 4: forces are re-evaluated at every stage, so coupled
+   * and position/velocity-dependent forces are integrated to fourth order
+   */
+  'runge-kutta-4': (objects, dt, { time, evaluateForces }) => {
+    if (objects.length === 0) return;
+
+    const start = objects.map(captureState);
+    const k1 = objects.map(evaluateDerivative);
+    const k2 = evaluateStage(objects, start, [k1], [0.5], dt, time + dt / 2, evaluateForces);
+    const k3 = evaluateStage(objects, start, [k1, k2], [0, 0.5], dt, time + dt / 2, evaluateForces);
+    const k4 = evaluateStage(objects, start, [k1, k2, k3], [0, 0, 1], dt, time + dt, evaluateForces);
+
+    objects.forEach((obj, i) => {
+      applyState(obj, advanceState(
+        start[i],
+        [[k1[i], 1 / 6], [k2[i], 1 / 3], [k3[i], 1 / 3], [k4[i], 1 / 6]],
+        dt
+      ));
+    });
   },
 
   /**
-   * Runge-Kutta 4 integration (most accurate, more expensive)
+   * Dormand-Prince RK45: sub-steps within dt, sizing each sub-step so the
+   * embedded error estimate stays within the configured tolerance. If the
+   * sub-step limit runs out first, the rest of dt is taken in one step and a
+   * 'warning' event reports the lost accuracy.
    */
-  'runge-kutta-4': (obj: PhysicsObject, dt: number, forces: Vector3, torques: Vector3) => {
-    if (obj.isStatic || obj.isKinematic) return;
+  rk45: (objects, dt, { time, tolerance, evaluateForces, warn }) => {
+    if (objects.length === 0) return;
+
+    let state = objects.map(captureState);
+    let elapsed = 0;
+    let h = dt;
+    let forcesCurrent = true;
+
+    // One Dormand-Prince step of size h from the current state
+    const attempt = (h: number) => {
+      if (!forcesCurrent) {
+        objects.forEach((obj, i) => applyState(obj, state[i]));
+        evaluateForces(time + elapsed);
+      }
 
-    // RK4 for linear motion
-    const mass = obj.inverseMass;
-    const a = Vec3.scale(forces, mass);
-
-    // k1
-    const k1v = Vec3.scale(a, dt);
-    const k1p = Vec3.scale(obj.velocity, dt);
-
-    // k2
-    const k2v = Vec3.scale(a, dt);
-    const k2p = Vec3.scale(Vec3.add(obj.velocity, Vec3.scale(k1v, 0.5)), dt);
-
-    // k3
-    const k3v = Vec3.scale(a, dt);
-    const k3p = Vec3.scale(Vec3.add(obj.velocity, Vec3.scale(k2v, 0.5)), dt);
-
-    // k4
-    const k4v = Vec3.scale(a, dt);
-    const k4p = Vec3.scale(Vec3.add(obj.velocity, k3v), dt);
-
-    // Combine
-    obj.velocity = Vec3.add(
-      obj.velocity,
-      Vec3.scale(
-        Vec3.add(
-          Vec3.add(k1v, Vec3.scale(k2v, 2)),
-          Vec3.add(Vec3.scale(k3v, 2), k4v)
-        ),
-        1 / 6
-      )
-    );
+      const k: BodyDerivative[][] = [objects.map(evaluateDerivative)];
+      for (let s = 1; s < DP_C.length; s++) {
+        k.push(evaluateStage(objects, state, k, DP_A[s], h, time + elapsed + DP_C[s] * h, evaluateForces));
+      }
+      forcesCurrent = false;
 
-    obj.position = Vec3.add(
-      obj.position,
-      Vec3.scale(
-        Vec3.add(
-          Vec3.add(k1p, Vec3.scale(k2p, 2)),
-          Vec3.add(Vec3.scale(k3p, 2), k4p)
-        ),
-        1 / 6
-      )
-    );
+      const high = state.map((y, i) => advanceState(y, DP_B5.map((b, s) => [k[s][i], b] as [BodyDerivative, number]), h));
+      const low = state.map((y, i) => advanceState(y, DP_B4.map((b, s) => [k[s][i], b] as [BodyDerivative, number]), h));
+      return { high, error: errorNorm(high, low, tolerance) };
+    };
 
-    // Angular motion (simplified for now)
-    const invInertia = obj.inverseInertiaTensor;
-    const angularAccel = Mat3.multiplyVector(invInertia, torques);
-    obj.angularVelocity = Vec3.add(obj.angularVelocity, Vec3.scale(angularAccel, dt));
+    for (let substep = 0; substep < DP_MAX_SUBSTEPS && elapsed < dt; substep++) {
+      h = Math.min(h, dt - elapsed);
+      const { high, error } = attempt(h);
 
-    const w = obj.angularVelocity;
-    const q = obj.rotation;
-    const spin: Quaternion = {
-      x: 0.5 * dt * w.x,
-      y: 0.5 * dt * w.y,
-      z: 0.5 * dt * w.z,
-      w: 0,
-    };
-    obj.rotation = Quat.normalize(Quat.multiply(spin, q));
+      // Accept when within tolerance, or when the step has become negligibly small
+      if (error <= 1 || h <= dt * 1e-6) {
+        state = high;
+        elapsed += h;
+      }
+
+      const factor = error > 0 ? 0.9 * Math.pow(error, -1 / 5) : 5;
+      h *= Math.max(0.2, Math.min(5, factor));
+    }
+
+    if (elapsed < dt) {
+      const remaining = dt - elapsed;
+      const { high, error } = attempt(remaining);
+      state = high;
+      warn({
+        code: 'integrator-substeps',
+        message: `rk45 ran out of ${DP_MAX_SUBSTEPS} sub-steps at t=${time + elapsed}; ` +
+          `finished the last ${remaining}s in one step at ${error.toPrecision(3)}x the error tolerance`,
+      });
+    }
+
+    objects.forEach((obj, i) => applyState(obj, state[i]));
   },
 
   /**
    * Symplectic Euler (energy-conserving)
    */
-  symplectic: (obj: PhysicsObject, dt: number, forces: Vector3, torques: Vector3) => {
+  symplectic: eachObject((obj, dt, forces, torques) => {
     if (obj.isStatic || obj.isKinematic) return;
 
     // Update velocity first
@@ -195,10 +401,67 @@ const integrators = {
       z: 0.5 * dt * w.z,
       w: 0,
     };
-    obj.rotation = Quat.normalize(Quat.multiply(spin, q));
-  },
+    const dq = Quat.multiply(spin, q);
+    obj.rotation = Quat.normalize({ x: q.x + dq.x, y: q.y + dq.y, z: q.z + dq.z, w: q.w + dq.w });
+  }),
 };
 
+/**
+ * Deep copy of plain data (objects, arrays, primitives) for snapshots.
+ * Functions and class instances are shared rather than copied.
+ */
+function copyData<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copyData) as unknown as T;
+  }
+  if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value)) {
+      copy[key] = copyData(field);
+    }
+    return copy as T;
+  }
+  return value;
+}
+
+/**
+ * Two 32-bit multiplicative hashes over the exact bits of numbers, so any
+ * difference in any state value (even in the last bit) changes the digest
+ */
+class StateHasher {
+  private static view = new DataView(new ArrayBuffer(8));
+  private a = 0x811c9dc5;
+  private b = 0x6a09e667;
+
+  number(value: number): void {
+    StateHasher.view.setFloat64(0, value);
+    this.word(StateHasher.view.getUint32(0));
+    this.word(StateHasher.view.getUint32(4));
+  }
+
+  vector(v: Vector3): void {
+    this.number(v.x);
+    this.number(v.y);
+    this.number(v.z);
+  }
+
+  string(value: string): void {
+    this.word(value.length);
+    for (let i = 0; i < value.length; i++) this.word(value.charCodeAt(i));
+  }
+
+  digest(): string {
+    const hex = (h: number) => (h >>> 0).toString(16).padStart(8, '0');
+    return hex(this.a) + hex(this.b);
+  }
+
+  private word(w: number): void {
+    this.a = Math.imul(this.a ^ w, 0x01000193);
+    this.b = Math.imul(this.b ^ w, 0x5bd1e995);
+    this.b ^= this.b >>> 13;
+  }
+}
+
 /**
  * Main Physics Engine
  */
@@ -216,15 +479,27 @@ export class Engine implements World {
   private _isRunning = false;
   private _isPaused = false;
   private _accumulator = 0;
+  private _adaptiveDt = 0;
+  private _impactsThisStep = 0;
+  private _interpolationAlpha = 0;
+  private _random: Random;
+  private _objectOrderDirty = false; // objects added since they were last sorted by id
+  private _previousTransforms: Map<string, { position: Vector3; rotation: Quaternion }> = new Map();
 
   // Systems
   private _environment: Environment;
   private _forceSystem: ForceSystem;
   private _constraintSolver: ConstraintSolver;
   private _collisionSystem: CollisionSystem;
+  private _softBodySystem: SoftBodySystem;
+  private _particleSystem: ParticleSystem;
 
   // Objects
   private _objects: Map<string, PhysicsObject> = new Map();
+  private _constraintBodies: Map<string, ConstraintBody> = new Map();
+  private _constraintConfigs: Map<string, ConstraintConfig> = new Map();
+  private _constraintPairs: Map<string, [string, string]> = new Map(); // constraint id -> bodies kept from colliding
+  private _sleepingIslands: Map<string, string[]> = new Map(); // object id -> every member of its sleeping island
   private _objectIdCounter = 0;
   private _forceIdCounter = 0;
   private _constraintIdCounter = 0;
@@ -248,9 +523,19 @@ export class Engine implements World {
       timeStep: config.timeStep ?? 1 / 60,
       maxSubSteps: config.maxSubSteps ?? 10,
       enableMultithreading: config.enableMultithreading ?? false,
+      workerCount: config.workerCount ?? 0,
+      workerModule: config.workerModule,
       deterministicMode: config.deterministicMode ?? true,
       sleepThreshold: config.sleepThreshold ?? 0.01,
       sleepTimeThreshold: config.sleepTimeThreshold ?? 0.5,
+      tolerance: config.tolerance ?? 1e-6,
+      adaptiveTimeStep: config.adaptiveTimeStep ?? false,
+      minTimeStep: config.minTimeStep ?? 1e-4,
+      maxTimeStep: config.maxTimeStep ?? 1 / 30,
+      stepTolerance: config.stepTolerance ?? 1e-3,
+      continuousCollisionDetection: config.continuousCollisionDetection ?? false,
+      broadPhase: config.broadPhase ?? 'sap',
+      seed: config.seed ?? (config.deterministicMode === false ? Math.floor(Math.random() * 0x100000000) : 0),
     };
 
     this._precision = this._config.precision;
@@ -261,11 +546,35 @@ export class Engine implements World {
     // Initialize systems
     this._environment = new Environment();
     this._forceSystem = new ForceSystem();
-    this._collisionSystem = new CollisionSystem();
+    this._collisionSystem = new CollisionSystem({
+      broadPhase: this._config.broadPhase,
+      continuousCollisionDetection: this._config.continuousCollisionDetection,
+      workers: this._config.enableMultithreading
+        ? this._config.workerCount || ParallelNarrowPhase.defaultWorkerCount()
+        : 0,
+      workerModule: this._config.workerModule,
+      onWorkersFailed: reason => {
+        const warning: EngineWarning = {
+          code: 'workers-unavailable',
+          message: `Parallel narrow phase disabled (${reason}); testing pairs single-threaded`
+        };
+        this._emitEvent('warning', warning);
+      },
+    });
     this._constraintSolver = new ConstraintSolver();
+    this._softBodySystem = new SoftBodySystem();
+    this._particleSystem = new ParticleSystem();
+    this._registerCollisionCallbacks();
+
+    // Everything random draws from one seeded generator; deterministic mode
+    // also fixes the order bodies and constraints are processed in
+    this._random = new Random(this._config.seed);
+    this._forceSystem.setSeed(this._config.seed);
+    this._constraintSolver.setDeterministic(this._config.deterministicMode);
 
     // Apply precision settings
     this._applyPrecisionSettings();
+    this._adaptiveDt = this._timeStep;
   }
 
   // ============================================================================
@@ -292,6 +601,11 @@ export class Engine implements World {
     return this._isPaused;
   }
 
+  /** Blend factor left over from the last advance() call */
+  get interpolationAlpha(): number {
+    return this._interpolationAlpha;
+  }
+
   get objectCount(): number {
     return this._objects.size;
   }
@@ -300,6 +614,13 @@ export class Engine implements World {
     return { ...this._config };
   }
 
+  /**
+   * The world's seeded random generator, shared with scripts through their context
+   */
+  get random(): Random {
+    return this._random;
+  }
+
   // ============================================================================
   // CONFIGURATION
   // ============================================================================
@@ -339,6 +660,25 @@ export class Engine implements World {
   setTimeStep(timeStep: number): void {
     this._timeStep = timeStep;
     this._config.timeStep = timeStep;
+    this._adaptiveDt = timeStep;
+  }
+
+  /**
+   * Enable or disable adaptive time stepping; unspecified bounds keep their current values
+   */
+  setAdaptiveTimeStep(enabled: boolean, options: { minTimeStep?: number; maxTimeStep?: number; stepTolerance?: number } = {}): void {
+    this._config.adaptiveTimeStep = enabled;
+    if (options.minTimeStep !== undefined) this._config.minTimeStep = options.minTimeStep;
+    if (options.maxTimeStep !== undefined) this._config.maxTimeStep = options.maxTimeStep;
+    if (options.stepTolerance !== undefined) this._config.stepTolerance = options.stepTolerance;
+    this._adaptiveDt = this._timeStep;
+  }
+
+  /**
+   * dt the next step() will use when called without an explicit dt
+   */
+  get nextTimeStep(): number {
+    return this._config.adaptiveTimeStep ? this._adaptiveDt : this._timeStep;
   }
 
   // ============================================================================
@@ -352,8 +692,15 @@ export class Engine implements World {
       throw new Error(`Object with id "${id}" already exists`);
     }
 
-    const obj = new PhysicsObject(id, config);
+    const filter = this._collisionSystem.getFilter();
+    const obj = new PhysicsObject(id, config.collisionLayer
+      ? { ...config, collisionGroup: filter.defineLayer(config.collisionLayer) }
+      : config);
     this._objects.set(id, obj);
+    this._objectOrderDirty = true;
+    this._addCollisionBody(obj, config);
+    this._addSoftBody(obj);
+    this._addEmitter(obj);
 
     this._emitEvent('objectAdded', { objectId: id });
 
@@ -364,14 +711,29 @@ export class Engine implements World {
     const obj = this._objects.get(id);
     if (!obj) return false;
 
+    // Whatever was resting on or joined to this object has to react to its removal
+    this._wakeNeighbours(id);
+
     // Remove constraints associated with this object
     for (const constraint of this._constraintSolver.getConstraints()) {
       if (constraint.bodyA === id || constraint.bodyB === id) {
         this._constraintSolver.removeConstraint(constraint.id);
+        this._constraintConfigs.delete(constraint.id);
+        this._releaseConstraintPair(constraint.id);
+      }
+    }
+    for (const config of Array.from(this._constraintConfigs.values())) {
+      if ((config.bodyA === id || config.bodyB === id) && this._isParticleAttachment(config)) {
+        this._removeParticleAttachment(config.id!);
       }
     }
     
     this._forceSystem.removeForcesForObject(id);
+    this._collisionSystem.removeBody(id);
+    this._softBodySystem.remove(id);
+    this._particleSystem.remove(id);
+    this._constraintBodies.delete(id);
+    this._previousTransforms.delete(id);
     this._objects.delete(id);
 
     this._emitEvent('objectRemoved', { objectId: id });
@@ -387,6 +749,20 @@ export class Engine implements World {
     return Array.from(this._objects.values());
   }
 
+  /**
+   * Particles and constraints of a 'soft-body', 'rope', 'cloth' or 'fluid' object
+   */
+  getSoftBody(id: string): ParticleBody | undefined {
+    return this._softBodySystem.get(id);
+  }
+
+  /**
+   * Emitter and live particles of a 'particle-system' object
+   */
+  getEmitter(id: string): ParticleEmitter | undefined {
+    return this._particleSystem.get(id);
+  }
+
   // ============================================================================
   // FORCE MANAGEMENT
   // ============================================================================
@@ -412,24 +788,53 @@ export class Engine implements World {
   addConstraint(config: ConstraintConfig): string {
     const id = config.id ?? `constraint_${++this._constraintIdCounter}`;
     const constraintConfig = { ...config, id };
+
+    // Soft bodies and ropes are held by a particle rather than by the rigid solver
+    if (this._softBodySystem.has(config.bodyA) || (config.bodyB && this._softBodySystem.has(config.bodyB))) {
+      return this._addParticleAttachment(constraintConfig);
+    }
     
-    // Import ConstraintFactory at runtime to avoid circular dependencies
-    const { ConstraintFactory } = require('../constraints/ConstraintSolver');
     const constraint = ConstraintFactory.create(constraintConfig);
+
+    // Capture rest angles and lengths from the current body poses
+    const objA = this._objects.get(constraint.bodyA);
+    const objB = constraint.bodyB === 'world' ? undefined : this._objects.get(constraint.bodyB);
+    if (objA && constraint.setInitialState) {
+      constraint.setInitialState(
+        this._syncConstraintBody(objA),
+        objB ? this._syncConstraintBody(objB) : null
+      );
+    }
+
     this._constraintSolver.addConstraint(constraint);
+    this._constraintConfigs.set(id, constraintConfig);
+
+    // Joined bodies usually overlap at the joint, so keep them from colliding
+    if (objB && !config.collideConnected) {
+      this._collisionSystem.getFilter().ignorePair(constraint.bodyA, objB.id);
+      this._constraintPairs.set(id, [constraint.bodyA, objB.id]);
+    }
+
     return id;
   }
 
   removeConstraint(id: string): boolean {
+    if (this._removeParticleAttachment(id)) return true;
+
     const constraint = this._constraintSolver.getConstraint(id);
     if (!constraint) return false;
     this._constraintSolver.removeConstraint(id);
+    this._constraintConfigs.delete(id);
+    this._releaseConstraintPair(id);
     return true;
   }
 
   getConstraint(id: string): ConstraintConfig | undefined {
     const constraint = this._constraintSolver.getConstraint(id);
-    if (!constraint) return undefined;
+    if (!constraint) {
+      const config = this._constraintConfigs.get(id);
+      return config && this._isParticleAttachment(config) ? copyData(config) : undefined;
+    }
     // Return a simplified config representation
     return {
       id: constraint.id,
@@ -461,8 +866,18 @@ export class Engine implements World {
    * Perform a single physics step
    */
   step(dt?: number): void {
-    const timeStep = dt ?? this._timeStep;
+    const timeStep = dt ?? this.nextTimeStep;
     this._deltaTime = timeStep;
+    this._impactsThisStep = 0;
+
+    if (this._config.deterministicMode && this._objectOrderDirty) {
+      this._sortObjects();
+    }
+
+    // 0. Remember where everything was for render interpolation, and wake the
+    // islands of objects disturbed since the last step so they move together
+    this._storePreviousTransforms();
+    this._propagateWakes();
 
     // 1. Clear forces from previous frame
     this._clearObjectForces();
@@ -474,44 +889,112 @@ export class Engine implements World {
     this._forceSystem.applyForces(this._objects, this._time, timeStep);
 
     // 4. Integrate motion
+    const workSample = this._config.adaptiveTimeStep ? this._sampleWork() : null;
     this._integrate(timeStep);
+    const energyError = workSample ? this._energyError(workSample) : 0;
 
     // 5. Detect and resolve collisions
-    // Note: CollisionSystem manages its own collision detection via step()
-    // We don't call it directly here since it has its own body management
+    this._syncCollisionBodies();
+    this._collisionSystem.step(timeStep);
+    this._applyCollisionResults();
+
+    // 6. Solve constraints
+    if (this._constraintSolver.getConstraints().length > 0) {
+      for (const obj of this._objects.values()) {
+        this._syncConstraintBody(obj);
+      }
+      const constraintStates = this._constraintSolver.solve(this._constraintBodies, timeStep, this._time);
+      this._applyConstraintResults();
+      this._emitBrokenConstraints(constraintStates);
+    }
 
-    // 6. Solve constraints (convert PhysicsObjects to ConstraintBody format)
-    const constraintBodies = new Map<string, any>();
-    for (const [id, obj] of this._objects) {
-      constraintBodies.set(id, {
-        id: obj.id,
-        position: obj.position,
-        rotation: obj.rotation,
-        velocity: obj.velocity,
-        angularVelocity: obj.angularVelocity,
-        mass: obj.mass,
-        invMass: obj.inverseMass,
-        inertia: obj.inertiaTensor,
-        invInertia: obj.inverseInertiaTensor,
-        isStatic: obj.isStatic,
-        isKinematic: obj.isKinematic,
-      });
+    // 7. Step soft bodies against the rigid colliders
+    if (this._softBodySystem.count > 0) {
+      this._stepSoftBodies(timeStep);
+    }
+
+    // 8. Emit and move particles from the objects' new poses
+    if (this._particleSystem.count > 0) {
+      this._stepParticles(timeStep);
     }
-    this._constraintSolver.solve(constraintBodies, timeStep);
 
-    // 7. Apply damping
+    // 9. Apply damping
     this._applyDamping(timeStep);
 
-    // 8. Update sleep states
+    // 10. Update sleep states
     this._updateSleepStates(timeStep);
 
-    // 9. Apply boundary conditions
+    // 11. Apply boundary conditions
     this._environment.applyBoundaries(this._objects);
 
     // Update time
     this._time += timeStep;
 
-    this._emitEvent('step', { time: this._time, dt: timeStep });
+    if (this._config.adaptiveTimeStep) {
+      this._updateAdaptiveTimeStep(timeStep, energyError);
+    }
+
+    // Hashing every step costs a pass over the world, so only do it for listeners
+    const wantsHash = this._config.deterministicMode && (this._eventListeners.get('step')?.size ?? 0) > 0;
+    this._emitEvent('step', wantsHash
+      ? { time: this._time, dt: timeStep, stateHash: this.stateHash() }
+      : { time: this._time, dt: timeStep });
+  }
+
+  /**
+   * Advance by real elapsed time in fixed steps, carrying the remainder in the
+   * accumulator. Time beyond maxSubSteps is dropped so a slow frame cannot
+   * snowball into ever more steps.
+   */
+  advance(realDt: number): AdvanceResult {
+    this._accumulator += Math.max(0, realDt);
+
+    let steps = 0;
+    while (this._accumulator >= this.nextTimeStep && steps < this._maxSubSteps) {
+      this.step();
+      this._accumulator -= this._deltaTime;
+      steps++;
+    }
+
+    const nextStep = this.nextTimeStep;
+    let droppedTime = 0;
+    if (this._accumulator >= nextStep) {
+      droppedTime = this._accumulator - (this._accumulator % nextStep);
+      this._accumulator -= droppedTime;
+    }
+
+    // Blend across the step that was actually taken last, which differs from the
+    // next one when the time step changes between frames
+    const lastStep = this._deltaTime > 0 ? this._deltaTime : nextStep;
+    this._interpolationAlpha = Math.min(1, this._accumulator / lastStep);
+
+    return { steps, alpha: this._interpolationAlpha, droppedTime };
+  }
+
+  /**
+   * Object states blended between the previous and current step, for rendering
+   * (e.g. Visualizer.updateObjects). Defaults to the alpha from the last advance().
+   */
+  getInterpolatedStates(alpha: number = this._interpolationAlpha): Map<string, ObjectState> {
+    const t = Math.max(0, Math.min(1, alpha));
+    const states = new Map<string, ObjectState>();
+
+    for (const [id, obj] of this._objects) {
+      const state = obj.getState(this._time);
+      const previous = this._previousTransforms.get(id);
+
+      if (previous) {
+        state.position = Vec3.lerp(previous.position, obj.position, t);
+        state.rotation = Quat.slerp(previous.rotation, obj.rotation, t);
+      }
+      if (obj.deformable) {
+        state.vertices = obj.deformable.getVertices(t);
+      }
+
+      states.set(id, state);
+    }
+
+    return states;
   }
 
   /**
@@ -545,6 +1028,15 @@ export class Engine implements World {
     this._emitEvent('stop', {});
   }
 
+  /**
+   * Stop the simulation and shut down any worker threads; the engine keeps
+   * working afterwards, single-threaded
+   */
+  dispose(): void {
+    this.stop();
+    this._collisionSystem.dispose();
+  }
+
   /**
    * Pause simulation
    */
@@ -630,35 +1122,183 @@ export class Engine implements World {
   // STATE MANAGEMENT
   // ============================================================================
 
+  /**
+   * Capture the whole world: objects with their configs, constraints with their
+   * warm-start impulses, forces, contacts, environment, clock and id counters.
+   * Restoring it and stepping reproduces the original trajectory exactly.
+   */
   createSnapshot(): SimulationSnapshot {
-    const objectStates = new Map<string, any>();
-    
+    const objectStates = new Map<string, ObjectState>();
+    const objectConfigs = new Map<string, ObjectConfig>();
+    const objectProperties = new Map<string, ObjectConfig>();
+
     for (const [id, obj] of this._objects) {
       objectStates.set(id, obj.getState(this._time));
+      objectConfigs.set(id, copyData(obj.getInitialConfig()));
+      objectProperties.set(id, copyData(obj.toJSON()));
     }
 
-    // Get constraint states
-    const constraintStates = new Map<string, any>();
+    const constraintStates = new Map<string, ConstraintState>();
+    const constraintData = new Map<string, Record<string, unknown>>();
     for (const constraint of this._constraintSolver.getConstraints()) {
-      constraintStates.set(constraint.id, constraint.getState());
+      constraintStates.set(constraint.id, constraint.getState(this._time));
+      constraintData.set(constraint.id, copyData({ ...constraint }));
+    }
+
+    const forces = new Map<string, ForceConfig>();
+    for (const [id, config] of this._forceSystem.getForces()) {
+      forces.set(id, copyData(config));
+    }
+
+    const previousTransforms = new Map<string, { position: Vector3; rotation: Quaternion }>();
+    for (const [id, transform] of this._previousTransforms) {
+      previousTransforms.set(id, copyData(transform));
+    }
+
+    const deformables = new Map<string, DeformableState>();
+    for (const body of this._softBodySystem.getAll()) {
+      deformables.set(body.id, body.getState());
     }
 
+    const emitters = new Map<string, ParticleEmitterState>();
+    for (const emitter of this._particleSystem.getAll()) {
+      emitters.set(emitter.id, emitter.getState());
+    }
+
+    const filter = this._collisionSystem.getFilter();
+
     return {
       timestamp: this._time,
       objects: objectStates,
       constraints: constraintStates,
-      forces: new Map(this._forceSystem.getForces()),
+      forces,
       worldStats: this.getWorldStats(),
+      objectConfigs,
+      objectProperties,
+      constraintData,
+      constraintConfigs: new Map(Array.from(this._constraintConfigs, ([id, config]) => [id, copyData(config)])),
+      constraintPairs: new Map(this._constraintPairs),
+      contacts: this._collisionSystem.getContactState(),
+      ignoredPairs: filter.getIgnoredPairs(),
+      sleepingIslands: Array.from(new Set(this._sleepingIslands.values()), members => [...members]),
+      previousTransforms,
+      deformables,
+      emitters,
+      environment: this._environment.getConfig(),
+      engine: {
+        deltaTime: this._deltaTime,
+        accumulator: this._accumulator,
+        adaptiveDt: this._adaptiveDt,
+        interpolationAlpha: this._interpolationAlpha,
+        objectIdCounter: this._objectIdCounter,
+        forceIdCounter: this._forceIdCounter,
+        constraintIdCounter: this._constraintIdCounter,
+        randomState: this._random.getState(),
+      },
     };
   }
 
+  /**
+   * Put the world back exactly as it was when the snapshot was taken. Objects
+   * removed since are recreated and objects added since are removed; objects
+   * that still exist keep their identity.
+   */
   restoreSnapshot(snapshot: SimulationSnapshot): void {
-    this._time = snapshot.timestamp;
+    // Objects, rebuilt in snapshot order (contacts and constraints are solved in that order)
+    const previous = this._objects;
+    this._objects = new Map();
+
+    for (const [id, config] of snapshot.objectConfigs) {
+      const existing = previous.get(id);
+      const obj = existing && existing.type === config.type
+        ? existing
+        : new PhysicsObject(id, copyData(config));
+
+      obj.restoreProperties(snapshot.objectProperties.get(id) ?? config);
+      obj.restoreState(snapshot.objects.get(id) ?? obj.getState(snapshot.timestamp));
+      this._objects.set(id, obj);
+    }
 
-    for (const [id, state] of snapshot.objects) {
-      const obj = this._objects.get(id);
-      if (obj) {
-        obj.restoreState(state);
+    for (const id of previous.keys()) {
+      if (!this._objects.has(id)) {
+        this._emitEvent('objectRemoved', { objectId: id });
+      }
+    }
+
+    // Collision bodies, contacts and pair rules
+    this._collisionSystem.clear();
+    for (const obj of this._objects.values()) {
+      this._addCollisionBody(obj, obj.getInitialConfig());
+    }
+    this._collisionSystem.setContactState(snapshot.contacts);
+    this._collisionSystem.getFilter().setIgnoredPairs(snapshot.ignoredPairs);
+
+    // Soft bodies, rebuilt from their configs and moved back onto their particles,
+    // and emitters, refilled with their live particles
+    this._softBodySystem.clear();
+    this._particleSystem.clear();
+    for (const obj of this._objects.values()) {
+      obj.deformable = null;
+      this._addSoftBody(obj, true);
+      this._addEmitter(obj);
+      const state = snapshot.deformables?.get(obj.id);
+      if (state) this._softBodySystem.get(obj.id)?.setState(copyData(state));
+      const emitterState = snapshot.emitters?.get(obj.id);
+      if (emitterState) this._particleSystem.get(obj.id)?.setState(copyData(emitterState));
+      obj.restoreState(snapshot.objects.get(obj.id) ?? obj.getState(snapshot.timestamp));
+    }
+
+    // Constraints, restored field by field so warm starting carries on unchanged
+    this._constraintSolver.clear();
+    this._constraintBodies.clear();
+    for (const [id, data] of snapshot.constraintData) {
+      const constraint = ConstraintFactory.create({
+        id,
+        type: data.type as ConstraintConfig['type'],
+        bodyA: data.bodyA as string,
+        bodyB: data.bodyB as string,
+      });
+      this._constraintSolver.addConstraint(Object.assign(constraint, copyData(data)));
+    }
+    this._constraintConfigs = new Map(Array.from(snapshot.constraintConfigs, ([id, config]) => [id, copyData(config)]));
+    this._constraintPairs = new Map(snapshot.constraintPairs);
+    for (const config of this._constraintConfigs.values()) {
+      if (this._isParticleAttachment(config)) this._attachParticle(config);
+    }
+
+    this._forceSystem.clear();
+    for (const [id, config] of snapshot.forces) {
+      this._forceSystem.addForce(id, copyData(config));
+    }
+
+    this._environment.configure(snapshot.environment);
+
+    this._sleepingIslands.clear();
+    for (const island of snapshot.sleepingIslands) {
+      const members = [...island];
+      for (const id of members) {
+        this._sleepingIslands.set(id, members);
+      }
+    }
+
+    this._previousTransforms.clear();
+    for (const [id, transform] of snapshot.previousTransforms) {
+      this._previousTransforms.set(id, copyData(transform));
+    }
+
+    this._time = snapshot.timestamp;
+    this._deltaTime = snapshot.engine.deltaTime;
+    this._accumulator = snapshot.engine.accumulator;
+    this._adaptiveDt = snapshot.engine.adaptiveDt;
+    this._interpolationAlpha = snapshot.engine.interpolationAlpha;
+    this._objectIdCounter = snapshot.engine.objectIdCounter;
+    this._forceIdCounter = snapshot.engine.forceIdCounter;
+    this._constraintIdCounter = snapshot.engine.constraintIdCounter;
+    this._random.setState(snapshot.engine.randomState);
+
+    for (const id of this._objects.keys()) {
+      if (!previous.has(id)) {
+        this._emitEvent('objectAdded', { objectId: id });
       }
     }
   }
@@ -666,10 +1306,18 @@ export class Engine implements World {
   reset(): void {
     this._time = 0;
     this._accumulator = 0;
+    this._interpolationAlpha = 0;
+    this._adaptiveDt = this._timeStep;
+    this._random.reseed(this._config.seed);
+    this._previousTransforms.clear();
+    this._sleepingIslands.clear();
 
     for (const obj of this._objects.values()) {
       obj.reset();
     }
+    this._softBodySystem.reset();
+    this._syncSoftBodyObjects();
+    this._particleSystem.reset();
 
     this._emitEvent('reset', {});
   }
@@ -678,15 +1326,24 @@ export class Engine implements World {
     this.stop();
     
     this._objects.clear();
+    this._constraintBodies.clear();
+    this._constraintConfigs.clear();
+    this._constraintPairs.clear();
+    this._sleepingIslands.clear();
+    this._previousTransforms.clear();
     this._forceSystem.clear();
     this._constraintSolver.clear();
     this._collisionSystem.clear();
+    this._softBodySystem.clear();
+    this._particleSystem.clear();
     
     this._time = 0;
     this._accumulator = 0;
+    this._interpolationAlpha = 0;
     this._objectIdCounter = 0;
     this._forceIdCounter = 0;
     this._constraintIdCounter = 0;
+    this._random.reseed(this._config.seed);
   }
 
   getWorldStats(): WorldStats {
@@ -726,43 +1383,351 @@ export class Engine implements World {
       totalAngularMomentum,
       activeObjects,
       sleepingObjects,
-      contactPairs: 0, // CollisionSystem doesn't track this directly
+      contactPairs: this._collisionSystem.getContactPairCount(),
       stepTime: this._deltaTime * 1000,
+      timeStep: this._deltaTime,
     };
   }
 
-  // ============================================================================
-  // QUERIES
-  // ============================================================================
+  /**
+   * Digest of the simulation state: clock, random generator, every object's
+   * pose, velocities and sleep state, and every constraint's reaction. Two runs
+   * agree bit for bit exactly when their hashes agree after each step.
+   */
+  stateHash(): string {
+    const hasher = new StateHasher();
+    hasher.number(this._time);
+    hasher.number(this._random.getState());
+
+    const ids = Array.from(this._objects.keys()).sort();
+    for (const id of ids) {
+      const obj = this._objects.get(id)!;
+      hasher.string(id);
+      hasher.vector(obj.position);
+      hasher.number(obj.rotation.x);
+      hasher.number(obj.rotation.y);
+      hasher.number(obj.rotation.z);
+      hasher.number(obj.rotation.w);
+      hasher.vector(obj.velocity);
+      hasher.vector(obj.angularVelocity);
+      hasher.number(obj.isSleeping ? 1 : 0);
+
+      const softBody = this._softBodySystem.get(id);
+      if (softBody) {
+        for (const value of softBody.positions) hasher.number(value);
+        for (const value of softBody.velocities) hasher.number(value);
+      }
 
-  raycast(origin: Vector3, direction: Vector3, options: RaycastOptions = {}): RaycastHit[] {
-    return this._collisionSystem.raycast(
-      origin,
-      Vec3.normalize(direction),
-      options.maxDistance ?? Infinity,
-      { layerMask: options.layerMask, ignoreTriggers: options.ignoreTriggers }
-    );
-  }
+      const emitter = this._particleSystem.get(id);
+      if (emitter) {
+        const { positions, velocities, ages, lifetimes, elapsed, pending, randomState } = emitter.getState();
+        for (const value of [...positions, ...velocities, ...ages, ...lifetimes]) hasher.number(value);
+        hasher.number(elapsed);
+        hasher.number(pending);
+        hasher.number(randomState);
+      }
+    }
 
-  sphereCast(origin: Vector3, radius: number, direction: Vector3, maxDistance = Infinity): RaycastHit[] {
-    // Simplified sphere cast - use raycast with radius consideration
-    return this.raycast(origin, direction, { maxDistance });
-  }
+    const constraints = this._constraintSolver.getConstraints().sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    for (const constraint of constraints) {
+      hasher.string(constraint.id);
+      hasher.vector(constraint.reactionForce);
+      hasher.vector(constraint.reactionTorque);
+      hasher.number(constraint.isBroken ? 1 : 0);
+    }
 
-  boxCast(origin: Vector3, halfExtents: Vector3, direction: Vector3, maxDistance = Infinity): RaycastHit[] {
-    // Simplified box cast - use raycast
-    return this.raycast(origin, direction, { maxDistance });
+    return hasher.digest();
   }
 
-  overlapSphere(center: Vector3, radius: number): SimObject[] {
-    const ids = this._collisionSystem.overlapSphere(center, radius);
-    return ids.map(id => this._objects.get(id)).filter((obj): obj is PhysicsObject => obj !== undefined);
-  }
+  // ============================================================================
+  // SCENES
+  // ============================================================================
 
-  overlapBox(center: Vector3, halfExtents: Vector3, rotation?: Quaternion): SimObject[] {
-    const ids = this._collisionSystem.overlapBox(center, halfExtents, rotation);
-    return ids.map(id => this._objects.get(id)).filter((obj): obj is PhysicsObject => obj !== undefined);
-  }
+  /**
+   * Save the world as a versioned scene document: engine settings, environment,
+   * collision layers and pair rules, objects at their current state, constraints,
+   * forces and, given a ScriptManager, scripts by registered name. Functions are
+   * saved by the name they have in options.functions.
+   * Unlike a snapshot a scene is plain JSON, but it does not carry solver state,
+   * so a loaded scene starts from fresh contacts and constraint rest poses.
+   */
+  toJSON(options: SceneOptions = {}): SceneDocument {
+    // JSON.stringify(engine) passes a property key here
+    const { functions, scripts } = typeof options === 'object' ? options : {} as SceneOptions;
+    const errors: string[] = [];
+    const encode = <T>(value: unknown, path: string) => SceneSerializer.encode(value, path, functions, errors) as T;
+
+    const environment = this._environment.getConfig();
+    if (environment.boundaryBehavior !== 'custom') {
+      delete environment.boundaryCallback; // the default no-op is never called
+    }
+
+    // Broken constraints no longer hold anything (the solver drops them on its next pass)
+    const constraints: ConstraintConfig[] = [];
+    for (const [id, config] of this._constraintConfigs) {
+      const constraint = this._constraintSolver.getConstraint(id);
+      if ((constraint && !constraint.isBroken) || this._isParticleAttachment(config)) {
+        constraints.push(config);
+      }
+    }
+
+    // Scripts left behind by removed objects are not part of the world
+    const sceneScripts = (scripts?.getSceneScripts() ?? [])
+      .filter(script => script.object === undefined || this._objects.has(script.object));
+    sceneScripts.forEach((script, i) => {
+      if (!scripts!.hasScript(script.name)) {
+        errors.push(`scripts[${i}]: script "${script.name}" is not registered in the ScriptManager`);
+      }
+    });
+
+    // Where the workers load from depends on the machine, not the scene
+    const { workerModule, ...engine } = this._config;
+
+    const scene: SceneDocument = {
+      format: SCENE_FORMAT,
+      version: SCENE_VERSION,
+      engine: encode(engine, 'engine'),
+      time: this._time,
+      environment: encode(environment, 'environment'),
+      collision: this._sceneCollision(),
+      objects: encode(
+        Array.from(this._objects.values(), obj => this._sceneObject(obj)),
+        'objects'
+      ),
+      constraints: encode(constraints, 'constraints'),
+      forces: encode(Array.from(this._forceSystem.getForces(), ([id, config]) => ({ ...config, id })), 'forces'),
+      scripts: encode(sceneScripts, 'scripts'),
+    };
+
+    if (errors.length > 0) {
+      throw new Error(`Cannot save scene:\n  ${errors.join('\n  ')}`);
+    }
+    return scene;
+  }
+
+  /**
+   * Build a world from a scene document or its JSON text. The scene is
+   * validated first; every problem is reported with its path in one Error.
+   * A given ScriptManager gets the scene's scripts and is attached to the world.
+   */
+  static fromJSON(scene: SceneDocument | string, options: SceneOptions = {}): Engine {
+    return Engine.loadScene(scene, options).engine;
+  }
+
+  /**
+   * Engine.fromJSON, also returning the validation warnings: parts of the
+   * scene that were not applied, such as scripts when no ScriptManager is given.
+   */
+  static loadScene(scene: SceneDocument | string, options: SceneOptions = {}): SceneLoadResult {
+    const result = typeof scene === 'string'
+      ? SceneSerializer.parse(scene, options)
+      : SceneSerializer.validate(scene, options);
+    if (!result.success) {
+      throw new Error(`Invalid scene:\n  ${result.errors.join('\n  ')}`);
+    }
+
+    const document = result.data!;
+    const decode = <T>(value: unknown) => SceneSerializer.decode<T>(value, options.functions);
+    const engine = new Engine(decode<EngineConfig>(document.engine ?? {}));
+
+    const collision = document.collision ?? {};
+    for (const layer of collision.layers ?? []) {
+      engine.defineCollisionLayer(layer);
+    }
+    for (const [layerA, layerB] of collision.disabledLayerPairs ?? []) {
+      engine.defineCollisionLayer(layerA);
+      engine.defineCollisionLayer(layerB);
+      engine.setLayerCollision(layerA, layerB, false);
+    }
+
+    if (document.environment) {
+      engine.setEnvironment(decode<EnvironmentConfig>(document.environment));
+    }
+    for (const config of decode<ObjectConfig[]>(document.objects)) {
+      engine.addObject(config);
+    }
+    for (const config of decode<ConstraintConfig[]>(document.constraints ?? [])) {
+      engine.addConstraint(config);
+    }
+    for (const [objectA, objectB, count = 1] of collision.ignoredPairs ?? []) {
+      for (let i = 0; i < count; i++) {
+        engine.ignoreCollision(objectA, objectB);
+      }
+    }
+    for (const config of decode<ForceConfig[]>(document.forces ?? [])) {
+      engine.addForce(config);
+    }
+
+    engine._time = document.time ?? 0;
+    engine._syncIdCounters();
+
+    options.scripts?.loadSceneScripts(decode<SceneScript[]>(document.scripts ?? []));
+    options.scripts?.attachToEngine(engine);
+
+    return { engine, warnings: result.warnings };
+  }
+
+  /**
+   * An object's config for a scene. Soft bodies and ropes are saved undeformed,
+   * at the origin their particles' centre of mass implies.
+   */
+  private _sceneObject(obj: PhysicsObject): ObjectConfig {
+    const config = { ...obj.getInitialConfig(), ...obj.toJSON() };
+    const softBody = this._softBodySystem.get(obj.id);
+    if (softBody) {
+      config.position = Vec3.toArray(softBody.origin());
+    }
+    return config;
+  }
+
+  /**
+   * Layers, disabled layer pairs and the pair rules set with ignoreCollision
+   */
+  private _sceneCollision(): SceneCollision {
+    const filter = this._collisionSystem.getFilter();
+    const layers = filter.getLayerNames();
+
+    const disabledLayerPairs: [string, string][] = [];
+    layers.forEach((layerA, i) => {
+      for (const layerB of layers.slice(i)) {
+        if (!filter.layersCollide(layerA, layerB)) disabledLayerPairs.push([layerA, layerB]);
+      }
+    });
+
+    // Constraints re-add their own rules when the scene is loaded
+    const constraintRules = new Map<string, number>();
+    for (const [idA, idB] of this._constraintPairs.values()) {
+      const key = idA < idB ? `${idA}\0${idB}` : `${idB}\0${idA}`;
+      constraintRules.set(key, (constraintRules.get(key) ?? 0) + 1);
+    }
+    // The filter counts repeated ignoreCollision calls, so keep the count to release them one by one
+    const ignoredPairs: [string, string, number?][] = [];
+    for (const { bodyA, bodyB, count } of filter.getIgnoredPairs()) {
+      const key = bodyA < bodyB ? `${bodyA}\0${bodyB}` : `${bodyB}\0${bodyA}`;
+      const own = count - (constraintRules.get(key) ?? 0);
+      if (own > 0) ignoredPairs.push(own > 1 ? [bodyA, bodyB, own] : [bodyA, bodyB]);
+    }
+
+    return { layers, disabledLayerPairs, ignoredPairs };
+  }
+
+  /**
+   * Move the id counters past loaded ids like "obj_7", so generated ids don't collide
+   */
+  private _syncIdCounters(): void {
+    const highest = (ids: Iterable<string>, prefix: string) => {
+      let max = 0;
+      for (const id of ids) {
+        const match = id.startsWith(prefix) ? /^\d+$/.exec(id.slice(prefix.length)) : null;
+        if (match) max = Math.max(max, Number(match[0]));
+      }
+      return max;
+    };
+    this._objectIdCounter = Math.max(this._objectIdCounter, highest(this._objects.keys(), 'obj_'));
+    this._forceIdCounter = Math.max(this._forceIdCounter, highest(this._forceSystem.getForces().keys(), 'force_'));
+    this._constraintIdCounter = Math.max(this._constraintIdCounter, highest(this._constraintConfigs.keys(), 'constraint_'));
+  }
+
+  // ============================================================================
+  // COLLISION FILTERING
+  // ============================================================================
+
+  /**
+   * Register a named collision layer (or look one up) and return its group bit
+   */
+  defineCollisionLayer(name: string): number {
+    return this._collisionSystem.getFilter().defineLayer(name);
+  }
+
+  /**
+   * Combined bits of named layers, for collisionMask or a query's layerMask
+   */
+  getCollisionLayerMask(...names: string[]): number {
+    return this._collisionSystem.getFilter().getLayerMask(...names);
+  }
+
+  /**
+   * Enable or disable collisions between two named layers, symmetrically
+   */
+  setLayerCollision(layerA: string, layerB: string, enabled: boolean): void {
+    this._collisionSystem.getFilter().setLayerCollision(layerA, layerB, enabled);
+  }
+
+  /**
+   * Stop (or resume) collisions between two specific objects
+   */
+  ignoreCollision(objectA: string, objectB: string, ignore = true): void {
+    const filter = this._collisionSystem.getFilter();
+    if (ignore) {
+      filter.ignorePair(objectA, objectB);
+    } else {
+      filter.releasePair(objectA, objectB);
+    }
+  }
+
+  /**
+   * Install a hook that can veto any pair the other rules allow; pass null to remove it
+   */
+  setShouldCollide(hook: ((a: SimObject, b: SimObject) => boolean) | null): void {
+    this._collisionSystem.getFilter().setShouldCollide(hook && ((bodyA, bodyB) => {
+      const a = this._objects.get(bodyA.id);
+      const b = this._objects.get(bodyB.id);
+      return !a || !b || hook(a, b);
+    }));
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  raycast(origin: Vector3, direction: Vector3, options: RaycastOptions = {}): RaycastHit[] {
+    return this._collisionSystem.raycast(
+      origin,
+      Vec3.normalize(direction),
+      options.maxDistance ?? Infinity,
+      { layerMask: options.layerMask, ignoreTriggers: options.ignoreTriggers }
+    );
+  }
+
+  /**
+   * Sweep a sphere along direction. A bare number is taken as maxDistance.
+   */
+  sphereCast(origin: Vector3, radius: number, direction: Vector3, options: RaycastOptions | number = {}): RaycastHit[] {
+    const opts = typeof options === 'number' ? { maxDistance: options } : options;
+    return this._collisionSystem.sphereCast(origin, radius, direction, opts.maxDistance ?? Infinity, {
+      layerMask: opts.layerMask,
+      ignoreTriggers: opts.ignoreTriggers,
+      sortByDistance: opts.sortByDistance,
+    });
+  }
+
+  /**
+   * Sweep a box, optionally rotated, along direction. A bare number is taken as maxDistance.
+   */
+  boxCast(
+    origin: Vector3,
+    halfExtents: Vector3,
+    direction: Vector3,
+    options: RaycastOptions | number = {},
+    rotation: Quaternion = Quat.identity()
+  ): RaycastHit[] {
+    const opts = typeof options === 'number' ? { maxDistance: options } : options;
+    return this._collisionSystem.boxCast(origin, halfExtents, rotation, direction, opts.maxDistance ?? Infinity, {
+      layerMask: opts.layerMask,
+      ignoreTriggers: opts.ignoreTriggers,
+      sortByDistance: opts.sortByDistance,
+    });
+  }
+
+  overlapSphere(center: Vector3, radius: number): SimObject[] {
+    const ids = this._collisionSystem.overlapSphere(center, radius);
+    return ids.map(id => this._objects.get(id)).filter((obj): obj is PhysicsObject => obj !== undefined);
+  }
+
+  overlapBox(center: Vector3, halfExtents: Vector3, rotation?: Quaternion): SimObject[] {
+    const ids = this._collisionSystem.overlapBox(center, halfExtents, rotation);
+    return ids.map(id => this._objects.get(id)).filter((obj): obj is PhysicsObject => obj !== undefined);
+  }
 
   closestPoint(point: Vector3, objectId: string): Vector3 {
     const obj = this._objects.get(objectId);
@@ -770,20 +1735,36 @@ export class Engine implements World {
     return obj.closestPoint(point);
   }
 
-  distanceBetween(objectA: string, objectB: string): { distance: number; pointA: Vector3; pointB: Vector3 } {
+  /**
+   * Exact minimum distance and witness points between two objects' colliders.
+   * Negative when they overlap (minus the penetration depth); Infinity when
+   * either object is missing or the pair can't be measured (e.g. two planes).
+   */
+  distanceBetween(objectA: string, objectB: string): DistanceResult {
     const a = this._objects.get(objectA);
     const b = this._objects.get(objectB);
+    const bodyA = this._collisionSystem.getBody(objectA);
+    const bodyB = this._collisionSystem.getBody(objectB);
 
-    if (!a || !b) {
-      return { distance: Infinity, pointA: Vec3.ZERO, pointB: Vec3.ZERO };
+    if (a && b && bodyA && bodyB) {
+      // Objects may have moved since the last step
+      this._copyToCollisionBody(a, bodyA);
+      this._copyToCollisionBody(b, bodyB);
+
+      const result = this._collisionSystem.distanceBetween(objectA, objectB);
+      if (result) return result;
     }
 
-    // Simple center-to-center distance calculation
-    const pointA = a.position;
-    const pointB = b.position;
-    const distance = Vec3.distance(pointA, pointB);
-    
-    return { distance, pointA, pointB };
+    return { distance: Infinity, pointA: Vec3.ZERO, pointB: Vec3.ZERO, normal: Vec3.ZERO };
+  }
+
+  /**
+   * Distances between every pair of the given objects within maxDistance,
+   * nearest first. Without ids all objects are paired, except static with static.
+   */
+  closestPairs(objectIds?: string[], options: { maxDistance?: number; layerMask?: number } = {}): ClosestPair[] {
+    this._syncCollisionBodies();
+    return this._collisionSystem.closestPairs(objectIds, options.maxDistance ?? Infinity, options.layerMask);
   }
 
   // ============================================================================
@@ -845,26 +1826,170 @@ export class Engine implements World {
     this._lastFrameTime = now;
 
     if (!this._isPaused) {
-      this._accumulator += frameTime;
-
-      let steps = 0;
-      while (this._accumulator >= this._timeStep && steps < this._maxSubSteps) {
-        this.step();
-        this._accumulator -= this._timeStep;
-        steps++;
-      }
+      this.advance(frameTime);
     }
 
     this._animationFrameId = requestAnimationFrame(this._runLoop);
   };
 
+  // ============================================================================
+  // ADAPTIVE TIME STEPPING
+  // ============================================================================
+
+  /**
+   * Record start-of-step positions and forces so the integration error can be
+   * estimated from the work-energy theorem afterwards
+   */
+  private _sampleWork(): Map<string, { position: Vector3; force: Vector3; kineticEnergy: number }> {
+    const sample = new Map<string, { position: Vector3; force: Vector3; kineticEnergy: number }>();
+
+    for (const obj of this._objects.values()) {
+      if (obj.isStatic || obj.isKinematic || obj.isSleeping) continue;
+
+      sample.set(obj.id, {
+        position: Vec3.clone(obj.position),
+        force: obj.getAccumulatedForces().force,
+        kineticEnergy: 0.5 * obj.mass * Vec3.lengthSquared(obj.velocity),
+      });
+    }
+
+    return sample;
+  }
+
+  /**
+   * Relative mismatch between the change in linear kinetic energy and the work
+   * done by the start-of-step forces. An exact integrator keeps this near zero;
+   * its size tracks the local truncation error.
+   */
+  private _energyError(sample: Map<string, { position: Vector3; force: Vector3; kineticEnergy: number }>): number {
+    let mismatch = 0;
+    let scale = 1e-12;
+
+    for (const [id, before] of sample) {
+      const obj = this._objects.get(id);
+      if (!obj) continue;
+
+      const kineticEnergy = 0.5 * obj.mass * Vec3.lengthSquared(obj.velocity);
+      const work = Vec3.dot(before.force, Vec3.sub(obj.position, before.position));
+
+      mismatch += kineticEnergy - before.kineticEnergy - work;
+      scale += Math.max(kineticEnergy, before.kineticEnergy) + Vec3.length(before.force) * this._characteristicLength(obj);
+    }
+
+    return Math.abs(mismatch) / scale;
+  }
+
+  /**
+   * Choose the next dt: follow the energy error estimate, halve after new
+   * impacts, and never exceed the speed (tunnelling) or spring stiffness limits
+   */
+  private _updateAdaptiveTimeStep(dt: number, energyError: number): void {
+    const { minTimeStep, maxTimeStep, stepTolerance } = this._config;
+
+    // First-order error grows with dt^2
+    let next = energyError > 0
+      ? dt * Math.max(0.5, Math.min(1.25, 0.9 * Math.sqrt(stepTolerance / energyError)))
+      : dt * 1.25;
+
+    if (this._impactsThisStep > 0) {
+      next = Math.min(next, dt * 0.5);
+    }
+
+    next = Math.min(next, this._speedTimeStepLimit(), this._stiffnessTimeStepLimit());
+
+    this._adaptiveDt = Math.max(minTimeStep, Math.min(maxTimeStep, next));
+  }
+
+  /**
+   * Keep every dynamic object from moving more than a quarter of its size per step
+   */
+  private _speedTimeStepLimit(): number {
+    let limit = Infinity;
+
+    for (const obj of this._objects.values()) {
+      if (obj.isStatic || obj.isSleeping) continue;
+
+      const speed = Vec3.length(obj.velocity);
+      if (speed > 1e-9) {
+        limit = Math.min(limit, 0.25 * this._characteristicLength(obj) / speed);
+      }
+    }
+
+    return limit;
+  }
+
+  /**
+   * Resolve the fastest spring oscillation (period 2*pi*sqrt(m/k)) with ~30 steps
+   */
+  private _stiffnessTimeStepLimit(): number {
+    let limit = Infinity;
+    const periodFraction = 0.2;
+
+    for (const constraint of this._constraintSolver.getConstraints()) {
+      if (constraint.type !== 'spring' || constraint.isBroken) continue;
+
+      const stiffness = (constraint as { stiffness?: number }).stiffness ?? 0;
+      const objA = this._objects.get(constraint.bodyA);
+      const objB = constraint.bodyB === 'world' ? undefined : this._objects.get(constraint.bodyB);
+      const invMass = (objA && !objA.isStatic ? objA.inverseMass : 0) + (objB && !objB.isStatic ? objB.inverseMass : 0);
+
+      if (stiffness > 0 && invMass > 0) {
+        limit = Math.min(limit, periodFraction / Math.sqrt(stiffness * invMass));
+      }
+    }
+
+    // Spring forces act on their targets alone; assume the lightest dynamic object
+    let maxInvMass = 0;
+    for (const obj of this._objects.values()) {
+      if (!obj.isStatic && !obj.isKinematic) maxInvMass = Math.max(maxInvMass, obj.inverseMass);
+    }
+    for (const force of this._forceSystem.getForces().values()) {
+      if (force.type !== 'spring' || force.enabled === false) continue;
+
+      const stiffness = force.stiffness ?? 100;
+      if (maxInvMass > 0) {
+        limit = Math.min(limit, periodFraction / Math.sqrt(stiffness * maxInvMass));
+      }
+    }
+
+    return limit;
+  }
+
+  private _characteristicLength(obj: PhysicsObject): number {
+    const bounds = obj.boundingBox;
+    if (bounds.radius !== undefined) return bounds.radius;
+    if (bounds.halfExtents) {
+      return Math.min(bounds.halfExtents.x, bounds.halfExtents.y, bounds.halfExtents.z);
+    }
+    return 1;
+  }
+
+  /**
+   * Order objects by id, so integration, sleep islands and events don't depend
+   * on the order the world was built in
+   */
+  private _sortObjects(): void {
+    const ids = Array.from(this._objects.keys()).sort();
+    this._objects = new Map(ids.map(id => [id, this._objects.get(id)!]));
+    this._objectOrderDirty = false;
+  }
+
+  private _storePreviousTransforms(): void {
+    for (const [id, obj] of this._objects) {
+      this._previousTransforms.set(id, {
+        position: Vec3.clone(obj.position),
+        rotation: Quat.clone(obj.rotation),
+      });
+    }
+  }
+
   private _clearObjectForces(): void {
     for (const obj of this._objects.values()) {
       obj.clearAccumulatedForces();
     }
   }
 
-  private _applyEnvironmentForces(dt: number): void {
+  private _applyEnvironmentForces(dt: number, time: number = this._time): void {
     for (const obj of this._objects.values()) {
       if (obj.isStatic || obj.isSleeping) continue;
 
@@ -873,16 +1998,22 @@ export class Engine implements World {
       const gravityForce = Vec3.scale(gravity, obj.mass);
       obj.accumulateForce(gravityForce);
 
+      // Cloth meets the air triangle by triangle instead (see _stepSoftBodies);
+      // a fluid is a body of liquid, not one object moving through the air
+      const aerodynamic = !(obj.deformable instanceof Cloth || obj.deformable instanceof Fluid);
+
       // Air drag
-      const drag = this._environment.calculateDrag(obj, dt);
-      obj.accumulateForce(drag);
+      if (aerodynamic) {
+        const drag = this._environment.calculateDrag(obj, dt);
+        obj.accumulateForce(drag);
+      }
 
       // Buoyancy
       const buoyancy = this._environment.calculateBuoyancy(obj);
       obj.accumulateForce(buoyancy);
 
       // Wind
-      const wind = this._environment.getWind(obj.position, this._time);
+      const wind = aerodynamic ? this._environment.getWind(obj.position, time) : Vec3.ZERO;
       if (!Vec3.isZero(wind)) {
         const relativeVelocity = Vec3.sub(wind, obj.velocity);
         const windForce = Vec3.scale(
@@ -896,43 +2027,423 @@ export class Engine implements World {
 
   private _integrate(dt: number): void {
     const integrate = integrators[this._integrator];
+    const objects: PhysicsObject[] = [];
 
     for (const obj of this._objects.values()) {
-      if (obj.isSleeping) continue;
+      if (obj.isSleeping || obj.isStatic || obj.isKinematic || this._softBodySystem.has(obj.id)) continue;
+      objects.push(obj);
+    }
 
-      const { force, torque } = obj.getAccumulatedForces();
-      integrate(obj, dt, force, torque);
+    integrate(objects, dt, {
+      time: this._time,
+      tolerance: this._config.tolerance,
+      evaluateForces: (time: number) => this._evaluateForces(time, dt),
+      warn: (warning: EngineWarning) => this._emitEvent('warning', warning),
+    });
+  }
+
+  /**
+   * Recompute continuous forces for the current (trial) object states
+   */
+  private _evaluateForces(time: number, dt: number): void {
+    this._clearObjectForces();
+    this._applyEnvironmentForces(dt, time);
+    this._forceSystem.evaluateForces(this._objects, time, dt);
+  }
+
+  private _registerCollisionCallbacks(): void {
+    this._collisionSystem.addCollisionStartCallback((info: CollisionInfo) => {
+      this._impactsThisStep++;
+      for (const callback of this._collisionStartCallbacks) callback(info);
+    });
+    this._collisionSystem.addCollisionStayCallback((info: CollisionInfo) => {
+      for (const callback of this._collisionStayCallbacks) callback(info);
+    });
+    this._collisionSystem.addCollisionEndCallback((info: CollisionInfo) => {
+      for (const callback of this._collisionEndCallbacks) callback(info);
+    });
+    this._collisionSystem.addTriggerEnterCallback((info: CollisionInfo) => {
+      for (const callback of this._triggerEnterCallbacks) callback(info.objectA, info.objectB);
+    });
+    this._collisionSystem.addTriggerExitCallback((info: CollisionInfo) => {
+      for (const callback of this._triggerExitCallbacks) callback(info.objectA, info.objectB);
+    });
+  }
+
+  private _addCollisionBody(obj: PhysicsObject, config: ObjectConfig): void {
+    const collider = ColliderFactory.fromObjectConfig(config, obj.scale, obj.centerOfMass);
+    if (!collider) return;
+
+    const body: CollisionBody = {
+      id: obj.id,
+      position: Vec3.clone(obj.position),
+      rotation: Quat.clone(obj.rotation),
+      velocity: Vec3.clone(obj.velocity),
+      angularVelocity: Vec3.clone(obj.angularVelocity),
+      collider,
+      aabb: ColliderUtils.computeAABB(collider, obj.position, obj.rotation),
+      isStatic: obj.isStatic,
+      isKinematic: obj.isKinematic,
+      isSleeping: obj.isSleeping,
+      collisionGroup: obj.collisionGroup,
+      collisionMask: obj.collisionMask,
+      mass: obj.mass,
+      invMass: 0,
+      inertia: obj.inertiaTensor,
+      invInertia: Mat3.zero(),
+      friction: obj.material.friction,
+      restitution: obj.material.restitution,
+    };
+
+    this._copyToCollisionBody(obj, body);
+    this._collisionSystem.addBody(body);
+  }
+
+  /**
+   * Copy the current object state into its collision body and refresh the broad phase
+   */
+  private _syncCollisionBodies(): void {
+    for (const obj of this._objects.values()) {
+      const body = this._collisionSystem.getBody(obj.id);
+      if (!body) continue;
+
+      this._copyToCollisionBody(obj, body);
+      this._collisionSystem.updateBody(body);
     }
   }
 
-  private _resolveCollisions(collisions: CollisionInfo[], dt: number): void {
-    for (const collision of collisions) {
-      const objA = this._objects.get(collision.objectA);
-      const objB = this._objects.get(collision.objectB);
+  private _copyToCollisionBody(obj: PhysicsObject, body: CollisionBody): void {
+    const immovable = obj.isStatic || obj.isKinematic;
+
+    body.position = Vec3.clone(obj.position);
+    body.rotation = Quat.clone(obj.rotation);
+    body.velocity = Vec3.clone(obj.velocity);
+    body.angularVelocity = Vec3.clone(obj.angularVelocity);
+    body.aabb = ColliderUtils.computeAABB(body.collider, obj.position, obj.rotation);
+    body.isStatic = obj.isStatic;
+    body.isKinematic = obj.isKinematic;
+    body.isSleeping = obj.isSleeping;
+    body.collider.isTrigger = obj.isTrigger;
+    body.collisionGroup = obj.collisionGroup;
+    body.collisionMask = obj.collisionMask;
+    body.mass = obj.mass;
+    body.invMass = immovable ? 0 : obj.inverseMass;
+    body.inertia = obj.inertiaTensor;
+    body.friction = obj.material.friction;
+    body.restitution = obj.material.restitution;
+    body.continuous = obj.collisionDetection === 'continuous';
+
+    const previous = this._previousTransforms.get(obj.id);
+    body.previousPosition = previous ? Vec3.clone(previous.position) : undefined;
+    body.previousRotation = previous ? Quat.clone(previous.rotation) : undefined;
+
+    body.invInertia = this._worldInverseInertia(obj);
+  }
 
-      if (!objA || !objB) continue;
+  /**
+   * The contact and constraint solvers work in world space, so rotate the local
+   * inverse inertia. Static and kinematic objects are treated as infinitely heavy.
+   */
+  private _worldInverseInertia(obj: PhysicsObject): Matrix3 {
+    if (obj.isStatic || obj.isKinematic) return Mat3.zero();
 
-      // Check if either is a trigger
-      if (objA.isTrigger || objB.isTrigger) {
-        for (const callback of this._triggerEnterCallbacks) {
-          callback(collision.objectA, collision.objectB);
-        }
-        continue;
+    const r = Quat.toMatrix3(obj.rotation);
+    return Mat3.multiply(Mat3.multiply(r, obj.inverseInertiaTensor), Mat3.transpose(r));
+  }
+
+  /**
+   * Build the particle body of a 'soft-body', 'rope', 'cloth' or 'fluid'
+   * object and move the object onto its centre of mass. An object without a
+   * usable shape stays a rigid point mass, reported by a 'warning' event
+   * unless it is only being rebuilt.
+   */
+  private _addSoftBody(obj: PhysicsObject, rebuilding = false): void {
+    const names: Partial<Record<ObjectType, string>> = {
+      'soft-body': 'Soft body',
+      rope: 'Rope',
+      cloth: 'Cloth',
+      fluid: 'Fluid'
+    };
+    const name = names[obj.type];
+    if (!name) return;
+
+    const body = SoftBodyFactory.fromObjectConfig(obj.id, obj.getInitialConfig(), obj.mass);
+    if (!body) {
+      if (!rebuilding) {
+        const warning: EngineWarning = {
+          code: 'no-shape',
+          message: `${name} "${obj.id}" has no usable shape and is simulated as a rigid point mass`,
+          objectId: obj.id
+        };
+        this._emitEvent('warning', warning);
+      }
+      return;
+    }
+
+    this._softBodySystem.add(body);
+    obj.deformable = body;
+    obj.position = body.centerOfMass();
+    obj.velocity = body.linearVelocity();
+  }
+
+  /**
+   * Feed each soft body the forces accumulated on its object this step, move
+   * its particles, push back on the rigid bodies they hit and update the object
+   * to the particles' centre of mass and mean velocity
+   */
+  private _stepSoftBodies(dt: number): void {
+    for (const body of this._softBodySystem.getAll()) {
+      const obj = this._objects.get(body.id)!;
+      body.acceleration = obj.isStatic || obj.isKinematic
+        ? Vec3.create()
+        : Vec3.scale(obj.getAccumulatedForces().force, obj.inverseMass);
+      body.friction = obj.material.friction;
+      body.collisionGroup = obj.collisionGroup;
+      body.collisionMask = obj.collisionMask;
+      if (body instanceof Cloth) {
+        body.sampleWind(point => this._environment.getWind(point, this._time), this._environment.config.airDensity ?? 0);
+      }
+    }
+
+    for (const reaction of this._softBodySystem.step(dt, this._collisionSystem)) {
+      const obj = this._objects.get(reaction.bodyId);
+      if (!obj || obj.isStatic || obj.isKinematic) continue;
+      obj.position = Vec3.add(obj.position, reaction.displacement);
+      obj.applyImpulse(reaction.impulse, obj.worldToLocal(reaction.point));
+    }
+
+    this._syncSoftBodyObjects();
+  }
+
+  /**
+   * Give a 'particle-system' object its emitter
+   */
+  private _addEmitter(obj: PhysicsObject): void {
+    if (obj.type !== 'particle-system') return;
+
+    const emitter = ParticleEmitter.fromObjectConfig(obj.id, obj.getInitialConfig(), this._config.seed);
+    this._particleSystem.add(emitter);
+    obj.deformable = emitter;
+  }
+
+  /**
+   * Move each emitter to its object, then emit and advance the particles under
+   * the environment's gravity and wind and the force system's fields
+   */
+  private _stepParticles(dt: number): void {
+    for (const emitter of this._particleSystem.getAll()) {
+      const obj = this._objects.get(emitter.id)!;
+      emitter.position = Vec3.clone(obj.position);
+      emitter.rotation = Quat.clone(obj.rotation);
+      emitter.velocity = Vec3.clone(obj.velocity);
+      emitter.friction = obj.material.friction;
+      emitter.restitution = obj.material.restitution;
+      emitter.collisionGroup = obj.collisionGroup;
+      emitter.collisionMask = obj.collisionMask;
+    }
+
+    const time = this._time;
+    this._particleSystem.step(dt, {
+      gravity: point => this._environment.getGravity(point),
+      wind: point => this._environment.getWind(point, time),
+      airDensity: this._environment.config.airDensity ?? 0,
+      fieldForces: (id, positions, velocities, count, forces) =>
+        this._forceSystem.applyFieldForces(id, positions, velocities, count, time, forces),
+    }, this._collisionSystem);
+  }
+
+  /**
+   * Pin a particle of a soft body or rope to the other side of a 'ball' or
+   * 'fixed' constraint. The particle and anchor left out of the config are
+   * resolved from the current poses and stored, so the attachment can be
+   * rebuilt exactly from a snapshot or scene.
+   */
+  private _addParticleAttachment(config: ConstraintConfig & { id: string }): string {
+    const onA = this._softBodySystem.has(config.bodyA);
+    const particleBody = this._softBodySystem.get(onA ? config.bodyA : config.bodyB!)!;
+    const otherId = onA ? config.bodyB : config.bodyA;
+    const other = otherId === undefined || otherId === 'world' ? undefined : this._objects.get(otherId);
+
+    if (config.type !== 'ball' && config.type !== 'fixed') {
+      throw new Error(`Constraint "${config.id}": particles of "${particleBody.id}" can only be held by 'ball' or 'fixed' constraints`);
+    }
+    if (otherId !== undefined && otherId !== 'world') {
+      if (this._softBodySystem.has(otherId)) {
+        throw new Error(`Constraint "${config.id}": "${config.bodyA}" and "${config.bodyB}" are both particle bodies`);
+      }
+      if (!other || !this._collisionSystem.getBody(otherId)) {
+        throw new Error(`Constraint "${config.id}": "${otherId}" has no collider to hold a particle`);
       }
+    }
+
+    const anchorKey = onA ? 'anchorB' : 'anchorA';
+    const given = config[anchorKey];
+    let anchor = given === undefined ? undefined : Array.isArray(given) ? Vec3.fromArray(given) : { ...given };
+    let particle = config.particle;
 
-      // Fire collision callbacks
-      for (const callback of this._collisionStartCallbacks) {
-        callback(collision);
+    if (particle === undefined) {
+      if (!anchor && !other) {
+        throw new Error(`Constraint "${config.id}": a particle or world anchor is needed to pin "${particleBody.id}"`);
       }
+      const target = other
+        ? Vec3.add(other.position, Quat.rotateVector(other.rotation, anchor ?? Vec3.create()))
+        : anchor!;
+      particle = particleBody.nearestParticle(target);
+    }
+    if (!anchor) {
+      // Hold the particle where it is now
+      const point = particleBody.particle(particle);
+      anchor = other
+        ? Quat.rotateVector(Quat.conjugate(other.rotation), Vec3.sub(point, other.position))
+        : point;
+    }
+
+    const resolved: ConstraintConfig = { ...config, particle, [anchorKey]: Vec3.toArray(anchor) };
+    this._attachParticle(resolved);
+    this._constraintConfigs.set(config.id, resolved);
 
-      // Note: Collision resolution is handled internally by CollisionSystem.step()
-      // No need for explicit resolution here
+    if (other && !config.collideConnected) {
+      this._collisionSystem.getFilter().ignorePair(particleBody.id, other.id);
+      this._constraintPairs.set(config.id, [particleBody.id, other.id]);
+    }
+
+    return config.id;
+  }
+
+  private _attachParticle(config: ConstraintConfig): void {
+    const onA = this._softBodySystem.has(config.bodyA);
+    const otherId = onA ? config.bodyB : config.bodyA;
+    const anchor = (onA ? config.anchorB : config.anchorA)!;
+    this._softBodySystem.get(onA ? config.bodyA : config.bodyB!)!.attach({
+      id: config.id!,
+      particle: config.particle!,
+      bodyId: otherId === undefined || otherId === 'world' ? null : otherId,
+      anchor: Array.isArray(anchor) ? Vec3.fromArray(anchor) : anchor
+    });
+  }
+
+  private _removeParticleAttachment(id: string): boolean {
+    const config = this._constraintConfigs.get(id);
+    if (!config || !this._isParticleAttachment(config)) return false;
+
+    for (const bodyId of [config.bodyA, config.bodyB]) {
+      if (bodyId !== undefined) this._softBodySystem.get(bodyId)?.detach(id);
+    }
+    this._constraintConfigs.delete(id);
+    this._releaseConstraintPair(id);
+    return true;
+  }
+
+  private _isParticleAttachment(config: ConstraintConfig): boolean {
+    return !this._constraintSolver.getConstraint(config.id!) &&
+      (this._softBodySystem.has(config.bodyA) || (config.bodyB !== undefined && this._softBodySystem.has(config.bodyB)));
+  }
+
+  private _syncSoftBodyObjects(): void {
+    for (const body of this._softBodySystem.getAll()) {
+      const obj = this._objects.get(body.id);
+      if (!obj) continue;
+      obj.position = body.centerOfMass();
+      obj.velocity = body.linearVelocity();
+    }
+  }
+
+  /**
+   * Write velocities and position corrections from the contact solver back to the objects
+   */
+  private _applyCollisionResults(): void {
+    for (const obj of this._objects.values()) {
+      if (obj.isStatic || obj.isKinematic) continue;
+
+      const body = this._collisionSystem.getBody(obj.id);
+      if (!body) continue;
+
+      obj.position = Vec3.clone(body.position);
+      obj.rotation = Quat.clone(body.rotation);
+      obj.velocity = Vec3.clone(body.velocity);
+      obj.angularVelocity = Vec3.clone(body.angularVelocity);
+    }
+  }
+
+  /**
+   * Copy the current object state into its constraint body, creating it on first use
+   */
+  private _syncConstraintBody(obj: PhysicsObject): ConstraintBody {
+    const immovable = obj.isStatic || obj.isKinematic;
+
+    let body = this._constraintBodies.get(obj.id);
+    if (!body) {
+      body = { id: obj.id } as ConstraintBody;
+      this._constraintBodies.set(obj.id, body);
+    }
+
+    body.position = Vec3.clone(obj.position);
+    body.rotation = Quat.clone(obj.rotation);
+    body.velocity = Vec3.clone(obj.velocity);
+    body.angularVelocity = Vec3.clone(obj.angularVelocity);
+    body.mass = obj.mass;
+    body.invMass = immovable ? 0 : obj.inverseMass;
+    body.inertia = obj.inertiaTensor;
+    body.invInertia = this._worldInverseInertia(obj);
+    body.isStatic = obj.isStatic;
+    body.isKinematic = obj.isKinematic;
+
+    return body;
+  }
+
+  /**
+   * Write constraint solver velocities back to the objects
+   */
+  private _applyConstraintResults(): void {
+    for (const obj of this._objects.values()) {
+      if (obj.isStatic || obj.isKinematic) continue;
+
+      const body = this._constraintBodies.get(obj.id);
+      if (!body) continue;
+
+      obj.position = Vec3.clone(body.position);
+      obj.velocity = Vec3.clone(body.velocity);
+      obj.angularVelocity = Vec3.clone(body.angularVelocity);
+    }
+  }
+
+  /**
+   * Let a constraint's two bodies collide again once it no longer joins them
+   */
+  private _releaseConstraintPair(constraintId: string): void {
+    const pair = this._constraintPairs.get(constraintId);
+    if (!pair) return;
+
+    this._collisionSystem.getFilter().releasePair(pair[0], pair[1]);
+    this._constraintPairs.delete(constraintId);
+  }
+
+  /**
+   * Constraints that broke this step are still reported by the solver; it drops
+   * them at the start of the next solve, so each break is emitted exactly once
+   */
+  private _emitBrokenConstraints(states: ConstraintState[]): void {
+    for (const state of states) {
+      if (!state.isBroken) continue;
+
+      // A broken joint no longer holds its bodies together
+      this._releaseConstraintPair(state.constraintId);
+
+      const constraint = this._constraintSolver.getConstraint(state.constraintId);
+      this._emitEvent('constraintBroken', {
+        constraintId: state.constraintId,
+        bodyA: constraint?.bodyA,
+        bodyB: constraint?.bodyB,
+        reactionForce: state.reactionForce,
+        reactionTorque: state.reactionTorque,
+        time: this._time,
+      });
     }
   }
 
   private _applyDamping(dt: number): void {
     for (const obj of this._objects.values()) {
-      if (obj.isStatic || obj.isSleeping) continue;
+      if (obj.isStatic || obj.isSleeping || this._softBodySystem.has(obj.id)) continue;
 
       // Linear damping
       const linearDamping = Math.pow(1 - obj.linearDamping, dt);
@@ -944,26 +2455,172 @@ export class Engine implements World {
     }
   }
 
+  /**
+   * Objects sleep and wake per island: a connected group of dynamic objects that
+   * touch or are joined by constraints. An island sleeps once every member has
+   * been slow for sleepTimeThreshold, and wakes as a whole as soon as one member
+   * is disturbed, so a settled stack never ends up half asleep.
+   */
   private _updateSleepStates(dt: number): void {
+    const threshold = this._config.sleepThreshold;
+
     for (const obj of this._objects.values()) {
-      if (obj.isStatic) continue;
+      if (obj.isStatic || obj.isKinematic) continue;
 
-      const speed = Vec3.length(obj.velocity);
-      const angularSpeed = Vec3.length(obj.angularVelocity);
+      // Soft bodies keep simulating; their particles have no sleep state
+      if (this._softBodySystem.has(obj.id)) {
+        obj.wakeUp();
+        continue;
+      }
 
-      if (speed < this._config.sleepThreshold && angularSpeed < this._config.sleepThreshold) {
-        obj.sleepTime += dt;
-        
-        if (obj.sleepTime > this._config.sleepTimeThreshold) {
-          obj.sleep();
-        }
+      const slow = Vec3.length(obj.velocity) < threshold && Vec3.length(obj.angularVelocity) < threshold;
+      if (slow) {
+        if (!obj.isSleeping) obj.sleepTime += dt;
       } else {
-        obj.sleepTime = 0;
-        if (obj.isSleeping) {
-          obj.wakeUp();
-        }
+        // Hit by an awake body or moved by hand
+        obj.wakeUp();
       }
     }
+
+    for (const island of this._buildIslands()) {
+      const asleep = island.filter(obj => obj.isSleeping).length;
+
+      if (asleep > 0 && asleep < island.length) {
+        this._wakeIsland(island);
+      } else if (asleep === 0 && island.every(obj => obj.sleepTime > this._config.sleepTimeThreshold)) {
+        this._sleepIsland(island);
+      }
+    }
+  }
+
+  /**
+   * Group dynamic objects into islands through solid contacts, constraints and
+   * the membership of islands already asleep (whose internal contacts are no
+   * longer tested). Static and kinematic objects never join islands, but one
+   * moving into an object keeps that object awake.
+   */
+  private _buildIslands(): PhysicsObject[][] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      while (id !== root) {
+        const next = parent.get(id)!;
+        parent.set(id, root);
+        id = next;
+      }
+      return root;
+    };
+    const union = (a: string, b: string) => parent.set(find(a), find(b));
+    const isDynamic = (obj?: PhysicsObject): obj is PhysicsObject =>
+      !!obj && !obj.isStatic && !obj.isKinematic;
+
+    for (const obj of this._objects.values()) {
+      if (isDynamic(obj)) parent.set(obj.id, obj.id);
+    }
+
+    for (const pair of this._collisionSystem.getContactPairs()) {
+      const a = this._objects.get(pair.bodyA);
+      const b = this._objects.get(pair.bodyB);
+      if (!a || !b) continue;
+
+      if (isDynamic(a) && isDynamic(b)) {
+        union(a.id, b.id);
+        continue;
+      }
+
+      const [mover, other] = isDynamic(a) ? [b, a] : [a, b];
+      if (mover.isKinematic && isDynamic(other) && this._isMoving(mover)) {
+        other.wakeUp();
+      }
+    }
+
+    for (const constraint of this._constraintSolver.getConstraints()) {
+      if (!constraint.enabled || constraint.isBroken) continue;
+      if (isDynamic(this._objects.get(constraint.bodyA)) && isDynamic(this._objects.get(constraint.bodyB))) {
+        union(constraint.bodyA, constraint.bodyB);
+      }
+    }
+
+    for (const members of new Set(this._sleepingIslands.values())) {
+      const present = members.filter(id => parent.has(id));
+      for (let i = 1; i < present.length; i++) {
+        union(present[0], present[i]);
+      }
+    }
+
+    const islands = new Map<string, PhysicsObject[]>();
+    for (const id of parent.keys()) {
+      const root = find(id);
+      if (!islands.has(root)) islands.set(root, []);
+      islands.get(root)!.push(this._objects.get(id)!);
+    }
+
+    return Array.from(islands.values());
+  }
+
+  private _isMoving(obj: PhysicsObject): boolean {
+    const threshold = this._config.sleepThreshold;
+    return Vec3.length(obj.velocity) >= threshold || Vec3.length(obj.angularVelocity) >= threshold;
+  }
+
+  private _sleepIsland(island: PhysicsObject[]): void {
+    const members = island.map(obj => obj.id);
+
+    for (const obj of island) {
+      obj.sleep();
+      this._sleepingIslands.set(obj.id, members);
+      this._emitEvent('sleep', { objectId: obj.id });
+    }
+  }
+
+  /**
+   * Wake an island, firing 'wake' for each member that slept with it, including
+   * one already woken directly (by an applied force or a setter)
+   */
+  private _wakeIsland(island: PhysicsObject[]): void {
+    for (const obj of island) {
+      obj.wakeUp();
+      if (this._sleepingIslands.delete(obj.id)) {
+        this._emitEvent('wake', { objectId: obj.id });
+      }
+    }
+  }
+
+  private _wakeIslandOf(id: string): void {
+    const members = this._sleepingIslands.get(id);
+    if (!members) return;
+
+    this._wakeIsland(members
+      .map(member => this._objects.get(member))
+      .filter((obj): obj is PhysicsObject => obj !== undefined));
+  }
+
+  /**
+   * Wake sleeping islands with a member woken between steps
+   */
+  private _propagateWakes(): void {
+    for (const id of Array.from(this._sleepingIslands.keys())) {
+      const obj = this._objects.get(id);
+      if (!obj || !obj.isSleeping) this._wakeIslandOf(id);
+    }
+  }
+
+  /**
+   * Wake an object's own island and every island touching or joined to it
+   */
+  private _wakeNeighbours(id: string): void {
+    this._wakeIslandOf(id);
+
+    for (const pair of this._collisionSystem.getContactPairs()) {
+      if (pair.bodyA === id) this._wakeIslandOf(pair.bodyB);
+      if (pair.bodyB === id) this._wakeIslandOf(pair.bodyA);
+    }
+
+    for (const constraint of this._constraintSolver.getConstraints()) {
+      if (constraint.bodyA === id) this._wakeIslandOf(constraint.bodyB);
+      if (constraint.bodyB === id) this._wakeIslandOf(constraint.bodyA);
+    }
   }
 }
 
@@ -13,6 +13,8 @@ import type {
   Quaternion,
   Matrix3,
   BoundingVolume,
+  CollisionDetectionMode,
+  DeformableGeometry,
 } from '../types';
 import { Vec3, Quat, Mat3 } from '../math';
 
@@ -76,6 +78,24 @@ function calculateInertiaTensor(type: ObjectType, config: ObjectConfig, mass: nu
       return Mat3.diagonal(ix, iy, iz);
     }
 
+    case 'compound':
+      if (config.children?.length) {
+        return calculateCompoundProperties(config, mass).inertia;
+      }
+      return Mat3.diagonal(mass, mass, mass);
+
+    case 'mesh':
+    case 'convex-hull':
+    case 'concave-decomposition': {
+      const polyhedron = calculatePolyhedronProperties(config);
+      if (polyhedron) {
+        return Mat3.scale(polyhedron.inertia, mass / polyhedron.volume);
+      }
+      const avgSize = Math.cbrt(width * height * depth);
+      const i = (2 / 5) * mass * avgSize * avgSize;
+      return Mat3.diagonal(i, i, i);
+    }
+
     default: {
       // Default to sphere-like for unknown shapes
       const avgSize = Math.cbrt(width * height * depth);
@@ -102,17 +122,160 @@ function calculateVolume(type: ObjectType, config: ObjectConfig): number {
       return Math.PI * radius * radius * height + (4 / 3) * Math.PI * radius * radius * radius;
     case 'cone':
       return (1 / 3) * Math.PI * radius * radius * height;
+    case 'compound':
+      return (config.children ?? []).reduce((sum, child) => sum + calculateVolume(child.type, child), 0);
+    case 'mesh':
+    case 'convex-hull':
+    case 'concave-decomposition':
+      return calculatePolyhedronProperties(config)?.volume ?? width * height * depth;
     default:
       return width * height * depth;
   }
 }
 
+/**
+ * Volume, centroid and unit-density inertia (about the centroid) of a closed
+ * triangle mesh, by summing signed tetrahedra; null without usable triangles
+ */
+function calculatePolyhedronProperties(
+  config: ObjectConfig
+): { volume: number; centroid: Vector3; inertia: Matrix3 } | null {
+  const vertices = config.vertices;
+  const indices = config.indices;
+  if (!vertices || !indices || indices.length < 12) return null;
+
+  let volume = 0;
+  let weighted = Vec3.create();
+  const covariance = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+
+  for (let t = 0; t + 2 < indices.length; t += 3) {
+    const a = vertices[indices[t]];
+    const b = vertices[indices[t + 1]];
+    const c = vertices[indices[t + 2]];
+    if (!a || !b || !c) return null;
+
+    // det = 6 × signed volume of the tetrahedron (origin, a, b, c)
+    const det = Vec3.dot(a, Vec3.cross(b, c));
+    const sum = Vec3.add(Vec3.add(a, b), c);
+    volume += det / 6;
+    weighted = Vec3.add(weighted, Vec3.scale(sum, det / 24));
+
+    const pa = [a.x, a.y, a.z];
+    const pb = [b.x, b.y, b.z];
+    const pc = [c.x, c.y, c.z];
+    const ps = [sum.x, sum.y, sum.z];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) {
+        covariance[i * 3 + j] += (det / 120) * (pa[i] * pa[j] + pb[i] * pb[j] + pc[i] * pc[j] + ps[i] * ps[j]);
+      }
+    }
+  }
+
+  if (Math.abs(volume) < 1e-12) return null;
+
+  // Inward winding gives negative volume; flip everything to match
+  const sign = Math.sign(volume);
+  volume *= sign;
+  const centroid = Vec3.scale(weighted, sign / volume);
+  const c = [centroid.x, centroid.y, centroid.z];
+  const C = covariance.map((value, n) => value * sign - volume * c[Math.floor(n / 3)] * c[n % 3]);
+
+  const trace = C[0] + C[4] + C[8];
+  const inertia = Mat3.fromValues(
+    trace - C[0], -C[1], -C[2],
+    -C[3], trace - C[4], -C[5],
+    -C[6], -C[7], trace - C[8]
+  );
+
+  return { volume, centroid, inertia };
+}
+
+/**
+ * Types whose body origin is their centre of mass rather than their authored origin
+ */
+const CENTERED_TYPES: ReadonlySet<ObjectType> = new Set<ObjectType>(['compound', 'convex-hull', 'concave-decomposition']);
+
+/**
+ * Combined mass properties of a compound body. The centre of mass is measured
+ * from the compound's authored origin, in its local frame.
+ */
+interface CompoundMassProperties {
+  mass: number;
+  centerOfMass: Vector3;
+  inertia: Matrix3;
+}
+
+/**
+ * Offset and orientation of a child shape relative to its compound parent
+ */
+function childTransform(child: ObjectConfig): { position: Vector3; rotation: Quaternion } {
+  const p = child.position;
+  const r = child.rotation;
+  return {
+    position: !p ? Vec3.create() : Array.isArray(p) ? Vec3.fromArray(p) : p,
+    rotation: !r ? Quat.identity() : Array.isArray(r) ? { x: r[0], y: r[1], z: r[2], w: r[3] } : r,
+  };
+}
+
+/**
+ * Sum child masses and inertias about the common centre of mass (parallel-axis theorem).
+ * Children without a mass use their density (or the parent's) times their volume; when
+ * totalMass is given, child masses are scaled to match it.
+ */
+function calculateCompoundProperties(config: ObjectConfig, totalMass?: number): CompoundMassProperties {
+  const children = config.children ?? [];
+  const masses = children.map(child =>
+    child.mass ?? (child.density ?? config.density ?? 1) * calculateVolume(child.type, child)
+  );
+  const rawMass = masses.reduce((sum, m) => sum + m, 0);
+  const massScale = totalMass !== undefined && rawMass > 0 ? totalMass / rawMass : 1;
+
+  // Each child's own centre of mass in the parent frame
+  const centers = children.map(child => {
+    const { position, rotation } = childTransform(child);
+    if (child.type !== 'compound' || !child.children?.length) return position;
+    return Vec3.add(position, Quat.rotateVector(rotation, calculateCompoundProperties(child).centerOfMass));
+  });
+
+  const mass = rawMass * massScale;
+  let centerOfMass = Vec3.create();
+  if (mass > 0) {
+    children.forEach((_, i) => {
+      centerOfMass = Vec3.add(centerOfMass, Vec3.scale(centers[i], (masses[i] * massScale) / mass));
+    });
+  }
+
+  let inertia = Mat3.zero();
+  children.forEach((child, i) => {
+    const m = masses[i] * massScale;
+    const R = Quat.toMatrix3(childTransform(child).rotation);
+    const local = calculateInertiaTensor(child.type, child, m);
+    const rotated = Mat3.multiply(Mat3.multiply(R, local), Mat3.transpose(R));
+
+    // Parallel-axis term m (|d|² E - d dᵀ)
+    const d = Vec3.sub(centers[i], centerOfMass);
+    const d2 = Vec3.lengthSquared(d);
+    const shift = Mat3.fromValues(
+      m * (d2 - d.x * d.x), -m * d.x * d.y, -m * d.x * d.z,
+      -m * d.y * d.x, m * (d2 - d.y * d.y), -m * d.y * d.z,
+      -m * d.z * d.x, -m * d.z * d.y, m * (d2 - d.z * d.z)
+    );
+    inertia = Mat3.add(inertia, Mat3.add(rotated, shift));
+  });
+
+  return { mass, centerOfMass, inertia };
+}
+
 /**
  * Calculate bounding volume for shapes
  */
 function calculateBoundingVolume(type: ObjectType, config: ObjectConfig, scale: Vector3): BoundingVolume {
   const { radius = 1, width = 1, height = 1, depth = 1 } = config;
 
+  if (type === 'compound' && config.children?.length) {
+    return calculateCompoundBoundingVolume(config, scale);
+  }
+
   switch (type) {
     case 'sphere':
       return {
@@ -134,6 +297,34 @@ function calculateBoundingVolume(type: ObjectType, config: ObjectConfig, scale:
   }
 }
 
+/**
+ * Box around each child's bounding sphere, relative to the compound's centre of mass
+ */
+function calculateCompoundBoundingVolume(config: ObjectConfig, scale: Vector3): BoundingVolume {
+  const com = Vec3.multiply(calculateCompoundProperties(config).centerOfMass, scale);
+  let min: Vector3 | null = null;
+  let max: Vector3 | null = null;
+
+  for (const child of config.children ?? []) {
+    const volume = calculateBoundingVolume(child.type, child, scale);
+    const { position, rotation } = childTransform(child);
+    const center = Vec3.sub(
+      Vec3.add(Vec3.multiply(position, scale), Quat.rotateVector(rotation, volume.center ?? Vec3.ZERO)),
+      com
+    );
+    const r = volume.radius ?? Vec3.length(volume.halfExtents ?? Vec3.ZERO);
+    const reach = Vec3.create(r, r, r);
+    min = min ? Vec3.min(min, Vec3.sub(center, reach)) : Vec3.sub(center, reach);
+    max = max ? Vec3.max(max, Vec3.add(center, reach)) : Vec3.add(center, reach);
+  }
+
+  return {
+    type: 'box',
+    center: Vec3.scale(Vec3.add(min, max), 0.5),
+    halfExtents: Vec3.scale(Vec3.sub(max, min), 0.5),
+  };
+}
+
 /**
  * Calculate cross-sectional area for drag
  */
@@ -195,6 +386,7 @@ export class PhysicsObject implements SimObject {
   // Collision
   collisionGroup: number;
   collisionMask: number;
+  collisionDetection: CollisionDetectionMode;
 
   // Additional
   charge: number;
@@ -208,6 +400,9 @@ export class PhysicsObject implements SimObject {
   depth: number;
   length: number;
 
+  // Particle geometry, attached by the engine for soft bodies
+  deformable: DeformableGeometry | null = null;
+
   // Internal state
   sleepTime = 0;
   private _accumulatedForce: Vector3 = Vec3.create();
@@ -239,8 +434,19 @@ export class PhysicsObject implements SimObject {
     // Calculate volume
     this._volume = calculateVolume(config.type, config);
 
+    // Compound bodies take their mass from their children and are positioned at their centre of mass
+    const compound = config.type === 'compound' && config.children?.length
+      ? calculateCompoundProperties(config, config.mass)
+      : null;
+    // So are hulls, whose vertices are rarely centred on their centroid
+    const polyhedron = config.type === 'convex-hull' || config.type === 'concave-decomposition'
+      ? calculatePolyhedronProperties(config)
+      : null;
+
     // Mass (either from config or calculated from density)
-    if (config.mass !== undefined) {
+    if (compound) {
+      this._mass = compound.mass;
+    } else if (config.mass !== undefined) {
       this._mass = config.mass;
     } else if (config.density !== undefined) {
       this._mass = config.density * this._volume;
@@ -252,8 +458,9 @@ export class PhysicsObject implements SimObject {
     this.isStatic = config.isStatic ?? false;
     this._inverseMass = this.isStatic ? 0 : 1 / this._mass;
 
-    // Center of mass
-    this.centerOfMass = config.centerOfMass ?? Vec3.create();
+    // Center of mass (for compounds and hulls, measured from the authored origin)
+    this.centerOfMass = compound?.centerOfMass ?? polyhedron?.centroid ?? config.centerOfMass ?? Vec3.create();
+    this.position = Vec3.add(this.position, this._originOffset(this.rotation));
 
     // Inertia tensor
     if (config.inertiaTensor) {
@@ -287,6 +494,7 @@ export class PhysicsObject implements SimObject {
     // Collision
     this.collisionGroup = config.collisionGroup ?? 1;
     this.collisionMask = config.collisionMask ?? 0xffffffff;
+    this.collisionDetection = config.collisionDetection ?? 'discrete';
 
     // Additional properties
     this.charge = config.charge ?? 0;
@@ -502,6 +710,13 @@ export class PhysicsObject implements SimObject {
       totalEnergy: this.kineticEnergy,
       momentum: this.momentum,
       angularMomentum: this.angularMomentum,
+      isSleeping: this.isSleeping,
+      sleepTime: this.sleepTime,
+      mass: this._mass,
+      material: { ...this.material },
+      accumulatedForce: Vec3.clone(this._accumulatedForce),
+      accumulatedTorque: Vec3.clone(this._accumulatedTorque),
+      ...(this.deformable ? { vertices: this.deformable.getVertices() } : {}),
     };
   }
 
@@ -510,11 +725,50 @@ export class PhysicsObject implements SimObject {
     this.rotation = Quat.clone(state.rotation);
     this.velocity = Vec3.clone(state.velocity);
     this.angularVelocity = Vec3.clone(state.angularVelocity);
+
+    // Only reassign a changed mass: the setter recomputes the inertia tensor
+    if (state.mass !== undefined && state.mass !== this._mass) this.mass = state.mass;
+    if (state.material) this.material = { ...this.material, ...state.material };
+    if (state.isSleeping !== undefined) this.isSleeping = state.isSleeping;
+    if (state.sleepTime !== undefined) this.sleepTime = state.sleepTime;
+    if (state.accumulatedForce) this._accumulatedForce = Vec3.clone(state.accumulatedForce);
+    if (state.accumulatedTorque) this._accumulatedTorque = Vec3.clone(state.accumulatedTorque);
+  }
+
+  /**
+   * Reapply the non-kinematic properties of a toJSON() config: damping,
+   * aerodynamics, flags, collision settings and custom data
+   */
+  restoreProperties(config: ObjectConfig): void {
+    this.name = config.name ?? this.name;
+    this.linearDamping = config.linearDamping ?? this.linearDamping;
+    this.angularDamping = config.angularDamping ?? this.angularDamping;
+    this.dragCoefficient = config.dragCoefficient ?? this.dragCoefficient;
+    this.liftCoefficient = config.liftCoefficient ?? this.liftCoefficient;
+    this.crossSectionArea = config.crossSectionArea ?? this.crossSectionArea;
+    this.isKinematic = config.isKinematic ?? this.isKinematic;
+    this.isTrigger = config.isTrigger ?? this.isTrigger;
+    this.collisionGroup = config.collisionGroup ?? this.collisionGroup;
+    this.collisionMask = config.collisionMask ?? this.collisionMask;
+    this.collisionDetection = config.collisionDetection ?? this.collisionDetection;
+    this.charge = config.charge ?? this.charge;
+    this.temperature = config.temperature ?? this.temperature;
+    this.customData = { ...(config.customData ?? this.customData) };
+  }
+
+  /**
+   * The config this object was created from
+   */
+  getInitialConfig(): ObjectConfig {
+    return { ...this._initialState };
   }
 
   reset(): void {
-    this.position = this._parseVector3(this._initialState.position) ?? Vec3.create();
     this.rotation = this._parseQuaternion(this._initialState.rotation) ?? Quat.identity();
+    this.position = Vec3.add(
+      this._parseVector3(this._initialState.position) ?? Vec3.create(),
+      this._originOffset(this.rotation)
+    );
     this.velocity = this._parseVector3(this._initialState.velocity) ?? Vec3.create();
     this.angularVelocity = this._parseVector3(this._initialState.angularVelocity) ?? Vec3.create();
     this.clearAccumulatedForces();
@@ -535,7 +789,7 @@ export class PhysicsObject implements SimObject {
       height: this.height,
       depth: this.depth,
       length: this.length,
-      position: Vec3.toArray(this.position),
+      position: Vec3.toArray(Vec3.sub(this.position, this._originOffset(this.rotation))),
       rotation: [this.rotation.x, this.rotation.y, this.rotation.z, this.rotation.w],
       scale: Vec3.toArray(this.scale),
       mass: this._mass,
@@ -553,9 +807,11 @@ export class PhysicsObject implements SimObject {
       isTrigger: this.isTrigger,
       collisionGroup: this.collisionGroup,
       collisionMask: this.collisionMask,
+      collisionDetection: this.collisionDetection,
       charge: this.charge,
       temperature: this.temperature,
       customData: { ...this.customData },
+      children: this._initialState.children,
     };
   }
 
@@ -654,6 +910,14 @@ export class PhysicsObject implements SimObject {
   // UTILITY METHODS
   // ============================================================================
 
+  /**
+   * World offset from a compound's or hull's authored origin to its centre of mass
+   */
+  private _originOffset(rotation: Quaternion): Vector3 {
+    if (!CENTERED_TYPES.has(this.type)) return Vec3.create();
+    return Quat.rotateVector(rotation, Vec3.multiply(this.centerOfMass, this.scale));
+  }
+
   private _parseVector3(value?: Vector3 | [number, number, number]): Vector3 | undefined {
     if (!value) return undefined;
     if (Array.isArray(value)) {
@@ -175,7 +175,15 @@ export class Environment {
    * Get current configuration
    */
   getConfig(): EnvironmentConfig {
-    return { ...this._config };
+    // Fields and functions are kept apart internally; hand back what configure() accepts
+    return {
+      ...this._config,
+      gravity: this._gravityField ?? this._config.gravity,
+      wind: this._windFunction ?? this._config.wind,
+      magneticField: this._magneticField ?? this._config.magneticField,
+      electricField: this._electricField ?? this._config.electricField,
+      fluidFields: [...this._fluidFields],
+    };
   }
 
   get config(): Required<EnvironmentConfig> {
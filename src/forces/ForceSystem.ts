@@ -10,7 +10,7 @@ import type {
   ForceRecord,
   Vector3,
 } from '../types';
-import { Vec3, MathUtils } from '../math';
+import { Vec3, MathUtils, Random } from '../math';
 import type { PhysicsObject } from '../core/PhysicsObject';
 
 /**
@@ -21,12 +21,28 @@ function noise3D(x: number, y: number, z: number, seed = 0): number {
   return n - Math.floor(n);
 }
 
+/**
+ * Forces that can be evaluated at any point, so they also move the particles
+ * of particle systems
+ */
+const FIELD_TYPES: ReadonlySet<ForceType> = new Set<ForceType>([
+  'attractor', 'repulsor', 'explosion', 'force-field', 'vortex-field', 'noise-field'
+]);
+
 /**
  * Force System - manages all forces in the simulation
  */
 export class ForceSystem {
   private _forces: Map<string, ForceConfig> = new Map();
   private _forceRecords: Map<string, AppliedForce[]> = new Map();
+  private _seed = 0;
+
+  /**
+   * Seed for noise fields that don't set their own
+   */
+  setSeed(seed: number): void {
+    this._seed = seed;
+  }
 
   /**
    * Add a force configuration
@@ -92,15 +108,28 @@ export class ForceSystem {
    */
   applyForces(objects: Map<string, PhysicsObject>, time: number, dt: number): void {
     this._forceRecords.clear();
+    this._accumulateForces(objects, time, dt, true);
+  }
+
+  /**
+   * Re-evaluate continuous forces for the objects' current (trial) states.
+   * One-shot impulses are skipped and force records are left untouched, so
+   * multi-stage integrators can call this between stages.
+   */
+  evaluateForces(objects: Map<string, PhysicsObject>, time: number, dt: number): void {
+    this._accumulateForces(objects, time, dt, false);
+  }
 
+  private _accumulateForces(
+    objects: Map<string, PhysicsObject>,
+    time: number,
+    dt: number,
+    record: boolean
+  ): void {
     for (const [forceId, config] of this._forces) {
       if (!config.enabled) continue;
-
-      // Check timing
-      if (config.startTime !== undefined && time < config.startTime) continue;
-      if (config.duration !== undefined && config.startTime !== undefined) {
-        if (time > config.startTime + config.duration) continue;
-      }
+      if (!record && config.type === 'impulse') continue;
+      if (!this._isActive(config, time)) continue;
 
       // Get target objects
       const targets = this._getTargetObjects(config, objects);
@@ -109,6 +138,7 @@ export class ForceSystem {
         const appliedForce = this._calculateForce(config, obj, objects, time, dt);
         if (appliedForce) {
           obj.applyForce(appliedForce.force, appliedForce.applicationPoint);
+          if (!record) continue;
 
           // Record the force
           if (!this._forceRecords.has(obj.id)) {
@@ -123,6 +153,37 @@ export class ForceSystem {
     }
   }
 
+  /**
+   * Add the field forces on an object's particles to forces (x, y, z per
+   * particle): the attractors, repulsors, explosions and force, vortex and
+   * noise fields targeting the object, each evaluated at the particle. Forces
+   * tied to a body's frame (constant, impulse, torque, spring, thruster) don't
+   * reach particles.
+   */
+  applyFieldForces(
+    objectId: string,
+    positions: Float64Array,
+    velocities: Float64Array,
+    count: number,
+    time: number,
+    forces: Float64Array
+  ): void {
+    for (const config of this._forces.values()) {
+      if (!config.enabled || !FIELD_TYPES.has(config.type)) continue;
+      if (!this._isActive(config, time) || !this._targets(config, objectId)) continue;
+
+      for (let i = 0; i < count; i++) {
+        const position = Vec3.create(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+        const velocity = Vec3.create(velocities[i * 3], velocities[i * 3 + 1], velocities[i * 3 + 2]);
+        const applied = this._calculateFieldForce(config, position, velocity, time);
+        if (!applied) continue;
+        forces[i * 3] += applied.force.x;
+        forces[i * 3 + 1] += applied.force.y;
+        forces[i * 3 + 2] += applied.force.z;
+      }
+    }
+  }
+
   /**
    * Get recorded forces for an object at current time
    */
@@ -146,6 +207,22 @@ export class ForceSystem {
     };
   }
 
+  private _isActive(config: ForceConfig, time: number): boolean {
+    if (config.startTime !== undefined && time < config.startTime) return false;
+    if (config.duration !== undefined && config.startTime !== undefined) {
+      if (time > config.startTime + config.duration) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Whether a force reaches an object, static or not (its particles are free)
+   */
+  private _targets(config: ForceConfig, objectId: string): boolean {
+    if (!config.target || config.target === 'all') return true;
+    return typeof config.target === 'string' ? config.target === objectId : config.target.includes(objectId);
+  }
+
   private _getTargetObjects(config: ForceConfig, objects: Map<string, PhysicsObject>): PhysicsObject[] {
     if (!config.target || config.target === 'all') {
       return Array.from(objects.values()).filter(o => !o.isStatic);
@@ -181,26 +258,38 @@ export class ForceSystem {
       case 'spring':
         return this._applySpringForce(config, obj, objects);
 
+      case 'thruster':
+        return this._applyThrusterForce(config, obj);
+
+      default:
+        return this._calculateFieldForce(config, obj.position, obj.velocity, time);
+    }
+  }
+
+  private _calculateFieldForce(
+    config: ForceConfig,
+    position: Vector3,
+    velocity: Vector3,
+    time: number
+  ): AppliedForce | null {
+    switch (config.type) {
       case 'attractor':
-        return this._applyAttractorForce(config, obj);
+        return this._applyAttractorForce(config, position);
 
       case 'repulsor':
-        return this._applyRepulsorForce(config, obj);
-
-      case 'thruster':
-        return this._applyThrusterForce(config, obj);
+        return this._applyRepulsorForce(config, position);
 
       case 'explosion':
-        return this._applyExplosionForce(config, obj, time);
+        return this._applyExplosionForce(config, position, time);
 
       case 'force-field':
-        return this._applyForceField(config, obj, time);
+        return this._applyForceField(config, position, velocity, time);
 
       case 'vortex-field':
-        return this._applyVortexField(config, obj);
+        return this._applyVortexField(config, position);
 
       case 'noise-field':
-        return this._applyNoiseField(config, obj, time);
+        return this._applyNoiseField(config, position, time);
 
       default:
         return null;
@@ -315,12 +404,12 @@ export class ForceSystem {
     };
   }
 
-  private _applyAttractorForce(config: ForceConfig, obj: PhysicsObject): AppliedForce | null {
+  private _applyAttractorForce(config: ForceConfig, position: Vector3): AppliedForce | null {
     const center = this._parseVector3(config.center) ?? Vec3.ZERO;
     const magnitude = config.magnitude ?? 100;
     const maxDistance = config.maxDistance ?? Infinity;
 
-    const direction = Vec3.sub(center, obj.position);
+    const direction = Vec3.sub(center, position);
     const distance = Vec3.length(direction);
 
     if (distance > maxDistance || distance < 0.001) return null;
@@ -337,17 +426,17 @@ export class ForceSystem {
       type: 'attractor',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
 
-  private _applyRepulsorForce(config: ForceConfig, obj: PhysicsObject): AppliedForce | null {
+  private _applyRepulsorForce(config: ForceConfig, position: Vector3): AppliedForce | null {
     const center = this._parseVector3(config.center) ?? Vec3.ZERO;
     const magnitude = config.magnitude ?? 100;
     const maxDistance = config.maxDistance ?? Infinity;
 
-    const direction = Vec3.sub(obj.position, center);
+    const direction = Vec3.sub(position, center);
     const distance = Vec3.length(direction);
 
     if (distance > maxDistance || distance < 0.001) return null;
@@ -364,7 +453,7 @@ export class ForceSystem {
       type: 'repulsor',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
@@ -391,7 +480,7 @@ export class ForceSystem {
     };
   }
 
-  private _applyExplosionForce(config: ForceConfig, obj: PhysicsObject, time: number): AppliedForce | null {
+  private _applyExplosionForce(config: ForceConfig, position: Vector3, time: number): AppliedForce | null {
     const center = this._parseVector3(config.center) ?? Vec3.ZERO;
     const magnitude = config.magnitude ?? 10000;
     const maxDistance = config.maxDistance ?? 10;
@@ -401,7 +490,7 @@ export class ForceSystem {
     // Explosion only applies during its duration
     if (time < startTime || time > startTime + duration) return null;
 
-    const direction = Vec3.sub(obj.position, center);
+    const direction = Vec3.sub(position, center);
     const distance = Vec3.length(direction);
 
     if (distance > maxDistance || distance < 0.001) return null;
@@ -421,26 +510,26 @@ export class ForceSystem {
       type: 'explosion',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
 
-  private _applyForceField(config: ForceConfig, obj: PhysicsObject, time: number): AppliedForce | null {
+  private _applyForceField(config: ForceConfig, position: Vector3, velocity: Vector3, time: number): AppliedForce | null {
     if (!config.fieldFunction) return null;
 
-    const force = config.fieldFunction(obj.position, obj.velocity, time);
+    const force = config.fieldFunction(position, velocity, time);
 
     return {
       type: 'force-field',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
 
-  private _applyVortexField(config: ForceConfig, obj: PhysicsObject): AppliedForce | null {
+  private _applyVortexField(config: ForceConfig, position: Vector3): AppliedForce | null {
     const center = this._parseVector3(config.center) ?? Vec3.ZERO;
     const axis = Vec3.normalize(this._parseVector3(config.axis) ?? Vec3.UP);
     const tangentialStrength = config.tangentialStrength ?? 100;
@@ -448,7 +537,7 @@ export class ForceSystem {
     const maxDistance = config.maxDistance ?? Infinity;
 
     // Vector from center to object
-    const toObj = Vec3.sub(obj.position, center);
+    const toObj = Vec3.sub(position, center);
     
     // Project onto plane perpendicular to axis
     const alongAxis = Vec3.scale(axis, Vec3.dot(toObj, axis));
@@ -471,28 +560,32 @@ export class ForceSystem {
       type: 'vortex-field',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
 
-  private _applyNoiseField(config: ForceConfig, obj: PhysicsObject, time: number): AppliedForce | null {
+  private _applyNoiseField(config: ForceConfig, position: Vector3, time: number): AppliedForce | null {
     const frequency = config.frequency ?? 1;
     const amplitude = config.amplitude ?? 100;
     const octaves = config.octaves ?? 3;
 
+    // Seed 0 keeps the original pattern; other seeds shift to an unrelated region of the noise
+    const seed = config.seed ?? this._seed;
+    const offset = seed === 0 ? 0 : new Random(seed).range(0, 10000);
+
     let fx = 0, fy = 0, fz = 0;
     let amp = amplitude;
     let freq = frequency;
 
     for (let i = 0; i < octaves; i++) {
-      const px = obj.position.x * freq + time;
-      const py = obj.position.y * freq + time;
-      const pz = obj.position.z * freq + time;
+      const px = position.x * freq + time;
+      const py = position.y * freq + time;
+      const pz = position.z * freq + time;
 
-      fx += (noise3D(px, py, pz, 0) - 0.5) * 2 * amp;
-      fy += (noise3D(px, py, pz, 100) - 0.5) * 2 * amp;
-      fz += (noise3D(px, py, pz, 200) - 0.5) * 2 * amp;
+      fx += (noise3D(px, py, pz, offset) - 0.5) * 2 * amp;
+      fy += (noise3D(px, py, pz, offset + 100) - 0.5) * 2 * amp;
+      fz += (noise3D(px, py, pz, offset + 200) - 0.5) * 2 * amp;
 
       amp *= 0.5;
       freq *= 2;
@@ -504,7 +597,7 @@ export class ForceSystem {
       type: 'noise-field',
       sourceId: null,
       force,
-      applicationPoint: obj.position,
+      applicationPoint: position,
       torque: Vec3.ZERO,
     };
   }
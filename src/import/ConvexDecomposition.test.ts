@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { QuickHull, ConvexDecomposition } from './ConvexDecomposition';
+import { Engine } from '../core/Engine';
+import { Vector3 } from '../types';
+import { Vec3, Quat } from '../math';
+
+/**
+ * Closed, 1 m thick L-shaped prism: a 2x2 square with its upper-right 1.5x1.5
+ * corner removed
+ */
+function lShape(): { vertices: Vector3[]; indices: number[] } {
+  const outline = [[0, 0], [2, 0], [2, 0.5], [0.5, 0.5], [0.5, 2], [0, 2], [0, 0.5]];
+  const n = outline.length;
+  const vertices: Vector3[] = [];
+  const indices: number[] = [];
+
+  for (const [x, y] of outline) vertices.push({ x, y, z: 0.5 });
+  for (const [x, y] of outline) vertices.push({ x, y, z: -0.5 });
+  // Caps fan out from the inner corner, which sees every other outline vertex
+  for (let i = 0; i < n - 2; i++) {
+    indices.push(6, i, i + 1);
+    indices.push(n + 6, n + i + 1, n + i);
+  }
+  for (let i = 0; i < n; i++) {
+    const j = (i + 1) % n;
+    indices.push(i, n + j, j, i, n + i, n + j);
+  }
+
+  return { vertices, indices };
+}
+
+// ============================================================================
+// QUICKHULL
+// ============================================================================
+
+describe('QuickHull', () => {
+  it('hulls a cube, ignoring interior points', () => {
+    const points: Vector3[] = [{ x: 0.5, y: 0.5, z: 0.5 }, { x: 0.2, y: 0.7, z: 0.4 }];
+    for (const x of [0, 1]) for (const y of [0, 1]) for (const z of [0, 1]) points.push({ x, y, z });
+    const hull = QuickHull.compute(points)!;
+
+    expect(hull.vertices).toHaveLength(8);
+    expect(hull.indices).toHaveLength(12 * 3);
+    expect(hull.volume).toBeCloseTo(1, 9);
+  });
+
+  it('returns null for coplanar points', () => {
+    expect(QuickHull.compute([{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }, { x: 1, y: 1, z: 0 }])).toBeNull();
+  });
+});
+
+// ============================================================================
+// CONVEX DECOMPOSITION
+// ============================================================================
+
+describe('ConvexDecomposition', () => {
+  it('splits a concave mesh into several hulls close to its volume', () => {
+    const { vertices, indices } = lShape();
+    const hulls = ConvexDecomposition.decompose(vertices, indices);
+    const volume = hulls.reduce((sum, hull) => sum + hull.volume, 0);
+
+    expect(hulls.length).toBeGreaterThan(1);
+    expect(QuickHull.volume(vertices, indices)).toBeCloseTo(1.75, 9);
+    // A single hull would fill the notch: 2 - 0.5 * 1.5 * 1.5 = 2.875
+    expect(volume).toBeLessThan(2.2);
+    expect(volume).toBeGreaterThan(1.5);
+  });
+
+  it("lets a ball fall into the notch of a 'concave-decomposition' body", () => {
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.setEnvironment({ gravity: { x: 0, y: -9.81, z: 0 } });
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+    engine.addObject({ id: 'L', type: 'concave-decomposition', ...lShape(), mass: 5, position: { x: -0.7, y: 0.2, z: 0 } });
+    const ball = engine.addObject({ id: 'ball', type: 'sphere', radius: 0.2, mass: 0.5, position: { x: 0.6, y: 2.5, z: 0 } });
+    for (let i = 0; i < 300; i++) engine.step();
+
+    // Resting on the lower arm (top at y = 0.5), well below the hull's diagonal
+    expect(ball.position.y).toBeCloseTo(0.7, 1);
+    expect(engine.getObject('L')!.rotation.w).toBeCloseTo(1, 3);
+  });
+
+  it('centres hull bodies authored away from their origin on their centroid', () => {
+    const corners: Vector3[] = [];
+    for (const x of [4, 5]) for (const y of [0, 1]) for (const z of [0, 1]) corners.push({ x, y, z });
+    const { vertices, indices } = QuickHull.compute(corners)!;
+
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+    const hull = engine.addObject({ id: 'hull', type: 'convex-hull', vertices, indices, mass: 1, position: { x: 0, y: 1, z: 0 } });
+    const pieces = engine.addObject({ id: 'pieces', type: 'concave-decomposition', ...lShape(), mass: 1, position: { x: -6, y: 1, z: 0 } });
+    expect(hull.position.x).toBeCloseTo(4.5, 9);
+    expect(hull.position.y).toBeCloseTo(1.5, 9);
+    expect(hull.position.z).toBeCloseTo(0.5, 9);
+    for (let i = 0; i < 180; i++) engine.step();
+
+    // Resting flat where they were dropped, not tipped over about the authored origin
+    expect(hull.position.x).toBeCloseTo(4.5, 2);
+    expect(hull.position.y).toBeCloseTo(0.5, 1);
+    expect(hull.rotation.w).toBeCloseTo(1, 3);
+    expect(pieces.rotation.w).toBeCloseTo(1, 3);
+    expect(pieces.position.y).toBeGreaterThan(0.5);
+
+    // Saved at the authored origin
+    const origin = Vec3.sub(hull.position, Quat.rotateVector(hull.rotation, { x: 4.5, y: 0.5, z: 0.5 }));
+    const saved = engine.toJSON().objects.find(o => o.id === 'hull')!.position as number[];
+    saved.forEach((value, i) => expect(value).toBeCloseTo(Vec3.toArray(origin)[i], 9));
+  });
+
+  it('decomposes a body once, not on every snapshot restore', () => {
+    const decompose = vi.spyOn(ConvexDecomposition, 'decompose');
+    const engine = new Engine({ timeStep: 1 / 60 });
+    engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+    const body = engine.addObject({ id: 'L', type: 'concave-decomposition', ...lShape(), mass: 5, position: { x: 0, y: 1, z: 0 } });
+    const snapshot = engine.createSnapshot();
+    for (let i = 0; i < 30; i++) engine.step();
+    const y = body.position.y;
+
+    engine.restoreSnapshot(snapshot);
+    engine.restoreSnapshot(snapshot);
+    for (let i = 0; i < 30; i++) engine.step();
+
+    expect(decompose).toHaveBeenCalledTimes(1);
+    expect(body.position.y).toBe(y);
+    decompose.mockRestore();
+  });
+});
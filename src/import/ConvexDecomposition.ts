@@ -0,0 +1,487 @@
+/**
+ * ASIMULATE SDK - Convex Decomposition
+ * Quickhull convex hulls and approximate (voxel-based) convex decomposition of concave meshes
+ */
+
+import { Vector3 } from '../types';
+import { Vec3 } from '../math';
+
+// ============================================================================
+// Quickhull
+// ============================================================================
+
+export interface ConvexHull {
+  vertices: Vector3[];
+  indices: number[]; // Triangles wound counter-clockwise seen from outside
+  volume: number;
+}
+
+interface HullFace {
+  a: number;
+  b: number;
+  c: number;
+  normal: Vector3;
+  offset: number;
+  outside: number[];
+}
+
+/**
+ * 3D quickhull over a point cloud
+ */
+export class QuickHull {
+  /**
+   * Convex hull of the points, or null if they are (nearly) coplanar
+   */
+  static compute(points: Vector3[]): ConvexHull | null {
+    if (points.length < 4) return null;
+
+    const bounds = this.bounds(points);
+    const epsilon = 1e-9 * Math.max(1, Vec3.length(Vec3.sub(bounds.max, bounds.min)));
+
+    const initial = this.initialSimplex(points, epsilon);
+    if (!initial) return null;
+
+    const [i0, i1, i2, i3] = initial;
+    const interior = Vec3.scale(
+      Vec3.add(Vec3.add(points[i0], points[i1]), Vec3.add(points[i2], points[i3])),
+      0.25
+    );
+
+    const makeFace = (a: number, b: number, c: number): HullFace | null => {
+      let normal = Vec3.cross(Vec3.sub(points[b], points[a]), Vec3.sub(points[c], points[a]));
+      const len = Vec3.length(normal);
+      if (len < epsilon * epsilon) return null;
+      normal = Vec3.scale(normal, 1 / len);
+      if (Vec3.dot(normal, Vec3.sub(points[a], interior)) < 0) {
+        return { a, b: c, c: b, normal: Vec3.negate(normal), offset: -Vec3.dot(normal, points[a]), outside: [] };
+      }
+      return { a, b, c, normal, offset: Vec3.dot(normal, points[a]), outside: [] };
+    };
+
+    let faces: HullFace[] = [];
+    for (const [a, b, c] of [[i0, i1, i2], [i0, i1, i3], [i0, i2, i3], [i1, i2, i3]]) {
+      const face = makeFace(a, b, c);
+      if (!face) return null;
+      faces.push(face);
+    }
+
+    const assign = (candidates: number[], targets: HullFace[]) => {
+      for (const p of candidates) {
+        let best: HullFace | null = null;
+        let bestDistance = epsilon;
+        for (const face of targets) {
+          const distance = Vec3.dot(face.normal, points[p]) - face.offset;
+          if (distance > bestDistance) {
+            bestDistance = distance;
+            best = face;
+          }
+        }
+        best?.outside.push(p);
+      }
+    };
+
+    const used = new Set(initial);
+    assign(points.map((_, i) => i).filter(i => !used.has(i)), faces);
+
+    for (let iteration = 0; iteration < points.length; iteration++) {
+      const face = faces.find(f => f.outside.length > 0);
+      if (!face) break;
+
+      // Farthest outside point of this face becomes the next hull vertex
+      let eye = face.outside[0];
+      let eyeDistance = -Infinity;
+      for (const p of face.outside) {
+        const distance = Vec3.dot(face.normal, points[p]) - face.offset;
+        if (distance > eyeDistance) {
+          eyeDistance = distance;
+          eye = p;
+        }
+      }
+
+      const visible: HullFace[] = [];
+      const remaining: HullFace[] = [];
+      for (const f of faces) {
+        (Vec3.dot(f.normal, points[eye]) - f.offset > epsilon ? visible : remaining).push(f);
+      }
+
+      // Horizon: directed edges of visible faces whose twin is not visible
+      const edges = new Map<string, [number, number]>();
+      for (const f of visible) {
+        for (const [u, v] of [[f.a, f.b], [f.b, f.c], [f.c, f.a]]) {
+          const twin = `${v}:${u}`;
+          if (edges.has(twin)) {
+            edges.delete(twin);
+          } else {
+            edges.set(`${u}:${v}`, [u, v]);
+          }
+        }
+      }
+
+      const created: HullFace[] = [];
+      for (const [u, v] of edges.values()) {
+        const f = makeFace(u, v, eye);
+        if (f) created.push(f);
+      }
+
+      const orphans = visible.flatMap(f => f.outside).filter(p => p !== eye);
+      faces = remaining.concat(created);
+      assign(orphans, created);
+    }
+
+    return this.compact(points, faces);
+  }
+
+  /**
+   * Signed volume of a closed triangle mesh (positive for outward winding)
+   */
+  static volume(vertices: Vector3[], indices: number[]): number {
+    let volume = 0;
+    for (let i = 0; i + 2 < indices.length; i += 3) {
+      const a = vertices[indices[i]];
+      const b = vertices[indices[i + 1]];
+      const c = vertices[indices[i + 2]];
+      volume += Vec3.dot(a, Vec3.cross(b, c)) / 6;
+    }
+    return volume;
+  }
+
+  private static bounds(points: Vector3[]): { min: Vector3; max: Vector3 } {
+    let min = { ...points[0] };
+    let max = { ...points[0] };
+    for (const p of points) {
+      min = Vec3.min(min, p);
+      max = Vec3.max(max, p);
+    }
+    return { min, max };
+  }
+
+  /**
+   * Four affinely independent extreme points to seed the hull
+   */
+  private static initialSimplex(points: Vector3[], epsilon: number): [number, number, number, number] | null {
+    // Widest pair among the axis extremes
+    const extremes: number[] = [];
+    for (const axis of ['x', 'y', 'z'] as const) {
+      let lo = 0;
+      let hi = 0;
+      points.forEach((p, i) => {
+        if (p[axis] < points[lo][axis]) lo = i;
+        if (p[axis] > points[hi][axis]) hi = i;
+      });
+      extremes.push(lo, hi);
+    }
+
+    let i0 = extremes[0];
+    let i1 = extremes[1];
+    let widest = -1;
+    for (const a of extremes) {
+      for (const b of extremes) {
+        const d = Vec3.distance(points[a], points[b]);
+        if (d > widest) {
+          widest = d;
+          i0 = a;
+          i1 = b;
+        }
+      }
+    }
+    if (widest < epsilon) return null;
+
+    // Farthest from the line
+    const line = Vec3.normalize(Vec3.sub(points[i1], points[i0]));
+    let i2 = -1;
+    let best = epsilon;
+    points.forEach((p, i) => {
+      const d = Vec3.length(Vec3.cross(Vec3.sub(p, points[i0]), line));
+      if (d > best) {
+        best = d;
+        i2 = i;
+      }
+    });
+    if (i2 < 0) return null;
+
+    // Farthest from the plane
+    const normal = Vec3.normalize(Vec3.cross(Vec3.sub(points[i1], points[i0]), Vec3.sub(points[i2], points[i0])));
+    let i3 = -1;
+    best = epsilon;
+    points.forEach((p, i) => {
+      const d = Math.abs(Vec3.dot(Vec3.sub(p, points[i0]), normal));
+      if (d > best) {
+        best = d;
+        i3 = i;
+      }
+    });
+    if (i3 < 0) return null;
+
+    return [i0, i1, i2, i3];
+  }
+
+  private static compact(points: Vector3[], faces: HullFace[]): ConvexHull {
+    const remap = new Map<number, number>();
+    const vertices: Vector3[] = [];
+    const indices: number[] = [];
+
+    for (const face of faces) {
+      for (const p of [face.a, face.b, face.c]) {
+        if (!remap.has(p)) {
+          remap.set(p, vertices.length);
+          vertices.push({ ...points[p] });
+        }
+        indices.push(remap.get(p)!);
+      }
+    }
+
+    return { vertices, indices, volume: this.volume(vertices, indices) };
+  }
+}
+
+// ============================================================================
+// Approximate Convex Decomposition
+// ============================================================================
+
+export interface DecompositionOptions {
+  resolution?: number; // Voxels along the longest axis
+  maxHulls?: number;
+  concavity?: number; // Stop splitting parts whose hull exceeds their volume by this fraction of the total
+  planeSamples?: number; // Candidate cutting planes per axis
+}
+
+const DEFAULT_DECOMPOSITION: Required<DecompositionOptions> = {
+  resolution: 24,
+  maxHulls: 8,
+  concavity: 0.02,
+  planeSamples: 6
+};
+
+interface VoxelPart {
+  voxels: number[]; // Packed grid indices
+  hull: ConvexHull | null;
+  concavity: number;
+}
+
+/**
+ * V-HACD style decomposition: voxelize the mesh, then recursively cut the voxel
+ * set with axis-aligned planes that minimize the hulls' excess volume
+ */
+export class ConvexDecomposition {
+  /**
+   * Split a closed triangle mesh into convex hulls
+   */
+  static decompose(vertices: Vector3[], indices: number[], options: DecompositionOptions = {}): ConvexHull[] {
+    const settings = { ...DEFAULT_DECOMPOSITION, ...options };
+    const grid = VoxelGrid.fromMesh(vertices, indices, settings.resolution);
+
+    const whole = QuickHull.compute(vertices);
+    if (!grid || grid.filled.length === 0) {
+      return whole ? [whole] : [];
+    }
+
+    const totalVolume = grid.filled.length * grid.voxelVolume;
+    const evaluate = (voxels: number[]): VoxelPart => {
+      const hull = QuickHull.compute(grid.boundaryCorners(voxels));
+      const excess = hull ? Math.max(0, hull.volume - voxels.length * grid.voxelVolume) : 0;
+      return { voxels, hull, concavity: excess / totalVolume };
+    };
+
+    const parts = [evaluate(grid.filled)];
+
+    while (parts.length < settings.maxHulls) {
+      // Refine the most concave part first
+      parts.sort((p, q) => q.concavity - p.concavity);
+      const worst = parts[0];
+      if (worst.concavity <= settings.concavity) break;
+
+      const split = this.bestSplit(grid, worst.voxels, settings.planeSamples, evaluate);
+      if (!split) break;
+      parts.splice(0, 1, split[0], split[1]);
+    }
+
+    return parts.map(p => p.hull).filter((h): h is ConvexHull => h !== null);
+  }
+
+  private static bestSplit(
+    grid: VoxelGrid,
+    voxels: number[],
+    samples: number,
+    evaluate: (voxels: number[]) => VoxelPart
+  ): [VoxelPart, VoxelPart] | null {
+    let best: [VoxelPart, VoxelPart] | null = null;
+    let bestCost = Infinity;
+
+    for (let axis = 0; axis < 3; axis++) {
+      const coords = voxels.map(v => grid.coordinate(v)[axis]);
+      const lo = Math.min(...coords);
+      const hi = Math.max(...coords);
+      if (hi <= lo) continue;
+
+      for (let s = 1; s <= samples; s++) {
+        const cut = lo + Math.round(((hi - lo + 1) * s) / (samples + 1));
+        if (cut <= lo || cut > hi) continue;
+
+        const below = voxels.filter((_, i) => coords[i] < cut);
+        const above = voxels.filter((_, i) => coords[i] >= cut);
+        if (below.length === 0 || above.length === 0) continue;
+
+        const a = evaluate(below);
+        const b = evaluate(above);
+        // Prefer balanced cuts when concavity is similar
+        const balance = Math.abs(below.length - above.length) / voxels.length;
+        const cost = a.concavity + b.concavity + 0.01 * balance;
+        if (cost < bestCost) {
+          bestCost = cost;
+          best = [a, b];
+        }
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Solid voxelization of a closed mesh by parity ray casting along x
+ */
+class VoxelGrid {
+  filled: number[] = [];
+  private occupied: Uint8Array;
+
+  private constructor(
+    readonly origin: Vector3,
+    readonly size: number,
+    readonly dims: [number, number, number]
+  ) {
+    this.occupied = new Uint8Array(dims[0] * dims[1] * dims[2]);
+  }
+
+  get voxelVolume(): number {
+    return this.size * this.size * this.size;
+  }
+
+  static fromMesh(vertices: Vector3[], indices: number[], resolution: number): VoxelGrid | null {
+    if (vertices.length === 0 || indices.length < 3) return null;
+
+    let min = { ...vertices[0] };
+    let max = { ...vertices[0] };
+    for (const v of vertices) {
+      min = Vec3.min(min, v);
+      max = Vec3.max(max, v);
+    }
+    const extent = Vec3.sub(max, min);
+    const size = Math.max(extent.x, extent.y, extent.z) / resolution;
+    if (size <= 0) return null;
+
+    const dims: [number, number, number] = [
+      Math.max(1, Math.ceil(extent.x / size)),
+      Math.max(1, Math.ceil(extent.y / size)),
+      Math.max(1, Math.ceil(extent.z / size))
+    ];
+    const grid = new VoxelGrid(min, size, dims);
+
+    // Crossing x positions for each (y, z) row through voxel centers
+    const rows = new Map<number, number[]>();
+    for (let t = 0; t + 2 < indices.length; t += 3) {
+      const a = vertices[indices[t]];
+      const b = vertices[indices[t + 1]];
+      const c = vertices[indices[t + 2]];
+
+      const jMin = Math.max(0, Math.ceil((Math.min(a.y, b.y, c.y) - min.y) / size - 0.5));
+      const jMax = Math.min(dims[1] - 1, Math.floor((Math.max(a.y, b.y, c.y) - min.y) / size - 0.5));
+      const kMin = Math.max(0, Math.ceil((Math.min(a.z, b.z, c.z) - min.z) / size - 0.5));
+      const kMax = Math.min(dims[2] - 1, Math.floor((Math.max(a.z, b.z, c.z) - min.z) / size - 0.5));
+
+      for (let j = jMin; j <= jMax; j++) {
+        for (let k = kMin; k <= kMax; k++) {
+          const y = min.y + (j + 0.5) * size;
+          const z = min.z + (k + 0.5) * size;
+          const x = VoxelGrid.crossRow(a, b, c, y, z);
+          if (x === null) continue;
+          const key = j * dims[2] + k;
+          const list = rows.get(key);
+          if (list) list.push(x);
+          else rows.set(key, [x]);
+        }
+      }
+    }
+
+    for (const [key, crossings] of rows) {
+      const j = Math.floor(key / dims[2]);
+      const k = key % dims[2];
+      crossings.sort((p, q) => p - q);
+
+      for (let n = 0; n + 1 < crossings.length; n += 2) {
+        const iStart = Math.max(0, Math.ceil((crossings[n] - min.x) / size - 0.5));
+        const iEnd = Math.min(dims[0] - 1, Math.floor((crossings[n + 1] - min.x) / size - 0.5));
+        for (let i = iStart; i <= iEnd; i++) {
+          grid.occupied[grid.index(i, j, k)] = 1;
+        }
+      }
+    }
+
+    grid.occupied.forEach((v, index) => {
+      if (v) grid.filled.push(index);
+    });
+    return grid;
+  }
+
+  /**
+   * X where the line parallel to the x axis through (y, z) meets triangle abc
+   */
+  private static crossRow(a: Vector3, b: Vector3, c: Vector3, y: number, z: number): number | null {
+    // Barycentric coordinates in the yz projection
+    const d = (b.y - a.y) * (c.z - a.z) - (c.y - a.y) * (b.z - a.z);
+    if (Math.abs(d) < 1e-12) return null;
+
+    const u = ((y - a.y) * (c.z - a.z) - (c.y - a.y) * (z - a.z)) / d;
+    const v = ((b.y - a.y) * (z - a.z) - (y - a.y) * (b.z - a.z)) / d;
+    if (u < 0 || v < 0 || u + v > 1) return null;
+
+    return a.x + u * (b.x - a.x) + v * (c.x - a.x);
+  }
+
+  index(i: number, j: number, k: number): number {
+    return (i * this.dims[1] + j) * this.dims[2] + k;
+  }
+
+  coordinate(index: number): [number, number, number] {
+    const k = index % this.dims[2];
+    const j = Math.floor(index / this.dims[2]) % this.dims[1];
+    const i = Math.floor(index / (this.dims[1] * this.dims[2]));
+    return [i, j, k];
+  }
+
+  /**
+   * Unique corner points of the voxels on the surface of a voxel set
+   */
+  boundaryCorners(voxels: number[]): Vector3[] {
+    const members = new Set(voxels);
+    const corners = new Map<string, Vector3>();
+
+    for (const voxel of voxels) {
+      const [i, j, k] = this.coordinate(voxel);
+      const interior =
+        i > 0 && i < this.dims[0] - 1 && j > 0 && j < this.dims[1] - 1 && k > 0 && k < this.dims[2] - 1 &&
+        members.has(this.index(i - 1, j, k)) && members.has(this.index(i + 1, j, k)) &&
+        members.has(this.index(i, j - 1, k)) && members.has(this.index(i, j + 1, k)) &&
+        members.has(this.index(i, j, k - 1)) && members.has(this.index(i, j, k + 1));
+      if (interior) continue;
+
+      for (let di = 0; di <= 1; di++) {
+        for (let dj = 0; dj <= 1; dj++) {
+          for (let dk = 0; dk <= 1; dk++) {
+            const key = `${i + di}:${j + dj}:${k + dk}`;
+            if (!corners.has(key)) {
+              corners.set(key, {
+                x: this.origin.x + (i + di) * this.size,
+                y: this.origin.y + (j + dj) * this.size,
+                z: this.origin.z + (k + dk) * this.size
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(corners.values());
+  }
+}
+
+export default ConvexDecomposition;
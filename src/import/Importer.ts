@@ -8,8 +8,12 @@ import {
   Quaternion,
   ObjectConfig,
   RecordingData,
-  ImportFormat
+  ImportFormat,
+  ImportOptions,
+  ColliderGenerationType
 } from '../types';
+import { Vec3, Quat } from '../math';
+import { QuickHull, ConvexDecomposition, ConvexHull, DecompositionOptions } from './ConvexDecomposition';
 
 export interface MeshData {
   vertices: Float32Array;
@@ -41,8 +45,22 @@ export interface ImportedModel {
     roughness?: number;
     metallic?: number;
   }>;
+  objects?: ObjectConfig[]; // Physics objects, when collider generation was requested
 }
 
+export interface PhysicsConversionOptions extends ImportOptions {
+  density?: number;
+  friction?: number;
+  restitution?: number;
+  convexDecomposition?: boolean; // Alias for decompose
+  decomposition?: DecompositionOptions;
+}
+
+/**
+ * Hull volume may exceed the mesh volume by this fraction before 'auto' decomposes
+ */
+const AUTO_CONVEX_TOLERANCE = 0.05;
+
 export interface ParseResult<T> {
   success: boolean;
   data?: T;
@@ -57,16 +75,17 @@ export class Importer {
    */
   static async import(
     data: string | ArrayBuffer,
-    format: ImportFormat
+    format: ImportFormat,
+    options?: PhysicsConversionOptions
   ): Promise<ParseResult<ImportedModel | RecordingData | ObjectConfig[]>> {
     switch (format) {
       case 'obj':
-        return this.parseOBJ(data as string);
+        return this.withColliders(this.parseOBJ(data as string), options);
       case 'gltf':
       case 'glb':
-        return this.parseGLTF(data);
+        return this.withColliders(this.parseGLTF(data), options);
       case 'stl':
-        return this.parseSTL(data);
+        return this.withColliders(this.parseSTL(data), options);
       case 'fbx':
         return { success: false, errors: ['FBX format requires external library'], warnings: [] };
       case 'json':
@@ -78,6 +97,20 @@ export class Importer {
     }
   }
 
+  /**
+   * Attach physics objects to a parsed model when a collider was requested
+   */
+  private static withColliders(
+    result: ParseResult<ImportedModel>,
+    options?: PhysicsConversionOptions
+  ): ParseResult<ImportedModel> {
+    const requested = options?.generateCollider || options?.decompose || options?.convexDecomposition;
+    if (result.success && result.data && requested) {
+      result.data.objects = this.modelToPhysicsObjects(result.data, options);
+    }
+    return result;
+  }
+
   /**
    * Parse OBJ file format
    */
@@ -623,46 +656,171 @@ export class Importer {
   }
 
   /**
-   * Convert imported model to physics object configs
+   * Convert imported model to physics object configs.
+   * generateCollider picks the shape: 'mesh' (static triangle mesh), 'convex' (single hull),
+   * 'box'/'sphere' (bounds), or 'auto' (a hull when the mesh is nearly convex, otherwise a
+   * decomposition). With decompose, concave meshes become compounds of convex hulls.
    */
   static modelToPhysicsObjects(
     model: ImportedModel,
-    options: {
-      density?: number;
-      friction?: number;
-      restitution?: number;
-      convexDecomposition?: boolean;
-    } = {}
+    options: PhysicsConversionOptions = {}
   ): ObjectConfig[] {
     const configs: ObjectConfig[] = [];
     const density = options.density ?? 1;
-    const friction = options.friction ?? 0.5;
-    const restitution = options.restitution ?? 0.3;
+    const material = {
+      friction: options.friction ?? 0.5,
+      restitution: options.restitution ?? 0.3,
+      ...options.material
+    };
+    const decompose = options.decompose ?? options.convexDecomposition ?? false;
+    const generate: ColliderGenerationType = options.generateCollider ?? (decompose ? 'auto' : 'mesh');
+    const scale = options.scale ?? 1;
 
     for (const node of model.nodes) {
-      if (node.meshIndex !== undefined && node.meshIndex < model.meshes.length) {
-        const mesh = model.meshes[node.meshIndex];
-        const mass = mesh.volume * density;
-
-        configs.push({
-          type: 'mesh',
-          position: node.position,
-          rotation: node.rotation,
-          scale: node.scale,
-          mass,
-          friction,
-          restitution,
-          meshData: {
-            vertices: Array.from(mesh.vertices),
-            indices: Array.from(mesh.indices),
-            normals: mesh.normals ? Array.from(mesh.normals) : undefined
-          }
-        });
+      if (node.meshIndex === undefined || node.meshIndex >= model.meshes.length) continue;
+
+      const mesh = model.meshes[node.meshIndex];
+      const vertices: Vector3[] = [];
+      for (let i = 0; i + 2 < mesh.vertices.length; i += 3) {
+        vertices.push({ x: mesh.vertices[i] * scale, y: mesh.vertices[i + 1] * scale, z: mesh.vertices[i + 2] * scale });
       }
+      const indices = mesh.indices.length >= 3 ? Array.from(mesh.indices) : vertices.map((_, i) => i);
+
+      const shape = this.generateShape(vertices, indices, generate, decompose, options.decomposition);
+      if (!shape) continue;
+
+      const volume = this.shapeVolume(shape);
+      const mass = typeof options.mass === 'number' ? options.mass : volume * density;
+      const rotation = options.rotation ?? node.rotation;
+      const origin = options.position ?? node.position;
+
+      configs.push({
+        ...shape,
+        name: node.name,
+        // Shapes are centered on their centroid; keep the mesh where it was authored
+        position: Vec3.add(origin, Quat.rotateVector(rotation, Vec3.multiply(shape.position as Vector3, node.scale))),
+        rotation,
+        scale: node.scale,
+        mass,
+        material,
+        isStatic: shape.type === 'mesh'
+      });
     }
 
     return configs;
   }
+
+  /**
+   * Collider config for one mesh, positioned at its centroid (position holds that offset)
+   */
+  private static generateShape(
+    vertices: Vector3[],
+    indices: number[],
+    generate: ColliderGenerationType,
+    decompose: boolean,
+    decomposition?: DecompositionOptions
+  ): ObjectConfig | null {
+    if (vertices.length === 0) return null;
+
+    const bounds = this.calculateBoundingBox(vertices.flatMap(v => [v.x, v.y, v.z]));
+    const boundsCenter = Vec3.scale(Vec3.add(bounds.min, bounds.max), 0.5);
+    const size = Vec3.sub(bounds.max, bounds.min);
+
+    switch (generate) {
+      case 'box':
+        return { type: 'box', position: boundsCenter, width: size.x, height: size.y, depth: size.z };
+
+      case 'sphere':
+        return { type: 'sphere', position: boundsCenter, radius: Math.max(size.x, size.y, size.z) / 2 };
+
+      case 'mesh':
+        if (!decompose) {
+          return { type: 'mesh', position: { x: 0, y: 0, z: 0 }, vertices, indices };
+        }
+        return this.decomposedShape(vertices, indices, decomposition);
+
+      case 'convex': {
+        const hull = QuickHull.compute(vertices);
+        return hull ? this.hullShape(hull) : null;
+      }
+
+      case 'auto':
+      default: {
+        const hull = QuickHull.compute(vertices);
+        if (!hull) return null;
+        const meshVolume = Math.abs(QuickHull.volume(vertices, indices));
+        const nearlyConvex = meshVolume > 0 && hull.volume <= meshVolume * (1 + AUTO_CONVEX_TOLERANCE);
+        return nearlyConvex ? this.hullShape(hull) : this.decomposedShape(vertices, indices, decomposition);
+      }
+    }
+  }
+
+  /**
+   * Compound of convex pieces, each centered on its own centroid
+   */
+  private static decomposedShape(
+    vertices: Vector3[],
+    indices: number[],
+    options?: DecompositionOptions
+  ): ObjectConfig | null {
+    const hulls = ConvexDecomposition.decompose(vertices, indices, options);
+    if (hulls.length === 0) return null;
+    if (hulls.length === 1) return this.hullShape(hulls[0]);
+
+    const children = hulls.map(hull => this.hullShape(hull));
+    const totalVolume = hulls.reduce((sum, h) => sum + h.volume, 0);
+    const center = Vec3.scale(
+      children.reduce((sum, child, i) => Vec3.add(sum, Vec3.scale(child.position as Vector3, hulls[i].volume)), { x: 0, y: 0, z: 0 }),
+      1 / totalVolume
+    );
+
+    return {
+      type: 'compound',
+      position: center,
+      children: children.map((child, i) => ({
+        ...child,
+        position: Vec3.sub(child.position as Vector3, center),
+        mass: hulls[i].volume
+      }))
+    };
+  }
+
+  private static hullShape(hull: ConvexHull): ObjectConfig {
+    const centroid = this.hullCentroid(hull);
+    return {
+      type: 'convex-hull',
+      position: centroid,
+      vertices: hull.vertices.map(v => Vec3.sub(v, centroid)),
+      indices: [...hull.indices]
+    };
+  }
+
+  private static hullCentroid(hull: ConvexHull): Vector3 {
+    let weighted = Vec3.create();
+    let volume = 0;
+    for (let i = 0; i + 2 < hull.indices.length; i += 3) {
+      const a = hull.vertices[hull.indices[i]];
+      const b = hull.vertices[hull.indices[i + 1]];
+      const c = hull.vertices[hull.indices[i + 2]];
+      const v = Vec3.dot(a, Vec3.cross(b, c)) / 6;
+      volume += v;
+      weighted = Vec3.add(weighted, Vec3.scale(Vec3.add(Vec3.add(a, b), c), v / 4));
+    }
+    return volume !== 0 ? Vec3.scale(weighted, 1 / volume) : hull.vertices[0];
+  }
+
+  private static shapeVolume(shape: ObjectConfig): number {
+    switch (shape.type) {
+      case 'box':
+        return (shape.width ?? 0) * (shape.height ?? 0) * (shape.depth ?? 0);
+      case 'sphere':
+        return (4 / 3) * Math.PI * Math.pow(shape.radius ?? 0, 3);
+      case 'compound':
+        return (shape.children ?? []).reduce((sum, child) => sum + this.shapeVolume(child), 0);
+      default:
+        return Math.abs(QuickHull.volume(shape.vertices ?? [], shape.indices ?? []));
+    }
+  }
 }
 
 export default Importer;
@@ -36,13 +36,46 @@ export { ForceSystem } from './forces/ForceSystem';
 // ============================================================================
 // Collision Detection
 // ============================================================================
-export { CollisionSystem } from './collision/CollisionSystem';
+export {
+  CollisionSystem,
+  SweepAndPrune,
+  SpatialHashGrid,
+  DynamicAABBTree,
+  ColliderFactory,
+  ColliderUtils,
+  ParallelNarrowPhase
+} from './collision/CollisionSystem';
+export type { BroadPhase, BroadPhasePair, CollisionBody, ParallelNarrowPhaseOptions } from './collision/CollisionSystem';
 
 // ============================================================================
 // Constraints
 // ============================================================================
 export { ConstraintSolver } from './constraints/ConstraintSolver';
 
+// ============================================================================
+// Soft Bodies
+// ============================================================================
+export { SoftBodySystem, SoftBody, Rope, Cloth, Fluid, SoftBodyFactory, ParticleBody } from './softbody/SoftBodySystem';
+export type { ParticleContactImpulse, ParticleAttachment, ParticleBodyOptions } from './softbody/SoftBodySystem';
+
+// ============================================================================
+// Particle Systems
+// ============================================================================
+export { ParticleSystem, ParticleEmitter } from './particles/ParticleSystem';
+export type { ParticleEmitterOptions, ParticleEnvironment } from './particles/ParticleSystem';
+
+// ============================================================================
+// Scenes
+// ============================================================================
+export {
+  SceneSerializer,
+  FunctionRegistry,
+  SCENE_FORMAT,
+  SCENE_VERSION,
+  SCENE_SCHEMA
+} from './scene/SceneSerializer';
+export type { SceneOptions, SceneLoadResult, SceneSchema, SceneFunction } from './scene/SceneSerializer';
+
 // ============================================================================
 // Recording & Playback
 // ============================================================================
@@ -58,6 +91,7 @@ export { Analysis } from './analysis/Analysis';
 // ============================================================================
 export { Exporter } from './export/Exporter';
 export { Importer } from './import/Importer';
+export { QuickHull, ConvexDecomposition } from './import/ConvexDecomposition';
 
 // ============================================================================
 // Visualization
@@ -103,6 +137,8 @@ export function createWorld(config?: Partial<EngineConfig & { environment?: Part
   const exporter = new Exporter();
   const importer = new Importer();
   const scriptManager = new ScriptManager();
+
+  scriptManager.attachToEngine(engine);
   
   return {
     engine,
@@ -3,7 +3,7 @@
  * Vector, Quaternion, and Matrix operations for physics simulation
  */
 
-import type { Vector3, Vector2, Quaternion, Matrix3, Matrix4 } from '../types';
+import type { Vector3, Vector2, Quaternion, Matrix3, Matrix4, RandomSource } from '../types';
 
 // ============================================================================
 // VECTOR3 OPERATIONS
@@ -310,27 +310,17 @@ export const Vec3 = {
   },
 
   /**
-   * Random unit vector
+   * Random unit vector, drawn from the given generator (e.g. engine.random) so runs replay
    */
-  randomUnit(): Vector3 {
-    const theta = Math.random() * Math.PI * 2;
-    const phi = Math.acos(2 * Math.random() - 1);
-    return {
-      x: Math.sin(phi) * Math.cos(theta),
-      y: Math.sin(phi) * Math.sin(theta),
-      z: Math.cos(phi),
-    };
+  randomUnit(random: RandomSource): Vector3 {
+    return random.unitVector();
   },
 
   /**
    * Random vector within bounds
    */
-  random(min: Vector3, max: Vector3): Vector3 {
-    return {
-      x: min.x + Math.random() * (max.x - min.x),
-      y: min.y + Math.random() * (max.y - min.y),
-      z: min.z + Math.random() * (max.z - min.z),
-    };
+  random(min: Vector3, max: Vector3, random: RandomSource): Vector3 {
+    return random.vector(min, max);
   },
 
   // Common constants
@@ -1158,27 +1148,24 @@ export const MathUtils = {
   },
 
   /**
-   * Random number in range
+   * Random number in range, drawn from the given generator (e.g. engine.random) so runs replay
    */
-  randomRange(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+  randomRange(min: number, max: number, random: RandomSource): number {
+    return random.range(min, max);
   },
 
   /**
    * Random integer in range (inclusive)
    */
-  randomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  randomInt(min: number, max: number, random: RandomSource): number {
+    return random.int(min, max);
   },
 
   /**
    * Gaussian random number
    */
-  randomGaussian(mean = 0, stdDev = 1): number {
-    let u = 0, v = 0;
-    while (u === 0) u = Math.random();
-    while (v === 0) v = Math.random();
-    return mean + stdDev * Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  randomGaussian(mean: number, stdDev: number, random: RandomSource): number {
+    return random.gaussian(mean, stdDev);
   },
 
   // Constants
@@ -1189,3 +1176,81 @@ export const MathUtils = {
   DEG2RAD: Math.PI / 180,
   RAD2DEG: 180 / Math.PI,
 };
+
+// ============================================================================
+// RANDOM NUMBERS
+// ============================================================================
+
+/**
+ * Seeded pseudo-random number generator (mulberry32). Its whole state is one
+ * 32-bit integer, so it can be saved and restored exactly.
+ */
+export class Random implements RandomSource {
+  private _seed = 0;
+  private _state = 0;
+
+  constructor(seed = 0) {
+    this.reseed(seed);
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  reseed(seed: number): void {
+    this._seed = seed >>> 0;
+    this._state = this._seed;
+  }
+
+  getState(): number {
+    return this._state;
+  }
+
+  setState(state: number): void {
+    this._state = state >>> 0;
+  }
+
+  next(): number {
+    this._state = (this._state + 0x6d2b79f5) >>> 0;
+    let t = this._state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  gaussian(mean = 0, stdDev = 1): number {
+    let u = 0, v = 0;
+    while (u === 0) u = this.next();
+    while (v === 0) v = this.next();
+    return mean + stdDev * Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  }
+
+  unitVector(): Vector3 {
+    const theta = this.next() * Math.PI * 2;
+    const phi = Math.acos(2 * this.next() - 1);
+    return {
+      x: Math.sin(phi) * Math.cos(theta),
+      y: Math.sin(phi) * Math.sin(theta),
+      z: Math.cos(phi),
+    };
+  }
+
+  vector(min: Vector3, max: Vector3): Vector3 {
+    return {
+      x: this.range(min.x, max.x),
+      y: this.range(min.y, max.y),
+      z: this.range(min.z, max.z),
+    };
+  }
+}
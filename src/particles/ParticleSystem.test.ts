@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../core/Engine';
+import { ObjectConfig } from '../types';
+import { ParticleEmitter } from './ParticleSystem';
+
+const cloud: ObjectConfig = {
+  id: 'em', type: 'particle-system', isStatic: true,
+  emitter: { rate: 100, lifetime: 1, shape: 'sphere', radius: 0.5, speed: 0 },
+};
+
+function run(engine: Engine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.step();
+}
+
+function centroid(emitter: ParticleEmitter): { x: number; y: number; z: number } {
+  const sum = { x: 0, y: 0, z: 0 };
+  for (let i = 0; i < emitter.particleCount; i++) {
+    const p = emitter.particle(i);
+    sum.x += p.x;
+    sum.y += p.y;
+    sum.z += p.z;
+  }
+  const n = emitter.particleCount || 1;
+  return { x: sum.x / n, y: sum.y / n, z: sum.z / n };
+}
+
+/**
+ * Emit the standard cloud for two seconds in a gravity-free world
+ */
+function inSpace(setup: (engine: Engine) => void = engine => engine.addObject(cloud)): ParticleEmitter {
+  const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+  engine.setEnvironment({ preset: 'space' });
+  setup(engine);
+  run(engine, 120);
+  return engine.getEmitter('em')!;
+}
+
+// ============================================================================
+// EMISSION
+// ============================================================================
+
+describe('particle emission', () => {
+  it('keeps rate x lifetime particles alive', () => {
+    const emitter = inSpace();
+    expect(emitter.particleCount).toBeGreaterThanOrEqual(98);
+    expect(emitter.particleCount).toBeLessThanOrEqual(100);
+    for (let i = 0; i < emitter.particleCount; i++) {
+      const p = emitter.particle(i);
+      expect(Math.hypot(p.x, p.y, p.z)).toBeLessThanOrEqual(0.5 + 1e-9);
+    }
+  });
+
+  it('fires bursts up to maxParticles and stops after its duration', () => {
+    const bursts = inSpace(engine => engine.addObject({
+      ...cloud, emitter: { rate: 0, bursts: [{ time: 0, count: 30 }, { time: 1, count: 20 }], lifetime: 5, maxParticles: 40 },
+    }));
+    expect(bursts.particleCount).toBe(40);
+
+    const timed = inSpace(engine => engine.addObject({ ...cloud, emitter: { rate: 60, duration: 0.5, lifetime: 10 } }));
+    expect(timed.particleCount).toBe(30);
+  });
+
+  it('sends particles along its direction within the spread', () => {
+    const emitter = inSpace(engine => engine.addObject({
+      ...cloud, emitter: { rate: 60, lifetime: 10, shape: 'point', direction: [0, -1, 0], spread: 0.2, speed: 1 },
+    }));
+    for (let i = 0; i < emitter.particleCount; i++) {
+      const p = emitter.particle(i);
+      expect(Math.acos(-p.y / Math.hypot(p.x, p.y, p.z))).toBeLessThanOrEqual(0.2 + 1e-9);
+    }
+  });
+
+  it('replays the same particles from the same seed and from a snapshot', () => {
+    function fountain(): Engine {
+      const engine = new Engine({ timeStep: 1 / 60, seed: 3 });
+      engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+      engine.addObject({
+        id: 'fountain', type: 'particle-system', isStatic: true, position: [0, 1, 0],
+        emitter: { rate: 200, lifetime: [1, 3], shape: 'disc', radius: 0.1, spread: 0.3, speed: [3, 4], collide: true },
+      });
+      run(engine, 60);
+      return engine;
+    }
+    const a = fountain();
+    const b = fountain();
+    expect(a.stateHash()).toBe(b.stateHash());
+
+    const snapshot = a.createSnapshot();
+    run(a, 20);
+    const hash = a.stateHash();
+    a.restoreSnapshot(snapshot);
+    run(a, 20);
+    expect(a.stateHash()).toBe(hash);
+    // The point cloud drawn by the Visualizer
+    expect(a.getInterpolatedStates(1).get('fountain')!.vertices).toHaveLength(a.getEmitter('fountain')!.particleCount);
+  });
+});
+
+// ============================================================================
+// FORCES AND COLLISIONS
+// ============================================================================
+
+describe('particle forces', () => {
+  it('falls under gravity and drifts with the wind', () => {
+    const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+    engine.addObject(cloud);
+    run(engine, 120);
+    expect(centroid(engine.getEmitter('em')!).y).toBeLessThan(-1);
+
+    const windy = new Engine({ timeStep: 1 / 60, seed: 1 });
+    windy.setEnvironment({ wind: { x: 10, y: 0, z: 0 }, gravity: 0 });
+    windy.addObject(cloud);
+    run(windy, 120);
+    expect(centroid(windy.getEmitter('em')!).x).toBeGreaterThan(0.5);
+  });
+
+  it('follows ForceSystem fields that target it', () => {
+    const swirled = inSpace(engine => {
+      engine.addObject(cloud);
+      engine.addForce({ type: 'vortex-field', center: { x: 0, y: 0, z: 0 }, tangentialStrength: 0.01, radialStrength: 0 });
+    });
+    let spin = 0;
+    for (let i = 0; i < swirled.particleCount; i++) {
+      spin += swirled.positions[i * 3 + 2] * swirled.velocities[i * 3] - swirled.positions[i * 3] * swirled.velocities[i * 3 + 2];
+    }
+    expect(spin / swirled.particleCount).toBeGreaterThan(1);
+
+    const attract = (target: string) => inSpace(engine => {
+      engine.addObject({ ...cloud, position: [2, 0, 0] });
+      engine.addObject({ id: 'other', type: 'sphere', isStatic: true, position: [9, 9, 9] });
+      engine.addForce({ type: 'attractor', center: { x: 0, y: 0, z: 0 }, magnitude: 0.005, target });
+    });
+    expect(centroid(attract('em')).x).toBeLessThan(1.5);
+    expect(centroid(attract('other')).x).toBeCloseTo(2, 1);
+  });
+
+  it('collides with static bodies only when asked to', () => {
+    function onTable(collide: boolean): { on: number; below: number } {
+      const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+      engine.addObject({ id: 'table', type: 'box', width: 2, height: 0.2, depth: 2, isStatic: true, position: [0, 0.5, 0] });
+      engine.addObject({ id: 'em', type: 'particle-system', isStatic: true, position: [0, 2, 0], emitter: { rate: 300, lifetime: 3, shape: 'box', size: [1, 0, 1], speed: 0, collide } });
+      run(engine, 180);
+
+      const emitter = engine.getEmitter('em')!;
+      const heights = Array.from({ length: emitter.particleCount }, (_, i) => emitter.particle(i).y);
+      return { on: heights.filter(y => y > 0.55 && y < 0.7).length, below: heights.filter(y => y <= 0.55).length };
+    }
+
+    const colliding = onTable(true);
+    expect(colliding.below).toBe(0);
+    expect(colliding.on).toBeGreaterThan(600);
+    expect(onTable(false).below).toBeGreaterThan(600);
+  });
+});
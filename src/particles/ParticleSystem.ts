@@ -0,0 +1,588 @@
+/**
+ * ASIMULATE SDK - Particle System
+ * Emitters of short-lived point particles moved by gravity, wind, force fields and static colliders
+ */
+
+import type {
+  Vector3,
+  Quaternion,
+  ObjectConfig,
+  DeformableGeometry,
+  EmitterShape,
+  ParticleBurst,
+  ParticleEmitterState
+} from '../types';
+import { Vec3, Quat, Mat3, Random } from '../math';
+import { AABBUtils, NarrowPhase } from '../collision/CollisionSystem';
+import type { AABB, CollisionBody, CollisionSystem, SphereCollider } from '../collision/CollisionSystem';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_EMISSION_RATE = 100; // particles/s
+const DEFAULT_LIFETIME = 2; // s
+const DEFAULT_MAX_PARTICLES = 1000;
+const DEFAULT_SPEED = 1; // m/s
+const DEFAULT_PARTICLE_MASS = 0.001; // kg
+const DEFAULT_PARTICLE_RADIUS = 0.01; // m
+const PARTICLE_DRAG_COEFFICIENT = 0.47; // Sphere
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * An emitter's settings with every default filled in
+ */
+export interface ParticleEmitterOptions {
+  rate: number;
+  bursts: ParticleBurst[];
+  duration: number;
+  lifetime: [number, number];
+  maxParticles: number;
+  shape: EmitterShape;
+  radius: number;
+  size: Vector3;
+  direction: Vector3;
+  spread: number;
+  speed: [number, number];
+  inheritVelocity: number;
+  particleMass: number;
+  particleRadius: number;
+  collide: boolean;
+  seed: number;
+}
+
+/**
+ * What the world does to particles, sampled by the emitters each step
+ */
+export interface ParticleEnvironment {
+  gravity(point: Vector3): Vector3;
+  wind(point: Vector3): Vector3;
+  airDensity: number;
+  // Adds the field forces on an emitter's particles, x, y, z per particle
+  fieldForces(emitterId: string, positions: Float64Array, velocities: Float64Array, count: number, forces: Float64Array): void;
+}
+
+// ============================================================================
+// Emitter
+// ============================================================================
+
+/**
+ * Spawns particles from its object's pose and moves them until their lifetime
+ * runs out. Live particles are packed at the front of flat x, y, z arrays: a
+ * particle that dies is replaced by the last one. Particles carry no mass back
+ * to the world; they only feel it.
+ */
+export class ParticleEmitter implements DeformableGeometry {
+  readonly id: string;
+  readonly options: ParticleEmitterOptions;
+  readonly positions: Float64Array;
+  readonly velocities: Float64Array;
+  readonly ages: Float64Array;
+  readonly lifetimes: Float64Array;
+
+  // Pose of the emitting object, kept in sync by the engine
+  position: Vector3 = Vec3.create();
+  rotation: Quaternion = Quat.identity();
+  velocity: Vector3 = Vec3.create();
+  friction = 0.5;
+  restitution = 0.3;
+  collisionGroup = 1;
+  collisionMask = 0xffffffff;
+
+  private count = 0;
+  private elapsed = 0;
+  private pending = 0;
+  private readonly random: Random;
+  private readonly aim: Quaternion; // Local +y onto the launch direction
+  private readonly stepStart: Float64Array; // Positions at the start of the step, for interpolation
+  private readonly forces: Float64Array;
+
+  constructor(id: string, options: ParticleEmitterOptions) {
+    this.id = id;
+    this.options = options;
+    const capacity = options.maxParticles;
+    this.positions = new Float64Array(capacity * 3);
+    this.velocities = new Float64Array(capacity * 3);
+    this.ages = new Float64Array(capacity);
+    this.lifetimes = new Float64Array(capacity);
+    this.stepStart = new Float64Array(capacity * 3);
+    this.forces = new Float64Array(capacity * 3);
+    this.random = new Random(options.seed);
+    this.aim = Quat.fromTo(Vec3.UP, Vec3.normalize(options.direction));
+  }
+
+  /**
+   * Live particles
+   */
+  get particleCount(): number {
+    return this.count;
+  }
+
+  get vertexCount(): number {
+    return this.count;
+  }
+
+  particle(index: number): Vector3 {
+    return { x: this.positions[index * 3], y: this.positions[index * 3 + 1], z: this.positions[index * 3 + 2] };
+  }
+
+  getVertices(alpha: number = 1): Vector3[] {
+    const vertices: Vector3[] = [];
+    for (let i = 0; i < this.count * 3; i += 3) {
+      vertices.push({
+        x: this.stepStart[i] + (this.positions[i] - this.stepStart[i]) * alpha,
+        y: this.stepStart[i + 1] + (this.positions[i + 1] - this.stepStart[i + 1]) * alpha,
+        z: this.stepStart[i + 2] + (this.positions[i + 2] - this.stepStart[i + 2]) * alpha
+      });
+    }
+    return vertices;
+  }
+
+  getIndices(): number[] {
+    return [];
+  }
+
+  /**
+   * Particle bounds, padded by the particle radius
+   */
+  bounds(): AABB {
+    const aabb = AABBUtils.create(
+      { x: Infinity, y: Infinity, z: Infinity },
+      { x: -Infinity, y: -Infinity, z: -Infinity }
+    );
+    for (let i = 0; i < this.count * 3; i += 3) {
+      aabb.min.x = Math.min(aabb.min.x, this.positions[i]);
+      aabb.min.y = Math.min(aabb.min.y, this.positions[i + 1]);
+      aabb.min.z = Math.min(aabb.min.z, this.positions[i + 2]);
+      aabb.max.x = Math.max(aabb.max.x, this.positions[i]);
+      aabb.max.y = Math.max(aabb.max.y, this.positions[i + 1]);
+      aabb.max.z = Math.max(aabb.max.z, this.positions[i + 2]);
+    }
+    return AABBUtils.expand(aabb, this.options.particleRadius);
+  }
+
+  /**
+   * Drop every particle and start emitting from scratch
+   */
+  reset(): void {
+    this.count = 0;
+    this.elapsed = 0;
+    this.pending = 0;
+    this.random.reseed(this.options.seed);
+  }
+
+  getState(): ParticleEmitterState {
+    return {
+      positions: Array.from(this.positions.subarray(0, this.count * 3)),
+      velocities: Array.from(this.velocities.subarray(0, this.count * 3)),
+      ages: Array.from(this.ages.subarray(0, this.count)),
+      lifetimes: Array.from(this.lifetimes.subarray(0, this.count)),
+      elapsed: this.elapsed,
+      pending: this.pending,
+      randomState: this.random.getState()
+    };
+  }
+
+  setState(state: ParticleEmitterState): void {
+    const count = state.ages.length;
+    if (count > this.options.maxParticles) {
+      throw new Error(`Emitter state for "${this.id}" has ${count} particles, more than its ${this.options.maxParticles}`);
+    }
+    if (state.positions.length !== count * 3 || state.velocities.length !== count * 3 || state.lifetimes.length !== count) {
+      throw new Error(`Emitter state for "${this.id}" does not match its ${count} particles`);
+    }
+    this.count = count;
+    this.positions.set(state.positions);
+    this.velocities.set(state.velocities);
+    this.stepStart.set(state.positions);
+    this.ages.set(state.ages);
+    this.lifetimes.set(state.lifetimes);
+    this.elapsed = state.elapsed;
+    this.pending = state.pending;
+    this.random.setState(state.randomState);
+  }
+
+  /**
+   * Advance by dt: age out expired particles, move the rest under gravity, air
+   * drag towards the wind and the field forces, bounce them off the colliders,
+   * then emit this step's share of the rate and any bursts that fall due
+   */
+  simulate(dt: number, environment: ParticleEnvironment, colliders: CollisionBody[], probe: CollisionBody): void {
+    for (let i = 0; i < this.count; ) {
+      this.ages[i] += dt;
+      if (this.ages[i] >= this.lifetimes[i]) {
+        this.remove(i);
+      } else {
+        i++;
+      }
+    }
+    this.stepStart.set(this.positions.subarray(0, this.count * 3));
+
+    this.integrate(dt, environment);
+    if (this.options.collide && colliders.length > 0) {
+      this.collide(colliders, probe);
+    }
+    this.emit(dt);
+    this.elapsed += dt;
+  }
+
+  /**
+   * Semi-implicit Euler. Drag is quadratic in the speed relative to the air.
+   */
+  private integrate(dt: number, environment: ParticleEnvironment): void {
+    const x = this.positions;
+    const v = this.velocities;
+    const { particleMass, particleRadius } = this.options;
+    const inverseMass = 1 / particleMass;
+    // F = ½ ρ Cd A |u| u, per unit mass
+    const dragScale = (0.5 * environment.airDensity * PARTICLE_DRAG_COEFFICIENT * Math.PI * particleRadius * particleRadius) / particleMass;
+
+    this.forces.fill(0, 0, this.count * 3);
+    environment.fieldForces(this.id, x, v, this.count, this.forces);
+
+    for (let i = 0; i < this.count; i++) {
+      const point = this.particle(i);
+      const gravity = environment.gravity(point);
+      let ax = gravity.x + this.forces[i * 3] * inverseMass;
+      let ay = gravity.y + this.forces[i * 3 + 1] * inverseMass;
+      let az = gravity.z + this.forces[i * 3 + 2] * inverseMass;
+
+      if (dragScale > 0) {
+        const wind = environment.wind(point);
+        const ux = wind.x - v[i * 3];
+        const uy = wind.y - v[i * 3 + 1];
+        const uz = wind.z - v[i * 3 + 2];
+        // Never let drag more than stop the particle relative to the air in one step
+        const k = Math.min(dragScale * Math.sqrt(ux * ux + uy * uy + uz * uz), 1 / dt);
+        ax += k * ux;
+        ay += k * uy;
+        az += k * uz;
+      }
+
+      v[i * 3] += ax * dt;
+      v[i * 3 + 1] += ay * dt;
+      v[i * 3 + 2] += az * dt;
+      x[i * 3] += v[i * 3] * dt;
+      x[i * 3 + 1] += v[i * 3 + 1] * dt;
+      x[i * 3 + 2] += v[i * 3 + 2] * dt;
+    }
+  }
+
+  /**
+   * Push particles out of the colliders they ended up in, reflecting the
+   * normal velocity by the restitution and slowing the tangential velocity by
+   * Coulomb friction against the normal change
+   */
+  private collide(colliders: CollisionBody[], probe: CollisionBody): void {
+    const x = this.positions;
+    const v = this.velocities;
+    const radius = this.options.particleRadius;
+
+    for (let i = 0; i < this.count; i++) {
+      for (const body of colliders) {
+        const point = this.particle(i);
+        probe.position = point;
+        probe.aabb = AABBUtils.fromCenterExtents(point, { x: radius, y: radius, z: radius });
+        // Planes are half-spaces: a particle that sank below one is outside its flat bounds
+        if (body.collider.type !== 'plane' && !AABBUtils.intersects(probe.aabb, body.aabb)) continue;
+
+        const manifold = NarrowPhase.testCollision(probe, body);
+        if (!manifold || manifold.isTrigger || manifold.penetration <= 0) continue;
+
+        // The normal points from the particle into the body
+        const n = manifold.normal;
+        x[i * 3] -= n.x * manifold.penetration;
+        x[i * 3 + 1] -= n.y * manifold.penetration;
+        x[i * 3 + 2] -= n.z * manifold.penetration;
+
+        const velocity = Vec3.create(v[i * 3], v[i * 3 + 1], v[i * 3 + 2]);
+        const approach = Vec3.dot(velocity, n);
+        if (approach <= 0) continue;
+
+        const restitution = Math.max(this.restitution, body.restitution);
+        const mu = Math.sqrt(this.friction * body.friction);
+        const normal = Vec3.scale(n, approach);
+        const tangential = Vec3.sub(velocity, normal);
+        const slip = Vec3.length(tangential);
+        const keep = slip > 0 ? Math.max(0, 1 - (mu * (1 + restitution) * approach) / slip) : 0;
+        const result = Vec3.sub(Vec3.scale(tangential, keep), Vec3.scale(normal, restitution));
+        v[i * 3] = result.x;
+        v[i * 3 + 1] = result.y;
+        v[i * 3 + 2] = result.z;
+      }
+    }
+  }
+
+  /**
+   * Spawn the particles due over the step. Each leaves at its moment within
+   * the step from the pose the object passes through then, and has flown
+   * ballistically for the rest of the step.
+   */
+  private emit(dt: number): void {
+    const { rate, bursts, duration } = this.options;
+    const start = this.elapsed;
+    const end = start + dt;
+
+    // Continuous emission while the emitter runs
+    const active = Math.max(0, Math.min(end, duration) - start);
+    this.pending += rate * active;
+    const continuous = Math.floor(this.pending);
+    this.pending -= continuous;
+    for (let k = 0; k < continuous; k++) {
+      // Spread evenly over the active part of the step
+      this.spawn(dt, active > 0 ? ((k + 1) / continuous) * (active / dt) : 1);
+    }
+
+    for (const burst of bursts) {
+      if (burst.time < start || burst.time >= end) continue;
+      for (let k = 0; k < burst.count; k++) {
+        this.spawn(dt, (burst.time - start) / dt);
+      }
+    }
+  }
+
+  /**
+   * One particle, launched at fraction s of the step
+   */
+  private spawn(dt: number, s: number): void {
+    if (this.count >= this.options.maxParticles) return;
+    const { lifetime, speed, spread, inheritVelocity } = this.options;
+    const random = this.random;
+
+    // Where the object was at that moment, moving at its current velocity
+    const late = (1 - s) * dt;
+    const origin = Vec3.sub(this.position, Vec3.scale(this.velocity, late));
+    const start = Vec3.add(origin, Quat.rotateVector(this.rotation, this.spawnOffset()));
+
+    // Uniform over the spherical cap of the spread around the local launch direction
+    const cosine = 1 - random.next() * (1 - Math.cos(spread));
+    const sine = Math.sqrt(Math.max(0, 1 - cosine * cosine));
+    const azimuth = random.next() * Math.PI * 2;
+    const local = Quat.rotateVector(this.aim, { x: sine * Math.cos(azimuth), y: cosine, z: sine * Math.sin(azimuth) });
+    const direction = Quat.rotateVector(this.rotation, local);
+    const velocity = Vec3.add(
+      Vec3.scale(direction, random.range(speed[0], speed[1])),
+      Vec3.scale(this.velocity, inheritVelocity)
+    );
+
+    const i = this.count++;
+    this.ages[i] = late;
+    this.lifetimes[i] = random.range(lifetime[0], lifetime[1]);
+    this.velocities[i * 3] = velocity.x;
+    this.velocities[i * 3 + 1] = velocity.y;
+    this.velocities[i * 3 + 2] = velocity.z;
+    this.positions[i * 3] = start.x + velocity.x * late;
+    this.positions[i * 3 + 1] = start.y + velocity.y * late;
+    this.positions[i * 3 + 2] = start.z + velocity.z * late;
+    this.stepStart[i * 3] = this.positions[i * 3];
+    this.stepStart[i * 3 + 1] = this.positions[i * 3 + 1];
+    this.stepStart[i * 3 + 2] = this.positions[i * 3 + 2];
+  }
+
+  /**
+   * A point drawn uniformly from the spawn shape, in the object's local frame
+   */
+  private spawnOffset(): Vector3 {
+    const { shape, radius, size } = this.options;
+    const random = this.random;
+    switch (shape) {
+      case 'sphere': {
+        const r = radius * Math.cbrt(random.next());
+        return Vec3.scale(random.unitVector(), r);
+      }
+      case 'box':
+        return {
+          x: (random.next() - 0.5) * size.x,
+          y: (random.next() - 0.5) * size.y,
+          z: (random.next() - 0.5) * size.z
+        };
+      case 'disc': {
+        const r = radius * Math.sqrt(random.next());
+        const angle = random.next() * Math.PI * 2;
+        return { x: r * Math.cos(angle), y: 0, z: r * Math.sin(angle) };
+      }
+      default:
+        return Vec3.create();
+    }
+  }
+
+  /**
+   * Move the last live particle into slot i
+   */
+  private remove(i: number): void {
+    const last = --this.count;
+    if (i === last) return;
+    this.ages[i] = this.ages[last];
+    this.lifetimes[i] = this.lifetimes[last];
+    for (let axis = 0; axis < 3; axis++) {
+      this.positions[i * 3 + axis] = this.positions[last * 3 + axis];
+      this.velocities[i * 3 + axis] = this.velocities[last * 3 + axis];
+    }
+  }
+
+  /**
+   * Build an emitter from a 'particle-system' object's config. Without a seed
+   * of its own, the emitter's random sequence comes from the world seed and
+   * the object id, so emitters don't disturb each other's draws.
+   */
+  static fromObjectConfig(id: string, config: ObjectConfig, worldSeed: number): ParticleEmitter {
+    const emitter = config.emitter ?? {};
+    const lifetime = ParticleEmitter.parseRange(emitter.lifetime, DEFAULT_LIFETIME);
+    const speed = ParticleEmitter.parseRange(emitter.speed, DEFAULT_SPEED);
+
+    return new ParticleEmitter(id, {
+      rate: Math.max(0, emitter.rate ?? DEFAULT_EMISSION_RATE),
+      bursts: (emitter.bursts ?? []).map(burst => ({ time: burst.time, count: Math.max(0, Math.floor(burst.count)) })),
+      duration: emitter.duration ?? Infinity,
+      lifetime,
+      maxParticles: Math.max(0, Math.floor(emitter.maxParticles ?? DEFAULT_MAX_PARTICLES)),
+      shape: emitter.shape ?? 'point',
+      radius: emitter.radius ?? 0,
+      size: ParticleEmitter.parseVector3(emitter.size) ?? Vec3.create(),
+      direction: ParticleEmitter.parseVector3(emitter.direction) ?? Vec3.clone(Vec3.UP),
+      spread: emitter.spread ?? 0,
+      speed,
+      inheritVelocity: emitter.inheritVelocity ?? 0,
+      particleMass: emitter.particleMass ?? DEFAULT_PARTICLE_MASS,
+      particleRadius: emitter.particleRadius ?? DEFAULT_PARTICLE_RADIUS,
+      collide: emitter.collide ?? false,
+      seed: emitter.seed ?? ParticleEmitter.deriveSeed(worldSeed, id)
+    });
+  }
+
+  private static parseRange(value: number | [number, number] | undefined, fallback: number): [number, number] {
+    if (value === undefined) return [fallback, fallback];
+    if (Array.isArray(value)) return [Math.min(value[0], value[1]), Math.max(value[0], value[1])];
+    return [value, value];
+  }
+
+  private static parseVector3(value?: Vector3 | [number, number, number]): Vector3 | undefined {
+    if (!value) return undefined;
+    return Array.isArray(value) ? Vec3.fromArray(value) : Vec3.clone(value);
+  }
+
+  /**
+   * FNV-1a of the id, mixed with the world seed
+   */
+  private static deriveSeed(worldSeed: number, id: string): number {
+    let hash = 0x811c9dc5 ^ worldSeed;
+    for (let i = 0; i < id.length; i++) {
+      hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+// ============================================================================
+// Particle System
+// ============================================================================
+
+/**
+ * Sphere collision body standing in for one particle at a time
+ */
+function pointBody(radius: number): CollisionBody {
+  const collider: SphereCollider = {
+    type: 'sphere',
+    radius,
+    offset: Vec3.create(),
+    rotation: Quat.identity(),
+    isTrigger: false
+  };
+  return {
+    id: '',
+    position: Vec3.create(),
+    rotation: Quat.identity(),
+    velocity: Vec3.create(),
+    angularVelocity: Vec3.create(),
+    collider,
+    aabb: AABBUtils.create(),
+    isStatic: false,
+    isKinematic: false,
+    isSleeping: false,
+    collisionGroup: 1,
+    collisionMask: 0xffffffff,
+    mass: 1,
+    invMass: 1,
+    inertia: Mat3.identity(),
+    invInertia: Mat3.identity(),
+    friction: 0.5,
+    restitution: 0
+  };
+}
+
+/**
+ * The emitters of a world, stepped in id order
+ */
+export class ParticleSystem {
+  private emitters: Map<string, ParticleEmitter> = new Map();
+  private probe: CollisionBody = pointBody(DEFAULT_PARTICLE_RADIUS);
+
+  get count(): number {
+    return this.emitters.size;
+  }
+
+  add(emitter: ParticleEmitter): void {
+    this.emitters.set(emitter.id, emitter);
+  }
+
+  remove(id: string): boolean {
+    return this.emitters.delete(id);
+  }
+
+  get(id: string): ParticleEmitter | undefined {
+    return this.emitters.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.emitters.has(id);
+  }
+
+  getAll(): ParticleEmitter[] {
+    return Array.from(this.emitters.values());
+  }
+
+  reset(): void {
+    for (const emitter of this.emitters.values()) emitter.reset();
+  }
+
+  clear(): void {
+    this.emitters.clear();
+  }
+
+  /**
+   * Advance every emitter by dt. Colliding emitters bounce off the static
+   * bodies their particles could reach this step.
+   */
+  step(dt: number, environment: ParticleEnvironment, collisions: CollisionSystem): void {
+    const ids = Array.from(this.emitters.keys()).sort();
+
+    for (const id of ids) {
+      const emitter = this.emitters.get(id)!;
+      const probe = this.probe;
+      probe.id = id;
+      probe.collisionGroup = emitter.collisionGroup;
+      probe.collisionMask = emitter.collisionMask;
+      (probe.collider as SphereCollider).radius = emitter.options.particleRadius;
+
+      let colliders: CollisionBody[] = [];
+      if (emitter.options.collide && emitter.particleCount > 0) {
+        // Where the particles can get to this step, padded by their speed
+        let fastest = 0;
+        const v = emitter.velocities;
+        for (let i = 0; i < emitter.particleCount * 3; i += 3) {
+          fastest = Math.max(fastest, v[i] * v[i] + v[i + 1] * v[i + 1] + v[i + 2] * v[i + 2]);
+        }
+        const reach = AABBUtils.expand(emitter.bounds(), Math.sqrt(fastest) * dt);
+        colliders = collisions
+          .queryBodies(reach, probe)
+          .filter(body => body.id !== id && body.isStatic && !body.collider.isTrigger);
+      }
+      emitter.simulate(dt, environment, colliders, probe);
+    }
+  }
+}
+
+export default ParticleSystem;
@@ -290,7 +290,16 @@ export class Recorder {
         z: s1.scale.z + (s2.scale.z - s1.scale.z) * t
       },
       isAwake: s1.isAwake || s2.isAwake,
-      isTrigger: s1.isTrigger
+      isTrigger: s1.isTrigger,
+      ...(s1.vertices && s2.vertices && s1.vertices.length === s2.vertices.length
+        ? {
+            vertices: s1.vertices.map((v, i) => ({
+              x: v.x + (s2.vertices![i].x - v.x) * t,
+              y: v.y + (s2.vertices![i].y - v.y) * t,
+              z: v.z + (s2.vertices![i].z - v.z) * t
+            }))
+          }
+        : s1.vertices ? { vertices: s1.vertices } : {})
     };
   }
 
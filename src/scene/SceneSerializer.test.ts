@@ -0,0 +1,194 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SceneSerializer, FunctionRegistry, SCENE_VERSION } from './SceneSerializer';
+import { Engine } from '../core/Engine';
+import { ScriptManager, BuiltinScripts } from '../scripting/ScriptManager';
+import { SceneDocument, Vector3, WindFunction } from '../types';
+
+const swirl = (p: Vector3): Vector3 => ({ x: -p.z, y: 0, z: p.x });
+const gust: WindFunction = (_p, t) => ({ x: Math.sin(t), y: 0, z: 0 });
+
+function registry(): FunctionRegistry {
+  const functions = new FunctionRegistry();
+  functions.register('swirl', swirl);
+  functions.register('gust', gust);
+  return functions;
+}
+
+function scripts(): ScriptManager {
+  const manager = new ScriptManager();
+  manager.registerScript('rotator', BuiltinScripts.Rotator);
+  return manager;
+}
+
+/**
+ * A scene using every section of the document, stepped into flight
+ */
+function sampleWorld(manager: ScriptManager): Engine {
+  const engine = new Engine({ timeStep: 1 / 60, broadPhase: 'dynamic-tree' });
+  engine.setEnvironment({
+    wind: gust,
+    bounds: { type: 'box', center: { x: 0, y: 0, z: 0 }, halfExtents: { x: 50, y: 50, z: 50 } },
+  });
+  engine.defineCollisionLayer('debris');
+  engine.setLayerCollision('debris', 'debris', false);
+  engine.addObject({ type: 'sphere', radius: 0.5, position: [0, 6, 0], collisionLayer: 'debris' });
+  engine.addObject({ type: 'box', position: [2, 6, 0], material: { friction: 0.8 } });
+  engine.addObject({ type: 'box', position: [3.2, 6, 0] });
+  engine.addConstraint({ type: 'hinge', bodyA: 'obj_2', bodyB: 'obj_3', anchorA: [0.6, 0, 0], anchorB: [-0.6, 0, 0], axis: [0, 0, 1] });
+  engine.ignoreCollision('obj_1', 'obj_2');
+  engine.addForce({ type: 'force-field', target: 'all', fieldFunction: swirl, magnitude: 0.1 });
+  engine.addForce({ type: 'constant', target: ['obj_1'], direction: [1, 0, 0], magnitude: 2 });
+  manager.attachScript('obj_1', 'rotator', { speed: 3 });
+  for (let i = 0; i < 30; i++) engine.step();
+  return engine;
+}
+
+// ============================================================================
+// ROUND TRIP
+// ============================================================================
+
+describe('scene round trip', () => {
+  it('reloads a saved scene losslessly', () => {
+    const functions = registry();
+    const saved = scripts();
+    const original = sampleWorld(saved);
+    const text = JSON.stringify(original.toJSON({ functions, scripts: saved }));
+
+    const manager = scripts();
+    const loaded = Engine.fromJSON(text, { functions, scripts: manager });
+
+    expect(JSON.stringify(loaded.toJSON({ functions, scripts: manager }))).toBe(text);
+    expect(loaded.time).toBe(original.time);
+    for (const object of original.getAllObjects()) {
+      const copy = loaded.getObject(object.id)!;
+      expect(copy.position).toEqual(object.position);
+      expect(copy.rotation).toEqual(object.rotation);
+      expect(copy.velocity).toEqual(object.velocity);
+      expect(copy.angularVelocity).toEqual(object.angularVelocity);
+    }
+    expect(typeof loaded.getEnvironment().wind).toBe('function');
+    expect(manager.getSceneScripts()).toEqual([
+      expect.objectContaining({ object: 'obj_1', name: 'rotator', state: expect.objectContaining({ speed: 3 }) }),
+    ]);
+    // Id counters carry over
+    expect(loaded.addObject({ type: 'sphere' }).id).toBe('obj_4');
+  });
+
+  it('continues the same trajectory after loading', () => {
+    // Scenes carry no solver state, so compare bodies that are not in contact or jointed
+    const functions = registry();
+    const original = sampleWorld(scripts());
+    original.removeConstraint('constraint_1');
+    const loaded = Engine.fromJSON(JSON.stringify(original.toJSON({ functions })), { functions });
+
+    for (let i = 0; i < 30; i++) {
+      original.step();
+      loaded.step();
+    }
+    expect(loaded.stateHash()).toBe(original.stateHash());
+  });
+
+  it('keeps how many times a pair was ignored', () => {
+    const engine = new Engine();
+    engine.addObject({ id: 'a', type: 'sphere' });
+    engine.addObject({ id: 'b', type: 'sphere', position: { x: 3, y: 0, z: 0 } });
+    engine.addObject({ id: 'c', type: 'box' });
+    engine.ignoreCollision('a', 'b');
+    engine.ignoreCollision('a', 'b');
+    engine.ignoreCollision('a', 'c');
+    // The joint's own rule is rebuilt by the constraint, not saved as a pair
+    engine.addConstraint({ type: 'distance', bodyA: 'b', bodyB: 'c' });
+
+    const document = engine.toJSON();
+    expect(document.collision!.ignoredPairs).toEqual([['a', 'b', 2], ['a', 'c']]);
+
+    const loaded = Engine.fromJSON(JSON.stringify(document));
+    loaded.ignoreCollision('a', 'b', false);
+    expect(loaded.toJSON().collision!.ignoredPairs).toEqual([['a', 'b'], ['a', 'c']]);
+  });
+
+  it('returns scripts it could not attach as load warnings', () => {
+    const functions = registry();
+    const saved = scripts();
+    const text = JSON.stringify(sampleWorld(saved).toJSON({ functions, scripts: saved }));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { engine, warnings } = Engine.loadScene(text, { functions });
+    expect(warnings).toEqual(['scripts: no ScriptManager given, 1 script(s) will not be attached']);
+    expect(engine.getObject('obj_1')).toBeDefined();
+    expect(Engine.loadScene(text, { functions, scripts: scripts() }).warnings).toEqual([]);
+    Engine.fromJSON(text, { functions });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('refuses to save functions that are not registered', () => {
+    const engine = new Engine();
+    engine.addForce({ type: 'force-field', fieldFunction: () => ({ x: 0, y: 0, z: 0 }) });
+
+    expect(() => engine.toJSON()).toThrow('forces[0].fieldFunction: function is not registered in the FunctionRegistry');
+  });
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('SceneSerializer.validate', () => {
+  function savedScene(functions: FunctionRegistry): SceneDocument {
+    return JSON.parse(JSON.stringify(sampleWorld(scripts()).toJSON({ functions })));
+  }
+
+  it('points each schema error at its path', () => {
+    const functions = registry();
+    const scene = savedScene(functions) as any;
+    scene.objects[0].type = 'boxx';
+    scene.objects[1].radius = -1;
+    scene.objects[2].position = { x: 1, y: 'a', z: 0 };
+    const result = SceneSerializer.validate(scene, { functions });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.stringMatching(/^objects\[0\]\.type: must be one of "sphere", "box"/),
+      'objects[1].radius: must be >= 0',
+      'objects[2].position.y: must be a number',
+    ]);
+  });
+
+  it('reports unknown objects and unregistered functions', () => {
+    const functions = registry();
+    const scene = savedScene(functions) as any;
+    scene.constraints[0].bodyB = 'ghost';
+    scene.forces[0].fieldFunction = { $fn: 'nope' };
+
+    expect(SceneSerializer.validate(scene, { functions }).errors).toEqual([
+      'constraints[0].bodyB: unknown object "ghost"',
+      'forces[0].fieldFunction: function "nope" is not registered in the FunctionRegistry',
+    ]);
+  });
+
+  it('reports a newer version together with the other errors', () => {
+    const result = SceneSerializer.validate({ format: 'x', version: SCENE_VERSION + 1, objects: [{}], extra: 1 });
+
+    expect(result.errors).toEqual([
+      `version: scene version ${SCENE_VERSION + 1} is newer than the supported version ${SCENE_VERSION}`,
+      'format: must be "asimulate-scene"',
+      'objects[0].type: is required',
+      'objects[0].id: is required',
+      'extra: is not a known property',
+    ]);
+  });
+
+  it('rejects ignore counts below one', () => {
+    const scene = new Engine().toJSON() as any;
+    scene.collision = { ignoredPairs: [['a', 'b', 0]] };
+
+    expect(SceneSerializer.validate(scene).errors).toEqual(['collision.ignoredPairs[0][2]: must be >= 1']);
+  });
+
+  it('reports malformed JSON', () => {
+    const result = SceneSerializer.parse('{oops');
+    expect(result.success).toBe(false);
+    expect(result.errors[0]).toMatch(/^Invalid JSON/);
+  });
+});
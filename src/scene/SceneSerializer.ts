@@ -0,0 +1,851 @@
+/**
+ * ASIMULATE SDK - Scene Module
+ * Versioned scene documents: schema, validation and named functions
+ */
+
+import type {
+  SceneDocument,
+  SceneFunctionRef,
+  SceneNumber,
+  SceneScript
+} from '../types';
+import type { ParseResult } from '../import/Importer';
+import type { ScriptManager } from '../scripting/ScriptManager';
+import type { Engine } from '../core/Engine';
+
+export const SCENE_FORMAT = 'asimulate-scene';
+export const SCENE_VERSION = 1;
+
+export type SceneFunction = (...args: any[]) => unknown;
+
+export interface SceneOptions {
+  functions?: FunctionRegistry; // resolves { $fn } references in both directions
+  scripts?: ScriptManager; // saves and reattaches scripts by registered name
+}
+
+export interface SceneLoadResult {
+  engine: Engine;
+  warnings: string[]; // loaded, but not everything in the scene was applied
+}
+
+// ============================================================================
+// Function Registry
+// ============================================================================
+
+/**
+ * Named functions a scene may refer to: gravity and wind fields, force fields,
+ * falloff curves, boundary callbacks. Functions are saved as { "$fn": name },
+ * so whoever loads the scene must register the same names.
+ */
+export class FunctionRegistry {
+  private functions: Map<string, SceneFunction> = new Map();
+  private names: Map<SceneFunction, string> = new Map();
+
+  /**
+   * Register a function under a name. Returns the function so it can be
+   * registered where it is used, e.g. `wind: registry.register('gust', fn)`.
+   */
+  register<T extends SceneFunction>(name: string, fn: T): T {
+    const existing = this.functions.get(name);
+    if (existing && existing !== fn) {
+      throw new Error(`Function "${name}" is already registered`);
+    }
+    this.functions.set(name, fn);
+    if (!this.names.has(fn)) this.names.set(fn, name);
+    return fn;
+  }
+
+  unregister(name: string): boolean {
+    const fn = this.functions.get(name);
+    if (!fn) return false;
+    this.functions.delete(name);
+    if (this.names.get(fn) === name) {
+      this.names.delete(fn);
+      // Keep another alias of the same function resolvable
+      for (const [alias, other] of this.functions) {
+        if (other === fn) {
+          this.names.set(fn, alias);
+          break;
+        }
+      }
+    }
+    return true;
+  }
+
+  get(name: string): SceneFunction | undefined {
+    return this.functions.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.functions.has(name);
+  }
+
+  /**
+   * Name a function was first registered under
+   */
+  nameOf(fn: SceneFunction): string | undefined {
+    return this.names.get(fn);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.functions.keys());
+  }
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+/**
+ * The subset of JSON Schema (draft 2020-12) the scene validator understands
+ */
+export interface SceneSchema {
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, SceneSchema>;
+  title?: string;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  const?: unknown;
+  enum?: readonly unknown[];
+  properties?: Record<string, SceneSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  prefixItems?: SceneSchema[];
+  items?: SceneSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+  anyOf?: SceneSchema[];
+  allOf?: SceneSchema[];
+}
+
+const NUMBER: SceneSchema = { $ref: '#/$defs/number' };
+const NON_NEGATIVE: SceneSchema = { type: 'number', minimum: 0 };
+const POSITIVE: SceneSchema = { type: 'number', exclusiveMinimum: 0 };
+const INDEX: SceneSchema = { type: 'integer', minimum: 0 };
+const BOOLEAN: SceneSchema = { type: 'boolean' };
+const ID: SceneSchema = { type: 'string', minLength: 1 };
+const VECTOR: SceneSchema = { $ref: '#/$defs/vector3' };
+const VECTOR_OR_FUNCTION: SceneSchema = { $ref: '#/$defs/vectorOrFunction' };
+const FUNCTION: SceneSchema = { $ref: '#/$defs/functionRef' };
+const ID_PAIR: SceneSchema = { type: 'array', items: ID, minItems: 2, maxItems: 2 };
+const COUNTED_ID_PAIR: SceneSchema = {
+  title: '[id, id] or [id, id, count]',
+  type: 'array',
+  prefixItems: [ID, ID, { type: 'integer', minimum: 1 }],
+  minItems: 2,
+  maxItems: 3
+};
+const RANGE: SceneSchema = {
+  title: 'number or [min, max]',
+  anyOf: [NON_NEGATIVE, { type: 'array', items: NON_NEGATIVE, minItems: 2, maxItems: 2 }],
+};
+
+const OBJECT_TYPES = [
+  'sphere', 'box', 'cylinder', 'capsule', 'cone', 'plane', 'heightmap',
+  'mesh', 'convex-hull', 'concave-decomposition', 'compound', 'soft-body', 'rope',
+  'cloth', 'fluid', 'particle-system', 'vehicle', 'character', 'projectile', 'celestial'
+];
+
+const CONSTRAINT_TYPES = [
+  'fixed', 'hinge', 'ball', 'slider', 'piston', 'universal', 'distance', 'spring', 'rope', 'gear', 'motor'
+];
+
+const FORCE_TYPES = [
+  'gravity', 'wind', 'drag', 'buoyancy', 'constant', 'impulse', 'torque', 'spring', 'attractor',
+  'repulsor', 'thruster', 'explosion', 'force-field', 'vortex-field', 'noise-field'
+];
+
+/**
+ * JSON Schema of a scene document, for editors and external validators as
+ * well as SceneSerializer.validate. Functions appear as { "$fn": name } and
+ * non-finite numbers as { "$number": "Infinity" }.
+ */
+export const SCENE_SCHEMA: SceneSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'scene document',
+  type: 'object',
+  properties: {
+    format: { const: SCENE_FORMAT },
+    version: { type: 'integer', minimum: 1 },
+    name: { type: 'string' },
+    engine: { $ref: '#/$defs/engine' },
+    time: NON_NEGATIVE,
+    environment: { $ref: '#/$defs/environment' },
+    collision: { $ref: '#/$defs/collision' },
+    objects: { type: 'array', items: { allOf: [{ $ref: '#/$defs/object' }, { required: ['id'] }] } },
+    constraints: { type: 'array', items: { $ref: '#/$defs/constraint' } },
+    forces: { type: 'array', items: { $ref: '#/$defs/force' } },
+    scripts: { type: 'array', items: { $ref: '#/$defs/script' } },
+  },
+  required: ['format', 'version', 'objects'],
+  additionalProperties: false,
+  $defs: {
+    number: {
+      title: 'number',
+      anyOf: [
+        { type: 'number' },
+        {
+          type: 'object',
+          properties: { $number: { enum: ['Infinity', '-Infinity', 'NaN'] } },
+          required: ['$number'],
+          additionalProperties: false,
+        },
+      ],
+    },
+    functionRef: {
+      title: 'function reference ({ "$fn": name })',
+      type: 'object',
+      properties: { $fn: ID },
+      required: ['$fn'],
+      additionalProperties: false,
+    },
+    vector3: {
+      title: 'vector ({x, y, z} or [x, y, z])',
+      anyOf: [
+        { type: 'object', properties: { x: NUMBER, y: NUMBER, z: NUMBER }, required: ['x', 'y', 'z'] },
+        { type: 'array', items: NUMBER, minItems: 3, maxItems: 3 },
+      ],
+    },
+    quaternion: {
+      title: 'quaternion ({x, y, z, w} or [x, y, z, w])',
+      anyOf: [
+        { type: 'object', properties: { x: NUMBER, y: NUMBER, z: NUMBER, w: NUMBER }, required: ['x', 'y', 'z', 'w'] },
+        { type: 'array', items: NUMBER, minItems: 4, maxItems: 4 },
+      ],
+    },
+    matrix3: {
+      type: 'object',
+      properties: { elements: { type: 'array', items: NUMBER, minItems: 9, maxItems: 9 } },
+      required: ['elements'],
+    },
+    vectorOrFunction: {
+      title: 'vector or function reference',
+      anyOf: [VECTOR, FUNCTION],
+    },
+    material: {
+      type: 'object',
+      properties: {
+        friction: NON_NEGATIVE,
+        staticFriction: NON_NEGATIVE,
+        restitution: NON_NEGATIVE,
+        rollingResistance: NON_NEGATIVE,
+      },
+      additionalProperties: false,
+    },
+    boundingVolume: {
+      type: 'object',
+      properties: {
+        type: { enum: ['box', 'sphere', 'none'] },
+        center: VECTOR,
+        halfExtents: VECTOR,
+        radius: NON_NEGATIVE,
+      },
+      required: ['type'],
+      additionalProperties: false,
+    },
+    gravityField: {
+      type: 'object',
+      properties: {
+        type: { enum: ['constant', 'radial', 'custom'] },
+        value: VECTOR,
+        center: VECTOR,
+        strength: NUMBER,
+        customFn: FUNCTION,
+      },
+      required: ['type'],
+      additionalProperties: false,
+    },
+    fluidField: {
+      type: 'object',
+      properties: {
+        id: ID,
+        bounds: { $ref: '#/$defs/boundingVolume' },
+        density: NON_NEGATIVE,
+        viscosity: NON_NEGATIVE,
+        velocity: VECTOR_OR_FUNCTION,
+      },
+      required: ['id', 'bounds', 'density', 'viscosity'],
+      additionalProperties: false,
+    },
+    engine: {
+      type: 'object',
+      properties: {
+        precision: { enum: ['low', 'medium', 'high', 'scientific'] },
+        integrator: { enum: ['euler', 'verlet', 'runge-kutta-4', 'rk45', 'symplectic'] },
+        timeStep: POSITIVE,
+        maxSubSteps: { type: 'integer', minimum: 1 },
+        enableMultithreading: BOOLEAN,
+        workerCount: INDEX,
+        deterministicMode: BOOLEAN,
+        sleepThreshold: NON_NEGATIVE,
+        sleepTimeThreshold: NON_NEGATIVE,
+        tolerance: POSITIVE,
+        adaptiveTimeStep: BOOLEAN,
+        minTimeStep: POSITIVE,
+        maxTimeStep: POSITIVE,
+        stepTolerance: POSITIVE,
+        continuousCollisionDetection: BOOLEAN,
+        broadPhase: { enum: ['sap', 'spatial-hash', 'dynamic-tree'] },
+        seed: INDEX,
+      },
+      additionalProperties: false,
+    },
+    environment: {
+      type: 'object',
+      properties: {
+        preset: { enum: ['earth', 'moon', 'mars', 'jupiter', 'space', 'underwater', 'custom'] },
+        gravity: {
+          title: 'number, vector or gravity field',
+          anyOf: [NUMBER, VECTOR, { $ref: '#/$defs/gravityField' }],
+        },
+        airDensity: NON_NEGATIVE,
+        airViscosity: NON_NEGATIVE,
+        temperature: NON_NEGATIVE,
+        pressure: NON_NEGATIVE,
+        wind: VECTOR_OR_FUNCTION,
+        fluidFields: { type: 'array', items: { $ref: '#/$defs/fluidField' } },
+        magneticField: VECTOR_OR_FUNCTION,
+        electricField: VECTOR_OR_FUNCTION,
+        bounds: { $ref: '#/$defs/boundingVolume' },
+        boundaryBehavior: { enum: ['reflect', 'wrap', 'destroy', 'custom'] },
+        boundaryCallback: FUNCTION,
+      },
+      additionalProperties: false,
+    },
+    collision: {
+      type: 'object',
+      properties: {
+        layers: { type: 'array', items: ID, maxItems: 32 },
+        disabledLayerPairs: { type: 'array', items: ID_PAIR },
+        ignoredPairs: { type: 'array', items: COUNTED_ID_PAIR },
+      },
+      additionalProperties: false,
+    },
+    object: {
+      type: 'object',
+      properties: {
+        id: ID,
+        name: { type: 'string' },
+        type: { enum: OBJECT_TYPES },
+        radius: NON_NEGATIVE,
+        width: NON_NEGATIVE,
+        height: NON_NEGATIVE,
+        depth: NON_NEGATIVE,
+        length: NON_NEGATIVE,
+        segments: { type: 'integer', minimum: 1 },
+        vertices: { type: 'array', items: VECTOR },
+        indices: { type: 'array', items: INDEX },
+        heightmapData: { type: 'array', items: { type: 'array', items: NUMBER } },
+        position: VECTOR,
+        rotation: { $ref: '#/$defs/quaternion' },
+        scale: VECTOR,
+        mass: NON_NEGATIVE,
+        density: POSITIVE,
+        centerOfMass: VECTOR,
+        inertiaTensor: { $ref: '#/$defs/matrix3' },
+        material: { $ref: '#/$defs/material' },
+        velocity: VECTOR,
+        angularVelocity: VECTOR,
+        linearDamping: NON_NEGATIVE,
+        angularDamping: NON_NEGATIVE,
+        dragCoefficient: NUMBER,
+        liftCoefficient: NUMBER,
+        crossSectionArea: NON_NEGATIVE,
+        isStatic: BOOLEAN,
+        isKinematic: BOOLEAN,
+        isTrigger: BOOLEAN,
+        collisionGroup: INDEX,
+        collisionMask: INDEX,
+        collisionLayer: ID,
+        collisionDetection: { enum: ['discrete', 'continuous'] },
+        charge: NUMBER,
+        temperature: NON_NEGATIVE,
+        customData: { type: 'object' },
+        children: { type: 'array', items: { $ref: '#/$defs/object' } },
+        stiffness: NUMBER,
+        bendStiffness: NUMBER,
+        selfCollision: BOOLEAN,
+        damping: NUMBER,
+        particleCount: INDEX,
+        viscosity: NON_NEGATIVE,
+        fixedParticles: { type: 'array', items: INDEX },
+        substeps: { type: 'integer', minimum: 1 },
+        shape: { enum: OBJECT_TYPES },
+        emitter: { $ref: '#/$defs/emitter' },
+      },
+      required: ['type'],
+      additionalProperties: false,
+    },
+    emitter: {
+      type: 'object',
+      properties: {
+        rate: NON_NEGATIVE,
+        bursts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { time: NON_NEGATIVE, count: INDEX },
+            required: ['time', 'count'],
+            additionalProperties: false,
+          },
+        },
+        duration: NUMBER,
+        lifetime: RANGE,
+        maxParticles: INDEX,
+        shape: { enum: ['point', 'sphere', 'box', 'disc'] },
+        radius: NON_NEGATIVE,
+        size: VECTOR,
+        direction: VECTOR,
+        spread: NON_NEGATIVE,
+        speed: RANGE,
+        inheritVelocity: NUMBER,
+        particleMass: POSITIVE,
+        particleRadius: NON_NEGATIVE,
+        collide: BOOLEAN,
+        seed: INDEX,
+      },
+      additionalProperties: false,
+    },
+    constraint: {
+      type: 'object',
+      properties: {
+        id: ID,
+        type: { enum: CONSTRAINT_TYPES },
+        bodyA: ID,
+        bodyB: ID,
+        anchorA: VECTOR,
+        anchorB: VECTOR,
+        axis: VECTOR,
+        secondaryAxis: VECTOR,
+        limits: {
+          type: 'object',
+          properties: { min: NUMBER, max: NUMBER },
+          additionalProperties: false,
+        },
+        stiffness: NON_NEGATIVE,
+        damping: NON_NEGATIVE,
+        breakForce: NUMBER,
+        breakTorque: NUMBER,
+        motorEnabled: BOOLEAN,
+        motorSpeed: NUMBER,
+        motorMaxForce: NUMBER,
+        gearRatio: NUMBER,
+        maxLength: NON_NEGATIVE,
+        particle: INDEX,
+        collideConnected: BOOLEAN,
+      },
+      required: ['id', 'type', 'bodyA'],
+      additionalProperties: false,
+    },
+    force: {
+      type: 'object',
+      properties: {
+        id: ID,
+        type: { enum: FORCE_TYPES },
+        target: {
+          title: 'object id, list of object ids or "all"',
+          anyOf: [ID, { type: 'array', items: ID }],
+        },
+        magnitude: NUMBER,
+        direction: VECTOR,
+        point: VECTOR,
+        anchorA: VECTOR,
+        anchorB: VECTOR,
+        restLength: NON_NEGATIVE,
+        stiffness: NUMBER,
+        damping: NUMBER,
+        center: VECTOR,
+        fieldFunction: FUNCTION,
+        falloff: { enum: ['none', 'linear', 'quadratic', 'custom'] },
+        falloffFunction: FUNCTION,
+        maxDistance: NUMBER,
+        enabled: BOOLEAN,
+        startTime: NUMBER,
+        duration: NUMBER,
+        axis: VECTOR,
+        tangentialStrength: NUMBER,
+        radialStrength: NUMBER,
+        frequency: NUMBER,
+        amplitude: NUMBER,
+        octaves: { type: 'integer', minimum: 1 },
+        seed: INDEX,
+      },
+      required: ['id', 'type'],
+      additionalProperties: false,
+    },
+    script: {
+      type: 'object',
+      properties: {
+        object: ID,
+        name: ID,
+        state: { type: 'object' },
+        enabled: BOOLEAN,
+      },
+      required: ['name'],
+      additionalProperties: false,
+    },
+  },
+};
+
+/**
+ * A schema violation. Mismatches are errors that mean "this value is a
+ * different kind of thing altogether", which anyOf uses to pick the branch
+ * whose errors are worth reporting.
+ */
+interface SchemaIssue {
+  path: string;
+  message: string;
+  mismatch: boolean;
+}
+
+// ============================================================================
+// Scene Serializer
+// ============================================================================
+
+/**
+ * Encoding, decoding and validation of scene documents.
+ * Engine.toJSON and Engine.fromJSON build on these.
+ */
+export class SceneSerializer {
+
+  /**
+   * Turn a config into scene JSON: registered functions become { $fn } references,
+   * non-finite numbers become { $number } and undefined fields are dropped.
+   * Problems are appended to errors with the path of the offending value.
+   */
+  static encode(value: unknown, path: string, functions: FunctionRegistry | undefined, errors: string[]): unknown {
+    if (typeof value === 'function') {
+      const name = functions?.nameOf(value as SceneFunction);
+      if (name === undefined) {
+        errors.push(`${path}: function is not registered in the FunctionRegistry`);
+        return null;
+      }
+      return { $fn: name } as SceneFunctionRef;
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return { $number: String(value) } as SceneNumber;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item, i) => SceneSerializer.encode(item, SceneSerializer.childPath(path, i), functions, errors));
+    }
+    if (value !== null && typeof value === 'object') {
+      const encoded: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(value)) {
+        if (field === undefined) continue;
+        encoded[key] = SceneSerializer.encode(field, SceneSerializer.childPath(path, key), functions, errors);
+      }
+      return encoded;
+    }
+    return value;
+  }
+
+  /**
+   * Inverse of encode for a validated scene: references are looked up in the registry
+   */
+  static decode<T>(value: unknown, functions?: FunctionRegistry): T {
+    if (Array.isArray(value)) {
+      return value.map(item => SceneSerializer.decode(item, functions)) as unknown as T;
+    }
+    if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const keys = Object.keys(record);
+      if (keys.length === 1 && typeof record.$fn === 'string') {
+        return functions?.get(record.$fn) as unknown as T;
+      }
+      if (keys.length === 1 && typeof record.$number === 'string') {
+        return Number(record.$number) as unknown as T;
+      }
+      const decoded: Record<string, unknown> = {};
+      for (const [key, field] of Object.entries(record)) {
+        decoded[key] = SceneSerializer.decode(field, functions);
+      }
+      return decoded as T;
+    }
+    return value as T;
+  }
+
+  /**
+   * Parse a scene from JSON text and validate it
+   */
+  static parse(json: string, options: SceneOptions = {}): ParseResult<SceneDocument> {
+    let document: unknown;
+    try {
+      document = JSON.parse(json);
+    } catch (e) {
+      return { success: false, errors: [`Invalid JSON: ${(e as Error).message}`], warnings: [] };
+    }
+    return SceneSerializer.validate(document, options);
+  }
+
+  /**
+   * Check a scene against SCENE_SCHEMA, then check what the schema cannot:
+   * the version, unique ids, references between objects, constraints, forces
+   * and scripts, and that every function and script name is registered.
+   * Each error starts with the path of the failing value, e.g. "objects[2].radius".
+   */
+  static validate(document: unknown, options: SceneOptions = {}): ParseResult<SceneDocument> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    // Reported first: a newer format may be laid out differently, which explains the errors below
+    const version = (document as { version?: unknown } | null)?.version;
+    if (typeof version === 'number' && version > SCENE_VERSION) {
+      errors.push(`version: scene version ${version} is newer than the supported version ${SCENE_VERSION}`);
+    }
+
+    const issues: SchemaIssue[] = [];
+    SceneSerializer.checkSchema(document, SCENE_SCHEMA, '', issues);
+    errors.push(...issues.map(issue => `${issue.path || 'scene'}: ${issue.message}`));
+
+    // References are only meaningful once the structure is known to be sound
+    if (issues.length === 0) {
+      SceneSerializer.checkReferences(document as SceneDocument, options, errors, warnings);
+    }
+
+    return errors.length === 0
+      ? { success: true, data: document as SceneDocument, errors, warnings }
+      : { success: false, errors, warnings };
+  }
+
+  // ==================== Schema checks ====================
+
+  private static checkSchema(value: unknown, schema: SceneSchema, path: string, issues: SchemaIssue[]): void {
+    if (schema.$ref) {
+      SceneSerializer.checkSchema(value, SceneSerializer.resolve(schema.$ref), path, issues);
+      return;
+    }
+
+    if (schema.allOf) {
+      for (const part of schema.allOf) {
+        SceneSerializer.checkSchema(value, part, path, issues);
+      }
+    }
+
+    if (schema.anyOf) {
+      SceneSerializer.checkAnyOf(value, schema, path, issues);
+      return;
+    }
+
+    if ('const' in schema && value !== schema.const) {
+      issues.push({ path, message: `must be ${JSON.stringify(schema.const)}`, mismatch: true });
+      return;
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      const allowed = schema.enum.map(v => JSON.stringify(v)).join(', ');
+      issues.push({ path, message: `must be one of ${allowed}`, mismatch: true });
+      return;
+    }
+    if (schema.type && !SceneSerializer.hasType(value, schema.type)) {
+      const article = /^[aeiou]/.test(schema.type) ? 'an' : 'a';
+      issues.push({ path, message: `must be ${article} ${schema.type}`, mismatch: true });
+      return;
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, message: `must be >= ${schema.minimum}`, mismatch: false });
+      }
+      if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        issues.push({ path, message: `must be > ${schema.exclusiveMinimum}`, mismatch: false });
+      }
+    } else if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must have at least ${schema.minLength} characters`, mismatch: false });
+      }
+    } else if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, message: `must have at least ${schema.minItems} items`, mismatch: false });
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, message: `must have at most ${schema.maxItems} items`, mismatch: false });
+      }
+      const prefix = schema.prefixItems ?? [];
+      value.forEach((item, i) => {
+        const itemSchema = i < prefix.length ? prefix[i] : schema.items;
+        if (itemSchema) SceneSerializer.checkSchema(item, itemSchema, SceneSerializer.childPath(path, i), issues);
+      });
+    } else if (value !== null && typeof value === 'object') {
+      SceneSerializer.checkObject(value as Record<string, unknown>, schema, path, issues);
+    }
+  }
+
+  private static checkObject(value: Record<string, unknown>, schema: SceneSchema, path: string, issues: SchemaIssue[]): void {
+    const missing = (schema.required ?? []).filter(key => value[key] === undefined);
+
+    // Missing every required property: this is not the kind of object the schema describes
+    if (missing.length > 0 && missing.length === schema.required!.length && Object.keys(value).length > 0) {
+      issues.push({ path, message: `must have ${missing.map(key => `"${key}"`).join(', ')}`, mismatch: true });
+      return;
+    }
+    for (const key of missing) {
+      issues.push({ path: SceneSerializer.childPath(path, key), message: 'is required', mismatch: false });
+    }
+
+    for (const [key, field] of Object.entries(value)) {
+      const fieldSchema = schema.properties?.[key];
+      if (fieldSchema) {
+        SceneSerializer.checkSchema(field, fieldSchema, SceneSerializer.childPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: SceneSerializer.childPath(path, key), message: 'is not a known property', mismatch: false });
+      }
+    }
+  }
+
+  /**
+   * Passes if any branch passes. Otherwise report the errors of the one branch
+   * the value resembles, or say which forms were expected if it resembles none.
+   */
+  private static checkAnyOf(value: unknown, schema: SceneSchema, path: string, issues: SchemaIssue[]): void {
+    const candidates: SchemaIssue[][] = [];
+    for (const branch of schema.anyOf!) {
+      const branchIssues: SchemaIssue[] = [];
+      SceneSerializer.checkSchema(value, branch, path, branchIssues);
+      if (branchIssues.length === 0) return;
+      if (branchIssues.some(issue => !issue.mismatch || issue.path !== path)) {
+        candidates.push(branchIssues);
+      }
+    }
+
+    if (candidates.length === 1) {
+      issues.push(...candidates[0]);
+    } else {
+      const expected = schema.title ?? schema.anyOf!.map(branch => SceneSerializer.describe(branch)).join(' or ');
+      issues.push({ path, message: `must be ${/^[aeiou]/.test(expected) ? 'an' : 'a'} ${expected}`, mismatch: true });
+    }
+  }
+
+  private static hasType(value: unknown, type: NonNullable<SceneSchema['type']>): boolean {
+    switch (type) {
+      case 'object': return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'array': return Array.isArray(value);
+      case 'integer': return Number.isInteger(value);
+      case 'number': return typeof value === 'number';
+      default: return typeof value === type;
+    }
+  }
+
+  private static resolve(ref: string): SceneSchema {
+    const name = ref.replace('#/$defs/', '');
+    const schema = SCENE_SCHEMA.$defs?.[name];
+    if (!schema) {
+      throw new Error(`Unknown scene schema reference "${ref}"`);
+    }
+    return schema;
+  }
+
+  private static describe(schema: SceneSchema): string {
+    if (schema.$ref) return SceneSerializer.describe(SceneSerializer.resolve(schema.$ref));
+    return schema.title ?? schema.type ?? 'value';
+  }
+
+  // ==================== Reference checks ====================
+
+  private static checkReferences(
+    scene: SceneDocument,
+    options: SceneOptions,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    const objectIds = SceneSerializer.collectIds(scene.objects, 'objects', 'object', errors);
+    SceneSerializer.collectIds(scene.constraints ?? [], 'constraints', 'constraint', errors);
+    SceneSerializer.collectIds(scene.forces ?? [], 'forces', 'force', errors);
+
+    const requireObject = (id: string, path: string) => {
+      if (!objectIds.has(id)) errors.push(`${path}: unknown object "${id}"`);
+    };
+
+    (scene.constraints ?? []).forEach((constraint, i) => {
+      requireObject(constraint.bodyA, `constraints[${i}].bodyA`);
+      if (constraint.bodyB !== undefined && constraint.bodyB !== 'world') {
+        requireObject(constraint.bodyB, `constraints[${i}].bodyB`);
+      }
+    });
+
+    (scene.forces ?? []).forEach((force, i) => {
+      if (Array.isArray(force.target)) {
+        force.target.forEach((id, j) => requireObject(id, `forces[${i}].target[${j}]`));
+      } else if (force.target !== undefined && force.target !== 'all') {
+        requireObject(force.target, `forces[${i}].target`);
+      }
+    });
+
+    const collision = scene.collision ?? {};
+    const layers = new Set(['default', ...(collision.layers ?? [])]);
+    for (const object of scene.objects) {
+      if (object.collisionLayer) layers.add(object.collisionLayer);
+    }
+    (collision.disabledLayerPairs ?? []).forEach((pair, i) => {
+      pair.forEach((layer, j) => {
+        if (!layers.has(layer)) errors.push(`collision.disabledLayerPairs[${i}][${j}]: unknown collision layer "${layer}"`);
+      });
+    });
+    (collision.ignoredPairs ?? []).forEach(([idA, idB], i) => {
+      requireObject(idA, `collision.ignoredPairs[${i}][0]`);
+      requireObject(idB, `collision.ignoredPairs[${i}][1]`);
+    });
+
+    SceneSerializer.checkFunctionRefs(scene, '', options.functions, errors);
+    SceneSerializer.checkScripts(scene.scripts ?? [], objectIds, options.scripts, errors, warnings);
+  }
+
+  private static collectIds(items: { id?: string }[], path: string, kind: string, errors: string[]): Set<string> {
+    const ids = new Set<string>();
+    items.forEach((item, i) => {
+      if (item.id === undefined) return;
+      if (ids.has(item.id)) {
+        errors.push(`${path}[${i}].id: duplicate ${kind} id "${item.id}"`);
+      }
+      ids.add(item.id);
+    });
+    return ids;
+  }
+
+  private static checkFunctionRefs(value: unknown, path: string, functions: FunctionRegistry | undefined, errors: string[]): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => SceneSerializer.checkFunctionRefs(item, SceneSerializer.childPath(path, i), functions, errors));
+    } else if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      if (Object.keys(record).length === 1 && typeof record.$fn === 'string') {
+        if (!functions?.has(record.$fn)) {
+          errors.push(`${path}: function "${record.$fn}" is not registered in the FunctionRegistry`);
+        }
+        return;
+      }
+      for (const [key, field] of Object.entries(record)) {
+        SceneSerializer.checkFunctionRefs(field, SceneSerializer.childPath(path, key), functions, errors);
+      }
+    }
+  }
+
+  private static checkScripts(
+    scripts: SceneScript[],
+    objectIds: Set<string>,
+    manager: ScriptManager | undefined,
+    errors: string[],
+    warnings: string[]
+  ): void {
+    if (scripts.length > 0 && !manager) {
+      warnings.push(`scripts: no ScriptManager given, ${scripts.length} script(s) will not be attached`);
+      return;
+    }
+
+    scripts.forEach((script, i) => {
+      if (script.object !== undefined && !objectIds.has(script.object)) {
+        errors.push(`scripts[${i}].object: unknown object "${script.object}"`);
+      }
+      if (!manager!.hasScript(script.name)) {
+        errors.push(`scripts[${i}].name: script "${script.name}" is not registered in the ScriptManager`);
+      }
+    });
+  }
+
+  private static childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+  }
+}
+
+export default SceneSerializer;
@@ -7,15 +7,20 @@ import {
   SimObject, 
   World, 
   Vector3, 
-  CollisionInfo 
+  CollisionInfo,
+  SceneScript,
+  RandomSource,
+  EngineEventCallback
 } from '../types';
 import { Vec3 } from '../math';
+import type { Engine } from '../core/Engine';
 
 export interface ScriptContext {
   object: SimObject;
   world: World;
   time: number;
   deltaTime: number;
+  random: RandomSource; // the world's seeded generator; use it instead of Math.random to stay reproducible
 }
 
 export interface ScriptCallbacks {
@@ -104,6 +109,7 @@ export class ScriptManager {
   private globalScripts: Map<string, AttachedScript> = new Map();
   private scriptRegistry: Map<string, () => ScriptDefinition> = new Map();
   private initialized: Set<string> = new Set();
+  private engines: Map<Engine, () => void> = new Map();
 
   /**
    * Register a script type for later instantiation
@@ -216,6 +222,55 @@ export class ScriptManager {
     this.globalScripts.delete(name);
   }
 
+  /**
+   * Whether a script factory is registered under this name
+   */
+  hasScript(name: string): boolean {
+    return this.scriptRegistry.has(name);
+  }
+
+  /**
+   * Every attached and global script with its state, for saving in a scene.
+   * Scripts are recreated from their registered factories when the scene loads.
+   */
+  getSceneScripts(): SceneScript[] {
+    const scripts: SceneScript[] = [];
+    for (const [objectId, objectScripts] of this.scripts) {
+      for (const [name, script] of objectScripts) {
+        scripts.push({ object: objectId, name, state: { ...script.state }, enabled: script.enabled });
+      }
+    }
+    for (const [name, script] of this.globalScripts) {
+      scripts.push({ name, state: { ...script.state }, enabled: script.enabled });
+    }
+    return scripts;
+  }
+
+  /**
+   * Attach the scripts of a loaded scene from their registered factories
+   */
+  loadSceneScripts(scripts: SceneScript[]): void {
+    for (const entry of scripts) {
+      const factory = this.scriptRegistry.get(entry.name);
+      if (!factory) {
+        console.warn(`Script "${entry.name}" not registered`);
+        continue;
+      }
+
+      if (entry.object !== undefined) {
+        this.attachScript(entry.object, entry.name, entry.state);
+        this.setScriptEnabled(entry.object, entry.name, entry.enabled ?? true);
+      } else {
+        const definition = factory();
+        this.globalScripts.set(entry.name, {
+          definition,
+          state: { ...definition.state, ...entry.state },
+          enabled: entry.enabled ?? true
+        });
+      }
+    }
+  }
+
   /**
    * Initialize scripts for an object
    */
@@ -226,7 +281,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -254,7 +310,7 @@ export class ScriptManager {
     for (const [objectId, object] of objects) {
       this.initScripts(objectId, object, world);
 
-      const ctx: ScriptContext = { object, world, time, deltaTime };
+      const ctx: ScriptContext = { object, world, time, deltaTime, random: world.random };
 
       // Object scripts
       const objectScripts = this.scripts.get(objectId);
@@ -290,7 +346,7 @@ export class ScriptManager {
     const time = world.currentTime;
 
     for (const [objectId, object] of objects) {
-      const ctx: ScriptContext = { object, world, time, deltaTime };
+      const ctx: ScriptContext = { object, world, time, deltaTime, random: world.random };
 
       const objectScripts = this.scripts.get(objectId);
       if (objectScripts) {
@@ -325,7 +381,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -350,7 +407,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -375,7 +433,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -400,7 +459,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -425,7 +485,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -450,7 +511,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -469,6 +531,29 @@ export class ScriptManager {
     this.detachAllScripts(objectId);
   }
 
+  /**
+   * Run the scripts' onSleep and onWake hooks on an engine's island sleep
+   * transitions. Attaching twice to one engine is a no-op; call the returned
+   * function to detach.
+   */
+  attachToEngine(engine: Engine): () => void {
+    let detach = this.engines.get(engine);
+    if (detach) return detach;
+
+    const forward = (hook: 'onSleep' | 'onWake'): EngineEventCallback => event => {
+      const { objectId } = event.data as { objectId: string };
+      const object = engine.getObject(objectId);
+      if (object) this[hook](objectId, object, engine);
+    };
+    const unsubscribe = [engine.on('sleep', forward('onSleep')), engine.on('wake', forward('onWake'))];
+    detach = () => {
+      unsubscribe.forEach(off => off());
+      this.engines.delete(engine);
+    };
+    this.engines.set(engine, detach);
+    return detach;
+  }
+
   /**
    * Handle wake event
    */
@@ -477,7 +562,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
@@ -502,7 +588,8 @@ export class ScriptManager {
       object,
       world,
       time: world.currentTime,
-      deltaTime: 0
+      deltaTime: 0,
+      random: world.random
     };
 
     const objectScripts = this.scripts.get(objectId);
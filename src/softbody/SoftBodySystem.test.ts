@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Engine } from '../core/Engine';
+import { Rope, Fluid } from './SoftBodySystem';
+import { Analysis } from '../analysis/Analysis';
+import { EngineWarning } from '../types';
+
+function groundedEngine(): Engine {
+  const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+  engine.addObject({ id: 'ground', type: 'plane', isStatic: true });
+  return engine;
+}
+
+function run(engine: Engine, steps: number): void {
+  for (let i = 0; i < steps; i++) engine.step();
+}
+
+function lowest(engine: Engine, id: string): number {
+  return Math.min(...engine.getSoftBody(id)!.getVertices().map(v => v.y));
+}
+
+// ============================================================================
+// SOFT BODIES
+// ============================================================================
+
+describe('soft bodies', () => {
+  it('falls onto the ground and comes to rest on it', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'jelly', type: 'soft-body', width: 1, height: 1, depth: 1, position: [0, 2, 0], mass: 2, stiffness: 1e9 });
+    const jelly = engine.getSoftBody('jelly')!;
+
+    let minY = Infinity;
+    for (let i = 0; i < 240; i++) {
+      engine.step();
+      minY = Math.min(minY, lowest(engine, 'jelly'));
+    }
+
+    expect(minY).toBeGreaterThan(-0.05);
+    expect(lowest(engine, 'jelly')).toBeLessThan(0.1);
+    expect(Math.abs(jelly.linearVelocity().y)).toBeLessThan(0.1);
+    // The object follows its particles
+    expect(engine.getObject('jelly')!.position.y).toBeCloseTo(jelly.centerOfMass().y, 6);
+  });
+
+  it('deforms under a rigid body resting on it', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'slab', type: 'soft-body', width: 2, height: 0.5, depth: 2, position: [0, 0.25, 0], mass: 10, stiffness: 2000, particleCount: 200 });
+    const rock = engine.addObject({ id: 'rock', type: 'sphere', radius: 0.3, position: [0, 1.5, 0], mass: 2 });
+    run(engine, 200);
+
+    const top = Math.max(...engine.getSoftBody('slab')!.getVertices().map(v => v.y));
+    // Held up by the slab, but pressed into it
+    expect(Math.abs(rock.velocity.y)).toBeLessThan(0.05);
+    expect(rock.position.y).toBeGreaterThan(0.6);
+    expect(rock.position.y - 0.3).toBeLessThan(top);
+  });
+
+  it('keeps fixed particles where they started', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'pinned', type: 'soft-body', shape: 'cylinder', radius: 0.2, height: 1, position: [3, 2, 0], mass: 1, fixedParticles: [0, 1, 2, 3], stiffness: 300 });
+    const body = engine.getSoftBody('pinned')!;
+    const start = [0, 1, 2, 3].map(i => body.particle(i));
+    run(engine, 120);
+
+    expect([0, 1, 2, 3].map(i => body.particle(i))).toEqual(start);
+    expect(engine.getObject('pinned')!.position.y).toBeLessThan(2);
+  });
+
+  it('reports a body without a usable shape through a warning event', () => {
+    const engine = groundedEngine();
+    const warnings: EngineWarning[] = [];
+    engine.on('warning', event => warnings.push(event.data as EngineWarning));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    engine.addObject({ id: 'flat', type: 'soft-body', vertices: [{ x: 0, y: 0, z: 0 }, { x: 1, y: 0, z: 0 }, { x: 0, y: 1, z: 0 }], indices: [0, 1, 2], position: [0, 2, 0] });
+    expect(engine.getSoftBody('flat')).toBeUndefined();
+    expect(warnings).toEqual([{ code: 'no-shape', objectId: 'flat', message: expect.stringContaining('rigid point mass') }]);
+
+    // Not reported again when a snapshot rebuilds it
+    engine.restoreSnapshot(engine.createSnapshot());
+    expect(warnings).toHaveLength(1);
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+// ============================================================================
+// ROPES
+// ============================================================================
+
+describe('ropes', () => {
+  it('carries a hanging crate and reads out the weight as tension', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'cable', type: 'rope', length: 2, segments: 20, mass: 0.2, position: [0, 4, 0], fixedParticles: [0] });
+    const crate = engine.addObject({ id: 'crate', type: 'box', width: 0.4, height: 0.4, depth: 0.4, mass: 10, position: [0, 1.8, 0] });
+    engine.addConstraint({ type: 'ball', bodyA: 'cable', bodyB: 'crate', anchorB: [0, 0.2, 0] });
+    run(engine, 300);
+
+    const rope = engine.getSoftBody('cable')! as Rope;
+    const tensions = rope.getTensions();
+    expect(tensions).toHaveLength(20);
+    // The top segment also holds up the rope itself
+    expect(tensions[19]).toBeCloseTo(10 * 9.81, -1);
+    expect(tensions[0]).toBeCloseTo(10.2 * 9.81, -1);
+    expect(tensions[0]).toBeGreaterThan(tensions[19]);
+    expect(rope.length).toBeCloseTo(2, 1);
+    expect(crate.position.y).toBeCloseTo(1.8, 2);
+    expect(Math.abs(crate.velocity.y)).toBeLessThan(1e-2);
+  });
+
+  it('swings a bob hung from a world anchor without stretching', () => {
+    const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+    engine.addObject({ id: 'r', type: 'rope', length: 1, segments: 10, mass: 0.1, position: [0, 2, 0], rotation: [0, 0, Math.SQRT1_2, Math.SQRT1_2] });
+    const bob = engine.addObject({ id: 'bob', type: 'sphere', radius: 0.1, mass: 1, position: [1.1, 2, 0] });
+    engine.addConstraint({ type: 'ball', bodyA: 'r', particle: 0, anchorB: [0, 2, 0] });
+    engine.addConstraint({ type: 'ball', bodyA: 'bob', bodyB: 'r' });
+
+    let minX = Infinity;
+    for (let i = 0; i < 240; i++) {
+      engine.step();
+      minX = Math.min(minX, bob.position.x);
+      expect(Math.hypot(bob.position.x, bob.position.y - 2)).toBeLessThan(1.15);
+    }
+    expect(minX).toBeLessThan(-0.5);
+  });
+
+  it('lets go of an end when its body is removed', () => {
+    const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+    engine.addObject({ id: 'r', type: 'rope', length: 1, segments: 10, mass: 0.1, position: [0, 2, 0] });
+    engine.addObject({ id: 'bob', type: 'sphere', radius: 0.1, mass: 1, position: [0, 0.9, 0] });
+    engine.addConstraint({ type: 'ball', bodyA: 'r', particle: 0, anchorB: [0, 2, 0] });
+    const end = engine.addConstraint({ type: 'ball', bodyA: 'bob', bodyB: 'r' });
+    expect(engine.getSoftBody('r')!.getAttachments()).toHaveLength(2);
+
+    engine.removeObject('bob');
+    expect(engine.getSoftBody('r')!.getAttachments()).toHaveLength(1);
+    expect(engine.getConstraint(end)).toBeUndefined();
+  });
+});
+
+// ============================================================================
+// CLOTH
+// ============================================================================
+
+describe('cloth', () => {
+  function curtain(wind: boolean): Engine {
+    const engine = new Engine({ timeStep: 1 / 60, seed: 1 });
+    if (wind) engine.setEnvironment({ wind: { x: 0, y: 0, z: 6 } });
+    engine.addObject({ id: 'curtain', type: 'cloth', width: 2, height: 1.5, segments: 16, mass: 0.5, position: [0, 3, 0], fixedParticles: [0, 16] });
+    return engine;
+  }
+
+  it('hangs from its pinned corners and billows in the wind', () => {
+    const still = curtain(false);
+    const windy = curtain(true);
+    const cloth = windy.getSoftBody('curtain')!;
+    const pins = [cloth.particle(0), cloth.particle(16)];
+    expect(cloth.particleCount).toBe(17 * 13);
+    expect(cloth.getIndices()).toHaveLength(16 * 12 * 2 * 3);
+
+    run(still, 180);
+    run(windy, 180);
+
+    expect([cloth.particle(0), cloth.particle(16)]).toEqual(pins);
+    expect(Math.abs(still.getSoftBody('curtain')!.centerOfMass().z)).toBeLessThan(0.05);
+    expect(cloth.centerOfMass().z).toBeGreaterThan(0.5);
+  });
+
+  it('drapes over a rigid sphere without passing through it', () => {
+    const engine = groundedEngine();
+    engine.addObject({ id: 'ball', type: 'sphere', radius: 0.5, position: [0, 0.5, 0], isStatic: true });
+    engine.addObject({ id: 'sheet', type: 'cloth', width: 2, height: 2, segments: 20, mass: 0.4, position: [0, 1.3, 0], rotation: [-Math.SQRT1_2, 0, 0, Math.SQRT1_2] });
+    run(engine, 180);
+
+    const vertices = engine.getSoftBody('sheet')!.getVertices();
+    expect(vertices.filter(v => Math.hypot(v.x, v.y - 0.5, v.z) < 0.49)).toHaveLength(0);
+    expect(Math.max(...vertices.map(v => v.y))).toBeCloseTo(1, 1);
+    expect(Math.min(...vertices.map(v => v.y))).toBeGreaterThan(0);
+  });
+
+  it('keeps folds apart with self-collision', () => {
+    // Count particles from distant parts of the sheet that end up on top of each other
+    function overlaps(selfCollision: boolean): number {
+      const engine = groundedEngine();
+      engine.addObject({ id: 'c', type: 'cloth', width: 1, height: 3, segments: 24, mass: 0.3, position: [0, 1.6, 0], rotation: [0.2, 0, 0, 0.98], selfCollision });
+      run(engine, 240);
+
+      const cloth = engine.getSoftBody('c')!;
+      const rest = cloth.restPositions;
+      let count = 0;
+      for (let i = 0; i < cloth.particleCount; i++) {
+        for (let j = i + 1; j < cloth.particleCount; j++) {
+          if (Math.hypot(rest[i * 3] - rest[j * 3], rest[i * 3 + 1] - rest[j * 3 + 1], rest[i * 3 + 2] - rest[j * 3 + 2]) < 0.1) continue;
+          const a = cloth.particle(i);
+          const b = cloth.particle(j);
+          if (Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) < 0.05) count++;
+        }
+      }
+      return count;
+    }
+
+    expect(overlaps(false)).toBeGreaterThan(0);
+    expect(overlaps(true)).toBe(0);
+  });
+});
+
+// ============================================================================
+// FLUIDS
+// ============================================================================
+
+describe('fluids', () => {
+  /**
+   * A ground plane walled in to an open tank, size x size in plan
+   */
+  function tank(size: number): Engine {
+    const engine = groundedEngine();
+    const t = 0.05;
+    const side = { type: 'box' as const, height: 1, isStatic: true };
+    engine.addObject({ ...side, width: t, depth: size + 2 * t, position: [-(size + t) / 2, 0.5, 0] });
+    engine.addObject({ ...side, width: t, depth: size + 2 * t, position: [(size + t) / 2, 0.5, 0] });
+    engine.addObject({ ...side, width: size, depth: t, position: [0, 0.5, -(size + t) / 2] });
+    engine.addObject({ ...side, width: size, depth: t, position: [0, 0.5, (size + t) / 2] });
+    return engine;
+  }
+
+  it('settles in a tank near its rest density', () => {
+    const engine = tank(0.3);
+    engine.addObject({ id: 'water', type: 'fluid', width: 0.3, height: 0.3, depth: 0.3, density: 1000, particleCount: 216, substeps: 4, position: [0, 0.15, 0] });
+    run(engine, 240);
+
+    const water = engine.getSoftBody('water')! as Fluid;
+    const stats = Analysis.fluidStatistics(water);
+    expect(stats.density.mean).toBeGreaterThan(970);
+    expect(stats.density.mean).toBeLessThan(1030);
+    expect(stats.pressure.max).toBeGreaterThan(0);
+    expect(stats.speed.max).toBeLessThan(0.2);
+    for (let i = 0; i < water.particleCount; i++) {
+      const p = water.particle(i);
+      expect(Math.max(Math.abs(p.x), Math.abs(p.z))).toBeLessThan(0.16);
+      expect(p.y).toBeGreaterThan(0);
+      expect(p.y).toBeLessThan(0.32);
+    }
+  });
+
+  it('floats a light box and sinks a heavy one', () => {
+    function settle(density: number): number {
+      const engine = tank(0.4);
+      engine.addObject({ id: 'water', type: 'fluid', width: 0.4, height: 0.3, depth: 0.4, density: 1000, particleCount: 400, position: [0, 0.15, 0] });
+      const box = engine.addObject({ type: 'box', width: 0.15, height: 0.15, depth: 0.15, density, position: [0, 0.45, 0] });
+      run(engine, 240);
+      return box.position.y;
+    }
+
+    // Half a box under the surface at 0.3, or on the tank floor
+    expect(settle(500)).toBeCloseTo(0.3, 1);
+    expect(settle(2000)).toBeLessThan(0.15);
+  }, 30_000);
+});
@@ -0,0 +1,2385 @@
+/**
+ * ASIMULATE SDK - Soft Body System
+ * Position-based (XPBD) deformable bodies and fluids: particles, constraints and contacts with rigid colliders
+ */
+
+import {
+  Vector3,
+  Quaternion,
+  ObjectConfig,
+  ObjectType,
+  DeformableGeometry,
+  DeformableState
+} from '../types';
+import { Vec3, Quat, Mat3 } from '../math';
+import { AABBUtils, NarrowPhase, SpatialHashGrid } from '../collision/CollisionSystem';
+import type { AABB, CollisionBody, CollisionSystem, SphereCollider } from '../collision/CollisionSystem';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_STIFFNESS = 1000; // N/m per edge
+const DEFAULT_DAMPING = 1; // 1/s
+const DEFAULT_PARTICLE_COUNT = 64;
+const DEFAULT_SUBSTEPS = 10;
+const DEFAULT_SEGMENTS = 12;
+const DEFAULT_ROPE_LENGTH = 1;
+const DEFAULT_ROPE_SEGMENTS = 16;
+const DEFAULT_ROPE_RADIUS = 0.01;
+const DEFAULT_ROPE_STIFFNESS = 1e6; // N/m per segment, close to inextensible
+const DEFAULT_BEND_STIFFNESS = 1; // N/m across every other particle
+const DEFAULT_CLOTH_SEGMENTS = 16; // Along the longer side
+const DEFAULT_CLOTH_STIFFNESS = 1e4; // N/m per stretch or shear edge
+const DEFAULT_CLOTH_THICKNESS = 0.01;
+const DEFAULT_CLOTH_DRAG = 1;
+const SELF_COLLISION_RATIO = 0.5; // Of the particle spacing
+const DEFAULT_FLUID_PARTICLE_COUNT = 1000;
+const DEFAULT_FLUID_SUBSTEPS = 4;
+const DEFAULT_FLUID_VISCOSITY = 1e-3; // Pa·s, water
+const FLUID_KERNEL_RATIO = 2; // Smoothing radius over the particle spacing
+const FLUID_RELAXATION = 0.01; // Of an interior particle's density constraint stiffness
+const DEFAULT_FLUID_STIFFNESS = 1e6; // Pa, bulk modulus; soft enough for the Jacobi passes to settle
+const FLUID_JACOBI_WEIGHT = 0.5; // Share of each Jacobi correction applied, since neighbours correct in concert
+const FLUID_XSPH = 0.01; // XSPH velocity smoothing, quiets the particle noise the position solve leaves
+const CONTACT_MARGIN_RATIO = 0.05; // Of the smallest particle spacing
+const MIN_CONTACT_MARGIN = 1e-3;
+
+/**
+ * Kuhn split of a cube into six tetrahedra around the 0-7 diagonal.
+ * Corner bits: x = 1, y = 2, z = 4.
+ */
+const KUHN_TETRAHEDRA = [
+  [0, 1, 3, 7],
+  [0, 1, 5, 7],
+  [0, 2, 3, 7],
+  [0, 2, 6, 7],
+  [0, 4, 5, 7],
+  [0, 4, 6, 7]
+];
+const TETRAHEDRON_EDGES = [[0, 1], [0, 2], [0, 3], [1, 2], [1, 3], [2, 3]];
+// Vertex j's volume gradient is the cross product of the edges from [a] to [b] and [c]
+const VOLUME_GRADIENT_ORDER = [[1, 3, 2], [0, 2, 3], [0, 3, 1], [0, 1, 2]];
+
+// Slightly off-axis so parity rays don't graze the edges of axis-aligned meshes
+const PARITY_RAY = Vec3.normalize({ x: 1, y: 1.3e-4, z: 0.7e-4 });
+
+// ============================================================================
+// Particle Bodies
+// ============================================================================
+
+/**
+ * A surface vertex touching a rigid body during one substep
+ */
+interface VertexContact {
+  vertex: number;
+  body: CollisionBody;
+  normal: Vector3; // From the vertex into the body
+  point: Vector3; // World space
+  share: number; // 1 / (Σ b² w + w_body)
+  key: string; // Of the reaction on a dynamic body
+}
+
+/**
+ * An attached particle, held at its anchor for one step
+ */
+interface HeldParticle {
+  particle: number;
+  body: CollisionBody | null; // Dynamic bodies only; immovable anchors just hold the particle
+  point: Vector3; // World space, where the body was integrated to
+  velocity: Vector3; // Of the anchor point
+  key: string;
+}
+
+/**
+ * Pins one particle to a point on a rigid body, or to a fixed point in the
+ * world when bodyId is null
+ */
+export interface ParticleAttachment {
+  id: string;
+  particle: number;
+  bodyId: string | null;
+  anchor: Vector3; // In the body's local frame, or world space
+}
+
+/**
+ * Settings shared by every particle body
+ */
+export interface ParticleBodyOptions {
+  damping: number;
+  substeps: number;
+  contactMargin: number;
+  velocity: Vector3; // Initial velocity of the movable particles
+  origin: Vector3; // Authored position, see ParticleBody.origin
+}
+
+/**
+ * Reaction of a particle contact on a rigid body, accumulated over one step
+ */
+export interface ParticleContactImpulse {
+  bodyId: string;
+  impulse: Vector3;
+  displacement: Vector3; // Position correction of the body
+  point: Vector3; // World space
+}
+
+/**
+ * Shared state of every XPBD body: particles in flat x, y, z arrays, a render
+ * surface whose vertices are weighted sums of up to four particles, and
+ * contacts between those vertices and rigid colliders. Subclasses add their
+ * own constraints in solveConstraints.
+ */
+export abstract class ParticleBody implements DeformableGeometry {
+  readonly id: string;
+  readonly particleCount: number;
+  readonly positions: Float64Array;
+  readonly velocities: Float64Array;
+  readonly masses: Float64Array;
+  readonly inverseMasses: Float64Array;
+  readonly restPositions: Float64Array;
+
+  // Tuning, kept in sync with the owning object by the engine
+  damping: number;
+  substeps: number;
+  friction = 0.5;
+  acceleration: Vector3 = Vec3.create();
+  collisionGroup = 1;
+  collisionMask = 0xffffffff;
+  readonly contactMargin: number;
+
+  protected readonly previous: Float64Array; // Positions at the start of the substep
+  protected readonly stepStart: Float64Array; // Positions at the start of the step, for interpolation
+  protected readonly initialVelocities: Float64Array;
+  protected readonly surfaceParticles: Int32Array; // 4 per vertex
+  protected readonly surfaceWeights: Float64Array; // 4 per vertex
+  protected readonly indices: number[];
+  protected readonly attachments: ParticleAttachment[] = [];
+  protected readonly weights: Float64Array; // Inverse masses the solver uses, see holdAttachedParticles
+  private readonly held: Uint8Array;
+
+  private readonly restOffset: Vector3; // Rest centre of mass relative to the authored origin
+
+  protected constructor(
+    id: string,
+    restPositions: Float64Array,
+    masses: Float64Array,
+    inverseMasses: Float64Array,
+    surfaceParticles: Int32Array,
+    surfaceWeights: Float64Array,
+    indices: number[],
+    options: ParticleBodyOptions
+  ) {
+    this.id = id;
+    this.particleCount = masses.length;
+    this.restPositions = restPositions;
+    this.positions = Float64Array.from(restPositions);
+    this.previous = Float64Array.from(restPositions);
+    this.stepStart = Float64Array.from(restPositions);
+    this.masses = masses;
+    this.inverseMasses = inverseMasses;
+    this.weights = Float64Array.from(inverseMasses);
+    this.held = new Uint8Array(this.particleCount);
+    this.velocities = new Float64Array(restPositions.length);
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.inverseMasses[i] === 0) continue;
+      this.velocities[i * 3] = options.velocity.x;
+      this.velocities[i * 3 + 1] = options.velocity.y;
+      this.velocities[i * 3 + 2] = options.velocity.z;
+    }
+    this.initialVelocities = Float64Array.from(this.velocities);
+    this.surfaceParticles = surfaceParticles;
+    this.surfaceWeights = surfaceWeights;
+    this.indices = indices;
+    this.damping = options.damping;
+    this.substeps = options.substeps;
+    this.contactMargin = options.contactMargin;
+    this.restOffset = Vec3.sub(this.centerOfMass(), options.origin);
+  }
+
+  get vertexCount(): number {
+    return this.surfaceWeights.length / 4;
+  }
+
+  get totalMass(): number {
+    let total = 0;
+    for (let i = 0; i < this.particleCount; i++) total += this.masses[i];
+    return total;
+  }
+
+  /**
+   * Mass-weighted mean of the particle positions
+   */
+  centerOfMass(): Vector3 {
+    return this.weightedMean(this.positions);
+  }
+
+  /**
+   * Mass-weighted mean of the particle velocities
+   */
+  linearVelocity(): Vector3 {
+    return this.weightedMean(this.velocities);
+  }
+
+  /**
+   * Where the authored origin would be if the body were undeformed around its
+   * current centre of mass; used to save the body back to a scene
+   */
+  origin(): Vector3 {
+    return Vec3.sub(this.centerOfMass(), this.restOffset);
+  }
+
+  particle(index: number): Vector3 {
+    return { x: this.positions[index * 3], y: this.positions[index * 3 + 1], z: this.positions[index * 3 + 2] };
+  }
+
+  getVertices(alpha: number = 1): Vector3[] {
+    const vertices: Vector3[] = [];
+    for (let v = 0; v < this.vertexCount; v++) {
+      const point = { x: 0, y: 0, z: 0 };
+      for (let k = 0; k < 4; k++) {
+        const weight = this.surfaceWeights[v * 4 + k];
+        if (weight === 0) continue;
+        const p = this.surfaceParticles[v * 4 + k] * 3;
+        point.x += weight * (this.stepStart[p] + (this.positions[p] - this.stepStart[p]) * alpha);
+        point.y += weight * (this.stepStart[p + 1] + (this.positions[p + 1] - this.stepStart[p + 1]) * alpha);
+        point.z += weight * (this.stepStart[p + 2] + (this.positions[p + 2] - this.stepStart[p + 2]) * alpha);
+      }
+      vertices.push(point);
+    }
+    return vertices;
+  }
+
+  getIndices(): number[] {
+    return [...this.indices];
+  }
+
+  /**
+   * Particle bounds, padded by the contact margin
+   */
+  bounds(): AABB {
+    const aabb = AABBUtils.create(
+      { x: Infinity, y: Infinity, z: Infinity },
+      { x: -Infinity, y: -Infinity, z: -Infinity }
+    );
+    this.growBounds(aabb, this.positions, 0);
+    return AABBUtils.expand(aabb, this.contactMargin);
+  }
+
+  getState(): DeformableState {
+    return { positions: Array.from(this.positions), velocities: Array.from(this.velocities) };
+  }
+
+  setState(state: DeformableState): void {
+    if (state.positions.length !== this.positions.length || state.velocities.length !== this.velocities.length) {
+      throw new Error(`Deformable state for "${this.id}" does not match its ${this.particleCount} particles`);
+    }
+    this.positions.set(state.positions);
+    this.velocities.set(state.velocities);
+    this.previous.set(state.positions);
+    this.stepStart.set(state.positions);
+  }
+
+  /**
+   * Nearest particle to a world point
+   */
+  nearestParticle(point: Vector3): number {
+    let nearest = 0;
+    let best = Infinity;
+    for (let i = 0; i < this.particleCount; i++) {
+      const distance = Vec3.distanceSquared(this.particle(i), point);
+      if (distance < best) {
+        best = distance;
+        nearest = i;
+      }
+    }
+    return nearest;
+  }
+
+  attach(attachment: ParticleAttachment): void {
+    if (attachment.particle < 0 || attachment.particle >= this.particleCount) {
+      throw new Error(`Particle ${attachment.particle} is out of range for "${this.id}" (${this.particleCount} particles)`);
+    }
+    this.detach(attachment.id);
+    this.attachments.push({ ...attachment, anchor: { ...attachment.anchor } });
+  }
+
+  detach(id: string): boolean {
+    const index = this.attachments.findIndex(attachment => attachment.id === id);
+    if (index < 0) return false;
+    this.attachments.splice(index, 1);
+    return true;
+  }
+
+  getAttachments(): ParticleAttachment[] {
+    return this.attachments.map(attachment => ({ ...attachment, anchor: { ...attachment.anchor } }));
+  }
+
+  reset(): void {
+    this.positions.set(this.restPositions);
+    this.previous.set(this.restPositions);
+    this.stepStart.set(this.restPositions);
+    this.velocities.set(this.initialVelocities);
+  }
+
+  /**
+   * Advance one step of dt in substeps, holding the attached particles to the
+   * bodies they hang from and colliding the surface vertices with the candidate
+   * bodies. Reactions on dynamic bodies are added to the map.
+   */
+  simulate(
+    dt: number,
+    candidates: CollisionBody[],
+    probe: CollisionBody,
+    anchors: Map<string, CollisionBody>,
+    reactions: Map<string, ParticleContactImpulse>
+  ): void {
+    this.stepStart.set(this.positions);
+    const substeps = Math.max(1, Math.floor(this.substeps));
+    const h = dt / substeps;
+    const held = this.holdAttachedParticles(anchors, dt);
+    this.beginStep(dt);
+
+    for (let s = 0; s < substeps; s++) {
+      this.applyExternalForces(h);
+      this.integrate(h);
+      this.solveConstraints(h);
+      const contacts = candidates.length > 0 ? this.solveContacts(h, candidates, probe, reactions) : [];
+      this.updateVelocities(h);
+      this.solveContactVelocities(contacts, reactions);
+      this.dampVelocities(h);
+    }
+
+    this.releaseAttachedParticles(held, reactions);
+    this.endStep(dt);
+  }
+
+  /**
+   * Bounds of the particles now and where they could be after dt, for the contact query
+   */
+  sweptBounds(dt: number): AABB {
+    const aabb = this.bounds();
+    const reach = new Float64Array(this.positions.length);
+    const a = [this.acceleration.x, this.acceleration.y, this.acceleration.z];
+    for (let i = 0; i < reach.length; i++) {
+      reach[i] = this.positions[i] + (this.velocities[i] + a[i % 3] * dt) * dt;
+    }
+    this.growBounds(aabb, reach, this.contactMargin);
+    return aabb;
+  }
+
+  /**
+   * Project this body's constraints for one substep of length h
+   */
+  protected abstract solveConstraints(h: number): void;
+
+  /**
+   * Called around the substeps of each step, for per-step bookkeeping
+   */
+  protected beginStep(_dt: number): void {}
+
+  /**
+   * Forces beyond the uniform acceleration, applied as velocity changes before each substep
+   */
+  protected applyExternalForces(_h: number): void {}
+
+  protected endStep(_dt: number): void {}
+
+  /**
+   * XPBD distance constraint between two particles; returns the Lagrange multiplier change
+   */
+  protected solveDistance(i: number, j: number, restLength: number, compliance: number, h: number): number {
+    const wi = this.weights[i];
+    const wj = this.weights[j];
+    const w = wi + wj;
+    if (w === 0) return 0;
+
+    const x = this.positions;
+    const dx = x[i * 3] - x[j * 3];
+    const dy = x[i * 3 + 1] - x[j * 3 + 1];
+    const dz = x[i * 3 + 2] - x[j * 3 + 2];
+    const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+    if (length < 1e-12) return 0;
+
+    const alpha = compliance / (h * h);
+    const lambda = -(length - restLength) / (w + alpha);
+    const sx = (dx / length) * lambda;
+    const sy = (dy / length) * lambda;
+    const sz = (dz / length) * lambda;
+    x[i * 3] += sx * wi;
+    x[i * 3 + 1] += sy * wi;
+    x[i * 3 + 2] += sz * wi;
+    x[j * 3] -= sx * wj;
+    x[j * 3 + 1] -= sy * wj;
+    x[j * 3 + 2] -= sz * wj;
+    return lambda;
+  }
+
+  /**
+   * Rewind each attached particle to where its anchor was a step ago and give
+   * it the anchor's velocity. The rigid body has already been integrated over
+   * the step, so the particle stands in for it in the substeps: it moves with
+   * the body's momentum (or is pinned, for an immovable anchor) and the body
+   * follows it afterwards.
+   */
+  private holdAttachedParticles(anchors: Map<string, CollisionBody>, dt: number): HeldParticle[] {
+    const held: HeldParticle[] = [];
+
+    for (const attachment of this.attachments) {
+      const anchorBody = attachment.bodyId === null ? null : anchors.get(attachment.bodyId);
+      if (anchorBody === undefined) continue;
+
+      const p = attachment.particle;
+      const point = anchorBody
+        ? Vec3.add(anchorBody.position, Quat.rotateVector(anchorBody.rotation, attachment.anchor))
+        : attachment.anchor;
+      const velocity = anchorBody
+        ? Vec3.add(anchorBody.velocity, Vec3.cross(anchorBody.angularVelocity, Vec3.sub(point, anchorBody.position)))
+        : Vec3.create();
+      const bodyWeight = anchorBody && !anchorBody.isStatic && !anchorBody.isKinematic ? anchorBody.invMass : 0;
+      // Held by an earlier attachment too: the bodies share the particle's weight
+      const particleWeight = this.weights[p];
+
+      // A pinned particle keeps its place and the body is brought to it instead
+      if (particleWeight > 0 && !this.held[p]) {
+        for (const [axis, offset] of [[0, 'x'], [1, 'y'], [2, 'z']] as const) {
+          this.positions[p * 3 + axis] = point[offset] - velocity[offset] * dt;
+          this.velocities[p * 3 + axis] = velocity[offset];
+        }
+      }
+      this.held[p] = 1;
+      this.weights[p] = particleWeight > 0 && bodyWeight > 0 ? 1 / (1 / particleWeight + 1 / bodyWeight) : 0;
+      held.push({
+        particle: p,
+        body: bodyWeight > 0 ? anchorBody : null,
+        point,
+        velocity,
+        key: `${attachment.bodyId}\0@${attachment.id}`
+      });
+    }
+
+    return held;
+  }
+
+  /**
+   * Move each dynamic body by as much as the constraints moved its particle
+   * away from the anchor, and change its velocity to the particle's
+   */
+  private releaseAttachedParticles(held: HeldParticle[], reactions: Map<string, ParticleContactImpulse>): void {
+    for (const { particle, body, point, velocity, key } of held) {
+      if (!body) continue;
+
+      const displacement = Vec3.sub(this.particle(particle), point);
+      const change = Vec3.sub(
+        { x: this.velocities[particle * 3], y: this.velocities[particle * 3 + 1], z: this.velocities[particle * 3 + 2] },
+        velocity
+      );
+      const impulse = Vec3.scale(change, 1 / body.invMass);
+      body.position = Vec3.add(body.position, displacement);
+      body.aabb = { min: Vec3.add(body.aabb.min, displacement), max: Vec3.add(body.aabb.max, displacement) };
+      body.velocity = Vec3.add(body.velocity, change);
+      reactions.set(key, { bodyId: body.id, impulse, displacement, point: Vec3.add(point, displacement) });
+    }
+
+    this.weights.set(this.inverseMasses);
+    this.held.fill(0);
+  }
+
+  private integrate(h: number): void {
+    const a = [this.acceleration.x, this.acceleration.y, this.acceleration.z];
+    for (let i = 0; i < this.positions.length; i++) {
+      this.previous[i] = this.positions[i];
+      const p = Math.floor(i / 3);
+      if (this.inverseMasses[p] === 0) continue;
+      // Held particles already carry their body's acceleration in its velocity
+      if (!this.held[p]) this.velocities[i] += a[i % 3] * h;
+      this.positions[i] += this.velocities[i] * h;
+    }
+  }
+
+  /**
+   * Push each surface vertex out of the rigid colliders it touches, with Coulomb
+   * friction against the collider's motion. The correction is shared between
+   * the vertex's particles and the body by weight and inverse mass.
+   */
+  private solveContacts(
+    h: number,
+    candidates: CollisionBody[],
+    probe: CollisionBody,
+    reactions: Map<string, ParticleContactImpulse>
+  ): VertexContact[] {
+    const margin = this.contactMargin;
+    const x = this.positions;
+    const contacts: VertexContact[] = [];
+
+    for (let v = 0; v < this.vertexCount; v++) {
+      let denominator = 0;
+      for (let k = 0; k < 4; k++) {
+        const weight = this.surfaceWeights[v * 4 + k];
+        denominator += weight * weight * this.weights[this.surfaceParticles[v * 4 + k]];
+      }
+      if (denominator === 0) continue;
+
+      for (const body of candidates) {
+        const point = this.surfacePoint(v, x);
+        probe.position = point;
+        probe.aabb = AABBUtils.fromCenterExtents(point, { x: margin, y: margin, z: margin });
+        // Planes are half-spaces: a vertex that sank below one is outside its flat bounds
+        if (body.collider.type !== 'plane' && !AABBUtils.intersects(probe.aabb, body.aabb)) continue;
+
+        const manifold = NarrowPhase.testCollision(probe, body);
+        if (!manifold || manifold.isTrigger || manifold.penetration <= 0) continue;
+
+        // The normal points from the vertex into the body
+        const n = manifold.normal;
+        const depth = manifold.penetration;
+        let correction = Vec3.scale(n, -depth);
+
+        // Friction: cancel tangential slip relative to the body surface, up to μ × depth
+        const mu = Math.sqrt(this.friction * body.friction);
+        if (mu > 0) {
+          const start = this.surfacePoint(v, this.previous);
+          const surfaceVelocity = Vec3.add(
+            body.velocity,
+            Vec3.cross(body.angularVelocity, Vec3.sub(point, body.position))
+          );
+          const slip = Vec3.sub(Vec3.sub(Vec3.add(point, correction), start), Vec3.scale(surfaceVelocity, h));
+          const tangential = Vec3.sub(slip, Vec3.scale(n, Vec3.dot(slip, n)));
+          const slipLength = Vec3.length(tangential);
+          if (slipLength > 1e-12) {
+            const limit = Math.min(1, (mu * depth) / slipLength);
+            correction = Vec3.sub(correction, Vec3.scale(tangential, limit));
+          }
+        }
+
+        // Split the correction by inverse mass between the vertex (Σ b² w) and a
+        // dynamic body, whose proxy moves at once so later substeps see it there
+        const bodyWeight = body.isStatic || body.isKinematic ? 0 : body.invMass;
+        const share = 1 / (denominator + bodyWeight);
+
+        // Δx_k = b_k w_k / (Σ b² w + w_body) × correction
+        for (let k = 0; k < 4; k++) {
+          const weight = this.surfaceWeights[v * 4 + k];
+          const p = this.surfaceParticles[v * 4 + k];
+          const scale = weight * this.weights[p] * share;
+          if (scale === 0) continue;
+          x[p * 3] += correction.x * scale;
+          x[p * 3 + 1] += correction.y * scale;
+          x[p * 3 + 2] += correction.z * scale;
+        }
+
+        const contactPoint = manifold.contacts[0]?.position ?? point;
+        contacts.push({ vertex: v, body, normal: n, point: contactPoint, share, key: `${body.id}\0${v}` });
+
+        if (bodyWeight > 0) {
+          const displacement = Vec3.scale(correction, -bodyWeight * share);
+          // Only friction drags the body here; the push-out is not turned into
+          // velocity, the normal impulse comes from solveContactVelocities
+          const drag = Vec3.sub(displacement, Vec3.scale(n, Vec3.dot(displacement, n)));
+          const impulse = Vec3.scale(drag, 1 / (bodyWeight * h));
+          body.position = Vec3.add(body.position, displacement);
+          body.aabb = { min: Vec3.add(body.aabb.min, displacement), max: Vec3.add(body.aabb.max, displacement) };
+          body.velocity = Vec3.add(body.velocity, Vec3.scale(impulse, bodyWeight));
+
+          const key = `${body.id}\0${v}`;
+          const reaction = reactions.get(key);
+          if (reaction) {
+            reaction.impulse = Vec3.add(reaction.impulse, impulse);
+            reaction.displacement = Vec3.add(reaction.displacement, displacement);
+            reaction.point = contactPoint;
+          } else {
+            reactions.set(key, { bodyId: body.id, impulse, displacement, point: contactPoint });
+          }
+        }
+      }
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Contacts are inelastic: cancel the normal velocity between each touching
+   * vertex and its body, including the separation the position push-out leaves
+   * behind (otherwise a body placed resting on another would pop off it)
+   */
+  private solveContactVelocities(contacts: VertexContact[], reactions: Map<string, ParticleContactImpulse>): void {
+    const v = this.velocities;
+
+    for (const { vertex, body, normal, point, share, key } of contacts) {
+      const velocity = this.surfacePoint(vertex, v);
+      const surfaceVelocity = Vec3.add(
+        body.velocity,
+        Vec3.cross(body.angularVelocity, Vec3.sub(point, body.position))
+      );
+      const approach = Vec3.dot(Vec3.sub(velocity, surfaceVelocity), normal);
+      const impulse = approach * share; // Per unit of Σ b² w + w_body
+
+      for (let k = 0; k < 4; k++) {
+        const p = this.surfaceParticles[vertex * 4 + k];
+        const scale = -impulse * this.surfaceWeights[vertex * 4 + k] * this.weights[p];
+        if (scale === 0) continue;
+        v[p * 3] += normal.x * scale;
+        v[p * 3 + 1] += normal.y * scale;
+        v[p * 3 + 2] += normal.z * scale;
+      }
+
+      const reaction = reactions.get(key);
+      if (reaction) {
+        const bodyImpulse = Vec3.scale(normal, impulse);
+        body.velocity = Vec3.add(body.velocity, Vec3.scale(bodyImpulse, body.invMass));
+        reaction.impulse = Vec3.add(reaction.impulse, bodyImpulse);
+      }
+    }
+  }
+
+  /**
+   * v = (x - x_prev) / h
+   */
+  private updateVelocities(h: number): void {
+    for (let i = 0; i < this.positions.length; i++) {
+      if (this.inverseMasses[Math.floor(i / 3)] === 0) continue;
+      this.velocities[i] = (this.positions[i] - this.previous[i]) / h;
+    }
+  }
+
+  /**
+   * Damp each particle towards the body's mean velocity, leaving its overall motion alone
+   */
+  private dampVelocities(h: number): void {
+    const keep = Math.max(0, 1 - this.damping * h);
+    if (keep === 1) return;
+
+    const mean = this.linearVelocity();
+    const m = [mean.x, mean.y, mean.z];
+    for (let i = 0; i < this.velocities.length; i++) {
+      if (this.inverseMasses[Math.floor(i / 3)] === 0 || this.held[Math.floor(i / 3)]) continue;
+      this.velocities[i] = m[i % 3] + (this.velocities[i] - m[i % 3]) * keep;
+    }
+  }
+
+  private surfacePoint(vertex: number, source: Float64Array): Vector3 {
+    const point = { x: 0, y: 0, z: 0 };
+    for (let k = 0; k < 4; k++) {
+      const weight = this.surfaceWeights[vertex * 4 + k];
+      if (weight === 0) continue;
+      const p = this.surfaceParticles[vertex * 4 + k] * 3;
+      point.x += weight * source[p];
+      point.y += weight * source[p + 1];
+      point.z += weight * source[p + 2];
+    }
+    return point;
+  }
+
+  private weightedMean(values: Float64Array): Vector3 {
+    let total = 0;
+    const sum = { x: 0, y: 0, z: 0 };
+    for (let i = 0; i < this.particleCount; i++) {
+      const m = this.masses[i];
+      total += m;
+      sum.x += values[i * 3] * m;
+      sum.y += values[i * 3 + 1] * m;
+      sum.z += values[i * 3 + 2] * m;
+    }
+    return total > 0 ? Vec3.scale(sum, 1 / total) : sum;
+  }
+
+  private growBounds(aabb: AABB, values: Float64Array, padding: number): void {
+    for (let i = 0; i < values.length; i += 3) {
+      aabb.min.x = Math.min(aabb.min.x, values[i] - padding);
+      aabb.min.y = Math.min(aabb.min.y, values[i + 1] - padding);
+      aabb.min.z = Math.min(aabb.min.z, values[i + 2] - padding);
+      aabb.max.x = Math.max(aabb.max.x, values[i] + padding);
+      aabb.max.y = Math.max(aabb.max.y, values[i + 1] + padding);
+      aabb.max.z = Math.max(aabb.max.z, values[i + 2] + padding);
+    }
+  }
+}
+
+// ============================================================================
+// Tetrahedral Soft Bodies
+// ============================================================================
+
+/**
+ * Volumetric soft body: a tetrahedralised lattice with XPBD edge (stretch) and
+ * tetrahedron volume constraints. The render surface is embedded in the
+ * lattice, so any mesh deforms with the particles around it.
+ */
+export class SoftBody extends ParticleBody {
+  readonly edges: Int32Array; // 2 per edge
+  readonly restLengths: Float64Array;
+  readonly tetrahedra: Int32Array; // 4 per tetrahedron
+  readonly restVolumes: Float64Array;
+  compliance: number;
+
+  constructor(
+    id: string,
+    lattice: {
+      positions: Float64Array;
+      masses: Float64Array;
+      inverseMasses: Float64Array; // 0 for pinned particles
+      edges: Int32Array;
+      tetrahedra: Int32Array;
+      surfaceParticles: Int32Array;
+      surfaceWeights: Float64Array;
+      indices: number[];
+    },
+    options: ParticleBodyOptions & { stiffness: number }
+  ) {
+    super(id, lattice.positions, lattice.masses, lattice.inverseMasses, lattice.surfaceParticles, lattice.surfaceWeights, lattice.indices, options);
+    this.edges = lattice.edges;
+    this.tetrahedra = lattice.tetrahedra;
+    this.compliance = options.stiffness > 0 ? 1 / options.stiffness : Infinity;
+
+    this.restLengths = new Float64Array(this.edges.length / 2);
+    for (let e = 0; e < this.restLengths.length; e++) {
+      this.restLengths[e] = Vec3.distance(this.particle(this.edges[e * 2]), this.particle(this.edges[e * 2 + 1]));
+    }
+    this.restVolumes = new Float64Array(this.tetrahedra.length / 4);
+    for (let t = 0; t < this.restVolumes.length; t++) {
+      this.restVolumes[t] = this.tetrahedronVolume(t);
+    }
+  }
+
+  protected solveConstraints(h: number): void {
+    if (isFinite(this.compliance)) {
+      for (let e = 0; e < this.restLengths.length; e++) {
+        this.solveDistance(this.edges[e * 2], this.edges[e * 2 + 1], this.restLengths[e], this.compliance, h);
+      }
+    }
+
+    for (let t = 0; t < this.restVolumes.length; t++) {
+      this.solveVolume(t);
+    }
+  }
+
+  /**
+   * Hard volume constraint C = V - V₀ (zero compliance)
+   */
+  private solveVolume(t: number): void {
+    const x = this.positions;
+    const ids = [0, 1, 2, 3].map(k => this.tetrahedra[t * 4 + k]);
+    const gradients: Vector3[] = [];
+    let w = 0;
+
+    for (let j = 0; j < 4; j++) {
+      const [a, b, c] = VOLUME_GRADIENT_ORDER[j].map(k => this.particle(ids[k]));
+      const gradient = Vec3.scale(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)), 1 / 6);
+      gradients.push(gradient);
+      w += this.weights[ids[j]] * Vec3.lengthSquared(gradient);
+    }
+    if (w < 1e-18) return;
+
+    const lambda = -(this.tetrahedronVolume(t) - this.restVolumes[t]) / w;
+    for (let j = 0; j < 4; j++) {
+      const scale = lambda * this.weights[ids[j]];
+      if (scale === 0) continue;
+      x[ids[j] * 3] += gradients[j].x * scale;
+      x[ids[j] * 3 + 1] += gradients[j].y * scale;
+      x[ids[j] * 3 + 2] += gradients[j].z * scale;
+    }
+  }
+
+  private tetrahedronVolume(t: number): number {
+    const [a, b, c, d] = [0, 1, 2, 3].map(k => this.particle(this.tetrahedra[t * 4 + k]));
+    return Vec3.dot(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)), Vec3.sub(d, a)) / 6;
+  }
+}
+
+// ============================================================================
+// Ropes
+// ============================================================================
+
+/**
+ * Chain of particles joined by XPBD distance constraints, with bending
+ * resistance from a softer distance constraint across every other particle.
+ * Its vertices are the particles themselves, so it has no triangle indices.
+ */
+export class Rope extends ParticleBody {
+  readonly segmentLengths: Float64Array;
+  readonly tensions: Float64Array; // N per segment, averaged over the last step
+  readonly radius: number;
+  compliance: number;
+  bendCompliance: number;
+
+  private readonly impulses: Float64Array; // Per segment, summed over the step
+
+  // Scratch space for the stretch solve
+  private readonly directions: Float64Array;
+  private readonly upper: Float64Array;
+  private readonly solution: Float64Array;
+
+  constructor(
+    id: string,
+    positions: Float64Array,
+    masses: Float64Array,
+    inverseMasses: Float64Array,
+    options: ParticleBodyOptions & { stiffness: number; bendStiffness: number; radius: number }
+  ) {
+    const count = masses.length;
+    const surfaceParticles = new Int32Array(count * 4);
+    const surfaceWeights = new Float64Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      surfaceParticles.fill(i, i * 4, i * 4 + 4);
+      surfaceWeights[i * 4] = 1;
+    }
+    super(id, positions, masses, inverseMasses, surfaceParticles, surfaceWeights, [], options);
+
+    this.radius = options.radius;
+    this.compliance = options.stiffness > 0 ? 1 / options.stiffness : Infinity;
+    this.bendCompliance = options.bendStiffness > 0 ? 1 / options.bendStiffness : Infinity;
+    this.segmentLengths = new Float64Array(Math.max(0, count - 1));
+    for (let i = 0; i < this.segmentLengths.length; i++) {
+      this.segmentLengths[i] = Vec3.distance(this.particle(i), this.particle(i + 1));
+    }
+    this.tensions = new Float64Array(this.segmentLengths.length);
+    this.impulses = new Float64Array(this.segmentLengths.length);
+    this.directions = new Float64Array(this.segmentLengths.length * 3);
+    this.upper = new Float64Array(this.segmentLengths.length);
+    this.solution = new Float64Array(this.segmentLengths.length);
+  }
+
+  get segmentCount(): number {
+    return this.segmentLengths.length;
+  }
+
+  /**
+   * Current length along the particles
+   */
+  get length(): number {
+    let length = 0;
+    for (let i = 0; i < this.segmentCount; i++) {
+      length += Vec3.distance(this.particle(i), this.particle(i + 1));
+    }
+    return length;
+  }
+
+  /**
+   * Tension of each segment in N (0 while slack)
+   */
+  getTensions(): number[] {
+    return Array.from(this.tensions);
+  }
+
+  reset(): void {
+    super.reset();
+    this.tensions.fill(0);
+  }
+
+  protected beginStep(): void {
+    this.impulses.fill(0);
+  }
+
+  protected endStep(dt: number): void {
+    for (let i = 0; i < this.segmentCount; i++) {
+      this.tensions[i] = Math.max(0, this.impulses[i] / dt);
+    }
+  }
+
+  protected solveConstraints(h: number): void {
+    if (isFinite(this.bendCompliance)) {
+      for (let i = 0; i + 2 < this.particleCount; i++) {
+        const rest = this.segmentLengths[i] + this.segmentLengths[i + 1];
+        this.solveDistance(i, i + 2, rest, this.bendCompliance, h);
+      }
+    }
+
+    // Stretch last so it wins over bending
+    if (isFinite(this.compliance) && this.segmentCount > 0) {
+      this.solveStretch(h);
+    }
+  }
+
+  /**
+   * Every segment at once. Along a chain the linearised system for the
+   * multipliers is tridiagonal, so it is solved directly (Thomas algorithm)
+   * and a heavy load stretches the rope no more than a light one. -λ / h is
+   * the impulse each segment carries.
+   */
+  private solveStretch(h: number): void {
+    const n = this.segmentCount;
+    const x = this.positions;
+    const w = this.weights;
+    const d = this.directions;
+    const alpha = this.compliance / (h * h);
+
+    for (let i = 0; i < n; i++) {
+      const dx = x[i * 3] - x[i * 3 + 3];
+      const dy = x[i * 3 + 1] - x[i * 3 + 4];
+      const dz = x[i * 3 + 2] - x[i * 3 + 5];
+      const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      const inverse = length > 1e-12 ? 1 / length : 0;
+      d[i * 3] = dx * inverse;
+      d[i * 3 + 1] = dy * inverse;
+      d[i * 3 + 2] = dz * inverse;
+      this.solution[i] = length > 1e-12 ? this.segmentLengths[i] - length : 0; // -C
+    }
+
+    // Forward sweep: diagonal w_i + w_i+1 + α, off-diagonal -w_i+1 (n_i · n_i+1)
+    let previousUpper = 0;
+    for (let i = 0; i < n; i++) {
+      const lower = i > 0 ? -w[i] * this.dot(i - 1, i) : 0;
+      const pivot = w[i] + w[i + 1] + alpha - lower * previousUpper;
+      if (Math.abs(pivot) < 1e-18) {
+        this.upper[i] = 0;
+        this.solution[i] = 0;
+        previousUpper = 0;
+        continue;
+      }
+      this.upper[i] = i + 1 < n ? (-w[i + 1] * this.dot(i, i + 1)) / pivot : 0;
+      this.solution[i] = (this.solution[i] - lower * (i > 0 ? this.solution[i - 1] : 0)) / pivot;
+      previousUpper = this.upper[i];
+    }
+    for (let i = n - 2; i >= 0; i--) {
+      this.solution[i] -= this.upper[i] * this.solution[i + 1];
+    }
+
+    for (let i = 0; i < n; i++) {
+      const lambda = this.solution[i];
+      for (let axis = 0; axis < 3; axis++) {
+        x[i * 3 + axis] += d[i * 3 + axis] * lambda * w[i];
+        x[i * 3 + 3 + axis] -= d[i * 3 + axis] * lambda * w[i + 1];
+      }
+      this.impulses[i] -= lambda / h;
+    }
+  }
+
+  private dot(i: number, j: number): number {
+    const d = this.directions;
+    return d[i * 3] * d[j * 3] + d[i * 3 + 1] * d[j * 3 + 1] + d[i * 3 + 2] * d[j * 3 + 2];
+  }
+}
+
+// ============================================================================
+// Cloth
+// ============================================================================
+
+/**
+ * Uniform hash grid over particles for neighbour queries, rebuilt wholesale
+ */
+class ParticleGrid {
+  private readonly cellStart: Int32Array;
+  private readonly entries: Int32Array;
+
+  constructor(private readonly spacing: number, count: number) {
+    this.cellStart = new Int32Array(2 * count + 1);
+    this.entries = new Int32Array(count);
+  }
+
+  build(positions: Float64Array): void {
+    const count = this.entries.length;
+    this.cellStart.fill(0);
+    for (let i = 0; i < count; i++) {
+      this.cellStart[this.cellOf(positions, i)]++;
+    }
+    for (let c = 1; c < this.cellStart.length; c++) {
+      this.cellStart[c] += this.cellStart[c - 1];
+    }
+    for (let i = 0; i < count; i++) {
+      this.entries[--this.cellStart[this.cellOf(positions, i)]] = i;
+    }
+  }
+
+  /**
+   * Call visit for every particle in the cells within distance of a point (a superset of the neighbours)
+   */
+  query(point: Vector3, distance: number, visit: (index: number) => void): void {
+    const lo = [point.x, point.y, point.z].map(v => Math.floor((v - distance) / this.spacing));
+    const hi = [point.x, point.y, point.z].map(v => Math.floor((v + distance) / this.spacing));
+    for (let x = lo[0]; x <= hi[0]; x++) {
+      for (let y = lo[1]; y <= hi[1]; y++) {
+        for (let z = lo[2]; z <= hi[2]; z++) {
+          const cell = this.hash(x, y, z);
+          for (let e = this.cellStart[cell]; e < this.cellStart[cell + 1]; e++) {
+            visit(this.entries[e]);
+          }
+        }
+      }
+    }
+  }
+
+  private cellOf(positions: Float64Array, i: number): number {
+    return this.hash(
+      Math.floor(positions[i * 3] / this.spacing),
+      Math.floor(positions[i * 3 + 1] / this.spacing),
+      Math.floor(positions[i * 3 + 2] / this.spacing)
+    );
+  }
+
+  private hash(x: number, y: number, z: number): number {
+    const h = Math.imul(x, 92837111) ^ Math.imul(y, 689287499) ^ Math.imul(z, 283923481);
+    return Math.abs(h) % (this.cellStart.length - 1);
+  }
+}
+
+/**
+ * Rectangular sheet of particles with XPBD stretch, shear and bending
+ * constraints, pressure drag from the air per triangle and optional
+ * particle-particle self-collision
+ */
+export class Cloth extends ParticleBody {
+  readonly columns: number; // Particles per row
+  readonly rows: number;
+  readonly thickness: number;
+  compliance: number; // Stretch and shear
+  bendCompliance: number;
+  dragCoefficient: number;
+  selfCollision: boolean;
+
+  private readonly stretch: Int32Array; // 2 per edge: rows, columns and both diagonals
+  private readonly stretchLengths: Float64Array;
+  private readonly bends: Int32Array; // 2 per pair, across every other particle
+  private readonly bendLengths: Float64Array;
+  private readonly selfDistance: number;
+  private readonly grid: ParticleGrid;
+
+  // Air at each triangle, sampled once a step
+  private readonly winds: Float64Array;
+  private airDensity = 0;
+
+  constructor(
+    id: string,
+    positions: Float64Array,
+    masses: Float64Array,
+    inverseMasses: Float64Array,
+    columns: number,
+    options: ParticleBodyOptions & {
+      stiffness: number;
+      bendStiffness: number;
+      thickness: number;
+      dragCoefficient: number;
+      selfCollision: boolean;
+    }
+  ) {
+    const count = masses.length;
+    const rows = count / columns;
+    const surfaceParticles = new Int32Array(count * 4);
+    const surfaceWeights = new Float64Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      surfaceParticles.fill(i, i * 4, i * 4 + 4);
+      surfaceWeights[i * 4] = 1;
+    }
+    const at = (column: number, row: number) => row * columns + column;
+
+    // Two triangles per cell, facing the sheet's local +z
+    const indices: number[] = [];
+    for (let row = 0; row + 1 < rows; row++) {
+      for (let column = 0; column + 1 < columns; column++) {
+        const p00 = at(column, row);
+        const p10 = at(column + 1, row);
+        const p01 = at(column, row + 1);
+        const p11 = at(column + 1, row + 1);
+        indices.push(p00, p11, p10, p00, p01, p11);
+      }
+    }
+    super(id, positions, masses, inverseMasses, surfaceParticles, surfaceWeights, indices, options);
+
+    this.columns = columns;
+    this.rows = rows;
+    this.thickness = options.thickness;
+    this.compliance = options.stiffness > 0 ? 1 / options.stiffness : Infinity;
+    this.bendCompliance = options.bendStiffness > 0 ? 1 / options.bendStiffness : Infinity;
+    this.dragCoefficient = options.dragCoefficient;
+    this.selfCollision = options.selfCollision;
+
+    const stretch: number[] = [];
+    const bends: number[] = [];
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const p = at(column, row);
+        if (column + 1 < columns) stretch.push(p, at(column + 1, row));
+        if (row + 1 < rows) stretch.push(p, at(column, row + 1));
+        if (column + 1 < columns && row + 1 < rows) {
+          stretch.push(p, at(column + 1, row + 1), at(column + 1, row), at(column, row + 1));
+        }
+        if (column + 2 < columns) bends.push(p, at(column + 2, row));
+        if (row + 2 < rows) bends.push(p, at(column, row + 2));
+      }
+    }
+    this.stretch = Int32Array.from(stretch);
+    this.bends = Int32Array.from(bends);
+    this.stretchLengths = this.restLengths(this.stretch);
+    this.bendLengths = this.restLengths(this.bends);
+
+    const spacing = Math.min(
+      columns > 1 ? Vec3.distance(this.particle(0), this.particle(1)) : Infinity,
+      rows > 1 ? Vec3.distance(this.particle(0), this.particle(columns)) : Infinity
+    );
+    this.selfDistance = Math.max(this.thickness, isFinite(spacing) ? spacing * SELF_COLLISION_RATIO : 0);
+    this.grid = new ParticleGrid(Math.max(this.selfDistance, MIN_CONTACT_MARGIN), count);
+    this.winds = new Float64Array((indices.length / 3) * 3);
+  }
+
+  /**
+   * Sample the wind at every triangle for the coming step
+   */
+  sampleWind(wind: (point: Vector3) => Vector3, airDensity: number): void {
+    this.airDensity = airDensity;
+    for (let t = 0; t < this.indices.length / 3; t++) {
+      const [a, b, c] = [0, 1, 2].map(k => this.particle(this.indices[t * 3 + k]));
+      const sample = wind(Vec3.scale(Vec3.add(Vec3.add(a, b), c), 1 / 3));
+      this.winds[t * 3] = sample.x;
+      this.winds[t * 3 + 1] = sample.y;
+      this.winds[t * 3 + 2] = sample.z;
+    }
+  }
+
+  /**
+   * Pressure drag on each triangle, F = ½ ρ A C_d (v·n)|v·n| n for the air
+   * velocity v relative to the triangle, shared by its three particles
+   */
+  protected applyExternalForces(h: number): void {
+    if (this.airDensity <= 0 || this.dragCoefficient === 0) return;
+
+    const v = this.velocities;
+    for (let t = 0; t < this.indices.length / 3; t++) {
+      const ids = [0, 1, 2].map(k => this.indices[t * 3 + k]);
+      const [a, b, c] = ids.map(p => this.particle(p));
+      const cross = Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a));
+      const twiceArea = Vec3.length(cross);
+      if (twiceArea < 1e-12) continue;
+
+      const normal = Vec3.scale(cross, 1 / twiceArea);
+      const relative = { x: this.winds[t * 3], y: this.winds[t * 3 + 1], z: this.winds[t * 3 + 2] };
+      for (const p of ids) {
+        relative.x -= v[p * 3] / 3;
+        relative.y -= v[p * 3 + 1] / 3;
+        relative.z -= v[p * 3 + 2] / 3;
+      }
+      const normalSpeed = Vec3.dot(relative, normal);
+      const force = 0.25 * this.airDensity * twiceArea * this.dragCoefficient * normalSpeed * Math.abs(normalSpeed);
+
+      for (const p of ids) {
+        const scale = (force / 3) * h * this.weights[p];
+        v[p * 3] += normal.x * scale;
+        v[p * 3 + 1] += normal.y * scale;
+        v[p * 3 + 2] += normal.z * scale;
+      }
+    }
+  }
+
+  protected solveConstraints(h: number): void {
+    if (isFinite(this.compliance)) {
+      for (let e = 0; e < this.stretchLengths.length; e++) {
+        this.solveDistance(this.stretch[e * 2], this.stretch[e * 2 + 1], this.stretchLengths[e], this.compliance, h);
+      }
+    }
+    if (isFinite(this.bendCompliance)) {
+      for (let e = 0; e < this.bendLengths.length; e++) {
+        this.solveDistance(this.bends[e * 2], this.bends[e * 2 + 1], this.bendLengths[e], this.bendCompliance, h);
+      }
+    }
+    if (this.selfCollision) {
+      this.solveSelfCollisions();
+    }
+  }
+
+  /**
+   * Push apart particles closer than the self-collision distance that were
+   * not that close at rest
+   */
+  private solveSelfCollisions(): void {
+    const x = this.positions;
+    const d = this.selfDistance;
+    this.grid.build(x);
+
+    for (let i = 0; i < this.particleCount; i++) {
+      const point = this.particle(i);
+      this.grid.query(point, d, j => {
+        if (j <= i) return;
+        const wi = this.weights[i];
+        const wj = this.weights[j];
+        if (wi + wj === 0) return;
+
+        const delta = Vec3.sub(this.particle(j), this.particle(i));
+        const distance = Vec3.length(delta);
+        if (distance >= d || distance < 1e-12) return;
+        if (Vec3.distance(this.restPoint(i), this.restPoint(j)) < d) return;
+
+        const push = Vec3.scale(delta, (d - distance) / distance / (wi + wj));
+        for (const [axis, offset] of [[0, 'x'], [1, 'y'], [2, 'z']] as const) {
+          x[i * 3 + axis] -= push[offset] * wi;
+          x[j * 3 + axis] += push[offset] * wj;
+        }
+      });
+    }
+  }
+
+  private restPoint(index: number): Vector3 {
+    const r = this.restPositions;
+    return { x: r[index * 3], y: r[index * 3 + 1], z: r[index * 3 + 2] };
+  }
+
+  private restLengths(pairs: Int32Array): Float64Array {
+    const lengths = new Float64Array(pairs.length / 2);
+    for (let e = 0; e < lengths.length; e++) {
+      lengths[e] = Vec3.distance(this.particle(pairs[e * 2]), this.particle(pairs[e * 2 + 1]));
+    }
+    return lengths;
+  }
+}
+
+// ============================================================================
+// Fluids
+// ============================================================================
+
+/**
+ * Collision body of a bare point, for contact probes and neighbour searches
+ */
+function pointBody(id: string, radius: number): CollisionBody {
+  const collider: SphereCollider = {
+    type: 'sphere',
+    radius,
+    offset: Vec3.create(),
+    rotation: Quat.identity(),
+    isTrigger: false
+  };
+  return {
+    id,
+    position: Vec3.create(),
+    rotation: Quat.identity(),
+    velocity: Vec3.create(),
+    angularVelocity: Vec3.create(),
+    collider,
+    aabb: AABBUtils.create(),
+    isStatic: false,
+    isKinematic: false,
+    isSleeping: false,
+    collisionGroup: 1,
+    collisionMask: 0xffffffff,
+    mass: 1,
+    invMass: 1,
+    inertia: Mat3.identity(),
+    invInertia: Mat3.identity(),
+    friction: 0.5,
+    restitution: 0
+  };
+}
+
+/**
+ * Position-based fluid (Macklin & Müller 2013). Each substep moves the
+ * particles so that no SPH density estimate exceeds the rest density: the
+ * liquid resists compression while its free surface spreads. Neighbours are
+ * gathered once a step from a SpatialHashGrid of point proxies. Rigid bodies
+ * meet the particles through the usual contacts, so they float, sink and get
+ * pushed around by the flow.
+ */
+export class Fluid extends ParticleBody {
+  readonly restDensity: number; // kg/m³
+  readonly smoothingRadius: number;
+  readonly densities: Float64Array; // kg/m³ per particle, at the last substep
+  readonly pressures: Float64Array; // Pa per particle, at the last substep
+  viscosity: number; // Pa·s
+
+  private readonly kernelMass: number; // Particle mass in the density sum, so the initial lattice is at rest
+  private readonly relaxation: number;
+  private readonly compliance: number; // Per unit volume, 1 / bulk modulus
+  private readonly poly6Scale: number;
+  private readonly spikyScale: number;
+  private readonly grid: SpatialHashGrid;
+  private readonly proxies: CollisionBody[];
+
+  // Neighbours of particle i are neighbours[neighbourStart[i]] up to neighbours[neighbourStart[i + 1]]
+  private readonly neighbourStart: Int32Array;
+  private neighbours: Int32Array = new Int32Array(0);
+
+  // Tangent planes of the colliders within the smoothing radius of each
+  // particle, found once a step: solids stand in for the neighbours they displace
+  private readonly boundaryStart: Int32Array;
+  private boundaryBodies: CollisionBody[] = [];
+  private boundaryPlanes: Float64Array = new Float64Array(0); // Surface point and outward normal, 6 per plane
+  private boundaryImpulses: Float64Array = new Float64Array(0); // Pressure on each plane's body over the step
+
+  // Scratch space for the Jacobi passes
+  private readonly lambdas: Float64Array;
+  private readonly corrections: Float64Array;
+
+  constructor(
+    id: string,
+    positions: Float64Array,
+    masses: Float64Array,
+    inverseMasses: Float64Array,
+    options: ParticleBodyOptions & { restDensity: number; spacing: number; viscosity: number; stiffness: number }
+  ) {
+    const count = masses.length;
+    const surfaceParticles = new Int32Array(count * 4);
+    const surfaceWeights = new Float64Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      surfaceParticles.fill(i, i * 4, i * 4 + 4);
+      surfaceWeights[i * 4] = 1;
+    }
+    super(id, positions, masses, inverseMasses, surfaceParticles, surfaceWeights, [], options);
+
+    const radius = options.spacing * FLUID_KERNEL_RATIO;
+    this.restDensity = options.restDensity;
+    this.smoothingRadius = radius;
+    this.viscosity = options.viscosity;
+    this.compliance = options.stiffness > 0 ? 1 / options.stiffness : Infinity;
+    this.poly6Scale = 315 / (64 * Math.PI * radius ** 9);
+    this.spikyScale = -45 / (Math.PI * radius ** 6);
+
+    // Kernel sums around an interior particle of the initial lattice
+    const reach = Math.ceil(FLUID_KERNEL_RATIO);
+    let kernelSum = 0;
+    let gradientSum = 0;
+    for (let i = -reach; i <= reach; i++) {
+      for (let j = -reach; j <= reach; j++) {
+        for (let k = -reach; k <= reach; k++) {
+          const r2 = (i * i + j * j + k * k) * options.spacing * options.spacing;
+          const g = this.kernelGradient(Math.sqrt(r2));
+          kernelSum += this.kernel(r2);
+          gradientSum += g * g * r2;
+        }
+      }
+    }
+    this.kernelMass = this.restDensity / kernelSum;
+    const meanWeight = this.totalMass > 0 ? count / this.totalMass : 0;
+    this.relaxation = FLUID_RELAXATION * meanWeight * gradientSum * (this.kernelMass / this.restDensity) ** 2;
+
+    this.densities = new Float64Array(count).fill(this.restDensity);
+    this.pressures = new Float64Array(count);
+    this.grid = new SpatialHashGrid(radius);
+    this.proxies = Array.from({ length: count }, (_, i) => pointBody(String(i), 0));
+    this.neighbourStart = new Int32Array(count + 1);
+    this.boundaryStart = new Int32Array(count + 1);
+    this.lambdas = new Float64Array(count);
+    this.corrections = new Float64Array(count * 3);
+  }
+
+  reset(): void {
+    super.reset();
+    this.densities.fill(this.restDensity);
+    this.pressures.fill(0);
+  }
+
+  /**
+   * As ParticleBody.simulate, with the colliders near each particle counted in
+   * its density. Their pressure on dynamic bodies is added to the reactions.
+   */
+  simulate(
+    dt: number,
+    candidates: CollisionBody[],
+    probe: CollisionBody,
+    anchors: Map<string, CollisionBody>,
+    reactions: Map<string, ParticleContactImpulse>
+  ): void {
+    this.findBoundaries(candidates, probe);
+    super.simulate(dt, candidates, probe, anchors, reactions);
+
+    for (let b = 0; b < this.boundaryBodies.length; b++) {
+      const body = this.boundaryBodies[b];
+      const impulse = { x: this.boundaryImpulses[b * 3], y: this.boundaryImpulses[b * 3 + 1], z: this.boundaryImpulses[b * 3 + 2] };
+      if (body.isStatic || body.isKinematic || Vec3.isZero(impulse)) continue;
+
+      const point = { x: this.boundaryPlanes[b * 6], y: this.boundaryPlanes[b * 6 + 1], z: this.boundaryPlanes[b * 6 + 2] };
+      body.velocity = Vec3.add(body.velocity, Vec3.scale(impulse, body.invMass));
+      const key = `${body.id}\0~${b}`;
+      const reaction = reactions.get(key);
+      if (reaction) {
+        reaction.impulse = Vec3.add(reaction.impulse, impulse);
+      } else {
+        reactions.set(key, { bodyId: body.id, impulse, displacement: Vec3.create(), point });
+      }
+    }
+  }
+
+  /**
+   * Swept bounds reaching out to the smoothing radius, for the colliders that
+   * count in the density
+   */
+  sweptBounds(dt: number): AABB {
+    return AABBUtils.expand(super.sweptBounds(dt), this.smoothingRadius);
+  }
+
+  protected beginStep(dt: number): void {
+    this.findNeighbours(dt);
+  }
+
+  /**
+   * Viscous forces between neighbours (Morris et al. 1997) plus XSPH
+   * smoothing, explicit, with each particle's exchange capped where it would
+   * overshoot its neighbours
+   */
+  protected applyExternalForces(h: number): void {
+    const x = this.positions;
+    const v = this.velocities;
+    const radius2 = this.smoothingRadius * this.smoothingRadius;
+    const volume = this.kernelMass / this.restDensity;
+    // Δv_i = 2ν h Σ_j V_j (x_ij · ∇W_ij) / (r² + η²) v_ij, with ν = μ / ρ0
+    const scale = ((2 * this.viscosity) / this.restDensity) * volume * h;
+    this.corrections.fill(0);
+
+    for (let i = 0; i < this.particleCount; i++) {
+      if (this.weights[i] === 0) continue;
+      let total = 0;
+      let cx = 0;
+      let cy = 0;
+      let cz = 0;
+      for (let e = this.neighbourStart[i]; e < this.neighbourStart[i + 1]; e++) {
+        const j = this.neighbours[e];
+        const dx = x[i * 3] - x[j * 3];
+        const dy = x[i * 3 + 1] - x[j * 3 + 1];
+        const dz = x[i * 3 + 2] - x[j * 3 + 2];
+        const r2 = dx * dx + dy * dy + dz * dz;
+        const k =
+          (-scale * this.kernelGradient(Math.sqrt(r2)) * r2) / (r2 + 0.01 * radius2) +
+          FLUID_XSPH * volume * this.kernel(r2);
+        if (k <= 0) continue;
+        total += k;
+        cx += k * (v[j * 3] - v[i * 3]);
+        cy += k * (v[j * 3 + 1] - v[i * 3 + 1]);
+        cz += k * (v[j * 3 + 2] - v[i * 3 + 2]);
+      }
+      const limit = total > 0.5 ? 0.5 / total : 1;
+      this.corrections[i * 3] = cx * limit;
+      this.corrections[i * 3 + 1] = cy * limit;
+      this.corrections[i * 3 + 2] = cz * limit;
+    }
+
+    for (let k = 0; k < v.length; k++) v[k] += this.corrections[k];
+  }
+
+  /**
+   * One Jacobi pass over the density constraints C_i = ρ_i / ρ0 - 1 ≤ 0
+   */
+  protected solveConstraints(h: number): void {
+    const x = this.positions;
+    const w = this.weights;
+    const volume = this.kernelMass / this.restDensity; // ∇C = volume × ∇W
+    const alpha = this.compliance / (volume * h * h);
+
+    for (let i = 0; i < this.particleCount; i++) {
+      let density = this.kernel(0);
+      let gx = 0;
+      let gy = 0;
+      let gz = 0;
+      let others = 0; // Σ_j w_j |∇_j C_i|²
+      for (let e = this.neighbourStart[i]; e < this.neighbourStart[i + 1]; e++) {
+        const j = this.neighbours[e];
+        const dx = x[i * 3] - x[j * 3];
+        const dy = x[i * 3 + 1] - x[j * 3 + 1];
+        const dz = x[i * 3 + 2] - x[j * 3 + 2];
+        const r2 = dx * dx + dy * dy + dz * dz;
+        const g = this.kernelGradient(Math.sqrt(r2)) * volume;
+        density += this.kernel(r2);
+        gx += g * dx;
+        gy += g * dy;
+        gz += g * dz;
+        others += w[j] * g * g * r2;
+      }
+      density *= this.kernelMass;
+
+      // Solids count as liquid at rest density beyond their tangent planes
+      for (let b = this.boundaryStart[i]; b < this.boundaryStart[i + 1]; b++) {
+        const d = this.planeDistance(i, b);
+        const slope = this.boundaryKernelSlope(d);
+        density += this.restDensity * this.boundaryKernel(d);
+        gx += slope * this.boundaryPlanes[b * 6 + 3];
+        gy += slope * this.boundaryPlanes[b * 6 + 4];
+        gz += slope * this.boundaryPlanes[b * 6 + 5];
+      }
+      this.densities[i] = density;
+
+      const c = density / this.restDensity - 1;
+      this.lambdas[i] = c > 0 ? -c / (w[i] * (gx * gx + gy * gy + gz * gz) + others + this.relaxation + alpha) : 0;
+      // The applied share of the multiplier is the pressure impulse over the substep: p = -ωλ / (V h²)
+      this.pressures[i] = (-this.lambdas[i] * FLUID_JACOBI_WEIGHT) / (volume * h * h);
+    }
+
+    // Δx_i = w_i Σ_j (λ_i + λ_j) ∇_i C
+    for (let i = 0; i < this.particleCount; i++) {
+      let cx = 0;
+      let cy = 0;
+      let cz = 0;
+      if (w[i] > 0) {
+        for (let e = this.neighbourStart[i]; e < this.neighbourStart[i + 1]; e++) {
+          const j = this.neighbours[e];
+          const lambda = this.lambdas[i] + this.lambdas[j];
+          if (lambda === 0) continue;
+          const dx = x[i * 3] - x[j * 3];
+          const dy = x[i * 3 + 1] - x[j * 3 + 1];
+          const dz = x[i * 3 + 2] - x[j * 3 + 2];
+          const g = this.kernelGradient(Math.sqrt(dx * dx + dy * dy + dz * dz)) * volume * lambda;
+          cx += g * dx;
+          cy += g * dy;
+          cz += g * dz;
+        }
+      }
+
+      // The solids push back with the particle's own multiplier, and are pushed in turn
+      for (let b = this.boundaryStart[i]; b < this.boundaryStart[i + 1] && this.lambdas[i] !== 0; b++) {
+        const push = this.boundaryKernelSlope(this.planeDistance(i, b)) * this.lambdas[i];
+        for (let axis = 0; axis < 3; axis++) {
+          const component = push * this.boundaryPlanes[b * 6 + 3 + axis];
+          if (w[i] > 0) {
+            if (axis === 0) cx += component;
+            else if (axis === 1) cy += component;
+            else cz += component;
+          }
+          this.boundaryImpulses[b * 3 + axis] -= (component * FLUID_JACOBI_WEIGHT) / h;
+        }
+      }
+      this.corrections[i * 3] = cx * w[i];
+      this.corrections[i * 3 + 1] = cy * w[i];
+      this.corrections[i * 3 + 2] = cz * w[i];
+    }
+
+    for (let k = 0; k < x.length; k++) x[k] += this.corrections[k] * FLUID_JACOBI_WEIGHT;
+  }
+
+  /**
+   * Gather each particle's neighbours for the coming step. The search reaches
+   * past the smoothing radius by as far as two particles can close in during
+   * the step, up to twice the radius.
+   */
+  private findNeighbours(dt: number): void {
+    const v = this.velocities;
+    let fastest = 0;
+    for (let i = 0; i < v.length; i += 3) {
+      fastest = Math.max(fastest, v[i] * v[i] + v[i + 1] * v[i + 1] + v[i + 2] * v[i + 2]);
+    }
+    const radius = this.smoothingRadius + Math.min(this.smoothingRadius, 2 * Math.sqrt(fastest) * dt);
+
+    // Rebuilt in particle order so the lists come out the same after a restore
+    this.grid.clear();
+    for (let i = 0; i < this.particleCount; i++) {
+      const proxy = this.proxies[i];
+      proxy.position = this.particle(i);
+      proxy.aabb = AABBUtils.fromCenterExtents(proxy.position, Vec3.create());
+      this.grid.insert(proxy);
+    }
+
+    // Particles in the same cell share one query of the cell grown by the search radius
+    const size = this.smoothingRadius;
+    const cells = new Map<string, number[]>();
+    for (let i = 0; i < this.particleCount; i++) {
+      const key = [0, 1, 2].map(axis => Math.floor(this.positions[i * 3 + axis] / size)).join(',');
+      const members = cells.get(key);
+      if (members) members.push(i);
+      else cells.set(key, [i]);
+    }
+
+    const lists: number[][] = new Array(this.particleCount);
+    for (const [key, members] of cells) {
+      const [cx, cy, cz] = key.split(',').map(Number);
+      const box = AABBUtils.create(
+        { x: cx * size - radius, y: cy * size - radius, z: cz * size - radius },
+        { x: (cx + 1) * size + radius, y: (cy + 1) * size + radius, z: (cz + 1) * size + radius }
+      );
+      const candidates = this.grid.queryAABB(box).map(Number);
+      for (const i of members) {
+        const point = this.proxies[i].position;
+        lists[i] = candidates.filter(j => j !== i && Vec3.distanceSquared(this.proxies[j].position, point) <= radius * radius);
+      }
+    }
+
+    const neighbours: number[] = [];
+    for (let i = 0; i < this.particleCount; i++) {
+      this.neighbourStart[i] = neighbours.length;
+      for (const j of lists[i]) neighbours.push(j);
+    }
+    this.neighbourStart[this.particleCount] = neighbours.length;
+    this.neighbours = Int32Array.from(neighbours);
+  }
+
+  /**
+   * Nearest point and outward normal of each collider within the smoothing
+   * radius of each particle, taken as planes for the rest of the step
+   */
+  private findBoundaries(candidates: CollisionBody[], probe: CollisionBody): void {
+    const collider = probe.collider as SphereCollider;
+    const contactRadius = collider.radius;
+    const radius = this.smoothingRadius;
+    const bodies: CollisionBody[] = [];
+    const planes: number[] = [];
+    collider.radius = radius;
+
+    for (let i = 0; i < this.particleCount; i++) {
+      this.boundaryStart[i] = bodies.length;
+      const point = this.particle(i);
+      probe.position = point;
+      probe.aabb = AABBUtils.fromCenterExtents(point, { x: radius, y: radius, z: radius });
+      for (const body of candidates) {
+        if (body.collider.type !== 'plane' && !AABBUtils.intersects(probe.aabb, body.aabb)) continue;
+        const manifold = NarrowPhase.testCollision(probe, body);
+        if (!manifold || manifold.isTrigger || manifold.penetration <= 0) continue;
+
+        // The normal points into the body, whose surface is radius - penetration away along it
+        const n = manifold.normal;
+        const distance = radius - manifold.penetration;
+        bodies.push(body);
+        planes.push(point.x + n.x * distance, point.y + n.y * distance, point.z + n.z * distance, -n.x, -n.y, -n.z);
+      }
+    }
+
+    this.boundaryStart[this.particleCount] = bodies.length;
+    collider.radius = contactRadius;
+    this.boundaryBodies = bodies;
+    this.boundaryPlanes = Float64Array.from(planes);
+    this.boundaryImpulses = new Float64Array(bodies.length * 3);
+  }
+
+  /**
+   * Signed distance of a particle from a boundary plane, positive outside the solid
+   */
+  private planeDistance(i: number, b: number): number {
+    const x = this.positions;
+    const plane = this.boundaryPlanes;
+    return (
+      (x[i * 3] - plane[b * 6]) * plane[b * 6 + 3] +
+      (x[i * 3 + 1] - plane[b * 6 + 1]) * plane[b * 6 + 4] +
+      (x[i * 3 + 2] - plane[b * 6 + 2]) * plane[b * 6 + 5]
+    );
+  }
+
+  /**
+   * Share of the poly6 kernel beyond a plane at signed distance d, ∫_{z > d} W dV
+   */
+  private boundaryKernel(d: number): number {
+    const radius = this.smoothingRadius;
+    if (d >= radius) return 0;
+    if (d <= -radius) return 1;
+    if (d < 0) return 1 - this.boundaryKernel(-d);
+
+    // π/4 × poly6Scale × ∫_d^R (R² - z²)⁴ dz
+    const r2 = radius * radius;
+    const antiderivative = (z: number) => {
+      const z2 = z * z;
+      return z * (r2 ** 4 - z2 * ((4 * r2 ** 3) / 3 - z2 * ((6 * r2 * r2) / 5 - z2 * ((4 * r2) / 7 - z2 / 9))));
+    };
+    return (Math.PI / 4) * this.poly6Scale * (antiderivative(radius) - antiderivative(d));
+  }
+
+  /**
+   * Derivative of boundaryKernel with respect to the distance
+   */
+  private boundaryKernelSlope(d: number): number {
+    const u = this.smoothingRadius * this.smoothingRadius - d * d;
+    return u > 0 ? -(Math.PI / 4) * this.poly6Scale * u ** 4 : 0;
+  }
+
+  /**
+   * Poly6 kernel W from the squared distance
+   */
+  private kernel(r2: number): number {
+    const d = this.smoothingRadius * this.smoothingRadius - r2;
+    return d > 0 ? this.poly6Scale * d * d * d : 0;
+  }
+
+  /**
+   * Spiky kernel slope over distance, so that ∇W_ij = kernelGradient(r) (x_i - x_j)
+   */
+  private kernelGradient(r: number): number {
+    const d = this.smoothingRadius - r;
+    return d > 0 && r > 1e-12 ? (this.spikyScale * d * d) / r : 0;
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Triangle surface a soft body is built around, in the body's local frame
+ */
+interface SurfaceMesh {
+  vertices: Vector3[];
+  indices: number[];
+}
+
+/**
+ * Builds soft bodies from object configuration
+ */
+export class SoftBodyFactory {
+  /**
+   * Particle body of a 'soft-body', 'rope', 'cloth' or 'fluid' object, or null
+   * when the config does not describe one
+   */
+  static fromObjectConfig(id: string, config: ObjectConfig, mass: number): ParticleBody | null {
+    switch (config.type) {
+      case 'soft-body':
+        return SoftBodyFactory.softBody(id, config, mass);
+      case 'rope':
+        return SoftBodyFactory.rope(id, config, mass);
+      case 'cloth':
+        return SoftBodyFactory.cloth(id, config, mass);
+      case 'fluid':
+        return SoftBodyFactory.fluid(id, config, mass);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Tetrahedralise the config's shape ('box' unless ObjectConfig.shape says
+   * otherwise, or 'mesh' when vertices are given) into a lattice of about
+   * particleCount particles, placed at the config's pose. Returns null when
+   * the shape has no usable surface.
+   */
+  static softBody(id: string, config: ObjectConfig, mass: number): SoftBody | null {
+    const scale = SoftBodyFactory.parseVector3(config.scale) ?? { x: 1, y: 1, z: 1 };
+    const particleCount = Math.max(1, Math.floor(config.particleCount ?? DEFAULT_PARTICLE_COUNT));
+    const surface = SoftBodyFactory.surface(config, scale, particleCount);
+    if (!surface) return null;
+
+    const lattice = SoftBodyFactory.lattice(surface, particleCount);
+    if (!lattice) return null;
+
+    // Split the mass over the particles by the volume of the tetrahedra they belong to
+    const count = lattice.positions.length / 3;
+    const masses = new Float64Array(count);
+    const immovable = config.isStatic || config.isKinematic;
+    const volumes: number[] = [];
+    let totalVolume = 0;
+    for (let t = 0; t < lattice.tetrahedra.length; t += 4) {
+      const [a, b, c, d] = [0, 1, 2, 3].map(k => SoftBodyFactory.point(lattice.positions, lattice.tetrahedra[t + k]));
+      const volume = Math.abs(Vec3.dot(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)), Vec3.sub(d, a))) / 6;
+      volumes.push(volume);
+      totalVolume += volume;
+    }
+    for (let t = 0; t < volumes.length; t++) {
+      for (let k = 0; k < 4; k++) {
+        masses[lattice.tetrahedra[t * 4 + k]] += (mass * volumes[t]) / totalVolume / 4;
+      }
+    }
+    const inverseMasses = masses.map(m => (immovable || m <= 0 ? 0 : 1 / m));
+    for (const index of config.fixedParticles ?? []) {
+      if (index >= 0 && index < count) inverseMasses[index] = 0;
+    }
+
+    // Place the lattice at the object's pose
+    const position = SoftBodyFactory.parseVector3(config.position) ?? Vec3.create();
+    const rotation = SoftBodyFactory.parseQuaternion(config.rotation) ?? Quat.identity();
+    for (let i = 0; i < count; i++) {
+      const world = Vec3.add(position, Quat.rotateVector(rotation, SoftBodyFactory.point(lattice.positions, i)));
+      lattice.positions[i * 3] = world.x;
+      lattice.positions[i * 3 + 1] = world.y;
+      lattice.positions[i * 3 + 2] = world.z;
+    }
+
+    return new SoftBody(id, { ...lattice, masses, inverseMasses }, {
+      stiffness: config.stiffness ?? DEFAULT_STIFFNESS,
+      damping: config.damping ?? DEFAULT_DAMPING,
+      substeps: config.substeps ?? DEFAULT_SUBSTEPS,
+      contactMargin: Math.max(MIN_CONTACT_MARGIN, lattice.spacing * CONTACT_MARGIN_RATIO),
+      velocity: SoftBodyFactory.parseVector3(config.velocity) ?? Vec3.create(),
+      origin: position
+    });
+  }
+
+  /**
+   * Rope of `length` (default 1) in `segments` (default 16) equal segments.
+   * Particle 0 is at the config's position and the rope hangs straight down
+   * its local -y axis from there.
+   */
+  static rope(id: string, config: ObjectConfig, mass: number): Rope | null {
+    const length = config.length ?? DEFAULT_ROPE_LENGTH;
+    const segments = Math.max(1, Math.floor(config.segments ?? DEFAULT_ROPE_SEGMENTS));
+    if (!(length > 0)) return null;
+
+    const count = segments + 1;
+    const position = SoftBodyFactory.parseVector3(config.position) ?? Vec3.create();
+    const rotation = SoftBodyFactory.parseQuaternion(config.rotation) ?? Quat.identity();
+    const positions = new Float64Array(count * 3);
+    for (let i = 0; i < count; i++) {
+      const world = Vec3.add(position, Quat.rotateVector(rotation, { x: 0, y: (-length * i) / segments, z: 0 }));
+      positions[i * 3] = world.x;
+      positions[i * 3 + 1] = world.y;
+      positions[i * 3 + 2] = world.z;
+    }
+
+    // Each segment's mass is split between its two ends
+    const masses = new Float64Array(count);
+    for (let i = 0; i < segments; i++) {
+      masses[i] += mass / segments / 2;
+      masses[i + 1] += mass / segments / 2;
+    }
+    const immovable = config.isStatic || config.isKinematic;
+    const inverseMasses = masses.map(m => (immovable || m <= 0 ? 0 : 1 / m));
+    for (const index of config.fixedParticles ?? []) {
+      if (index >= 0 && index < count) inverseMasses[index] = 0;
+    }
+
+    const radius = config.radius ?? DEFAULT_ROPE_RADIUS;
+    return new Rope(id, positions, masses, inverseMasses, {
+      stiffness: config.stiffness ?? DEFAULT_ROPE_STIFFNESS,
+      bendStiffness: config.bendStiffness ?? DEFAULT_BEND_STIFFNESS,
+      radius,
+      damping: config.damping ?? DEFAULT_DAMPING,
+      substeps: config.substeps ?? DEFAULT_SUBSTEPS,
+      contactMargin: Math.max(MIN_CONTACT_MARGIN, radius),
+      velocity: SoftBodyFactory.parseVector3(config.velocity) ?? Vec3.create(),
+      origin: position
+    });
+  }
+
+  /**
+   * Sheet of `width` × `height` (default 1 × 1) in the local x-y plane, centred
+   * on the config's position, with `segments` cells along its longer side.
+   * Particles run row by row from the top-left corner, so the top edge is
+   * particles 0 to columns - 1.
+   */
+  static cloth(id: string, config: ObjectConfig, mass: number): Cloth | null {
+    const width = config.width ?? 1;
+    const height = config.height ?? 1;
+    if (!(width > 0) || !(height > 0)) return null;
+
+    const segments = Math.max(1, Math.floor(config.segments ?? DEFAULT_CLOTH_SEGMENTS));
+    const cellsX = width >= height ? segments : Math.max(1, Math.round((segments * width) / height));
+    const cellsY = height > width ? segments : Math.max(1, Math.round((segments * height) / width));
+    const columns = cellsX + 1;
+    const count = columns * (cellsY + 1);
+
+    const position = SoftBodyFactory.parseVector3(config.position) ?? Vec3.create();
+    const rotation = SoftBodyFactory.parseQuaternion(config.rotation) ?? Quat.identity();
+    const positions = new Float64Array(count * 3);
+    for (let row = 0; row <= cellsY; row++) {
+      for (let column = 0; column < columns; column++) {
+        const local = { x: width * (column / cellsX - 0.5), y: height * (0.5 - row / cellsY), z: 0 };
+        const world = Vec3.add(position, Quat.rotateVector(rotation, local));
+        positions.set([world.x, world.y, world.z], (row * columns + column) * 3);
+      }
+    }
+
+    // Each cell's mass is split between its four corners
+    const masses = new Float64Array(count);
+    const cellMass = mass / (cellsX * cellsY) / 4;
+    for (let row = 0; row < cellsY; row++) {
+      for (let column = 0; column < cellsX; column++) {
+        const p = row * columns + column;
+        for (const corner of [p, p + 1, p + columns, p + columns + 1]) masses[corner] += cellMass;
+      }
+    }
+    const immovable = config.isStatic || config.isKinematic;
+    const inverseMasses = masses.map(m => (immovable || m <= 0 ? 0 : 1 / m));
+    for (const index of config.fixedParticles ?? []) {
+      if (index >= 0 && index < count) inverseMasses[index] = 0;
+    }
+
+    const thickness = config.depth ?? DEFAULT_CLOTH_THICKNESS;
+    return new Cloth(id, positions, masses, inverseMasses, columns, {
+      stiffness: config.stiffness ?? DEFAULT_CLOTH_STIFFNESS,
+      bendStiffness: config.bendStiffness ?? DEFAULT_BEND_STIFFNESS,
+      thickness,
+      dragCoefficient: config.dragCoefficient ?? DEFAULT_CLOTH_DRAG,
+      selfCollision: config.selfCollision ?? false,
+      damping: config.damping ?? DEFAULT_DAMPING,
+      substeps: config.substeps ?? DEFAULT_SUBSTEPS,
+      contactMargin: Math.max(MIN_CONTACT_MARGIN, thickness),
+      velocity: SoftBodyFactory.parseVector3(config.velocity) ?? Vec3.create(),
+      origin: position
+    });
+  }
+
+  /**
+   * Liquid filling the config's shape ('box' unless ObjectConfig.shape says
+   * otherwise) with about particleCount particles on a cubic lattice, placed
+   * at the config's pose. The rest density is the config's density, or the
+   * mass over the shape's volume. Returns null when the shape has no usable
+   * surface.
+   */
+  static fluid(id: string, config: ObjectConfig, mass: number): Fluid | null {
+    const scale = SoftBodyFactory.parseVector3(config.scale) ?? { x: 1, y: 1, z: 1 };
+    const particleCount = Math.max(1, Math.floor(config.particleCount ?? DEFAULT_FLUID_PARTICLE_COUNT));
+    const surface = SoftBodyFactory.surface(config, scale, particleCount);
+    if (!surface) return null;
+
+    let volume = 0;
+    for (let t = 0; t + 2 < surface.indices.length; t += 3) {
+      const [a, b, c] = [0, 1, 2].map(k => surface.vertices[surface.indices[t + k]]);
+      volume += Vec3.dot(a, Vec3.cross(b, c)) / 6;
+    }
+    volume = Math.abs(volume);
+    if (!(volume > 0)) return null;
+
+    // Cell centres inside the surface, on a lattice centred in its bounds
+    const spacing = Math.cbrt(volume / particleCount);
+    const bounds = AABBUtils.fromPoints(surface.vertices);
+    const centre = AABBUtils.center(bounds);
+    const size = AABBUtils.size(bounds);
+    const cells = {
+      x: Math.max(1, Math.round(size.x / spacing)),
+      y: Math.max(1, Math.round(size.y / spacing)),
+      z: Math.max(1, Math.round(size.z / spacing))
+    };
+    const position = SoftBodyFactory.parseVector3(config.position) ?? Vec3.create();
+    const rotation = SoftBodyFactory.parseQuaternion(config.rotation) ?? Quat.identity();
+    const points: number[] = [];
+    for (let j = 0; j < cells.y; j++) {
+      for (let k = 0; k < cells.z; k++) {
+        for (let i = 0; i < cells.x; i++) {
+          const local = {
+            x: centre.x + (i - (cells.x - 1) / 2) * spacing,
+            y: centre.y + (j - (cells.y - 1) / 2) * spacing,
+            z: centre.z + (k - (cells.z - 1) / 2) * spacing
+          };
+          if (!SoftBodyFactory.insideSurface(local, surface)) continue;
+          const world = Vec3.add(position, Quat.rotateVector(rotation, local));
+          points.push(world.x, world.y, world.z);
+        }
+      }
+    }
+    const count = points.length / 3;
+    if (count === 0) return null;
+
+    const masses = new Float64Array(count).fill(mass / count);
+    const immovable = config.isStatic || config.isKinematic;
+    const inverseMasses = masses.map(m => (immovable || m <= 0 ? 0 : 1 / m));
+    for (const index of config.fixedParticles ?? []) {
+      if (index >= 0 && index < count) inverseMasses[index] = 0;
+    }
+
+    return new Fluid(id, Float64Array.from(points), masses, inverseMasses, {
+      restDensity: config.density ?? mass / volume,
+      spacing,
+      viscosity: config.viscosity ?? DEFAULT_FLUID_VISCOSITY,
+      stiffness: config.stiffness ?? DEFAULT_FLUID_STIFFNESS,
+      damping: config.damping ?? 0,
+      substeps: config.substeps ?? DEFAULT_FLUID_SUBSTEPS,
+      contactMargin: Math.max(MIN_CONTACT_MARGIN, spacing / 2),
+      velocity: SoftBodyFactory.parseVector3(config.velocity) ?? Vec3.create(),
+      origin: position
+    });
+  }
+
+  /**
+   * Closed triangle surface of the config's shape, scaled
+   */
+  private static surface(config: ObjectConfig, scale: Vector3, particleCount: number): SurfaceMesh | null {
+    const shape: ObjectType = config.shape ?? (config.vertices?.length ? 'mesh' : 'box');
+    const radius = config.radius ?? 1;
+    const height = config.height ?? 1;
+    const segments = Math.max(3, Math.floor(config.segments ?? DEFAULT_SEGMENTS));
+    let mesh: SurfaceMesh | null;
+
+    switch (shape) {
+      case 'box': {
+        // Scaled up front so the faces get one vertex per lattice node
+        const half = Vec3.multiply({ x: (config.width ?? 1) / 2, y: height / 2, z: (config.depth ?? 1) / 2 }, scale);
+        return SoftBodyFactory.box(half, SoftBodyFactory.cellCounts(Vec3.scale(half, 2), particleCount));
+      }
+
+      case 'sphere': {
+        const rings = Math.max(2, Math.round(segments / 2));
+        const profile: [number, number][] = [];
+        for (let i = 0; i <= rings; i++) {
+          const phi = (Math.PI * i) / rings;
+          profile.push([i === 0 || i === rings ? 0 : radius * Math.sin(phi), -radius * Math.cos(phi)]);
+        }
+        mesh = SoftBodyFactory.lathe(profile, segments);
+        break;
+      }
+
+      case 'cylinder':
+        mesh = SoftBodyFactory.lathe([[0, -height / 2], [radius, -height / 2], [radius, height / 2], [0, height / 2]], segments);
+        break;
+
+      case 'cone':
+        // Same frame as the cone collider: base at -h/4, apex at 3h/4
+        mesh = SoftBodyFactory.lathe([[0, -height / 4], [radius, -height / 4], [0, (3 * height) / 4]], segments);
+        break;
+
+      case 'capsule': {
+        const rings = Math.max(1, Math.round(segments / 4));
+        const profile: [number, number][] = [[0, -height / 2 - radius]];
+        for (let i = 1; i <= rings; i++) {
+          const phi = (Math.PI / 2) * (i / rings);
+          profile.push([radius * Math.sin(phi), -height / 2 - radius * Math.cos(phi)]);
+        }
+        for (let i = 0; i < rings; i++) {
+          const phi = (Math.PI / 2) * (i / rings);
+          profile.push([radius * Math.cos(phi), height / 2 + radius * Math.sin(phi)]);
+        }
+        profile.push([0, height / 2 + radius]);
+        mesh = SoftBodyFactory.lathe(profile, segments);
+        break;
+      }
+
+      case 'mesh':
+      case 'convex-hull':
+        mesh = config.vertices?.length && config.indices && config.indices.length >= 12
+          ? { vertices: config.vertices.map(v => ({ ...v })), indices: [...config.indices] }
+          : null;
+        break;
+
+      default:
+        mesh = null;
+    }
+
+    if (!mesh) return null;
+    mesh.vertices = mesh.vertices.map(v => Vec3.multiply(v, scale));
+    return mesh;
+  }
+
+  /**
+   * Box whose faces are split into a grid matching the lattice cells, so that
+   * the surface has vertices (and contacts) at every boundary particle
+   */
+  private static box(half: Vector3, divisions: Vector3): SurfaceMesh {
+    const vertices: Vector3[] = [];
+    const indices: number[] = [];
+    const shared = new Map<string, number>();
+    const axes: (keyof Vector3)[] = ['x', 'y', 'z'];
+
+    for (let a = 0; a < 3; a++) {
+      for (const sign of [-1, 1]) {
+        // u × v points out of the face
+        const [u, v] = sign > 0
+          ? [axes[(a + 1) % 3], axes[(a + 2) % 3]]
+          : [axes[(a + 2) % 3], axes[(a + 1) % 3]];
+        const [nu, nv] = [divisions[u], divisions[v]];
+        const grid: number[] = [];
+        for (let j = 0; j <= nv; j++) {
+          for (let i = 0; i <= nu; i++) {
+            const point = { x: 0, y: 0, z: 0 };
+            point[axes[a]] = sign * half[axes[a]];
+            point[u] = half[u] * ((2 * i) / nu - 1);
+            point[v] = half[v] * ((2 * j) / nv - 1);
+            const key = `${point.x},${point.y},${point.z}`;
+            if (!shared.has(key)) {
+              shared.set(key, vertices.length);
+              vertices.push(point);
+            }
+            grid.push(shared.get(key)!);
+          }
+        }
+        for (let j = 0; j < nv; j++) {
+          for (let i = 0; i < nu; i++) {
+            const p00 = grid[j * (nu + 1) + i];
+            const p10 = grid[j * (nu + 1) + i + 1];
+            const p01 = grid[(j + 1) * (nu + 1) + i];
+            const p11 = grid[(j + 1) * (nu + 1) + i + 1];
+            indices.push(p00, p10, p11, p00, p11, p01);
+          }
+        }
+      }
+    }
+
+    return { vertices, indices };
+  }
+
+  /**
+   * Surface of revolution around y from a (radius, y) profile running from the
+   * bottom to the top; points with radius 0 become poles
+   */
+  private static lathe(profile: [number, number][], segments: number): SurfaceMesh {
+    const vertices: Vector3[] = [];
+    const rings: number[][] = [];
+
+    for (const [r, y] of profile) {
+      const ring: number[] = [];
+      if (r === 0) {
+        const pole = vertices.length;
+        vertices.push({ x: 0, y, z: 0 });
+        for (let k = 0; k < segments; k++) ring.push(pole);
+      } else {
+        for (let k = 0; k < segments; k++) {
+          const theta = (2 * Math.PI * k) / segments;
+          ring.push(vertices.length);
+          vertices.push({ x: r * Math.cos(theta), y, z: r * Math.sin(theta) });
+        }
+      }
+      rings.push(ring);
+    }
+
+    const indices: number[] = [];
+    for (let i = 0; i + 1 < rings.length; i++) {
+      for (let k = 0; k < segments; k++) {
+        const a = rings[i][k];
+        const b = rings[i][(k + 1) % segments];
+        const d = rings[i + 1][k];
+        const c = rings[i + 1][(k + 1) % segments];
+        if (d !== c) indices.push(a, d, c);
+        if (a !== b) indices.push(a, c, b);
+      }
+    }
+
+    return { vertices, indices };
+  }
+
+  /**
+   * Regular lattice over the surface bounds, keeping the cells whose centre is
+   * inside the surface or that hold a surface vertex, split into Kuhn
+   * tetrahedra. Each surface vertex is embedded in a tetrahedron of its cell.
+   */
+  private static lattice(surface: SurfaceMesh, targetCount: number): {
+    positions: Float64Array;
+    edges: Int32Array;
+    tetrahedra: Int32Array;
+    surfaceParticles: Int32Array;
+    surfaceWeights: Float64Array;
+    indices: number[];
+    spacing: number;
+  } | null {
+    const bounds = AABBUtils.fromPoints(surface.vertices);
+    const size = Vec3.max(AABBUtils.size(bounds), { x: 1e-3, y: 1e-3, z: 1e-3 });
+    const cells = SoftBodyFactory.cellCounts(size, targetCount);
+    const cell = { x: size.x / cells.x, y: size.y / cells.y, z: size.z / cells.z };
+    const cellIndex = (i: number, j: number, k: number) => i + cells.x * (k + cells.z * j);
+    const cellOf = (p: Vector3): [number, number, number] => [
+      Math.min(cells.x - 1, Math.max(0, Math.floor((p.x - bounds.min.x) / cell.x))),
+      Math.min(cells.y - 1, Math.max(0, Math.floor((p.y - bounds.min.y) / cell.y))),
+      Math.min(cells.z - 1, Math.max(0, Math.floor((p.z - bounds.min.z) / cell.z)))
+    ];
+
+    // Cells in the solid
+    const kept = new Uint8Array(cells.x * cells.y * cells.z);
+    for (const vertex of surface.vertices) {
+      kept[cellIndex(...cellOf(vertex))] = 1;
+    }
+    for (let j = 0; j < cells.y; j++) {
+      for (let k = 0; k < cells.z; k++) {
+        for (let i = 0; i < cells.x; i++) {
+          if (kept[cellIndex(i, j, k)]) continue;
+          const centre = {
+            x: bounds.min.x + (i + 0.5) * cell.x,
+            y: bounds.min.y + (j + 0.5) * cell.y,
+            z: bounds.min.z + (k + 0.5) * cell.z
+          };
+          if (SoftBodyFactory.insideSurface(centre, surface)) kept[cellIndex(i, j, k)] = 1;
+        }
+      }
+    }
+
+    // Number the nodes the kept cells use, x fastest, then z, then y
+    const nodes = { x: cells.x + 1, y: cells.y + 1, z: cells.z + 1 };
+    const nodeIndex = (i: number, j: number, k: number) => i + nodes.x * (k + nodes.z * j);
+    const particleOf = new Int32Array(nodes.x * nodes.y * nodes.z).fill(-1);
+    for (let j = 0; j < cells.y; j++) {
+      for (let k = 0; k < cells.z; k++) {
+        for (let i = 0; i < cells.x; i++) {
+          if (!kept[cellIndex(i, j, k)]) continue;
+          for (let corner = 0; corner < 8; corner++) {
+            particleOf[nodeIndex(i + (corner & 1), j + ((corner >> 1) & 1), k + ((corner >> 2) & 1))] = 0;
+          }
+        }
+      }
+    }
+    const positions: number[] = [];
+    for (let j = 0; j < nodes.y; j++) {
+      for (let k = 0; k < nodes.z; k++) {
+        for (let i = 0; i < nodes.x; i++) {
+          const node = nodeIndex(i, j, k);
+          if (particleOf[node] < 0) continue;
+          particleOf[node] = positions.length / 3;
+          positions.push(bounds.min.x + i * cell.x, bounds.min.y + j * cell.y, bounds.min.z + k * cell.z);
+        }
+      }
+    }
+    if (positions.length === 0) return null;
+
+    // Tetrahedra (positively oriented) and their unique edges
+    const tetrahedra: number[] = [];
+    const firstTetrahedron = new Int32Array(kept.length).fill(-1);
+    const edgeKeys = new Set<number>();
+    const edges: number[] = [];
+    const count = positions.length / 3;
+    const at = (p: number): Vector3 => ({ x: positions[p * 3], y: positions[p * 3 + 1], z: positions[p * 3 + 2] });
+
+    for (let j = 0; j < cells.y; j++) {
+      for (let k = 0; k < cells.z; k++) {
+        for (let i = 0; i < cells.x; i++) {
+          if (!kept[cellIndex(i, j, k)]) continue;
+          firstTetrahedron[cellIndex(i, j, k)] = tetrahedra.length / 4;
+          // Mirroring the split in alternate cells keeps shared faces matching and the lattice unbiased
+          const mirror = (i & 1) | ((j & 1) << 1) | ((k & 1) << 2);
+          for (const corners of KUHN_TETRAHEDRA) {
+            const tet = corners.map(corner => {
+              const c = corner ^ mirror;
+              return particleOf[nodeIndex(i + (c & 1), j + ((c >> 1) & 1), k + ((c >> 2) & 1))];
+            });
+            const [a, b, c, d] = tet.map(at);
+            if (Vec3.dot(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)), Vec3.sub(d, a)) < 0) {
+              [tet[2], tet[3]] = [tet[3], tet[2]];
+            }
+            tetrahedra.push(...tet);
+            for (const [p, q] of TETRAHEDRON_EDGES) {
+              const lo = Math.min(tet[p], tet[q]);
+              const hi = Math.max(tet[p], tet[q]);
+              if (edgeKeys.has(lo * count + hi)) continue;
+              edgeKeys.add(lo * count + hi);
+              edges.push(lo, hi);
+            }
+          }
+        }
+      }
+    }
+
+    // Barycentric embedding of the surface in the tetrahedron of its cell that contains it best
+    const surfaceParticles = new Int32Array(surface.vertices.length * 4);
+    const surfaceWeights = new Float64Array(surface.vertices.length * 4);
+    surface.vertices.forEach((vertex, v) => {
+      const first = firstTetrahedron[cellIndex(...cellOf(vertex))];
+      let best: number[] | null = null;
+      let bestScore = -Infinity;
+      for (let t = first; t < first + KUHN_TETRAHEDRA.length; t++) {
+        const tet = tetrahedra.slice(t * 4, t * 4 + 4);
+        const weights = SoftBodyFactory.barycentric(vertex, tet.map(at));
+        const score = Math.min(...weights);
+        if (score > bestScore) {
+          bestScore = score;
+          best = [...tet, ...weights];
+        }
+      }
+      for (let k = 0; k < 4; k++) {
+        surfaceParticles[v * 4 + k] = best![k];
+        surfaceWeights[v * 4 + k] = best![4 + k];
+      }
+    });
+
+    return {
+      positions: Float64Array.from(positions),
+      edges: Int32Array.from(edges),
+      tetrahedra: Int32Array.from(tetrahedra),
+      surfaceParticles,
+      surfaceWeights,
+      indices: [...surface.indices],
+      spacing: Math.min(cell.x, cell.y, cell.z)
+    };
+  }
+
+  /**
+   * Cells per axis of a lattice over a region of the given size with about
+   * targetCount nodes, in cubes as close to equal as the size allows
+   */
+  private static cellCounts(size: Vector3, targetCount: number): Vector3 {
+    const h = Math.cbrt((size.x * size.y * size.z) / targetCount);
+    return {
+      x: Math.max(1, Math.round(size.x / h) - 1),
+      y: Math.max(1, Math.round(size.y / h) - 1),
+      z: Math.max(1, Math.round(size.z / h) - 1)
+    };
+  }
+
+  /**
+   * Ray parity test: a point is inside a closed surface if a ray from it crosses an odd number of triangles
+   */
+  private static insideSurface(point: Vector3, surface: SurfaceMesh): boolean {
+    let crossings = 0;
+    for (let t = 0; t + 2 < surface.indices.length; t += 3) {
+      const a = surface.vertices[surface.indices[t]];
+      const b = surface.vertices[surface.indices[t + 1]];
+      const c = surface.vertices[surface.indices[t + 2]];
+      const e1 = Vec3.sub(b, a);
+      const e2 = Vec3.sub(c, a);
+      const p = Vec3.cross(PARITY_RAY, e2);
+      const det = Vec3.dot(e1, p);
+      if (Math.abs(det) < 1e-12) continue;
+
+      const s = Vec3.sub(point, a);
+      const u = Vec3.dot(s, p) / det;
+      if (u < 0 || u > 1) continue;
+      const q = Vec3.cross(s, e1);
+      const w = Vec3.dot(PARITY_RAY, q) / det;
+      if (w < 0 || u + w > 1) continue;
+      if (Vec3.dot(e2, q) / det > 0) crossings++;
+    }
+    return crossings % 2 === 1;
+  }
+
+  private static barycentric(point: Vector3, [a, b, c, d]: Vector3[]): number[] {
+    const e1 = Vec3.sub(b, a);
+    const e2 = Vec3.sub(c, a);
+    const e3 = Vec3.sub(d, a);
+    const q = Vec3.sub(point, a);
+    const det = Vec3.dot(e1, Vec3.cross(e2, e3));
+    const w1 = Vec3.dot(q, Vec3.cross(e2, e3)) / det;
+    const w2 = Vec3.dot(e1, Vec3.cross(q, e3)) / det;
+    const w3 = Vec3.dot(e1, Vec3.cross(e2, q)) / det;
+    return [1 - w1 - w2 - w3, w1, w2, w3];
+  }
+
+  private static point(values: Float64Array, index: number): Vector3 {
+    return { x: values[index * 3], y: values[index * 3 + 1], z: values[index * 3 + 2] };
+  }
+
+  private static parseVector3(value?: Vector3 | [number, number, number]): Vector3 | undefined {
+    if (!value) return undefined;
+    return Array.isArray(value) ? { x: value[0], y: value[1], z: value[2] } : { ...value };
+  }
+
+  private static parseQuaternion(value?: Quaternion | [number, number, number, number]): Quaternion | undefined {
+    if (!value) return undefined;
+    return Array.isArray(value) ? { x: value[0], y: value[1], z: value[2], w: value[3] } : { ...value };
+  }
+}
+
+// ============================================================================
+// Soft Body System
+// ============================================================================
+
+/**
+ * Steps every particle body in id order against the rigid colliders of a
+ * CollisionSystem. Particle bodies collide with rigid bodies, not with each
+ * other, and can be attached to rigid bodies by their collision bodies.
+ */
+export class SoftBodySystem {
+  private bodies: Map<string, ParticleBody> = new Map();
+  private probe: CollisionBody;
+
+  constructor() {
+    this.probe = pointBody('', MIN_CONTACT_MARGIN);
+  }
+
+  get count(): number {
+    return this.bodies.size;
+  }
+
+  add(body: ParticleBody): void {
+    this.bodies.set(body.id, body);
+  }
+
+  remove(id: string): boolean {
+    return this.bodies.delete(id);
+  }
+
+  get(id: string): ParticleBody | undefined {
+    return this.bodies.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.bodies.has(id);
+  }
+
+  getAll(): ParticleBody[] {
+    return Array.from(this.bodies.values());
+  }
+
+  reset(): void {
+    for (const body of this.bodies.values()) body.reset();
+  }
+
+  clear(): void {
+    this.bodies.clear();
+  }
+
+  /**
+   * Advance every body by dt. The collision bodies of dynamic rigid bodies are
+   * pushed back as they are hit; the returned reactions carry the same push and
+   * impulse for their objects, in a deterministic order.
+   */
+  step(dt: number, collisions: CollisionSystem): ParticleContactImpulse[] {
+    const reactions = new Map<string, ParticleContactImpulse>();
+    const ids = Array.from(this.bodies.keys()).sort();
+
+    for (const id of ids) {
+      const body = this.bodies.get(id)!;
+      const probe = this.probe;
+      probe.id = id;
+      probe.collisionGroup = body.collisionGroup;
+      probe.collisionMask = body.collisionMask;
+      probe.friction = body.friction;
+      (probe.collider as SphereCollider).radius = body.contactMargin;
+
+      const candidates = collisions
+        .queryBodies(body.sweptBounds(dt), probe)
+        .filter(other => other.id !== id && !other.collider.isTrigger);
+      const anchors = new Map<string, CollisionBody>();
+      for (const { bodyId } of body.getAttachments()) {
+        const anchor = bodyId === null ? undefined : collisions.getBody(bodyId);
+        if (anchor) anchors.set(anchor.id, anchor);
+      }
+      body.simulate(dt, candidates, probe, anchors, reactions);
+    }
+
+    return Array.from(reactions.values());
+  }
+}
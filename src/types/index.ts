@@ -38,17 +38,44 @@ export interface Matrix4 {
 // ============================================================================
 
 export type Precision = 'low' | 'medium' | 'high' | 'scientific';
-export type Integrator = 'euler' | 'verlet' | 'runge-kutta-4' | 'symplectic';
+export type Integrator = 'euler' | 'verlet' | 'runge-kutta-4' | 'rk45' | 'symplectic';
 
 export interface EngineConfig {
   precision?: Precision;
   integrator?: Integrator;
   timeStep?: number;
   maxSubSteps?: number;
-  enableMultithreading?: boolean;
+  enableMultithreading?: boolean; // test narrow-phase pairs on Node worker threads; single-threaded where unavailable
+  workerCount?: number; // worker threads for enableMultithreading; 0 picks one per spare core
+  workerModule?: string | URL; // built engine file the workers import; defaults to the one running, not saved in scenes
   deterministicMode?: boolean;
   sleepThreshold?: number;
   sleepTimeThreshold?: number;
+  tolerance?: number; // local error tolerance for adaptive integration (rk45)
+  adaptiveTimeStep?: boolean; // pick each step's dt from impacts, spring stiffness and energy drift
+  minTimeStep?: number;
+  maxTimeStep?: number;
+  stepTolerance?: number; // relative energy error per step allowed by adaptive time stepping
+  continuousCollisionDetection?: boolean; // sweep every dynamic object, not only those opted in
+  broadPhase?: BroadPhaseType;
+  seed?: number; // seeds engine.random and noise fields; random when deterministicMode is off and no seed is given
+}
+
+/** Seeded pseudo-random numbers: the same seed gives the same sequence on every run */
+export interface RandomSource {
+  next(): number; // uniform in [0, 1)
+  range(min: number, max: number): number;
+  int(min: number, max: number): number; // inclusive
+  gaussian(mean?: number, stdDev?: number): number;
+  unitVector(): Vector3;
+  vector(min: Vector3, max: Vector3): Vector3;
+}
+
+/** Result of advancing the engine by real elapsed time in fixed sub-steps */
+export interface AdvanceResult {
+  steps: number; // fixed steps taken
+  alpha: number; // blend factor between the previous and current step, 0..1
+  droppedTime: number; // seconds discarded because maxSubSteps was reached
 }
 
 export interface SimulationSnapshot {
@@ -57,6 +84,34 @@ export interface SimulationSnapshot {
   constraints: Map<string, ConstraintState>;
   forces: Map<string, ForceConfig>;
   worldStats: WorldStats;
+
+  // Everything else restoreSnapshot needs to continue the run bit for bit.
+  // Maps and arrays are kept in engine order, which the solvers depend on.
+  objectConfigs: Map<string, ObjectConfig>; // config each object was created from
+  objectProperties: Map<string, ObjectConfig>; // current toJSON(): material, damping, flags, collision settings
+  constraintData: Map<string, Record<string, unknown>>; // every constraint field, including warm-start impulses
+  constraintConfigs: Map<string, ConstraintConfig>; // config each constraint was created from
+  constraintPairs: Map<string, [string, string]>; // constraint id -> bodies kept from colliding
+  contacts: ContactManifoldState[];
+  ignoredPairs: IgnoredPairState[];
+  sleepingIslands: string[][];
+  previousTransforms: Map<string, { position: Vector3; rotation: Quaternion }>;
+  deformables: Map<string, DeformableState>; // particles of soft bodies, ropes and cloth
+  emitters: Map<string, ParticleEmitterState>; // live particles of particle systems
+  environment: EnvironmentConfig;
+  engine: EngineSnapshotState;
+}
+
+/** Engine clock and id counters captured in a snapshot */
+export interface EngineSnapshotState {
+  deltaTime: number;
+  accumulator: number;
+  adaptiveDt: number;
+  interpolationAlpha: number;
+  objectIdCounter: number;
+  forceIdCounter: number;
+  constraintIdCounter: number;
+  randomState: number;
 }
 
 // ============================================================================
@@ -201,6 +256,8 @@ export interface ObjectConfig {
   // Collision
   collisionGroup?: number;
   collisionMask?: number;
+  collisionLayer?: string; // Named layer, registered on first use; overrides collisionGroup
+  collisionDetection?: CollisionDetectionMode; // 'continuous' sweeps fast movers so they can't tunnel
   
   // Additional properties
   charge?: number;
@@ -210,11 +267,52 @@ export interface ObjectConfig {
   // Compound object
   children?: ObjectConfig[];
   
-  // Soft body / Rope / Cloth specific
-  stiffness?: number;
-  damping?: number;
-  particleCount?: number;
-  fixedParticles?: number[];
+  // Soft body / Rope / Cloth / Fluid specific
+  stiffness?: number; // N/m per edge (Pa of bulk modulus for fluids); Infinity makes edges inextensible
+  bendStiffness?: number; // N/m resisting bending of ropes and cloth
+  selfCollision?: boolean; // Keep a cloth's particles from passing through each other
+  damping?: number; // 1/s, damps particle motion relative to the body's mean velocity
+  particleCount?: number; // Target lattice size for soft bodies and fluids
+  viscosity?: number; // Pa·s, of a fluid (default 1e-3, water)
+  fixedParticles?: number[]; // Particles pinned in place
+  substeps?: number; // XPBD substeps per engine step (default 10)
+  shape?: ObjectType; // Primitive a soft body or fluid is built from; 'box', or 'mesh' when vertices are given
+
+  // Particle system specific
+  emitter?: ParticleEmitterConfig;
+}
+
+/** Region new particles start in, in the emitter object's local frame */
+export type EmitterShape = 'point' | 'sphere' | 'box' | 'disc';
+
+/** A one-off spawn of count particles, time seconds after the emitter starts */
+export interface ParticleBurst {
+  time: number;
+  count: number;
+}
+
+/**
+ * Emission of a 'particle-system' object. Particles leave from the object's
+ * pose and fly on their own: the object itself can be static, kinematic or
+ * dynamic. A number or a [min, max] range drawn uniformly per particle.
+ */
+export interface ParticleEmitterConfig {
+  rate?: number; // particles/s (default 100)
+  bursts?: ParticleBurst[];
+  duration?: number; // s of continuous emission (default Infinity)
+  lifetime?: number | [number, number]; // s (default 2)
+  maxParticles?: number; // Live particles at most; spawns beyond are dropped (default 1000)
+  shape?: EmitterShape; // default 'point'
+  radius?: number; // Of a 'sphere' or 'disc' (in the local x-z plane)
+  size?: Vector3 | [number, number, number]; // Full extents of a 'box'
+  direction?: Vector3 | [number, number, number]; // Local launch direction (default +y)
+  spread?: number; // rad, half-angle of the cone launch directions fill (default 0)
+  speed?: number | [number, number]; // m/s (default 1)
+  inheritVelocity?: number; // Share of the object's velocity particles start with (default 0)
+  particleMass?: number; // kg, for force fields (default 0.001)
+  particleRadius?: number; // m, for air drag and collisions (default 0.01)
+  collide?: boolean; // Bounce off static colliders with the object's material (default false)
+  seed?: number; // Own random sequence; by default derived from the engine seed and object id
 }
 
 export interface SimObject {
@@ -257,6 +355,7 @@ export interface SimObject {
   // Collision
   collisionGroup: number;
   collisionMask: number;
+  collisionDetection: CollisionDetectionMode;
   
   // Additional
   charge: number;
@@ -268,6 +367,9 @@ export interface SimObject {
   readonly momentum: Vector3;
   readonly angularMomentum: Vector3;
   readonly boundingBox: BoundingVolume;
+
+  // Particle geometry of soft bodies, ropes, cloth, fluids and particle systems; null for rigid objects
+  deformable: DeformableGeometry | null;
   
   // Methods
   applyForce(force: Vector3, point?: Vector3): void;
@@ -308,6 +410,43 @@ export interface ObjectState {
   // Momentum
   momentum: Vector3;
   angularMomentum: Vector3;
+
+  // Restored by restoreState when present (engine snapshots always include them)
+  isSleeping?: boolean;
+  sleepTime?: number;
+  mass?: number;
+  material?: PhysicsMaterial;
+  accumulatedForce?: Vector3;
+  accumulatedTorque?: Vector3;
+
+  // Deformed surface of soft bodies, ropes and cloth, or live particles of a particle system, in world space
+  vertices?: Vector3[];
+}
+
+/**
+ * World-space geometry of a particle-based object. The vertices move with the
+ * particles; the indices (triangles) stay fixed for the object's lifetime.
+ * Particle systems have no indices, and their vertex count follows the live particles.
+ */
+export interface DeformableGeometry {
+  readonly vertexCount: number;
+  getVertices(alpha?: number): Vector3[]; // alpha blends from the previous step, as in getInterpolatedStates
+  getIndices(): number[];
+}
+
+/** Particle positions and velocities of a deformable object, x, y, z per particle */
+export interface DeformableState {
+  positions: number[];
+  velocities: number[];
+}
+
+/** Live particles of an emitter and where it is in its emission */
+export interface ParticleEmitterState extends DeformableState {
+  ages: number[]; // s per particle
+  lifetimes: number[]; // s per particle
+  elapsed: number; // s since the emitter started
+  pending: number; // Fraction of a particle owed by the emission rate
+  randomState: number;
 }
 
 // ============================================================================
@@ -380,6 +519,7 @@ export interface ForceConfig {
   frequency?: number;
   amplitude?: number;
   octaves?: number;
+  seed?: number; // defaults to the engine seed
 }
 
 export interface AppliedForce {
@@ -431,7 +571,7 @@ export interface ConstraintConfig {
   anchorB?: Vector3 | [number, number, number];
   
   axis?: Vector3 | [number, number, number];
-  secondaryAxis?: Vector3; // for universal joint
+  secondaryAxis?: Vector3 | [number, number, number]; // bodyB axis for universal and gear joints
   
   limits?: ConstraintLimits;
   
@@ -451,6 +591,10 @@ export interface ConstraintConfig {
   
   // Rope specific
   maxLength?: number;
+
+  particle?: number; // Particle of a soft body or rope to pin (default: the one nearest the anchor)
+
+  collideConnected?: boolean; // Let the joined bodies collide with each other (default false)
 }
 
 export interface ConstraintState {
@@ -468,6 +612,7 @@ export interface ConstraintState {
 // ============================================================================
 
 export type CollisionDetectionMode = 'discrete' | 'continuous';
+export type BroadPhaseType = 'sap' | 'spatial-hash' | 'dynamic-tree';
 
 export interface ContactPoint {
   position: Vector3;
@@ -477,6 +622,31 @@ export interface ContactPoint {
   normalForce: number;
   frictionForce: Vector3;
   penetrationDepth: number;
+  // Compound bodies: index into ObjectConfig.children of the touching child shape
+  // (for concave decompositions, the index of the touching hull)
+  childA?: number;
+  childB?: number;
+  // Combined material of the touching shapes when it differs from the bodies' own
+  friction?: number;
+  restitution?: number;
+}
+
+/** An active contact manifold as captured in a snapshot, normal pointing from bodyA to bodyB */
+export interface ContactManifoldState {
+  bodyA: string;
+  bodyB: string;
+  contacts: ContactPoint[];
+  normal: Vector3;
+  penetration: number;
+  isTrigger: boolean;
+  anchors?: { localA: Vector3; localB: Vector3 }[];
+}
+
+/** A pair excluded from collision, counted once per rule (e.g. per joining constraint) */
+export interface IgnoredPairState {
+  bodyA: string;
+  bodyB: string;
+  count: number;
 }
 
 export interface CollisionInfo {
@@ -515,6 +685,7 @@ export interface RaycastHit {
   distance: number;
   triangleIndex?: number;
   uv?: Vector2;
+  timeOfImpact?: number; // Shape casts: distance / |direction|, the hit time when direction is a velocity
 }
 
 export interface RaycastOptions {
@@ -525,6 +696,18 @@ export interface RaycastOptions {
   sortByDistance?: boolean;
 }
 
+export interface DistanceResult {
+  distance: number; // Negative when the shapes overlap: minus the penetration depth
+  pointA: Vector3; // Point on A nearest B (deepest point of A inside B when overlapping)
+  pointB: Vector3;
+  normal: Vector3; // Unit direction from A towards B
+}
+
+export interface ClosestPair extends DistanceResult {
+  objectA: string;
+  objectB: string;
+}
+
 export interface OverlapResult {
   objectId: string;
   penetrationDepth: number;
@@ -558,6 +741,7 @@ export interface WorldStats {
   sleepingObjects: number;
   contactPairs: number;
   stepTime: number;
+  timeStep: number; // dt of the last step in seconds (varies with adaptiveTimeStep)
 }
 
 export interface RecordedData {
@@ -776,6 +960,7 @@ export interface ScriptContext {
   world: World;
   time: number;
   deltaTime: number;
+  random: RandomSource;
   
   // Helper methods
   applyForce(name: string, config: Partial<ForceConfig>): void;
@@ -785,6 +970,57 @@ export interface ScriptContext {
   destroy(): void;
 }
 
+// ============================================================================
+// SCENE TYPES
+// ============================================================================
+
+/** A function stored in a scene by the name it was registered under */
+export interface SceneFunctionRef {
+  $fn: string;
+}
+
+/** A number JSON cannot represent */
+export interface SceneNumber {
+  $number: 'Infinity' | '-Infinity' | 'NaN';
+}
+
+/** A config as written to a scene: functions become references, numbers may be non-finite */
+export type SceneValue<T> = T extends (...args: any[]) => any
+  ? SceneFunctionRef
+  : T extends number
+    ? number | SceneNumber
+    : T extends object
+      ? { [K in keyof T]: SceneValue<T[K]> }
+      : T;
+
+export interface SceneScript {
+  object?: string; // attached object, omitted for global scripts
+  name: string; // name the script is registered under
+  state?: Record<string, unknown>;
+  enabled?: boolean;
+}
+
+export interface SceneCollision {
+  layers?: string[]; // in bit order, so layer groups keep their values
+  disabledLayerPairs?: [string, string][];
+  ignoredPairs?: [string, string, number?][]; // set with ignoreCollision, not by constraints; count when more than once
+}
+
+/** A whole world as a versioned, shareable JSON document */
+export interface SceneDocument {
+  format: 'asimulate-scene';
+  version: number;
+  name?: string;
+  engine?: SceneValue<EngineConfig>;
+  time?: number;
+  environment?: SceneValue<EnvironmentConfig>;
+  collision?: SceneCollision;
+  objects: SceneValue<ObjectConfig>[];
+  constraints?: SceneValue<ConstraintConfig>[];
+  forces?: SceneValue<ForceConfig>[];
+  scripts?: SceneScript[];
+}
+
 // ============================================================================
 // WORLD / ENGINE INTERFACE
 // ============================================================================
@@ -796,6 +1032,7 @@ export interface World {
   readonly isRunning: boolean;
   readonly isPaused: boolean;
   readonly objectCount: number;
+  readonly random: RandomSource;
   
   // Object management
   addObject(config: ObjectConfig): SimObject;
@@ -817,14 +1054,28 @@ export interface World {
   setEnvironment(config: EnvironmentConfig): void;
   getEnvironment(): EnvironmentConfig;
   
+  // Collision filtering
+  defineCollisionLayer(name: string): number;
+  getCollisionLayerMask(...names: string[]): number;
+  setLayerCollision(layerA: string, layerB: string, enabled: boolean): void;
+  ignoreCollision(objectA: string, objectB: string, ignore?: boolean): void;
+  setShouldCollide(hook: ((a: SimObject, b: SimObject) => boolean) | null): void;
+  
   // Queries
   raycast(origin: Vector3, direction: Vector3, options?: RaycastOptions): RaycastHit[];
-  sphereCast(origin: Vector3, radius: number, direction: Vector3, maxDistance?: number): RaycastHit[];
-  boxCast(origin: Vector3, halfExtents: Vector3, direction: Vector3, maxDistance?: number): RaycastHit[];
+  sphereCast(origin: Vector3, radius: number, direction: Vector3, options?: RaycastOptions | number): RaycastHit[];
+  boxCast(
+    origin: Vector3,
+    halfExtents: Vector3,
+    direction: Vector3,
+    options?: RaycastOptions | number,
+    rotation?: Quaternion
+  ): RaycastHit[];
   overlapSphere(center: Vector3, radius: number): SimObject[];
   overlapBox(center: Vector3, halfExtents: Vector3, rotation?: Quaternion): SimObject[];
   closestPoint(point: Vector3, objectId: string): Vector3;
-  distanceBetween(objectA: string, objectB: string): { distance: number; pointA: Vector3; pointB: Vector3 };
+  distanceBetween(objectA: string, objectB: string): DistanceResult;
+  closestPairs(objectIds?: string[], options?: { maxDistance?: number; layerMask?: number }): ClosestPair[];
   
   // Events
   onCollisionStart(callback: CollisionCallback): () => void;
@@ -835,6 +1086,8 @@ export interface World {
   
   // Simulation control
   step(dt?: number): void;
+  advance(realDt: number): AdvanceResult;
+  getInterpolatedStates(alpha?: number): Map<string, ObjectState>;
   
   // State
   createSnapshot(): SimulationSnapshot;
@@ -856,7 +1109,21 @@ export type EngineEvent =
   | 'reset'
   | 'objectAdded'
   | 'objectRemoved'
-  | 'constraintBroken';
+  | 'constraintBroken'
+  | 'sleep'
+  | 'wake'
+  | 'warning';
+
+/**
+ * Data of a 'warning' event: something the engine worked around rather than
+ * failed on. code identifies the kind of warning, objectId the object it
+ * concerns, if any.
+ */
+export interface EngineWarning {
+  code: 'integrator-substeps' | 'no-shape' | 'workers-unavailable';
+  message: string;
+  objectId?: string;
+}
 
 export interface EngineEventData {
   type: EngineEvent;
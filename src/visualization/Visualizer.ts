@@ -285,7 +285,40 @@ export class Canvas2DRenderer implements RendererBackend {
 
       const pos = project(state.position);
 
-      if (obj.type === 'sphere') {
+      if (state.vertices && obj.type === 'rope') {
+        // Rope: a polyline through its particles
+        const points = state.vertices.map(project);
+        ctx.beginPath();
+        points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+        ctx.stroke();
+      } else if (state.vertices && obj.type === 'particle-system') {
+        // Particle system: a point cloud of its live particles, params.pointSize pixels across
+        const size = obj.params.pointSize ?? 2;
+        for (const vertex of state.vertices) {
+          const p = project(vertex);
+          ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+        }
+      } else if (state.vertices) {
+        // Deformed surface: wireframe of params.indices, or the bare vertices without them
+        const points = state.vertices.map(project);
+        const indices: number[] = obj.params.indices ?? [];
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        for (let t = 0; t + 2 < indices.length; t += 3) {
+          const [a, b, c] = [points[indices[t]], points[indices[t + 1]], points[indices[t + 2]]];
+          if (!a || !b || !c) continue;
+          ctx.moveTo(a.x, a.y);
+          ctx.lineTo(b.x, b.y);
+          ctx.lineTo(c.x, c.y);
+          ctx.closePath();
+        }
+        ctx.stroke();
+        if (indices.length < 3) {
+          for (const p of points) {
+            ctx.fillRect(p.x - 1, p.y - 1, 2, 2);
+          }
+        }
+      } else if (obj.type === 'sphere') {
         const radius = (obj.params.radius || 1) * scale;
         ctx.beginPath();
         ctx.arc(pos.x, pos.y, radius, 0, Math.PI * 2);
@@ -531,6 +564,15 @@ export class Visualizer {
     // Bounding boxes
     if (this.options.showBoundingBoxes) {
       for (const [id, state] of states) {
+        if (state.vertices?.length) {
+          const bounds = state.vertices.reduce(
+            (box, v) => ({ min: Vec3.min(box.min, v), max: Vec3.max(box.max, v) }),
+            { min: state.vertices[0], max: state.vertices[0] }
+          );
+          this.renderer.drawBox(bounds.min, bounds.max, { r: 1, g: 1, b: 0 });
+          continue;
+        }
+
         // Approximate bounding box (would need actual shape data)
         const size = 0.5;
         const min = Vec3.sub(state.position, { x: size, y: size, z: size });